@@ -5,7 +5,7 @@
 import type { Request, Response, NextFunction } from 'express';
 import { authHeaderSchema } from '../../schemas/auth.schema';
 import { verifyToken } from '../../services/auth.service';
-import { userDao } from '../../dao';
+import { membershipDao, userDao } from '../../dao';
 
 async function auth(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -65,10 +65,22 @@ async function auth(req: Request, res: Response, next: NextFunction): Promise<vo
             return;
         }
 
+        // Active organization and the roles held in it (absent without a membership)
+        const userId = String(user._id);
+        const activeOrganizationId = user.organizationId ? String(user.organizationId) : undefined;
+        const membership = activeOrganizationId
+            ? await membershipDao.findActive(userId, activeOrganizationId)
+            : null;
+
         (req as any).auth = {
-            userId: user._id?.toString(),
+            userId,
             email: user.email,
             status: user.status,
+            organizationId: membership ? activeOrganizationId : undefined,
+            roles: membership ? membership.roles : [],
+            // Request origin, recorded with audit events
+            ip: req.ip,
+            requestId: (req as any).requestId,
         };
         (req as any).user = user;
 
@@ -0,0 +1,136 @@
+/**
+ * Permission Authorization Middleware (TypeScript)
+ *
+ * `authorize(permission, resolveOrg)` resolves the organization a request
+ * targets, loads the caller's roles inside it and rejects with
+ * 403 INSUFFICIENT_PERMISSIONS unless the permission is granted. Must run after
+ * `auth` and after params validation.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import assetDao from '../../dao/asset.dao';
+import collectionDao from '../../dao/collection.dao';
+import projectDao from '../../dao/project.dao';
+import roleDao from '../../dao/role.dao';
+import savedSearchDao from '../../dao/savedSearch.dao';
+import permissionService from '../../services/permission.service';
+import type { Permission } from '../../utils/constant/permissions';
+
+type OrgResolver = (req: Request) => Promise<string | undefined>;
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+function notFound(code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = 404;
+    err.code = code;
+    return err;
+}
+
+function invalidOrganizationId(): any {
+    const err: any = new Error('Invalid organizationId');
+    err.status = 400;
+    err.code = 'VALIDATION_ERROR';
+    return err;
+}
+
+function missingOrganization(): any {
+    const err: any = new Error('No organization context for this request');
+    err.status = 403;
+    err.code = 'INSUFFICIENT_PERMISSIONS';
+    return err;
+}
+
+/**
+ * Strategies for finding the organization a request targets
+ */
+const orgFrom = {
+    body:
+        (field = 'organizationId'): OrgResolver =>
+        async (req) =>
+            (req.body || {})[field],
+    query:
+        (field = 'organizationId'): OrgResolver =>
+        async (req) =>
+            (req.query as any)?.[field],
+    param:
+        (name = 'id'): OrgResolver =>
+        async (req) =>
+            (req.params as any)?.[name],
+    asset:
+        (param = 'id'): OrgResolver =>
+        async (req) => {
+            const asset = await assetDao.findById((req.params as any)[param]);
+            if (!asset) throw notFound('ASSET_NOT_FOUND', 'Asset not found');
+            return String(asset.organizationId);
+        },
+    project:
+        (param = 'id'): OrgResolver =>
+        async (req) => {
+            const project: any = await projectDao.findById((req.params as any)[param]);
+            if (!project) throw notFound('PROJECT_NOT_FOUND', 'Project not found');
+            return String(project.organizationId);
+        },
+    collection:
+        (param = 'id'): OrgResolver =>
+        async (req) => {
+            const collection = await collectionDao.findById((req.params as any)[param]);
+            if (!collection) throw notFound('COLLECTION_NOT_FOUND', 'Collection not found');
+            return String(collection.organizationId);
+        },
+    savedSearch:
+        (param = 'id'): OrgResolver =>
+        async (req) => {
+            const savedSearch = await savedSearchDao.findById((req.params as any)[param]);
+            if (!savedSearch) throw notFound('SAVED_SEARCH_NOT_FOUND', 'Saved search not found');
+            return String(savedSearch.organizationId);
+        },
+    role:
+        (param = 'id'): OrgResolver =>
+        async (req) => {
+            const role = await roleDao.findById((req.params as any)[param]);
+            if (!role) throw notFound('ROLE_NOT_FOUND', 'Role not found');
+            return String(role.organizationId);
+        },
+};
+
+/**
+ * Require a permission inside the target organization.
+ * When the resolver yields nothing, the caller's active organization is used.
+ * On success `req.auth.organizationId` and `req.auth.roles` are narrowed to the
+ * target organization and `req.auth.permissions` is set.
+ */
+function authorize(
+    permission: Permission,
+    resolveOrg: OrgResolver = orgFrom.query(),
+): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const auth = (req as any).auth;
+
+            let organizationId = await resolveOrg(req);
+            if (!organizationId && auth.organizationId) {
+                organizationId = auth.organizationId;
+            }
+            if (!organizationId) throw missingOrganization();
+            organizationId = String(organizationId);
+            if (!OBJECT_ID_PATTERN.test(organizationId)) throw invalidOrganizationId();
+
+            const access = await permissionService.assertPermission(
+                auth.userId,
+                organizationId,
+                permission,
+            );
+
+            auth.organizationId = access.organizationId;
+            auth.roles = access.roles;
+            auth.permissions = access.permissions;
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+export { authorize, orgFrom };
+export default authorize;
@@ -70,7 +70,10 @@ function classifyError(error: any) {
 
 function extractRequestContext(req: Request) {
     const correlationId =
-        (req as any).correlationId || req.headers['x-correlation-id'] || undefined;
+        (req as any).correlationId ||
+        req.headers['x-correlation-id'] ||
+        (req as any).requestId ||
+        undefined;
     return {
         correlationId,
         method: req.method,
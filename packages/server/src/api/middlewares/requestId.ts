@@ -0,0 +1,25 @@
+/**
+ * Request ID Middleware (TypeScript)
+ *
+ * Gives every request an ID, echoed in the `X-Request-Id` response header and
+ * recorded with the audit events it causes. A well-formed `X-Request-Id` sent by a
+ * proxy or client is kept so logs can be correlated across services.
+ */
+
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+const REQUEST_ID_HEADER = 'x-request-id';
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+export default function requestId(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.headers[REQUEST_ID_HEADER];
+    const id =
+        typeof incoming === 'string' && REQUEST_ID_PATTERN.test(incoming)
+            ? incoming
+            : crypto.randomUUID();
+
+    (req as any).requestId = id;
+    res.setHeader('X-Request-Id', id);
+    next();
+}
@@ -0,0 +1,57 @@
+/**
+ * File Upload Middleware (TypeScript)
+ *
+ * Accepts one image file from a multipart request into memory. Requests that
+ * are not multipart pass through untouched, so a route can take either JSON or
+ * an upload. Multer errors become the API's own error codes.
+ */
+
+import multer from 'multer';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+
+function uploadError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+/**
+ * @param field - Form field carrying the file
+ * @param maxBytes - Largest accepted file
+ * @returns Middleware placing the file on `req.file`
+ */
+export function singleImageUpload(field: string, maxBytes: number): RequestHandler {
+    // @types/multer resolves its own copy of the Express types
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: maxBytes, files: 1 },
+        fileFilter: (_req, file, callback) => {
+            if (!file.mimetype.startsWith('image/')) {
+                callback(uploadError(400, 'INVALID_UPLOAD', 'Only image files are accepted'));
+                return;
+            }
+            callback(null, true);
+        },
+    }).single(field) as unknown as RequestHandler;
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        upload(req, res, (error: any) => {
+            if (!error) return next();
+            if (error instanceof multer.MulterError) {
+                return next(
+                    error.code === 'LIMIT_FILE_SIZE'
+                        ? uploadError(
+                              413,
+                              'UPLOAD_TOO_LARGE',
+                              `Files are limited to ${maxBytes} bytes`,
+                          )
+                        : uploadError(400, 'INVALID_UPLOAD', error.message),
+                );
+            }
+            next(error);
+        });
+    };
+}
+
+export default { singleImageUpload };
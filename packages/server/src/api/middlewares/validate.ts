@@ -17,6 +17,8 @@ function formatValidationErrors(zodError: ZodError) {
         field: issue.path.join('.') || 'root',
         message: issue.message,
         code: issue.code,
+        // Custom issues may locate the problem, e.g. the offending token of a query
+        ...(issue.code === 'custom' && issue.params ? issue.params : {}),
     }));
 
     return {
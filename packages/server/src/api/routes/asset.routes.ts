@@ -6,23 +6,53 @@
 import { Router } from 'express';
 import auth from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
+import { singleImageUpload } from '../middlewares/upload';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
 
 import controller from '../../controllers/asset.controller';
+import shareLinkController from '../../controllers/shareLink.controller';
+import bulkAssetController from '../../controllers/bulkAsset.controller';
 import {
     createAssetSchema,
     finalizeAssetSchema,
+    presignUploadPartsSchema,
+    createAssetVersionSchema,
+    finalizeAssetVersionSchema,
     updateAssetSchema,
     assetIdParamSchema,
+    assetVersionParamSchema,
+    assetProjectParamSchema,
+    assetStreamVariantParamSchema,
     listAssetsQuerySchema,
+    assetListingQuerySchema,
     addTagsSchema,
     replaceTagsSchema,
+    relocateAssetSchema,
+    transformAssetQuerySchema,
+    setPosterSchema,
 } from '../../schemas/asset.schema';
+import {
+    createShareLinkSchema,
+    shareLinkParamSchema,
+    listShareLinksQuerySchema,
+} from '../../schemas/shareLink.schema';
+import {
+    bulkAssetOperationSchema,
+    bulkJobParamSchema,
+    bulkJobQuerySchema,
+} from '../../schemas/bulkAsset.schema';
+import { searchAssetsQuerySchema } from '../../schemas/search.schema';
 import { z } from 'zod';
 import { validate as validateMw } from '../middlewares/validate';
 
 const router = Router();
 
-// All asset routes require authentication
+// Uploaded poster images are held in memory while they are converted
+const POSTER_UPLOAD_MAX_BYTES = Number(process.env.POSTER_UPLOAD_MAX_BYTES) || 10 * 1024 * 1024;
+
+// All asset routes require authentication; each route also checks a permission
+// inside the asset's organization
 router.use(auth);
 
 /**
@@ -30,7 +60,7 @@ router.use(auth);
  * /api/v1/assets/uploads:
  *   post:
  *     summary: Create asset upload request
- *     description: Creates asset record and generates presigned upload URL
+ *     description: Creates asset record and generates presigned upload URL. With `multipart` set, starts a multipart upload instead and returns its part layout; part URLs are requested from `POST /api/v1/assets/{id}/parts`.
  *     tags: [Assets]
  *     security:
  *       - bearerAuth: []
@@ -53,15 +83,21 @@ router.use(auth);
  *         description: Duplicate asset (checksum exists)
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Missing asset:write permission in the organization
  */
-router.post('/uploads', validate(createAssetSchema), controller.createUpload);
+router.post('/uploads',
+    validate(createAssetSchema),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.body()),
+    controller.createUpload
+);
 
 /**
  * @swagger
  * /api/v1/assets/{id}/finalize:
  *   post:
  *     summary: Finalize asset upload
- *     description: Validates uploaded file and triggers processing pipeline
+ *     description: Validates uploaded file and triggers processing pipeline. Multipart uploads are completed first, using the given part ETags or the parts found in storage.
  *     tags: [Assets]
  *     security:
  *       - bearerAuth: []
@@ -91,16 +127,232 @@ router.post('/uploads', validate(createAssetSchema), controller.createUpload);
  */
 router.post('/:id/finalize', 
     validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
     validate(finalizeAssetSchema),
     controller.finalizeUpload
 );
 
+/**
+ * @swagger
+ * /api/v1/assets/{id}/parts:
+ *   post:
+ *     summary: Presign multipart upload parts
+ *     description: Generates presigned upload URLs for parts of a multipart upload. Only the uploader can request them while the asset is uploading.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               partNumbers:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                   minimum: 1
+ *                 maxItems: 100
+ *                 description: Part numbers to presign
+ *             required: [partNumbers]
+ *     responses:
+ *       200:
+ *         description: Part upload URLs generated successfully
+ *       400:
+ *         description: Not a multipart upload, asset not uploading or part number out of range
+ *       403:
+ *         description: Not the uploader of this asset
+ *       404:
+ *         description: Asset not found
+ */
+router.post('/:id/parts',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    validate(presignUploadPartsSchema),
+    controller.presignUploadParts
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/parts:
+ *   get:
+ *     summary: Get multipart upload progress
+ *     description: Lists the parts already stored and the part numbers still missing, so an interrupted upload can resume
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       200:
+ *         description: Upload progress retrieved successfully
+ *       400:
+ *         description: Not a multipart upload or asset not uploading
+ *       403:
+ *         description: Not the uploader of this asset
+ *       404:
+ *         description: Asset not found
+ *       410:
+ *         description: Multipart upload no longer exists
+ */
+router.get('/:id/parts',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    controller.getUploadProgress
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/upload:
+ *   delete:
+ *     summary: Cancel upload
+ *     description: Aborts an unfinished upload (including multipart uploads) and discards the asset so its checksum can be uploaded again
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       204:
+ *         description: Upload cancelled
+ *       400:
+ *         description: Asset is not uploading
+ *       403:
+ *         description: Not the uploader of this asset
+ *       404:
+ *         description: Asset not found
+ */
+router.delete('/:id/upload',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    controller.cancelUpload
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/versions:
+ *   post:
+ *     summary: Create asset version upload request
+ *     description: Generates a presigned upload URL for the next version of an existing asset. The asset must have finished processing; the new file must keep the asset type.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateAssetVersion'
+ *     responses:
+ *       201:
+ *         description: Version upload URL generated successfully
+ *       400:
+ *         description: Invalid request data, asset still processing or asset type changed
+ *       403:
+ *         description: No permission to edit asset
+ *       404:
+ *         description: Asset not found
+ *       409:
+ *         description: Duplicate asset (checksum exists)
+ */
+router.post('/:id/versions',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    validate(createAssetVersionSchema),
+    controller.createVersionUpload
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/versions/{version}/finalize:
+ *   post:
+ *     summary: Finalize asset version upload
+ *     description: Validates the uploaded file, makes it the current version and regenerates renditions
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version number returned by the upload request
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/FinalizeAssetVersion'
+ *     responses:
+ *       200:
+ *         description: Asset version finalized successfully
+ *       400:
+ *         description: Validation failed or file not found
+ *       403:
+ *         description: Not authorized to finalize this version
+ *       404:
+ *         description: Asset or pending version not found
+ *       409:
+ *         description: Asset version changed during upload
+ *       410:
+ *         description: Upload URL has expired
+ */
+router.post('/:id/versions/:version/finalize',
+    validate(assetVersionParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    validate(finalizeAssetVersionSchema),
+    controller.finalizeVersionUpload
+);
+
 /**
  * @swagger
  * /api/v1/assets:
  *   get:
  *     summary: List assets
- *     description: Retrieve assets with filtering, pagination, and sorting
+ *     description: |
+ *       Retrieve assets with filtering, pagination, and sorting.
+ *       Every page returns `pagination.nextCursor`; pass it back as `cursor` with the same
+ *       filters and sort to read the next page. Cursor pages start right after the last
+ *       asset seen, so they stay fast at any depth and do not shift under concurrent uploads.
+ *       `page` still works but skips rows, which gets slower the deeper it goes.
  *     tags: [Assets]
  *     security:
  *       - bearerAuth: []
@@ -141,6 +393,14 @@ router.post('/:id/finalize',
  *           type: string
  *         description: Search in filename and tags
  *       - in: query
+ *         name: q
+ *         schema:
+ *           $ref: '#/components/schemas/AssetQuery'
+ *         description: |
+ *           Filter expression in the asset query language, combined with the other filters.
+ *           Example `type:video duration>60 tag:campaign-2026 -status:failed width>=1920 project:/marketing/**`.
+ *           Invalid expressions return 400 with the offending token's `position` and `token` in `details`.
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -155,6 +415,8 @@ router.post('/:id/finalize',
  *           maximum: 100
  *           default: 20
  *         description: Items per page
+ *       - $ref: '#/components/parameters/AssetCursor'
+ *       - $ref: '#/components/parameters/AssetIncludeTotal'
  *     responses:
  *       200:
  *         description: Assets retrieved successfully
@@ -162,8 +424,28 @@ router.post('/:id/finalize',
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AssetListResponse'
+ *       400:
+ *         description: Invalid filters, query expression or cursor (INVALID_CURSOR when it was issued for another sort)
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: false
+ *               error: Validation failed
+ *               code: VALIDATION_ERROR
+ *               details:
+ *                 - field: q
+ *                   message: 'Unknown field at position 11: "colour"'
+ *                   code: custom
+ *                   position: 11
+ *                   token: colour
+ *       403:
+ *         description: Missing asset:read permission in the organization
  */
-router.get('/', validate(listAssetsQuerySchema, 'query'), controller.list);
+router.get('/',
+    validate(listAssetsQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    controller.list
+);
 
 /**
  * @swagger
@@ -194,14 +476,20 @@ router.get('/', validate(listAssetsQuerySchema, 'query'), controller.list);
  *       403:
  *         description: Access denied to organization analytics
  */
-router.get('/analytics', controller.getAnalytics);
+router.get('/analytics', authorize(PERMISSIONS.ANALYTICS_READ, orgFrom.query()), controller.getAnalytics);
 
 /**
  * @swagger
  * /api/v1/assets/search:
  *   get:
  *     summary: Search assets
- *     description: Search assets by text in filename, tags, and metadata
+ *     description: |
+ *       Full-text search over filename, tags, custom metadata (including the description)
+ *       and text extracted from documents. Results are ranked by relevance; each carries
+ *       `match.score` and `match.highlights` (field, snippet and `[start, end)` offsets of
+ *       every matched term in the snippet). Facet counts by asset type, status, tag,
+ *       uploader and project are computed over all matches, not just the current page.
+ *       Non-admins only see their own uploads and non-private assets.
  *     tags: [Assets]
  *     security:
  *       - bearerAuth: []
@@ -211,19 +499,93 @@ router.get('/analytics', controller.getAnalytics);
  *         required: true
  *         schema:
  *           type: string
- *         description: Search query
+ *           minLength: 1
+ *           maxLength: 200
+ *         description: Words to match; wrap phrases in double quotes and prefix words with - to exclude them
  *       - in: query
  *         name: organizationId
- *         required: true
  *         schema:
  *           type: string
  *           pattern: '^[0-9a-fA-F]{24}$'
- *         description: Organization ID filter
+ *         description: Organization ID (defaults to the caller's current organization)
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *       - in: query
+ *         name: assetType
+ *         schema:
+ *           type: string
+ *           enum: [IMAGE, VIDEO, DOCUMENT, AUDIO, ARCHIVE, OTHER]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: access
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags, any of which must be present
+ *       - in: query
+ *         name: uploadedBy
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: facetLimit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 10
+ *         description: Maximum buckets in the tag, uploader and project facets
+ *       - $ref: '#/components/parameters/AssetCursor'
  *     responses:
  *       200:
  *         description: Search completed successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data:
+ *                 assets:
+ *                   - _id: '64b0c7f4a2c8a2b3c4d5e6f8'
+ *                     originalFilename: 'summer-hero.png'
+ *                     match:
+ *                       score: 11.2
+ *                       highlights:
+ *                         - field: originalFilename
+ *                           snippet: 'summer-hero.png'
+ *                           matches: [[0, 6]]
+ *                 facets:
+ *                   assetType: [{ value: image, count: 12 }]
+ *                   status: [{ value: completed, count: 11 }, { value: processing, count: 1 }]
+ *                   tags: [{ value: campaign, count: 7 }]
+ *                   uploadedBy: [{ value: '64b0c7f4a2c8a2b3c4d5e6f7', label: 'Ada Lovelace', count: 12 }]
+ *                   projectId: [{ value: '64b0c7f4a2c8a2b3c4d5e6f9', label: '/marketing', count: 12 }]
+ *                 pagination: { total: 12, page: 1, limit: 20, totalPages: 1, hasNext: false, hasPrev: false, nextCursor: null }
+ *       400:
+ *         description: Missing or invalid search query
  */
-router.get('/search', controller.search);
+router.get('/search', validate(searchAssetsQuerySchema, 'query'), authorize(PERMISSIONS.ASSET_READ, orgFrom.query()), controller.search);
 
 /**
  * @swagger
@@ -242,11 +604,18 @@ router.get('/search', controller.search);
  *           type: string
  *           pattern: '^[0-9a-fA-F]{24}$'
  *         description: Organization ID filter
+ *       - $ref: '#/components/parameters/AssetLimit'
+ *       - $ref: '#/components/parameters/AssetCursor'
+ *       - $ref: '#/components/parameters/AssetIncludeTotal'
  *     responses:
  *       200:
  *         description: Recent assets retrieved successfully
  */
-router.get('/recent', controller.getRecent);
+router.get('/recent',
+    validate(assetListingQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    controller.getRecent
+);
 
 /**
  * @swagger
@@ -265,11 +634,19 @@ router.get('/recent', controller.getRecent);
  *           type: string
  *           pattern: '^[0-9a-fA-F]{24}$'
  *         description: Project ID
+ *       - $ref: '#/components/parameters/AssetLimit'
+ *       - $ref: '#/components/parameters/AssetCursor'
+ *       - $ref: '#/components/parameters/AssetIncludeTotal'
  *     responses:
  *       200:
  *         description: Project assets retrieved successfully
  */
-router.get('/by-project/:projectId', controller.getByProject);
+router.get('/by-project/:projectId',
+    validate(assetProjectParamSchema, 'params'),
+    validate(assetListingQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.project('projectId')),
+    controller.getByProject
+);
 
 /**
  * @swagger
@@ -287,11 +664,82 @@ router.get('/by-project/:projectId', controller.getByProject);
  *         schema:
  *           type: string
  *         description: Tag name
+ *       - $ref: '#/components/parameters/AssetLimit'
+ *       - $ref: '#/components/parameters/AssetCursor'
+ *       - $ref: '#/components/parameters/AssetIncludeTotal'
  *     responses:
  *       200:
  *         description: Tagged assets retrieved successfully
  */
-router.get('/by-tag/:tag', controller.getByTag);
+router.get('/by-tag/:tag',
+    validate(assetListingQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    controller.getByTag
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/bulk:
+ *   post:
+ *     summary: Bulk asset operation
+ *     description: |
+ *       Apply one operation (addTags, removeTags, setAccess, moveProject, setCustomMetadata,
+ *       delete or retry) to up to 500 assets. Access is checked for every asset and each one
+ *       gets its own result. Batches above the inline limit (50 by default) run as a background
+ *       job and answer 202 with a job ID to poll.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BulkAssetOperation'
+ *     responses:
+ *       200:
+ *         description: Per-asset results with a summary
+ *       202:
+ *         description: Batch queued; poll the returned progressUrl
+ *       400:
+ *         description: Invalid operation or target project
+ *       403:
+ *         description: Insufficient permissions (delete also requires asset:delete)
+ */
+router.post('/bulk',
+    validate(bulkAssetOperationSchema),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.body()),
+    bulkAssetController.create
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/bulk/{jobId}:
+ *   get:
+ *     summary: Get bulk job progress
+ *     description: Running counts of a queued bulk operation and, once it has finished, the per-asset results. Only visible to the user who started it.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Bulk job ID returned by POST /assets/bulk
+ *     responses:
+ *       200:
+ *         description: Job status and progress
+ *       404:
+ *         description: Bulk job not found
+ */
+router.get('/bulk/:jobId',
+    validate(bulkJobParamSchema, 'params'),
+    validate(bulkJobQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    bulkAssetController.getJob
+);
 
 /**
  * @swagger
@@ -335,7 +783,11 @@ router.get('/by-tag/:tag', controller.getByTag);
  *       403:
  *         description: Access denied
  */
-router.get('/:id', validate(assetIdParamSchema, 'params'), controller.getById);
+router.get('/:id',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.getById
+);
 
 /**
  * @swagger
@@ -369,16 +821,22 @@ router.get('/:id', validate(assetIdParamSchema, 'params'), controller.getById);
  *         description: Asset not found
  */
 router.get('/:id/download', 
-    validate(assetIdParamSchema, 'params'), 
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
     controller.getDownloadUrl
 );
 
 /**
  * @swagger
- * /api/v1/assets/{id}:
- *   patch:
- *     summary: Update asset metadata
- *     description: Update asset tags, access level, or custom metadata
+ * /api/v1/assets/{id}/transform:
+ *   get:
+ *     summary: Transform image
+ *     description: |
+ *       Resize and re-encode an image asset on demand. Each variant is cached in
+ *       storage; once cached, the request redirects to a short-lived presigned URL.
+ *       Width and height are CSS pixels and are multiplied by dpr. An asset has at
+ *       most TRANSFORM_MAX_VARIANTS_PER_ASSET variants; past that, requests for new
+ *       ones are refused while the cached ones keep being served.
  *     tags: [Assets]
  *     security:
  *       - bearerAuth: []
@@ -390,9 +848,610 @@ router.get('/:id/download',
  *           type: string
  *           pattern: '^[0-9a-fA-F]{24}$'
  *         description: Asset ID
- *     requestBody:
- *       required: true
- *       content:
+ *       - in: query
+ *         name: w
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 4096
+ *         description: Target width (w or h is required)
+ *       - in: query
+ *         name: h
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 4096
+ *         description: Target height (w or h is required)
+ *       - in: query
+ *         name: fit
+ *         schema:
+ *           type: string
+ *           enum: [cover, contain, fill, inside, outside]
+ *           default: inside
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [webp, avif, jpeg]
+ *           default: webp
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 80
+ *       - in: query
+ *         name: dpr
+ *         schema:
+ *           type: number
+ *           enum: [1, 1.5, 2, 2.5, 3]
+ *           default: 1
+ *     responses:
+ *       200:
+ *         description: Rendered image (first request for this variant)
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       302:
+ *         description: Redirect to the cached variant
+ *       400:
+ *         description: Invalid parameters, asset not an image, not ready or too large, or its variant limit reached
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Asset not found
+ */
+router.get('/:id/transform',
+    validate(assetIdParamSchema, 'params'),
+    validate(transformAssetQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.transform
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/stream/master.m3u8:
+ *   get:
+ *     summary: HLS master playlist
+ *     description: |
+ *       Adaptive streaming entry point of a processed video. Variant entries are
+ *       relative, so the player requests them from this API with the same
+ *       Authorization header (e.g. hls.js `xhrSetup`).
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       200:
+ *         description: Master playlist
+ *         content:
+ *           application/vnd.apple.mpegurl:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Asset not found or no HLS stream available
+ */
+router.get('/:id/stream/master.m3u8',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.getStreamMaster
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/stream/{variant}/index.m3u8:
+ *   get:
+ *     summary: HLS variant playlist
+ *     description: Media playlist of one ladder rung; segment URIs are presigned storage URLs
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: path
+ *         name: variant
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant name from the master playlist (e.g. 720p)
+ *     responses:
+ *       200:
+ *         description: Variant playlist
+ *         content:
+ *           application/vnd.apple.mpegurl:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Asset, stream or variant not found
+ */
+router.get('/:id/stream/:variant/index.m3u8',
+    validate(assetStreamVariantParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.getStreamVariant
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/thumbnails.vtt:
+ *   get:
+ *     summary: Scrubbing thumbnails track
+ *     description: |
+ *       WebVTT track mapping time ranges of a video to sprite sheet tiles
+ *       (`<presigned sheet URL>#xywh=x,y,w,h`) for timeline scrubbing.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       200:
+ *         description: Thumbnails track
+ *         content:
+ *           text/vtt:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Asset not found or no sprites generated yet
+ */
+router.get('/:id/thumbnails.vtt',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.getThumbnailTrack
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/poster:
+ *   post:
+ *     summary: Choose video poster
+ *     description: |
+ *       Replace the poster of a processed video with the frame at a timestamp, or
+ *       with an uploaded image. Thumbnails rendered from the poster are replaced
+ *       too. The work runs in the background; the current poster is kept so the
+ *       change can be reverted.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               timestamp:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Seconds into the video
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               image:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       202:
+ *         description: Poster job queued
+ *       400:
+ *         description: Not a processed video, or no valid timestamp or image
+ *       403:
+ *         description: No permission to edit asset
+ *       404:
+ *         description: Asset not found
+ *       413:
+ *         description: Image too large
+ */
+router.post('/:id/poster',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    singleImageUpload('image', POSTER_UPLOAD_MAX_BYTES),
+    validate(setPosterSchema),
+    controller.setPoster
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/poster/revert:
+ *   post:
+ *     summary: Revert video poster
+ *     description: Bring back the poster replaced last, re-rendering its thumbnails. Reverting again returns to the newer poster.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       202:
+ *         description: Poster job queued
+ *       400:
+ *         description: Not a processed video
+ *       403:
+ *         description: No permission to edit asset
+ *       404:
+ *         description: Asset or previous poster not found
+ */
+router.post('/:id/poster/revert',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    controller.revertPoster
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/versions:
+ *   get:
+ *     summary: List asset versions
+ *     description: Retrieve the version history of an asset, newest first, with size, author and date
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     responses:
+ *       200:
+ *         description: Asset versions retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Asset not found
+ */
+router.get('/:id/versions',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.listVersions
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/versions/{version}/download:
+ *   get:
+ *     summary: Get version download URL
+ *     description: Generate presigned download URL for a specific version of an asset
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version number
+ *     responses:
+ *       200:
+ *         description: Download URL generated successfully
+ *       400:
+ *         description: Current version not ready for download
+ *       403:
+ *         description: No permission to download
+ *       404:
+ *         description: Asset or version not found
+ */
+router.get('/:id/versions/:version/download',
+    validate(assetVersionParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.asset()),
+    controller.getVersionDownloadUrl
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/versions/{version}/restore:
+ *   post:
+ *     summary: Restore asset version
+ *     description: Makes an earlier version current again by appending it to the history as a new version, then regenerates renditions
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Version number to restore
+ *     responses:
+ *       200:
+ *         description: Asset version restored successfully
+ *       400:
+ *         description: Version already current or asset still processing
+ *       403:
+ *         description: No permission to edit asset
+ *       404:
+ *         description: Asset or version not found
+ *       409:
+ *         description: Checksum used by another asset or asset changed during restore
+ */
+router.post('/:id/versions/:version/restore',
+    validate(assetVersionParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    controller.restoreVersion
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/move:
+ *   post:
+ *     summary: Move asset to another project
+ *     description: Moves the asset into another project of the same organization. Storage objects are copied server-side to keys under the new project and the old objects are purged after a grace period.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RelocateAsset'
+ *     responses:
+ *       200:
+ *         description: Asset moved successfully
+ *       400:
+ *         description: Target project not found in this organization
+ *       403:
+ *         description: No permission to edit asset
+ *       404:
+ *         description: Asset not found
+ *       409:
+ *         description: Asset is uploading or processing, or changed during the move
+ */
+router.post('/:id/move',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    validate(relocateAssetSchema),
+    controller.moveAsset
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/copy:
+ *   post:
+ *     summary: Copy asset into a project
+ *     description: Creates a new asset in a project of the same organization with server-side copies of every version and rendition. The copy belongs to the caller and starts with fresh analytics.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RelocateAsset'
+ *     responses:
+ *       201:
+ *         description: Asset copied successfully
+ *       400:
+ *         description: Target project not found in this organization
+ *       403:
+ *         description: No permission to read asset
+ *       404:
+ *         description: Asset not found
+ *       409:
+ *         description: Asset is uploading or processing
+ */
+router.post('/:id/copy',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
+    validate(relocateAssetSchema),
+    controller.copyAsset
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/shares:
+ *   post:
+ *     summary: Create share link
+ *     description: Creates a public link to the asset, optionally limited by expiry, password, download count and shared renditions. The token is only returned here; the link resolves at `GET /s/{token}`.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateShareLink'
+ *     responses:
+ *       201:
+ *         description: Share link created successfully
+ *       400:
+ *         description: Asset not ready or unknown rendition
+ *       403:
+ *         description: Public sharing disabled for the organization or no permission to share
+ *       404:
+ *         description: Asset not found
+ */
+router.post('/:id/shares',
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_SHARE, orgFrom.asset()),
+    validate(createShareLinkSchema),
+    shareLinkController.create
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/shares:
+ *   get:
+ *     summary: List share links
+ *     description: List the share links of an asset, newest first. Revoked links are included with `includeRevoked=true`.
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: query
+ *         name: includeRevoked
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Share links retrieved successfully
+ *       403:
+ *         description: No permission to share asset
+ *       404:
+ *         description: Asset not found
+ */
+router.get('/:id/shares',
+    validate(assetIdParamSchema, 'params'),
+    validate(listShareLinksQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_SHARE, orgFrom.asset()),
+    shareLinkController.list
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}/shares/{shareId}:
+ *   delete:
+ *     summary: Revoke share link
+ *     description: Revoke a share link so it no longer resolves
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *       - in: path
+ *         name: shareId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Share link ID
+ *     responses:
+ *       204:
+ *         description: Share link revoked
+ *       403:
+ *         description: No permission to share asset
+ *       404:
+ *         description: Asset or share link not found
+ *       409:
+ *         description: Share link already revoked
+ */
+router.delete('/:id/shares/:shareId',
+    validate(shareLinkParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_SHARE, orgFrom.asset()),
+    shareLinkController.revoke
+);
+
+/**
+ * @swagger
+ * /api/v1/assets/{id}:
+ *   patch:
+ *     summary: Update asset metadata
+ *     description: Update asset tags, access level, or custom metadata
+ *     tags: [Assets]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: Asset ID
+ *     requestBody:
+ *       required: true
+ *       content:
  *         application/json:
  *           schema:
  *             $ref: '#/components/schemas/UpdateAsset'
@@ -406,6 +1465,7 @@ router.get('/:id/download',
  */
 router.patch('/:id', 
     validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
     validate(updateAssetSchema),
     controller.update
 );
@@ -447,6 +1507,7 @@ router.patch('/:id',
  */
 router.post('/:id/tags',
     validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
     validate(addTagsSchema),
     controller.addTags
 );
@@ -488,6 +1549,7 @@ router.post('/:id/tags',
  */
 router.put('/:id/tags',
     validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
     validate(replaceTagsSchema),
     controller.replaceTags
 );
@@ -521,6 +1583,7 @@ router.put('/:id/tags',
  */
 router.post('/:id/retry', 
     validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_WRITE, orgFrom.asset()),
     controller.retryProcessing
 );
 
@@ -550,7 +1613,8 @@ router.post('/:id/retry',
  *         description: Asset not found
  */
 router.delete('/:id', 
-    validate(assetIdParamSchema, 'params'), 
+    validate(assetIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_DELETE, orgFrom.asset()),
     controller.softDelete
 );
 
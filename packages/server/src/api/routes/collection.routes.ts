@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import auth from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
+
+import controller from '../../controllers/collection.controller';
+import {
+    createCollectionSchema,
+    updateCollectionSchema,
+    collectionIdParamSchema,
+    collectionItemParamSchema,
+    listCollectionsQuerySchema,
+    addCollectionItemsSchema,
+    reorderCollectionItemsSchema,
+} from '../../schemas/collection.schema';
+
+const router = Router();
+
+// Collections only reference assets, so asset:read is enough inside the
+// organization; ownership and sharing decide the rest
+router.use(auth);
+
+router.post(
+    '/',
+    validate(createCollectionSchema),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.body()),
+    controller.create,
+);
+router.get(
+    '/',
+    validate(listCollectionsQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    controller.list,
+);
+router.get(
+    '/:id',
+    validate(collectionIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    controller.getById,
+);
+router.patch(
+    '/:id',
+    validate(collectionIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    validate(updateCollectionSchema),
+    controller.update,
+);
+router.delete(
+    '/:id',
+    validate(collectionIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    controller.remove,
+);
+
+router.post(
+    '/:id/items',
+    validate(collectionIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    validate(addCollectionItemsSchema),
+    controller.addItems,
+);
+router.put(
+    '/:id/items/order',
+    validate(collectionIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    validate(reorderCollectionItemsSchema),
+    controller.reorderItems,
+);
+router.delete(
+    '/:id/items/:assetId',
+    validate(collectionItemParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.collection()),
+    controller.removeItem,
+);
+
+export default router;
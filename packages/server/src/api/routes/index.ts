@@ -8,9 +8,12 @@ import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
 import roleRoutes from './role.routes';
 import organizationRoutes from './organization.routes';
+import invitationRoutes from './invitation.routes';
 import docsRoutes from './docs.routes';
 import projectRoutes from './project.routes';
 import assetRoutes from './asset.routes';
+import collectionRoutes from './collection.routes';
+import savedSearchRoutes from './savedSearch.routes';
 
 // API version headers
 router.use((req, res, next) => {
@@ -24,8 +27,11 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/roles', roleRoutes);
 router.use('/organizations', organizationRoutes);
+router.use('/invitations', invitationRoutes);
 router.use('/projects', projectRoutes);
 router.use('/assets', assetRoutes);
+router.use('/collections', collectionRoutes);
+router.use('/saved-searches', savedSearchRoutes);
 router.use('/docs', docsRoutes);
 
 // API docs overview
@@ -51,6 +57,8 @@ router.get('/', (req, res) => {
                         'PATCH /me/profile': 'Update user profile',
                         'POST /me/change-password': 'Change user password',
                         'DELETE /me': 'Delete user account',
+                        'GET /me/organizations': 'List my organizations and roles',
+                        'PUT /me/active-organization': 'Switch active organization',
                     },
                 },
                 organizations: {
@@ -61,6 +69,33 @@ router.get('/', (req, res) => {
                         'GET /:id': 'Get organization details',
                         'PATCH /:id': 'Update organization',
                         'DELETE /:id': 'Delete organization',
+                        'GET /:id/members': 'List organization members',
+                        'POST /:id/members': 'Add member',
+                        'PATCH /:id/members/:userId': 'Change member roles',
+                        'DELETE /:id/members/:userId': 'Remove member',
+                        'GET /:id/invitations': 'List invitations',
+                        'POST /:id/invitations': 'Create invitation token',
+                        'DELETE /:id/invitations/:invitationId': 'Revoke invitation',
+                        'GET /:id/audit': 'Audit log as JSON pages or NDJSON/CSV export',
+                        'GET /:id/webhooks': 'List webhooks',
+                        'POST /:id/webhooks': 'Create webhook (returns its signing secret)',
+                        'GET /:id/webhooks/:webhookId': 'Get webhook',
+                        'PATCH /:id/webhooks/:webhookId': 'Update webhook or rotate its secret',
+                        'DELETE /:id/webhooks/:webhookId': 'Delete webhook',
+                        'GET /:id/webhooks/:webhookId/deliveries': 'Webhook delivery log',
+                        'POST /:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver':
+                            'Redeliver a webhook event',
+                        'GET /:id/rendition-profiles': 'List rendition profiles',
+                        'POST /:id/rendition-profiles': 'Create rendition profile',
+                        'GET /:id/rendition-profiles/:profileId': 'Get rendition profile',
+                        'PATCH /:id/rendition-profiles/:profileId': 'Update rendition profile',
+                        'DELETE /:id/rendition-profiles/:profileId': 'Delete rendition profile',
+                    },
+                },
+                invitations: {
+                    base: '/api/v1/invitations',
+                    routes: {
+                        'POST /:token/accept': 'Accept invitation and join organization',
                     },
                 },
                 projects: {
@@ -79,14 +114,40 @@ router.get('/', (req, res) => {
                     routes: {
                         'POST /uploads': 'Generate presigned upload URL',
                         'POST /:id/finalize': 'Finalize asset upload and trigger processing',
-                        'GET /': 'List assets with filtering and pagination',
+                        'POST /:id/parts': 'Presign part URLs for a multipart upload',
+                        'GET /:id/parts': 'List uploaded and missing multipart upload parts',
+                        'DELETE /:id/upload': 'Cancel an unfinished upload',
+                        'POST /:id/versions': 'Create presigned upload for a new asset version',
+                        'POST /:id/versions/:version/finalize':
+                            'Finalize a new version and regenerate renditions',
+                        'GET /': 'List assets with filtering and page or cursor pagination',
                         'GET /analytics': 'Get asset analytics summary',
-                        'GET /search?q': 'Search assets by text',
+                        'GET /search?q':
+                            'Full-text search with relevance ranking, highlights and facets',
                         'GET /recent': 'Get recently uploaded assets',
                         'GET /by-project/:projectId': 'Get assets by project',
                         'GET /by-tag/:tag': 'Get assets by tag',
+                        'POST /bulk': 'Apply one operation to many assets',
+                        'GET /bulk/:jobId': 'Get progress of a queued bulk operation',
                         'GET /:id': 'Get asset details',
                         'GET /:id/download': 'Generate presigned download URL',
+                        'GET /:id/transform': 'Resize/re-encode an image on demand (cached)',
+                        'GET /:id/stream/master.m3u8': 'HLS master playlist of a video',
+                        'GET /:id/stream/:variant/index.m3u8':
+                            'HLS variant playlist with presigned segment URLs',
+                        'GET /:id/thumbnails.vtt': 'WebVTT scrubbing track over sprite sheets',
+                        'POST /:id/poster': 'Choose video poster by timestamp or image upload',
+                        'POST /:id/poster/revert': 'Bring back the previous video poster',
+                        'GET /:id/versions': 'List asset version history',
+                        'GET /:id/versions/:version/download':
+                            'Generate download URL for a version',
+                        'POST /:id/versions/:version/restore':
+                            'Restore an earlier version as current',
+                        'POST /:id/move': 'Move asset to another project',
+                        'POST /:id/copy': 'Copy asset into a project',
+                        'GET /:id/shares': 'List share links of an asset',
+                        'POST /:id/shares': 'Create public share link',
+                        'DELETE /:id/shares/:shareId': 'Revoke share link',
                         'PATCH /:id': 'Update asset metadata',
                         'POST /:id/tags': 'Add tags to asset',
                         'PUT /:id/tags': 'Replace asset tags',
@@ -94,6 +155,37 @@ router.get('/', (req, res) => {
                         'DELETE /:id': 'Soft delete asset and queue cleanup',
                     },
                 },
+                collections: {
+                    base: '/api/v1/collections',
+                    routes: {
+                        'GET /': 'List collections owned by or shared with me',
+                        'POST /': 'Create collection, or a smart collection from a saved search',
+                        'GET /:id': 'Get collection with its accessible assets in order',
+                        'PATCH /:id': 'Rename, describe or re-share collection',
+                        'DELETE /:id': 'Delete collection (assets are kept)',
+                        'POST /:id/items': 'Add assets to collection',
+                        'PUT /:id/items/order': 'Reorder collection items',
+                        'DELETE /:id/items/:assetId': 'Remove asset from collection',
+                    },
+                },
+                savedSearches: {
+                    base: '/api/v1/saved-searches',
+                    routes: {
+                        'GET /': 'List my saved searches and organization-wide ones',
+                        'POST /': 'Save a named asset list query',
+                        'GET /:id': 'Get saved search',
+                        'PATCH /:id': 'Rename, re-scope or change saved search filters',
+                        'DELETE /:id': 'Delete saved search',
+                        'GET /:id/assets': 'Run saved search',
+                        'GET /:id/summary': 'Match count and newest matches for dashboards',
+                    },
+                },
+                shareLinks: {
+                    base: '/s',
+                    routes: {
+                        'GET /:token': 'Resolve public share link to a download URL (no auth)',
+                    },
+                },
                 roles: {
                     base: '/api/v1/roles',
                     routes: {
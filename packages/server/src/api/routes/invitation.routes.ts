@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import auth from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+
+import controller from '../../controllers/invitation.controller';
+import { invitationTokenParamSchema } from '../../schemas/invitation.schema';
+
+const router = Router();
+
+router.use(auth);
+
+// Any authenticated user holding a token issued to their email may accept it
+router.post('/:token/accept', validate(invitationTokenParamSchema, 'params'), controller.accept);
+
+export default router;
@@ -1,14 +1,42 @@
 import { Router } from 'express';
 import auth from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
 
 import controller from '../../controllers/organization.controller';
+import invitationController from '../../controllers/invitation.controller';
+import webhookController from '../../controllers/webhook.controller';
+import renditionProfileController from '../../controllers/renditionProfile.controller';
 import {
     createOrganizationSchema,
     updateOrganizationSchema,
     organizationIdParamSchema,
     listOrganizationsQuerySchema,
+    addMemberSchema,
+    updateMemberSchema,
+    memberParamSchema,
+    listMembersQuerySchema,
 } from '../../schemas/organization.schema';
+import {
+    createInvitationSchema,
+    invitationParamSchema,
+    listInvitationsQuerySchema,
+} from '../../schemas/invitation.schema';
+import { listAuditEventsQuerySchema } from '../../schemas/audit.schema';
+import {
+    createWebhookSchema,
+    updateWebhookSchema,
+    webhookParamSchema,
+    webhookDeliveryParamSchema,
+    listWebhooksQuerySchema,
+    listWebhookDeliveriesQuerySchema,
+} from '../../schemas/webhook.schema';
+import {
+    createRenditionProfileSchema,
+    updateRenditionProfileSchema,
+    renditionProfileParamSchema,
+} from '../../schemas/renditionProfile.schema';
 
 const router = Router();
 
@@ -16,13 +44,161 @@ router.use(auth);
 
 router.post('/', validate(createOrganizationSchema), controller.create);
 router.get('/', validate(listOrganizationsQuerySchema, 'query'), controller.list);
-router.get('/:id', validate(organizationIdParamSchema, 'params'), controller.getById);
+router.get(
+    '/:id',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.param()),
+    controller.getById,
+);
 router.patch(
     '/:id',
     validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
     validate(updateOrganizationSchema),
     controller.update,
 );
-router.delete('/:id', validate(organizationIdParamSchema, 'params'), controller.archive);
+router.delete(
+    '/:id',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    controller.archive,
+);
+
+router.get(
+    '/:id/members',
+    validate(organizationIdParamSchema, 'params'),
+    validate(listMembersQuerySchema, 'query'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.param()),
+    controller.listMembers,
+);
+router.post(
+    '/:id/members',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    validate(addMemberSchema),
+    controller.addMember,
+);
+router.patch(
+    '/:id/members/:userId',
+    validate(memberParamSchema, 'params'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    validate(updateMemberSchema),
+    controller.updateMember,
+);
+router.delete(
+    '/:id/members/:userId',
+    validate(memberParamSchema, 'params'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    controller.removeMember,
+);
+
+router.get(
+    '/:id/invitations',
+    validate(organizationIdParamSchema, 'params'),
+    validate(listInvitationsQuerySchema, 'query'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    invitationController.list,
+);
+router.post(
+    '/:id/invitations',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    validate(createInvitationSchema),
+    invitationController.create,
+);
+router.delete(
+    '/:id/invitations/:invitationId',
+    validate(invitationParamSchema, 'params'),
+    authorize(PERMISSIONS.MEMBER_MANAGE, orgFrom.param()),
+    invitationController.revoke,
+);
+
+router.get(
+    '/:id/audit',
+    validate(organizationIdParamSchema, 'params'),
+    validate(listAuditEventsQuerySchema, 'query'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    controller.listAudit,
+);
+
+router.get(
+    '/:id/webhooks',
+    validate(organizationIdParamSchema, 'params'),
+    validate(listWebhooksQuerySchema, 'query'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    webhookController.list,
+);
+router.post(
+    '/:id/webhooks',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    validate(createWebhookSchema),
+    webhookController.create,
+);
+router.get(
+    '/:id/webhooks/:webhookId',
+    validate(webhookParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    webhookController.getById,
+);
+router.patch(
+    '/:id/webhooks/:webhookId',
+    validate(webhookParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    validate(updateWebhookSchema),
+    webhookController.update,
+);
+router.delete(
+    '/:id/webhooks/:webhookId',
+    validate(webhookParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    webhookController.remove,
+);
+router.get(
+    '/:id/webhooks/:webhookId/deliveries',
+    validate(webhookParamSchema, 'params'),
+    validate(listWebhookDeliveriesQuerySchema, 'query'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    webhookController.listDeliveries,
+);
+router.post(
+    '/:id/webhooks/:webhookId/deliveries/:deliveryId/redeliver',
+    validate(webhookDeliveryParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    webhookController.redeliver,
+);
+
+router.get(
+    '/:id/rendition-profiles',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.param()),
+    renditionProfileController.list,
+);
+router.post(
+    '/:id/rendition-profiles',
+    validate(organizationIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    validate(createRenditionProfileSchema),
+    renditionProfileController.create,
+);
+router.get(
+    '/:id/rendition-profiles/:profileId',
+    validate(renditionProfileParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.param()),
+    renditionProfileController.getById,
+);
+router.patch(
+    '/:id/rendition-profiles/:profileId',
+    validate(renditionProfileParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    validate(updateRenditionProfileSchema),
+    renditionProfileController.update,
+);
+router.delete(
+    '/:id/rendition-profiles/:profileId',
+    validate(renditionProfileParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_ADMIN, orgFrom.param()),
+    renditionProfileController.remove,
+);
 
 export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import auth from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
 
 import controller from '../../controllers/project.controller';
 import {
@@ -15,16 +17,42 @@ const router = Router();
 
 router.use(auth);
 
-router.post('/', validate(createProjectSchema), controller.create);
-router.get('/', validate(listProjectsQuerySchema, 'query'), controller.list);
-router.get('/resolve', validate(resolveByPathQuerySchema, 'query'), controller.resolveByPath);
-router.get('/:id', validate(projectIdParamSchema, 'params'), controller.getById);
+router.post(
+    '/',
+    validate(createProjectSchema),
+    authorize(PERMISSIONS.PROJECT_MANAGE, orgFrom.body()),
+    controller.create,
+);
+router.get(
+    '/',
+    validate(listProjectsQuerySchema, 'query'),
+    authorize(PERMISSIONS.PROJECT_READ, orgFrom.query()),
+    controller.list,
+);
+router.get(
+    '/resolve',
+    validate(resolveByPathQuerySchema, 'query'),
+    authorize(PERMISSIONS.PROJECT_READ, orgFrom.query()),
+    controller.resolveByPath,
+);
+router.get(
+    '/:id',
+    validate(projectIdParamSchema, 'params'),
+    authorize(PERMISSIONS.PROJECT_READ, orgFrom.project()),
+    controller.getById,
+);
 router.patch(
     '/:id',
     validate(projectIdParamSchema, 'params'),
+    authorize(PERMISSIONS.PROJECT_MANAGE, orgFrom.project()),
     validate(updateProjectSchema),
     controller.update,
 );
-router.delete('/:id', validate(projectIdParamSchema, 'params'), controller.softDelete);
+router.delete(
+    '/:id',
+    validate(projectIdParamSchema, 'params'),
+    authorize(PERMISSIONS.PROJECT_MANAGE, orgFrom.project()),
+    controller.softDelete,
+);
 
 export default router;
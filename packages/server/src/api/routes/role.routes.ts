@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import auth from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
 
 import controller from '../../controllers/role.controller';
 import {
@@ -14,15 +16,36 @@ const router = Router();
 
 router.use(auth);
 
-router.post('/', validate(roleCreateSchema), controller.create);
-router.get('/', validate(roleListQuerySchema, 'query'), controller.list);
-router.get('/:id', validate(roleIdParamSchema, 'params'), controller.getById);
+router.post(
+    '/',
+    validate(roleCreateSchema),
+    authorize(PERMISSIONS.ROLE_MANAGE, orgFrom.body()),
+    controller.create,
+);
+router.get(
+    '/',
+    validate(roleListQuerySchema, 'query'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.query()),
+    controller.list,
+);
+router.get(
+    '/:id',
+    validate(roleIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ORG_READ, orgFrom.role()),
+    controller.getById,
+);
 router.patch(
     '/:id',
     validate(roleIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ROLE_MANAGE, orgFrom.role()),
     validate(roleUpdateSchema),
     controller.update,
 );
-router.delete('/:id', validate(roleIdParamSchema, 'params'), controller.remove);
+router.delete(
+    '/:id',
+    validate(roleIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ROLE_MANAGE, orgFrom.role()),
+    controller.remove,
+);
 
 export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import auth from '../middlewares/auth';
+import { validate } from '../middlewares/validate';
+import { authorize, orgFrom } from '../middlewares/authorize';
+import { PERMISSIONS } from '../../utils/constant/permissions';
+
+import controller from '../../controllers/savedSearch.controller';
+import {
+    createSavedSearchSchema,
+    updateSavedSearchSchema,
+    savedSearchIdParamSchema,
+    listSavedSearchesQuerySchema,
+    runSavedSearchQuerySchema,
+    savedSearchSummaryQuerySchema,
+} from '../../schemas/savedSearch.schema';
+
+const router = Router();
+
+// Saved searches only run asset list queries, so asset:read is enough inside
+// the organization; ownership and scope decide the rest
+router.use(auth);
+
+router.post(
+    '/',
+    validate(createSavedSearchSchema),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.body()),
+    controller.create,
+);
+router.get(
+    '/',
+    validate(listSavedSearchesQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.query()),
+    controller.list,
+);
+router.get(
+    '/:id',
+    validate(savedSearchIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.savedSearch()),
+    controller.getById,
+);
+router.patch(
+    '/:id',
+    validate(savedSearchIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.savedSearch()),
+    validate(updateSavedSearchSchema),
+    controller.update,
+);
+router.delete(
+    '/:id',
+    validate(savedSearchIdParamSchema, 'params'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.savedSearch()),
+    controller.remove,
+);
+
+router.get(
+    '/:id/assets',
+    validate(savedSearchIdParamSchema, 'params'),
+    validate(runSavedSearchQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.savedSearch()),
+    controller.run,
+);
+router.get(
+    '/:id/summary',
+    validate(savedSearchIdParamSchema, 'params'),
+    validate(savedSearchSummaryQuerySchema, 'query'),
+    authorize(PERMISSIONS.ASSET_READ, orgFrom.savedSearch()),
+    controller.summary,
+);
+
+export default router;
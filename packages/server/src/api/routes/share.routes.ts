@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { validate } from '../middlewares/validate';
+
+import controller from '../../controllers/shareLink.controller';
+import { shareTokenParamSchema, resolveShareLinkQuerySchema } from '../../schemas/shareLink.schema';
+
+const router = Router();
+
+// Public: the token is the credential, so no auth middleware here
+
+/**
+ * @swagger
+ * /s/{token}:
+ *   get:
+ *     summary: Resolve share link
+ *     description: Resolves a share link to a short-lived presigned download URL. Password-protected links need the `X-Share-Password` header; repeated wrong passwords lock the link for a while. With `redirect=true` the response is a 302 to the file instead of JSON.
+ *     tags: [Sharing]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: rendition
+ *         schema:
+ *           type: string
+ *         description: Shared rendition to download; defaults to the original when shared
+ *       - in: query
+ *         name: redirect
+ *         schema:
+ *           type: boolean
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Download URL generated successfully
+ *       302:
+ *         description: Redirect to the download URL
+ *       401:
+ *         description: Password required or invalid
+ *       403:
+ *         description: Rendition not shared or public sharing disabled
+ *       404:
+ *         description: Share link or rendition not found
+ *       410:
+ *         description: Share link revoked, expired or used up
+ *       429:
+ *         description: Too many wrong passwords; the link is locked for a while
+ */
+router.get(
+    '/:token',
+    validate(shareTokenParamSchema, 'params'),
+    validate(resolveShareLinkQuerySchema, 'query'),
+    controller.resolve,
+);
+
+export default router;
@@ -3,7 +3,11 @@ import auth from '../middlewares/auth';
 import { validate } from '../middlewares/validate';
 
 import controller from '../../controllers/user.controller';
-import { profileUpdateSchema, changePasswordSchema } from '../../schemas/user.schema';
+import {
+    profileUpdateSchema,
+    changePasswordSchema,
+    switchOrganizationSchema,
+} from '../../schemas/user.schema';
 
 const router = Router();
 
@@ -13,5 +17,11 @@ router.get('/me', controller.me);
 router.patch('/me/profile', validate(profileUpdateSchema), controller.updateProfile);
 router.post('/me/change-password', validate(changePasswordSchema), controller.changePassword);
 router.delete('/me', controller.softDelete);
+router.get('/me/organizations', controller.organizations);
+router.put(
+    '/me/active-organization',
+    validate(switchOrganizationSchema),
+    controller.switchOrganization,
+);
 
 export default router;
@@ -9,14 +9,19 @@ import cors from 'cors';
 import helmet from 'helmet';
 
 import apiRoutes from './api/routes';
+import shareRoutes from './api/routes/share.routes';
 
 import errorHandler from './api/middlewares/errorHandler';
+import requestId from './api/middlewares/requestId';
 import { isConnected, getConnectionInfo } from './config/db';
 
 const app = express();
 
 app.disable('x-powered-by');
 
+// Every request gets an ID before anything can fail or be audited
+app.use(requestId);
+
 // =================================================================
 //                    SECURITY MIDDLEWARE STACK
 // =================================================================
@@ -60,8 +65,14 @@ const corsOptions: cors.CorsOptions = {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
+    allowedHeaders: [
+        'Content-Type',
+        'Authorization',
+        'X-Requested-With',
+        'X-Share-Password',
+        'X-Request-Id',
+    ],
+    exposedHeaders: ['X-Total-Count', 'X-Page-Count', 'X-Request-Id'],
     maxAge: 86400,
 };
 
@@ -91,7 +102,12 @@ app.use(
 // =================================================================
 
 app.use((req: Request, res: Response, next: NextFunction) => {
-    if (req.path === '/' || req.path === '/health' || req.path.startsWith('/api/')) {
+    if (
+        req.path === '/' ||
+        req.path === '/health' ||
+        req.path.startsWith('/api/') ||
+        req.path.startsWith('/s/')
+    ) {
         return next();
     }
     return res.status(404).json({
@@ -118,8 +134,11 @@ app.get('/', (req: Request, res: Response) => {
             users: '/api/v1/users',
             organizations: '/api/v1/organizations',
             projects: '/api/v1/projects',
+            collections: '/api/v1/collections',
+            savedSearches: '/api/v1/saved-searches',
             roles: '/api/v1/roles',
             documentation: '/api/v1/docs',
+            shareLinks: '/s/:token',
             health: '/health',
         },
     });
@@ -173,6 +192,9 @@ app.get('/health', (req: Request, res: Response) => {
 
 app.use('/api/v1', apiRoutes);
 
+// Public share links resolve outside the versioned API so the URLs stay short
+app.use('/s', shareRoutes);
+
 // =================================================================
 //                    ERROR HANDLING MIDDLEWARE
 // =================================================================
@@ -187,8 +209,11 @@ app.use((req: Request, res: Response) => {
             '/api/v1/users',
             '/api/v1/organizations',
             '/api/v1/projects',
+            '/api/v1/collections',
+            '/api/v1/saved-searches',
             '/api/v1/roles',
             '/api/v1/docs',
+            '/s/:token',
             '/health',
         ],
     });
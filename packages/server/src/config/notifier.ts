@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Notifier Configuration - Pluggable Notification Delivery
+ * Outbound notifications (invitations, ...) go through a named transport chosen by
+ * NOTIFIER_TRANSPORT. The built-in `log` and `file` transports work offline;
+ * other transports (SMTP, webhooks, ...) can be added with `registerTransport`.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+require('dotenv').config();
+
+/**
+ * Notification message handed to a transport
+ */
+export interface Notification {
+    type: string;
+    to: string;
+    subject: string;
+    text: string;
+    data?: Record<string, any>;
+}
+
+/**
+ * Transport contract: deliver one notification or throw
+ */
+export interface NotificationTransport {
+    readonly name: string;
+    send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Writes notifications to the process log
+ */
+export class LogTransport implements NotificationTransport {
+    readonly name = 'log';
+
+    async send(notification: Notification): Promise<void> {
+        console.log(`📨 [${notification.type}] to ${notification.to}: ${notification.subject}`);
+        console.log(notification.text);
+    }
+}
+
+/**
+ * Appends notifications as JSON lines to a local file
+ */
+export class FileTransport implements NotificationTransport {
+    readonly name = 'file';
+
+    constructor(private readonly filePath: string) {}
+
+    async send(notification: Notification): Promise<void> {
+        const line = JSON.stringify({ ...notification, sentAt: new Date().toISOString() });
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line + '\n', 'utf8');
+    }
+}
+
+/**
+ * Transport factories by name
+ */
+const transportFactories: Record<string, () => NotificationTransport> = {
+    log: () => new LogTransport(),
+    file: () =>
+        new FileTransport(
+            process.env.NOTIFIER_FILE_PATH || path.join(process.cwd(), 'tmp', 'notifications.log')
+        )
+};
+
+/**
+ * Register a custom transport, selectable via NOTIFIER_TRANSPORT=<name>
+ * @param name - Transport name
+ * @param factory - Factory creating the transport
+ */
+export const registerTransport = (name: string, factory: () => NotificationTransport): void => {
+    transportFactories[name] = factory;
+    notifierInstance = null;
+};
+
+/**
+ * Global notifier instance
+ */
+let notifierInstance: NotificationTransport | null = null;
+
+/**
+ * Get or create the configured notification transport
+ * @returns NotificationTransport singleton instance
+ */
+export const getNotifier = (): NotificationTransport => {
+    if (!notifierInstance) {
+        const name = process.env.NOTIFIER_TRANSPORT || 'log';
+        const factory = transportFactories[name];
+        if (!factory) {
+            throw new Error(`Unknown notifier transport: ${name}`);
+        }
+        notifierInstance = factory();
+    }
+    return notifierInstance;
+};
+
+export default getNotifier;
@@ -8,7 +8,15 @@ import {
     PutObjectCommand, 
     GetObjectCommand, 
     DeleteObjectCommand,
-    HeadObjectCommand
+    HeadObjectCommand,
+    CreateMultipartUploadCommand,
+    UploadPartCommand,
+    ListPartsCommand,
+    CompleteMultipartUploadCommand,
+    AbortMultipartUploadCommand,
+    CopyObjectCommand,
+    UploadPartCopyCommand,
+    ListObjectsV2Command
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 require('dotenv').config();
@@ -37,6 +45,29 @@ interface PresignOptions {
     contentLength?: number;
 }
 
+/**
+ * Uploaded part of a multipart upload
+ */
+export interface UploadedPart {
+    partNumber: number;
+    etag: string;
+    size?: number;
+}
+
+/**
+ * S3 multipart upload limits
+ */
+export const MULTIPART_LIMITS = {
+    minPartSizeBytes: 5 * 1024 * 1024, // 5MB (all parts but the last)
+    maxPartSizeBytes: 5 * 1024 * 1024 * 1024, // 5GB
+    maxParts: 10000
+};
+
+/**
+ * Part size used when an object is too large for a single-request copy
+ */
+const COPY_PART_SIZE_BYTES = 512 * 1024 * 1024; // 512MB
+
 /**
  * Storage service class for unified object storage operations
  * Supports MinIO, AWS S3, and other S3-compatible providers
@@ -130,6 +161,46 @@ export class StorageService {
         return { url: publicUrl, expiresAt };
     }
 
+    /**
+     * Read a whole object into memory
+     * @param key - Storage key/path
+     * @returns Object contents
+     */
+    async getObject(key: string): Promise<Buffer> {
+        const command = new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key
+        });
+
+        const response = await this.s3Client.send(command);
+        if (!response.Body) {
+            throw new Error(`Storage object has no body: ${key}`);
+        }
+        return Buffer.from(await response.Body.transformToByteArray());
+    }
+
+    /**
+     * Write an object from memory
+     * @param key - Storage key/path
+     * @param body - Object contents
+     * @param options - Content type and cache control of the object
+     */
+    async putObject(
+        key: string,
+        body: Buffer,
+        options: { contentType?: string; cacheControl?: string } = {}
+    ): Promise<void> {
+        const command = new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: options.contentType,
+            CacheControl: options.cacheControl
+        });
+
+        await this.s3Client.send(command);
+    }
+
     /**
      * Check if object exists and get metadata
      * @param key - Storage key/path
@@ -185,6 +256,222 @@ export class StorageService {
         }
     }
 
+    /**
+     * List the keys of every object under a prefix
+     * @param prefix - Key prefix, usually ending in a slash
+     * @returns Object keys
+     */
+    async listObjectKeys(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const command = new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: prefix,
+                ContinuationToken: continuationToken
+            });
+
+            const response = await this.s3Client.send(command);
+            for (const object of response.Contents || []) {
+                if (object.Key) keys.push(object.Key);
+            }
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+
+        return keys;
+    }
+
+    /**
+     * Copy an object to another key inside the bucket without downloading it.
+     * Objects above the single-request copy limit (5GB) are copied part by part.
+     * @param sourceKey - Key of the object to copy
+     * @param destinationKey - Key of the copy
+     */
+    async copyObject(sourceKey: string, destinationKey: string): Promise<void> {
+        const source = await this.headObject(sourceKey);
+        if (!source) {
+            throw new Error(`Storage object not found: ${sourceKey}`);
+        }
+
+        const copySource = `${this.bucket}/${encodeURIComponent(sourceKey).replace(/%2F/g, '/')}`;
+        const size = source.contentLength || 0;
+
+        if (size <= MULTIPART_LIMITS.maxPartSizeBytes) {
+            await this.s3Client.send(new CopyObjectCommand({
+                Bucket: this.bucket,
+                Key: destinationKey,
+                CopySource: copySource
+            }));
+            return;
+        }
+
+        const partSize = Math.max(COPY_PART_SIZE_BYTES, Math.ceil(size / MULTIPART_LIMITS.maxParts));
+        const uploadId = await this.createMultipartUpload(destinationKey, { contentType: source.contentType });
+
+        try {
+            const parts: UploadedPart[] = [];
+            for (let start = 0, partNumber = 1; start < size; start += partSize, partNumber++) {
+                const end = Math.min(start + partSize, size) - 1;
+                const response = await this.s3Client.send(new UploadPartCopyCommand({
+                    Bucket: this.bucket,
+                    Key: destinationKey,
+                    UploadId: uploadId,
+                    PartNumber: partNumber,
+                    CopySource: copySource,
+                    CopySourceRange: `bytes=${start}-${end}`
+                }));
+                parts.push({ partNumber, etag: response.CopyPartResult?.ETag || '' });
+            }
+
+            await this.completeMultipartUpload(destinationKey, uploadId, parts);
+        } catch (error) {
+            await this.abortMultipartUpload(destinationKey, uploadId).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    /**
+     * Start a multipart upload for an object
+     * @param key - Storage key/path
+     * @param options - Content type of the final object
+     * @returns Upload ID identifying the multipart upload
+     */
+    async createMultipartUpload(
+        key: string,
+        options: { contentType?: string } = {}
+    ): Promise<string> {
+        const command = new CreateMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            ContentType: options.contentType
+        });
+
+        const response = await this.s3Client.send(command);
+        if (!response.UploadId) {
+            throw new Error('Storage did not return a multipart upload ID');
+        }
+        return response.UploadId;
+    }
+
+    /**
+     * Generate presigned URL for uploading one part of a multipart upload
+     * @param key - Storage key/path
+     * @param uploadId - Multipart upload ID
+     * @param partNumber - Part number (1-10000)
+     * @param options - Presign options
+     * @returns Presigned part upload URL and expiration
+     */
+    async getPresignedPartUrl(
+        key: string,
+        uploadId: string,
+        partNumber: number,
+        options: PresignOptions = {}
+    ): Promise<{ url: string; expiresAt: Date }> {
+        const { expiresIn = this.defaultPresignExpiry } = options;
+
+        const command = new UploadPartCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber
+        });
+
+        const url = await getSignedUrl(this.s3Client, command, { expiresIn });
+        const expiresAt = new Date(Date.now() + (expiresIn * 1000));
+        return { url: this.rewriteToPublic(url), expiresAt };
+    }
+
+    /**
+     * List the parts already stored for a multipart upload
+     * @param key - Storage key/path
+     * @param uploadId - Multipart upload ID
+     * @returns Uploaded parts ordered by part number, or null if the upload no longer exists
+     */
+    async listParts(key: string, uploadId: string): Promise<UploadedPart[] | null> {
+        const parts: UploadedPart[] = [];
+        let marker: string | undefined;
+
+        try {
+            do {
+                const response = await this.s3Client.send(new ListPartsCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    UploadId: uploadId,
+                    PartNumberMarker: marker
+                }));
+
+                for (const part of response.Parts || []) {
+                    if (part.PartNumber && part.ETag) {
+                        parts.push({
+                            partNumber: part.PartNumber,
+                            etag: part.ETag.replace(/"/g, ''),
+                            size: part.Size
+                        });
+                    }
+                }
+
+                marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+            } while (marker);
+        } catch (error: any) {
+            if (error.name === 'NoSuchUpload' || error.$metadata?.httpStatusCode === 404) {
+                return null;
+            }
+            throw error;
+        }
+
+        return parts.sort((a, b) => a.partNumber - b.partNumber);
+    }
+
+    /**
+     * Assemble the uploaded parts into the final object
+     * @param key - Storage key/path
+     * @param uploadId - Multipart upload ID
+     * @param parts - Part numbers and their ETags
+     */
+    async completeMultipartUpload(
+        key: string,
+        uploadId: string,
+        parts: UploadedPart[]
+    ): Promise<void> {
+        const command = new CompleteMultipartUploadCommand({
+            Bucket: this.bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+                Parts: [...parts]
+                    .sort((a, b) => a.partNumber - b.partNumber)
+                    .map(part => ({ PartNumber: part.partNumber, ETag: `"${part.etag.replace(/"/g, '')}"` }))
+            }
+        });
+
+        await this.s3Client.send(command);
+    }
+
+    /**
+     * Abort a multipart upload and discard its stored parts
+     * @param key - Storage key/path
+     * @param uploadId - Multipart upload ID
+     * @returns Success boolean
+     */
+    async abortMultipartUpload(key: string, uploadId: string): Promise<boolean> {
+        try {
+            const command = new AbortMultipartUploadCommand({
+                Bucket: this.bucket,
+                Key: key,
+                UploadId: uploadId
+            });
+
+            await this.s3Client.send(command);
+            return true;
+        } catch (error: any) {
+            if (error.name === 'NoSuchUpload' || error.$metadata?.httpStatusCode === 404) {
+                return true; // Already completed or aborted
+            }
+            throw error;
+        }
+    }
+
     /**
      * Generate storage key for asset
      * Format: {orgId}/{projectId}/{assetId}/original/v{version}/{filename}
@@ -336,6 +623,67 @@ export const StorageUtils = {
         return null;
     },
 
+    /**
+     * Rewrite a storage key for an asset that moves to another project or is copied.
+     * Upload keys embed the project and the storage asset ID
+     * (org/{orgId}/proj/{projectId}/asset/{assetId}/...); rendition keys written by the
+     * workers embed the asset document ID (org/{orgId}/assets/{documentId}/...).
+     * Segments not given in `target` are kept.
+     * @param key - Storage key to rewrite
+     * @param target - New project, storage asset ID and asset document ID
+     * @returns Rewritten key or null if the key has an unknown layout
+     */
+    relocateKey: (key: string, target: {
+        projectId: string;
+        assetId?: string;
+        documentId?: string;
+    }): string | null => {
+        let match = key.match(/^org\/([^/]+)\/proj\/[^/]+\/asset\/([^/]+)\/(.+)$/);
+        if (match) {
+            return `org/${match[1]}/proj/${target.projectId}/asset/${target.assetId || match[2]}/${match[3]}`;
+        }
+
+        match = key.match(/^org\/([^/]+)\/assets\/([^/]+)\/(.+)$/);
+        if (match) {
+            return `org/${match[1]}/assets/${target.documentId || match[2]}/${match[3]}`;
+        }
+
+        return null;
+    },
+
+    /**
+     * Collect the original, version and rendition storage keys of an asset.
+     * Renditions stored under a prefix (HLS) contribute every object below it.
+     * Copies, moves and purges all go through here, so they agree on what an asset owns.
+     * @param asset - Asset document or plain object
+     * @param storage - Storage service used to list prefixes
+     * @returns Unique storage keys
+     */
+    collectAssetKeys: async (asset: any, storage: StorageService = getStorageService()): Promise<string[]> => {
+        const keys = new Set<string>();
+        if (asset.storageKey) {
+            keys.add(asset.storageKey);
+        }
+        for (const version of asset.versions || []) {
+            if (version?.storageKey) {
+                keys.add(version.storageKey);
+            }
+        }
+
+        const renditions = asset.renditions?.toObject ? asset.renditions.toObject() : asset.renditions || {};
+        for (const rendition of Object.values(renditions) as any[]) {
+            if (rendition?.storageKey) {
+                keys.add(rendition.storageKey);
+            }
+            if (rendition?.storagePrefix) {
+                for (const key of await storage.listObjectKeys(rendition.storagePrefix)) {
+                    keys.add(key);
+                }
+            }
+        }
+        return Array.from(keys);
+    },
+
     /**
      * Validate file extension against MIME type
      * @param filename - Original filename
@@ -18,12 +18,19 @@ import { createProjectSchema, updateProjectSchema } from '../schemas/project.sch
 import {
     createAssetSchema,
     finalizeAssetSchema,
+    createAssetVersionSchema,
+    finalizeAssetVersionSchema,
     updateAssetSchema,
     assetResponseSchema,
     assetListResponseSchema,
     uploadUrlResponseSchema,
     downloadUrlResponseSchema,
+    relocateAssetSchema,
 } from '../schemas/asset.schema';
+import { createShareLinkSchema } from '../schemas/shareLink.schema';
+import { bulkAssetOperationSchema } from '../schemas/bulkAsset.schema';
+import { ASSET_QUERY_SYNTAX, ASSET_QUERY_MAX_LENGTH } from '../utils/assetQuery';
+import { CURSOR_MAX_LENGTH } from '../utils/cursor';
 
 class SwaggerConfig {
     private registry: OpenAPIRegistry;
@@ -106,6 +113,32 @@ class SwaggerConfig {
                 },
             },
         });
+
+        // Asset list paging, shared by the list, search and fixed listing routes
+        this.registry.registerComponent('parameters', 'AssetCursor', {
+            in: 'query',
+            name: 'cursor',
+            schema: { type: 'string', maxLength: CURSOR_MAX_LENGTH },
+            description:
+                'Opaque `pagination.nextCursor` of the previous page. Repeat the same filters and sort; ' +
+                'the page starts right after the last asset seen, at any depth. Replaces `page`.',
+        });
+
+        this.registry.registerComponent('parameters', 'AssetLimit', {
+            in: 'query',
+            name: 'limit',
+            schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+            description: 'Items per page',
+        });
+
+        this.registry.registerComponent('parameters', 'AssetIncludeTotal', {
+            in: 'query',
+            name: 'includeTotal',
+            schema: { type: 'string', enum: ['true', 'false'] },
+            description:
+                'Count every match into `total` and `totalPages`. Defaults to true with `page` and ' +
+                'false with `cursor`, where counting would cost more than reading the page.',
+        });
     }
 
     private registerSchemas() {
@@ -248,6 +281,40 @@ class SwaggerConfig {
             throw error;
         }
 
+        try {            
+            this.registry.register(
+                'CreateAssetVersion',
+                createAssetVersionSchema.openapi({
+                    description: 'Asset version payload for upload initiation',
+                    example: {
+                        originalFilename: 'hero-image-v2.jpg',
+                        mimeType: 'image/jpeg',
+                        fileSizeBytes: 3021456,
+                        checksum: 'sha256:1f3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f8a9c4f2e1b3d5a7c'
+                    },
+                }),
+            );            
+        } catch (error) {
+            console.error('❌ Error registering CreateAssetVersion schema:', error);
+            throw error;
+        }
+
+        try {            
+            this.registry.register(
+                'FinalizeAssetVersion',
+                finalizeAssetVersionSchema.openapi({
+                    description: 'Asset version finalization payload after successful upload',
+                    example: {
+                        actualChecksum: 'sha256:1f3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f8a9c4f2e1b3d5a7c',
+                        actualFileSizeBytes: 3021456
+                    },
+                }),
+            );            
+        } catch (error) {
+            console.error('❌ Error registering FinalizeAssetVersion schema:', error);
+            throw error;
+        }
+
         try {            
             this.registry.register(
                 'UpdateAsset',
@@ -268,6 +335,50 @@ class SwaggerConfig {
             throw error;
         }
 
+        try {            
+            this.registry.register(
+                'CreateShareLink',
+                createShareLinkSchema.openapi({
+                    description: 'Share link payload with optional expiry, password, download limit and renditions',
+                }),
+            );            
+        } catch (error) {
+            console.error('❌ Error registering CreateShareLink schema:', error);
+            throw error;
+        }
+
+        try {            
+            this.registry.register(
+                'BulkAssetOperation',
+                bulkAssetOperationSchema.openapi({
+                    description: 'Asset IDs and the single operation to apply to each of them',
+                }),
+            );            
+        } catch (error) {
+            console.error('❌ Error registering BulkAssetOperation schema:', error);
+            throw error;
+        }
+
+        try {            
+            this.registry.register(
+                'RelocateAsset',
+                relocateAssetSchema.openapi({
+                    description: 'Target project for moving or copying an asset',
+                }),
+            );            
+        } catch (error) {
+            console.error('❌ Error registering RelocateAsset schema:', error);
+            throw error;
+        }
+
+        // Asset query language, used by the `q` parameter of GET /assets
+        this.registry.registerComponent('schemas', 'AssetQuery', {
+            type: 'string',
+            maxLength: ASSET_QUERY_MAX_LENGTH,
+            description: ASSET_QUERY_SYNTAX,
+            example: 'type:video duration>60 tag:campaign-2026 -status:failed width>=1920 project:/marketing/**',
+        });
+
         // Asset response schemas
         try {            
             this.registry.register(
@@ -401,6 +512,11 @@ All responses follow a consistent structure:
 }
 \`\`\`
 
+## Asset Query Language
+\`GET /assets\` accepts a \`q\` filter expression:
+
+${ASSET_QUERY_SYNTAX}
+
 ## Rate Limiting
 API requests are rate-limited per IP address. Contact support if you need higher limits.
                 `,
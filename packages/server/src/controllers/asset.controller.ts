@@ -6,6 +6,7 @@
 import type { Request, Response, NextFunction } from 'express';
 import { presentAsset } from '../utils/assetPresenter';
 const assetService = require('../services/asset.service');
+const searchService = require('../services/search.service');
 
 /**
  * Forward asset-specific errors with proper status codes and formatting
@@ -23,9 +24,9 @@ function forwardAssetError(err: any, next: NextFunction) {
     // Handle asset-specific business logic errors
     if (err.code === 'DUPLICATE_ASSET') {
         err.status = 409;
-    } else if (err.code === 'ASSET_NOT_FOUND') {
+    } else if (err.code === 'ASSET_NOT_FOUND' || err.code === 'ASSET_VERSION_NOT_FOUND') {
         err.status = 404;
-    } else if (err.code === 'ACCESS_DENIED' || err.code === 'UNAUTHORIZED_FINALIZE') {
+    } else if (err.code === 'INSUFFICIENT_PERMISSIONS') {
         err.status = 403;
     } else if (err.code === 'UPLOAD_URL_EXPIRED') {
         err.status = 410;
@@ -42,13 +43,38 @@ function forwardAssetError(err: any, next: NextFunction) {
     return next(err);
 }
 
+/**
+ * Send an HLS playlist
+ * @param res - Express response
+ * @param playlist - Playlist text
+ */
+function sendPlaylist(res: Response, playlist: string) {
+    res.set('Content-Type', 'application/vnd.apple.mpegurl');
+    // Playlists carry short-lived URLs and are served per user
+    res.set('Cache-Control', 'private, no-store');
+    res.send(playlist);
+}
+
 /**
  * Create asset upload request and generate presigned URL
  * @route POST /api/v1/assets/uploads
  */
 async function createUpload(req: Request, res: Response, next: NextFunction) {
     try {
-        const { asset, uploadUrl, storageKey, expiresAt } = await assetService.createUpload(req.body, (req as any).auth);
+        const { asset, uploadUrl, storageKey, expiresAt, multipart } = await assetService.createUpload(req.body, (req as any).auth);
+        if (multipart) {
+            res.status(201).json({
+                success: true,
+                data: {
+                    assetId: asset._id,
+                    storageKey,
+                    expiresAt,
+                    multipart
+                },
+                message: 'Multipart upload started successfully'
+            });
+            return;
+        }
         res.status(201).json({
             success: true,
             data: {
@@ -79,6 +105,83 @@ async function finalizeUpload(req: Request, res: Response, next: NextFunction) {
     }
 }
 
+/**
+ * Presign upload URLs for parts of a multipart upload
+ * @route POST /api/v1/assets/:id/parts
+ */
+async function presignUploadParts(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await assetService.presignUploadParts((req.params as any).id, req.body, (req as any).auth);
+        res.json({ success: true, data: result, message: 'Part upload URLs generated successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Report uploaded and missing parts of a multipart upload
+ * @route GET /api/v1/assets/:id/parts
+ */
+async function getUploadProgress(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await assetService.getUploadProgress((req.params as any).id, (req as any).auth);
+        res.json({ success: true, data: result, message: 'Upload progress retrieved successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Cancel an unfinished upload and discard the asset
+ * @route DELETE /api/v1/assets/:id/upload
+ */
+async function cancelUpload(req: Request, res: Response, next: NextFunction) {
+    try {
+        await assetService.cancelUpload((req.params as any).id, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Create upload request for a new asset version
+ * @route POST /api/v1/assets/:id/versions
+ */
+async function createVersionUpload(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { asset, version, uploadUrl, storageKey, expiresAt } = await assetService.createVersionUpload((req.params as any).id, req.body, (req as any).auth);
+        res.status(201).json({
+            success: true,
+            data: {
+                assetId: asset._id,
+                version,
+                uploadUrl,
+                storageKey,
+                expiresAt
+            },
+            message: 'Version upload URL generated successfully'
+        });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Finalize a new asset version upload and format public asset response
+ * @route POST /api/v1/assets/:id/versions/:version/finalize
+ */
+async function finalizeVersionUpload(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, version } = req.params as any;
+        const { asset } = await assetService.finalizeVersionUpload(id, Number(version), req.body, (req as any).auth);
+        const responseAsset = presentAsset(asset);
+        res.json({ success: true, data: { asset: responseAsset }, message: 'Asset version finalized successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
 /**
  * List assets with filtering and pagination
  * @route GET /api/v1/assets
@@ -135,6 +238,166 @@ async function getDownloadUrl(req: Request, res: Response, next: NextFunction) {
     }
 }
 
+/**
+ * Render an image asset on demand, redirecting to the cached variant when there is one
+ * @route GET /api/v1/assets/:id/transform
+ */
+async function transform(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await assetService.transformImage((req.params as any).id, (req as any).auth, req.query);
+        if (result.cached) {
+            return res.redirect(302, result.url);
+        }
+        res.set('Content-Type', result.contentType);
+        res.set('Cache-Control', 'private, max-age=300');
+        res.send(result.buffer);
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Serve the HLS master playlist of a video asset
+ * @route GET /api/v1/assets/:id/stream/master.m3u8
+ */
+async function getStreamMaster(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { playlist } = await assetService.getStreamPlaylist((req.params as any).id, (req as any).auth);
+        sendPlaylist(res, playlist);
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Serve an HLS variant playlist with presigned segment URLs
+ * @route GET /api/v1/assets/:id/stream/:variant/index.m3u8
+ */
+async function getStreamVariant(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, variant } = req.params as any;
+        const { playlist } = await assetService.getStreamPlaylist(id, (req as any).auth, variant);
+        sendPlaylist(res, playlist);
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Serve the WebVTT thumbnails track of a video asset
+ * @route GET /api/v1/assets/:id/thumbnails.vtt
+ */
+async function getThumbnailTrack(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { track } = await assetService.getThumbnailTrack((req.params as any).id, (req as any).auth);
+        res.set('Content-Type', 'text/vtt; charset=utf-8');
+        res.set('Cache-Control', 'private, no-store');
+        res.send(track);
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Replace the poster of a video by timestamp or uploaded image
+ * @route POST /api/v1/assets/:id/poster
+ */
+async function setPoster(req: Request, res: Response, next: NextFunction) {
+    try {
+        const file = (req as any).file;
+        const result = await assetService.setPoster((req.params as any).id, (req as any).auth, {
+            ...req.body,
+            image: file ? { buffer: file.buffer } : undefined
+        });
+        res.status(202).json({ success: true, data: result, message: 'Poster update queued' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Bring back the previous poster of a video
+ * @route POST /api/v1/assets/:id/poster/revert
+ */
+async function revertPoster(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await assetService.revertPoster((req.params as any).id, (req as any).auth);
+        res.status(202).json({ success: true, data: result, message: 'Poster revert queued' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * List the version history of an asset
+ * @route GET /api/v1/assets/:id/versions
+ */
+async function listVersions(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await assetService.listVersions((req.params as any).id, (req as any).auth);
+        res.json({ success: true, data: result, message: 'Asset versions retrieved successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Generate presigned download URL for a specific asset version
+ * @route GET /api/v1/assets/:id/versions/:version/download
+ */
+async function getVersionDownloadUrl(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, version } = req.params as any;
+        const result = await assetService.getDownloadUrl(id, (req as any).auth, Number(version));
+        res.json({ success: true, data: result, message: 'Download URL generated successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Restore an earlier asset version as the current one
+ * @route POST /api/v1/assets/:id/versions/:version/restore
+ */
+async function restoreVersion(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, version } = req.params as any;
+        const { asset } = await assetService.restoreVersion(id, Number(version), (req as any).auth);
+        const responseAsset = presentAsset(asset);
+        res.json({ success: true, data: { asset: responseAsset }, message: 'Asset version restored successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Move an asset to another project and return updated asset
+ * @route POST /api/v1/assets/:id/move
+ */
+async function moveAsset(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { asset } = await assetService.moveAsset((req.params as any).id, req.body, (req as any).auth);
+        const responseAsset = presentAsset(asset);
+        res.json({ success: true, data: { asset: responseAsset }, message: 'Asset moved successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
+/**
+ * Copy an asset into a project and return the copy
+ * @route POST /api/v1/assets/:id/copy
+ */
+async function copyAsset(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { asset } = await assetService.copyAsset((req.params as any).id, req.body, (req as any).auth);
+        const responseAsset = presentAsset(asset);
+        res.status(201).json({ success: true, data: { asset: responseAsset }, message: 'Asset copied successfully' });
+    } catch (err) {
+        forwardAssetError(err, next);
+    }
+}
+
 /**
  * Soft delete asset and return formatted asset
  * @route DELETE /api/v1/assets/:id
@@ -155,8 +418,10 @@ async function softDelete(req: Request, res: Response, next: NextFunction) {
  */
 async function getAnalytics(req: Request, res: Response, next: NextFunction) {
     try {
-        const { organizationId, projectId } = req.query as any;
-        const result = await assetService.getAnalytics(organizationId, projectId, (req as any).auth);
+        const auth = (req as any).auth;
+        // `authorize` resolved the organization, falling back to the active one
+        const { projectId } = req.query as any;
+        const result = await assetService.getAnalytics(auth.organizationId, projectId, auth);
         res.json({ success: true, data: result, message: 'Analytics retrieved successfully' });
     } catch (err) {
         forwardAssetError(err, next);
@@ -208,15 +473,17 @@ async function replaceTags(req: Request, res: Response, next: NextFunction) {
 }
 
 /**
- * Search assets by text query with pagination
+ * Full-text search ranked by relevance, with highlighted snippets and facet counts
  * @route GET /api/v1/assets/search
  */
 async function search(req: Request, res: Response, next: NextFunction) {
     try {
-        const searchQuery = { ...req.query, search: (req.query as any).q || (req.query as any).search } as any;
-        const result = await assetService.list(searchQuery, (req as any).auth);
-        const assets = (result.assets || []).map(presentAsset);
-        res.json({ success: true, data: { assets, pagination: result.pagination }, message: 'Search completed successfully' });
+        const result = await searchService.searchAssets(req.query as any, (req as any).auth);
+        const assets = result.results.map(({ asset, score, highlights }: any) => ({
+            ...presentAsset(asset),
+            match: { score, highlights }
+        }));
+        res.json({ success: true, data: { assets, facets: result.facets, pagination: result.pagination }, message: 'Search completed successfully' });
     } catch (err) {
         forwardAssetError(err, next);
     }
@@ -274,10 +541,26 @@ async function getRecent(req: Request, res: Response, next: NextFunction) {
 const controller = {
     createUpload,
     finalizeUpload,
+    presignUploadParts,
+    getUploadProgress,
+    cancelUpload,
+    createVersionUpload,
+    finalizeVersionUpload,
     list,
     getById,
     update,
     getDownloadUrl,
+    transform,
+    getStreamMaster,
+    getStreamVariant,
+    getThumbnailTrack,
+    setPoster,
+    revertPoster,
+    listVersions,
+    getVersionDownloadUrl,
+    restoreVersion,
+    moveAsset,
+    copyAsset,
     softDelete,
     getAnalytics,
     retryProcessing,
@@ -19,9 +19,14 @@ function forwardAuthError(err: any, next: NextFunction) {
     return next(err);
 }
 
+// Callers are not authenticated yet; audit events still record where they came from
+function requestContext(req: Request) {
+    return { ip: req.ip, requestId: (req as any).requestId };
+}
+
 async function register(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await authService.register(req.body);
+        const result = await authService.register(req.body, requestContext(req));
         res.status(result.statusCode || 201).json({
             success: true,
             data: result,
@@ -34,7 +39,11 @@ async function register(req: Request, res: Response, next: NextFunction) {
 
 async function login(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await authService.login(req.body.email, req.body.password);
+        const result = await authService.login(
+            req.body.email,
+            req.body.password,
+            requestContext(req),
+        );
         res.status(result.statusCode || 200).json({
             success: true,
             data: result,
@@ -0,0 +1,54 @@
+/**
+ * Bulk Asset Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+const bulkAssetService = require('../services/bulkAsset.service');
+
+function forwardBulkError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'BULK_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+/**
+ * Apply one operation to many assets
+ * Small batches answer with per-asset results; large ones answer 202 with the job to poll.
+ * @route POST /api/v1/assets/bulk
+ */
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await bulkAssetService.bulkOperation(req.body, (req as any).auth);
+        if (result.jobId) {
+            res.status(202).json({
+                success: true,
+                data: { ...result, progressUrl: `/api/v1/assets/bulk/${result.jobId}` },
+            });
+            return;
+        }
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardBulkError(err, next);
+    }
+}
+
+/**
+ * Report the progress of a bulk job
+ * @route GET /api/v1/assets/bulk/:jobId
+ */
+async function getJob(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await bulkAssetService.getBulkJob(
+            (req.params as any).jobId,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardBulkError(err, next);
+    }
+}
+
+const controller = { create, getJob };
+export = controller;
@@ -0,0 +1,121 @@
+/**
+ * Collection Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { presentAsset } from '../utils/assetPresenter';
+const collectionService = require('../services/collection.service');
+
+function forwardCollectionError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'COLLECTION_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+/**
+ * Shape a collection with its items, presenting each asset like the asset endpoints do
+ */
+function presentWithItems(result: any) {
+    return {
+        collection: result.collection,
+        items: result.items.map((item: any, position: number) => ({
+            position,
+            addedBy: item.addedBy,
+            addedAt: item.addedAt,
+            asset: presentAsset(item.asset),
+        })),
+    };
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.createCollection(req.body, (req as any).auth);
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.listCollections(req.query as any, (req as any).auth);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function getById(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.getCollection(
+            (req.params as any).id,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: presentWithItems(result) });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function update(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.updateCollection(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function remove(req: Request, res: Response, next: NextFunction) {
+    try {
+        await collectionService.deleteCollection((req.params as any).id, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function addItems(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.addItems(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: presentWithItems(result) });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function removeItem(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, assetId } = req.params as any;
+        await collectionService.removeItem(id, assetId, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+async function reorderItems(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await collectionService.reorderItems(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: presentWithItems(result) });
+    } catch (err) {
+        forwardCollectionError(err, next);
+    }
+}
+
+const controller = { create, list, getById, update, remove, addItems, removeItem, reorderItems };
+export = controller;
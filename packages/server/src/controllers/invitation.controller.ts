@@ -0,0 +1,64 @@
+/**
+ * Invitation Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+const invitationService = require('../services/invitation.service');
+
+function forwardInvitationError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'INVITATION_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await invitationService.createInvitation(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardInvitationError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await invitationService.listInvitations(
+            (req.params as any).id,
+            req.query as any,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardInvitationError(err, next);
+    }
+}
+
+async function revoke(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, invitationId } = req.params as any;
+        await invitationService.revokeInvitation(id, invitationId);
+        res.status(204).send();
+    } catch (err) {
+        forwardInvitationError(err, next);
+    }
+}
+
+async function accept(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await invitationService.acceptInvitation(
+            (req.params as any).token,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardInvitationError(err, next);
+    }
+}
+
+const controller = { create, list, revoke, accept };
+export = controller;
@@ -4,6 +4,13 @@
 
 import type { Request, Response, NextFunction } from 'express';
 const organizationService = require('../services/organization.service');
+const membershipService = require('../services/membership.service');
+const auditService = require('../services/audit.service');
+
+const AUDIT_EXPORT_TYPES: Record<string, string> = {
+    ndjson: 'application/x-ndjson',
+    csv: 'text/csv; charset=utf-8',
+};
 
 function forwardOrgError(err: any, next: NextFunction) {
     if (err && (err.code === 11000 || err.code === 11001)) {
@@ -29,7 +36,7 @@ async function create(req: Request, res: Response, next: NextFunction) {
 
 async function list(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await organizationService.list(req.query as any);
+        const result = await organizationService.list(req.query as any, (req as any).auth);
         res.json({ success: true, data: result });
     } catch (err) {
         forwardOrgError(err, next);
@@ -47,7 +54,11 @@ async function getById(req: Request, res: Response, next: NextFunction) {
 
 async function update(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await organizationService.update((req.params as any).id, req.body);
+        const result = await organizationService.update(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
         res.json({ success: true, data: result });
     } catch (err) {
         forwardOrgError(err, next);
@@ -56,12 +67,125 @@ async function update(req: Request, res: Response, next: NextFunction) {
 
 async function archive(req: Request, res: Response, next: NextFunction) {
     try {
-        await organizationService.archive((req.params as any).id);
+        await organizationService.archive((req.params as any).id, (req as any).auth);
         res.status(204).send();
     } catch (err) {
         forwardOrgError(err, next);
     }
 }
 
-const controller = { create, list, getById, update, archive };
+async function listMembers(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await membershipService.listMembers(
+            (req.params as any).id,
+            req.query as any,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardOrgError(err, next);
+    }
+}
+
+async function addMember(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await membershipService.addMember(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardOrgError(err, next);
+    }
+}
+
+async function updateMember(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, userId } = req.params as any;
+        const result = await membershipService.updateMemberRoles(
+            id,
+            userId,
+            req.body.roles,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardOrgError(err, next);
+    }
+}
+
+async function removeMember(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, userId } = req.params as any;
+        await membershipService.removeMember(id, userId, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardOrgError(err, next);
+    }
+}
+
+/**
+ * Resolves once the response can take more data, or the client has gone away
+ */
+function drained(res: Response): Promise<void> {
+    return new Promise((resolve) => {
+        const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+        };
+        res.on('drain', done);
+        res.on('close', done);
+    });
+}
+
+/**
+ * Audit log of an organization: a JSON page, or every match streamed as NDJSON or CSV
+ */
+async function listAudit(req: Request, res: Response, next: NextFunction) {
+    const { id } = req.params as any;
+    const query = req.query as any;
+    try {
+        if (query.format === 'json') {
+            const result = await auditService.listAuditEvents(id, query);
+            res.json({ success: true, data: result });
+            return;
+        }
+
+        res.setHeader('Content-Type', AUDIT_EXPORT_TYPES[query.format]);
+        res.setHeader('Content-Disposition', `attachment; filename="audit-${id}.${query.format}"`);
+        if (query.format === 'csv') res.write(auditService.csvHeader());
+
+        for await (const event of auditService.exportAuditEvents(id, query)) {
+            const line =
+                query.format === 'csv' ? auditService.csvRow(event) : `${JSON.stringify(event)}\n`;
+            if (!res.write(line)) {
+                // Wait for the client to catch up; stop reading if it went away
+                await drained(res);
+                if (res.destroyed) return;
+            }
+        }
+        res.end();
+    } catch (err) {
+        // Once the download has started the status can no longer change; cut it short
+        if (res.headersSent) {
+            res.destroy(err as Error);
+            return;
+        }
+        forwardOrgError(err, next);
+    }
+}
+
+const controller = {
+    create,
+    list,
+    getById,
+    update,
+    archive,
+    listMembers,
+    addMember,
+    updateMember,
+    removeMember,
+    listAudit,
+};
 export = controller;
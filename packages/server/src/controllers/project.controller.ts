@@ -29,7 +29,9 @@ async function create(req: Request, res: Response, next: NextFunction) {
 
 async function list(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await projectService.list(req.query as any);
+        const query = req.query as any;
+        const organizationId = query.organizationId || (req as any).auth.organizationId;
+        const result = await projectService.list({ ...query, organizationId });
         res.json({ success: true, data: result });
     } catch (err) {
         forwardProjectError(err, next);
@@ -57,7 +59,11 @@ async function getById(req: Request, res: Response, next: NextFunction) {
 
 async function update(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await projectService.update((req.params as any).id, req.body);
+        const result = await projectService.update(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
         res.json({ success: true, data: result });
     } catch (err) {
         forwardProjectError(err, next);
@@ -66,7 +72,7 @@ async function update(req: Request, res: Response, next: NextFunction) {
 
 async function softDelete(req: Request, res: Response, next: NextFunction) {
     try {
-        await projectService.softDelete((req.params as any).id);
+        await projectService.softDelete((req.params as any).id, (req as any).auth);
         res.status(204).send();
     } catch (err) {
         forwardProjectError(err, next);
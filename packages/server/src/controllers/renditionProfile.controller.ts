@@ -0,0 +1,69 @@
+/**
+ * Rendition Profile Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+const renditionProfileService = require('../services/renditionProfile.service');
+
+function forwardRenditionProfileError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'RENDITION_PROFILE_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await renditionProfileService.createProfile(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardRenditionProfileError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await renditionProfileService.listProfiles((req.params as any).id);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardRenditionProfileError(err, next);
+    }
+}
+
+async function getById(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, profileId } = req.params as any;
+        const result = await renditionProfileService.getProfile(id, profileId);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardRenditionProfileError(err, next);
+    }
+}
+
+async function update(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, profileId } = req.params as any;
+        const result = await renditionProfileService.updateProfile(id, profileId, req.body);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardRenditionProfileError(err, next);
+    }
+}
+
+async function remove(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, profileId } = req.params as any;
+        await renditionProfileService.deleteProfile(id, profileId);
+        res.status(204).send();
+    } catch (err) {
+        forwardRenditionProfileError(err, next);
+    }
+}
+
+const controller = { create, list, getById, update, remove };
+export = controller;
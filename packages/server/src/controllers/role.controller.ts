@@ -20,7 +20,7 @@ function forwardRoleError(err: any, next: NextFunction) {
 
 async function create(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await roleService.create(req.body);
+        const result = await roleService.create(req.body, (req as any).auth);
         res.status(201).json({ success: true, data: result });
     } catch (err) {
         forwardRoleError(err, next);
@@ -29,7 +29,9 @@ async function create(req: Request, res: Response, next: NextFunction) {
 
 async function list(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await roleService.list(req.query as any);
+        const query = req.query as any;
+        const organizationId = query.organizationId || (req as any).auth.organizationId;
+        const result = await roleService.list({ ...query, organizationId });
         res.json({ success: true, data: result });
     } catch (err) {
         forwardRoleError(err, next);
@@ -47,7 +49,11 @@ async function getById(req: Request, res: Response, next: NextFunction) {
 
 async function update(req: Request, res: Response, next: NextFunction) {
     try {
-        const result = await roleService.update((req.params as any).id, req.body);
+        const result = await roleService.update(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
         res.json({ success: true, data: result });
     } catch (err) {
         forwardRoleError(err, next);
@@ -56,7 +62,7 @@ async function update(req: Request, res: Response, next: NextFunction) {
 
 async function remove(req: Request, res: Response, next: NextFunction) {
     try {
-        await roleService.remove((req.params as any).id);
+        await roleService.remove((req.params as any).id, (req as any).auth);
         res.status(204).send();
     } catch (err) {
         forwardRoleError(err, next);
@@ -0,0 +1,121 @@
+/**
+ * Saved Search Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { presentAsset } from '../utils/assetPresenter';
+const savedSearchService = require('../services/savedSearch.service');
+
+function forwardSavedSearchError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'SAVED_SEARCH_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.createSavedSearch(req.body, (req as any).auth);
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.listSavedSearches(
+            req.query as any,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+async function getById(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.getSavedSearch(
+            (req.params as any).id,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+async function update(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.updateSavedSearch(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+async function remove(req: Request, res: Response, next: NextFunction) {
+    try {
+        await savedSearchService.deleteSavedSearch((req.params as any).id, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+/**
+ * Run a saved search, returning a page of matching assets
+ * @route GET /api/v1/saved-searches/:id/assets
+ */
+async function run(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.runSavedSearch(
+            (req.params as any).id,
+            req.query as any,
+            (req as any).auth,
+        );
+        res.json({
+            success: true,
+            data: {
+                savedSearch: result.savedSearch,
+                assets: result.assets.map(presentAsset),
+                pagination: result.pagination,
+            },
+        });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+/**
+ * Match count and newest matches of a saved search, for dashboards
+ * @route GET /api/v1/saved-searches/:id/summary
+ */
+async function summary(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await savedSearchService.summarizeSavedSearch(
+            (req.params as any).id,
+            req.query as any,
+            (req as any).auth,
+        );
+        res.json({
+            success: true,
+            data: {
+                savedSearch: result.savedSearch,
+                count: result.count,
+                newest: result.newest.map(presentAsset),
+            },
+        });
+    } catch (err) {
+        forwardSavedSearchError(err, next);
+    }
+}
+
+const controller = { create, list, getById, update, remove, run, summary };
+export = controller;
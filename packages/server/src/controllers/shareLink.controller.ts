@@ -0,0 +1,73 @@
+/**
+ * Share Link Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+const shareLinkService = require('../services/shareLink.service');
+
+function forwardShareLinkError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'SHARE_LINK_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await shareLinkService.createShareLink(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardShareLinkError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await shareLinkService.listShareLinks(
+            (req.params as any).id,
+            req.query as any,
+            (req as any).auth,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardShareLinkError(err, next);
+    }
+}
+
+async function revoke(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, shareId } = req.params as any;
+        await shareLinkService.revokeShareLink(id, shareId, (req as any).auth);
+        res.status(204).send();
+    } catch (err) {
+        forwardShareLinkError(err, next);
+    }
+}
+
+/**
+ * Public: the link password travels in the `X-Share-Password` header
+ */
+async function resolve(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { rendition, redirect } = req.query as any;
+        const result = await shareLinkService.resolveShareLink((req.params as any).token, {
+            rendition,
+            password: req.get('x-share-password') || undefined,
+        });
+        res.set('Cache-Control', 'no-store');
+        if (redirect) {
+            return res.redirect(302, result.downloadUrl);
+        }
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardShareLinkError(err, next);
+    }
+}
+
+const controller = { create, list, revoke, resolve };
+export = controller;
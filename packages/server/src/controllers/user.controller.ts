@@ -5,6 +5,7 @@
 import type { Request, Response, NextFunction } from 'express';
 
 const userService = require('../services/user.service');
+const membershipService = require('../services/membership.service');
 const { sanitizeUser } = require('../utils/sanitize');
 
 function forwardUserError(err: any, next: NextFunction) {
@@ -59,5 +60,33 @@ async function softDelete(req: Request, res: Response, next: NextFunction) {
     }
 }
 
-const controller = { me, updateProfile, changePassword, softDelete };
+async function organizations(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await membershipService.listMyOrganizations((req as any).auth);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardUserError(err, next);
+    }
+}
+
+async function switchOrganization(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await membershipService.switchActiveOrganization(
+            (req as any).auth,
+            req.body.organizationId,
+        );
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardUserError(err, next);
+    }
+}
+
+const controller = {
+    me,
+    updateProfile,
+    changePassword,
+    softDelete,
+    organizations,
+    switchOrganization,
+};
 export = controller;
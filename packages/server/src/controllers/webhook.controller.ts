@@ -0,0 +1,89 @@
+/**
+ * Webhook Controller (TypeScript)
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+const webhookService = require('../services/webhook.service');
+
+function forwardWebhookError(err: any, next: NextFunction) {
+    if (!err.status) {
+        err.status = 500;
+        err.code = err.code || 'WEBHOOK_CONTROLLER_ERROR';
+    }
+    return next(err);
+}
+
+async function create(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await webhookService.createWebhook(
+            (req.params as any).id,
+            req.body,
+            (req as any).auth,
+        );
+        res.status(201).json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function list(req: Request, res: Response, next: NextFunction) {
+    try {
+        const result = await webhookService.listWebhooks((req.params as any).id, req.query as any);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function getById(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, webhookId } = req.params as any;
+        const result = await webhookService.getWebhook(id, webhookId);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function update(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, webhookId } = req.params as any;
+        const result = await webhookService.updateWebhook(id, webhookId, req.body);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function remove(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, webhookId } = req.params as any;
+        await webhookService.deleteWebhook(id, webhookId);
+        res.status(204).send();
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function listDeliveries(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, webhookId } = req.params as any;
+        const result = await webhookService.listDeliveries(id, webhookId, req.query as any);
+        res.json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+async function redeliver(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { id, webhookId, deliveryId } = req.params as any;
+        const result = await webhookService.redeliver(id, webhookId, deliveryId);
+        res.status(202).json({ success: true, data: result });
+    } catch (err) {
+        forwardWebhookError(err, next);
+    }
+}
+
+const controller = { create, list, getById, update, remove, listDeliveries, redeliver };
+export = controller;
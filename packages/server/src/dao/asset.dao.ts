@@ -3,12 +3,13 @@
  * Comprehensive data access layer for asset CRUD operations with MongoDB
  * including complex queries, aggregations, and asset relationship management.
  */
-import Asset, { type IAsset, AssetType, AssetStatus, AccessLevel, StorageProvider } from '../models/Asset.model';
+import Asset, { type IAsset, type IRendition, AssetType, AssetStatus, AccessLevel, StorageProvider, customMetadataSearchText } from '../models/Asset.model';
 import Organization from '../models/Organization.model';
 import Project from '../models/Project.model';  
 import User from '../models/User.model';
 import dbError from '../utils/db.error';
-import { Types } from 'mongoose';
+import { encodeCursor, cursorSort, cursorConditions, type CursorKey, type PageCursor } from '../utils/cursor';
+import { Types, type UpdateQuery } from 'mongoose';
 
 /**
  * Asset list filter interface for flexible querying
@@ -24,6 +25,55 @@ export interface AssetListFilter {
     uploadedBy?: string;
     createdAfter?: Date;
     createdBefore?: Date;
+    // Compiled asset query language filter, combined with the fields above
+    where?: Record<string, any>;
+    // Restrict to assets this user may see: their own uploads and every non-private asset
+    visibleTo?: string;
+}
+
+/**
+ * Asset search filter: a text query narrowed by the list filters
+ */
+export interface AssetSearchFilter extends Omit<AssetListFilter, 'search' | 'createdAfter' | 'createdBefore' | 'where'> {
+    text: string;
+}
+
+/**
+ * Asset search options
+ */
+export interface AssetSearchOptions {
+    page?: number;
+    limit?: number;
+    facetLimit?: number;
+    // Continue after this cursor instead of skipping to `page`
+    cursor?: PageCursor;
+}
+
+/**
+ * Number of matching assets sharing one value of a faceted field
+ */
+export interface SearchFacetBucket {
+    value: string;
+    count: number;
+    label?: string;
+}
+
+/**
+ * Ranked search page with facet counts over every match
+ */
+export interface AssetSearchResult {
+    assets: any[];
+    total: number;
+    totalPages: number;
+    nextCursor: string | null;
+    hasNext: boolean;
+    facets: {
+        assetType: SearchFacetBucket[];
+        status: SearchFacetBucket[];
+        tags: SearchFacetBucket[];
+        uploadedBy: SearchFacetBucket[];
+        projectId: SearchFacetBucket[];
+    };
 }
 
 /**
@@ -35,8 +85,31 @@ export interface AssetListOptions {
     sortBy?: 'createdAt' | 'updatedAt' | 'originalFilename' | 'fileSizeBytes';
     sortOrder?: 'asc' | 'desc';
     populate?: boolean;
+    // Continue after this cursor instead of skipping to `page`; it must match the sort
+    cursor?: PageCursor;
+    // Count every match; skipping the count keeps deep pages cheap (default true)
+    includeTotal?: boolean;
+}
+
+/**
+ * One page of assets. `total` and `totalPages` are only set when counted.
+ */
+export interface AssetListPage {
+    assets: IAsset[];
+    total?: number;
+    totalPages?: number;
+    nextCursor: string | null;
+    hasNext: boolean;
 }
 
+/**
+ * Relevance order of `search`, newest first among equal scores
+ */
+export const SEARCH_SORT_KEYS: CursorKey[] = [
+    { field: 'score', order: 'desc' },
+    { field: 'updatedAt', order: 'desc' }
+];
+
 /**
  * Asset creation data interface
  */
@@ -51,20 +124,56 @@ export interface CreateAssetData {
     checksum: string;
     storageProvider: StorageProvider;
     storageKey: string;
+    multipartUpload?: {
+        uploadId: string;
+        partSizeBytes: number;
+        partCount: number;
+    };
+    uploadExpiresAt?: Date;
+    description?: string;
     tags?: string[];
     access?: AccessLevel;
     customMetadata?: Record<string, string>;
 }
 
+/**
+ * Asset copy data interface
+ * A complete asset whose storage objects have already been duplicated
+ */
+export interface CopyAssetData extends Omit<CreateAssetData, 'multipartUpload' | 'uploadExpiresAt'> {
+    _id: Types.ObjectId;
+    copiedFrom: string;
+    extractedText?: string;
+    status: AssetStatus;
+    processingError?: string;
+    latestVersion: number;
+    versions: any[];
+    metadata?: any;
+    renditions?: any;
+}
+
+/**
+ * Storage location update applied when an asset moves to another project
+ */
+export interface RelocateAssetData {
+    projectId: string;
+    storageKey: string;
+    versions: any[];
+    renditions?: any;
+}
+
 /**
  * Asset update data interface
  */
 export interface UpdateAssetData {
+    description?: string;
     tags?: string[];
     access?: AccessLevel;
     customMetadata?: Record<string, string>;
+    extractedText?: string;
     status?: AssetStatus;
     processingError?: string;
+    processingRecoveries?: number;
     metadata?: {
         width?: number;
         height?: number;
@@ -76,6 +185,29 @@ export interface UpdateAssetData {
     renditions?: any;
 }
 
+/**
+ * Asset version data interface
+ * Describes the file that becomes the asset's current version
+ */
+export interface AddVersionData {
+    version: number;
+    storageKey: string;
+    fileSizeBytes: number;
+    checksum: string;
+    mimeType: string;
+    originalFilename: string;
+    createdBy: string;
+    restoredFrom?: number;
+    status?: AssetStatus;
+}
+
+/**
+ * Pending version data interface
+ */
+export interface PendingVersionData extends Omit<AddVersionData, 'status' | 'restoredFrom'> {
+    expiresAt: Date;
+}
+
 /**
  * Create new asset record
  * @param data - Asset creation data
@@ -111,6 +243,9 @@ async function createAsset(data: CreateAssetData): Promise<IAsset> {
                 version: 1,
                 storageKey: data.storageKey,
                 fileSizeBytes: data.fileSizeBytes,
+                checksum: data.checksum,
+                mimeType: data.mimeType,
+                originalFilename: data.originalFilename,
                 createdBy: data.uploadedBy,
                 createdAt: new Date()
             }],
@@ -127,6 +262,99 @@ async function createAsset(data: CreateAssetData): Promise<IAsset> {
     }
 }
 
+/**
+ * Insert a copy of an asset
+ * @param data - Complete copy, including its versions and renditions
+ * @returns Created asset document
+ */
+async function createCopy(data: CopyAssetData): Promise<IAsset> {
+    try {
+        const asset = new Asset({
+            ...data,
+            analytics: {
+                viewCount: 0,
+                downloadCount: 0
+            }
+        });
+
+        await asset.save();
+        return asset;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create asset copy failed', 500, error);
+    }
+}
+
+/**
+ * Read the text extracted from an asset's document, which is not loaded by default
+ * @param id - Asset ID
+ * @returns Extracted text, if any
+ */
+async function findExtractedText(id: string): Promise<string | undefined> {
+    try {
+        const asset = await Asset.findById(id).select('+extractedText').lean();
+        return asset?.extractedText;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find extracted text failed', 500, error);
+    }
+}
+
+/**
+ * Read the extracted text of several assets at once
+ * @param ids - Asset IDs
+ * @returns Extracted text keyed by asset ID; assets without any are left out
+ */
+async function findExtractedTexts(ids: string[]): Promise<Map<string, string>> {
+    try {
+        if (ids.length === 0) return new Map();
+        const assets = await Asset.find({ _id: { $in: ids }, extractedText: { $exists: true } })
+            .select('+extractedText')
+            .lean();
+        return new Map(assets.map((asset) => [String(asset._id), asset.extractedText as string]));
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find extracted texts failed', 500, error);
+    }
+}
+
+/**
+ * Remember a cached transform of an asset so it is purged with the asset
+ * @param id - Asset ID
+ * @param storageKey - Storage key of the cached object
+ * @param limit - Most cached objects an asset may have
+ * @returns True when recorded (or already known), false when the asset is gone or at the limit
+ */
+async function addDerivedStorageKey(id: string, storageKey: string, limit: number): Promise<boolean> {
+    try {
+        const result = await Asset.updateOne(
+            {
+                _id: id,
+                deletedAt: { $exists: false },
+                $or: [
+                    { derivedStorageKeys: storageKey },
+                    { [`derivedStorageKeys.${limit - 1}`]: { $exists: false } }
+                ]
+            },
+            { $addToSet: { derivedStorageKeys: storageKey } }
+        );
+        return result.matchedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Add derived storage key failed', 500, error);
+    }
+}
+
+/**
+ * Read the storage keys of an asset's cached transforms, which are not loaded by default
+ * @param id - Asset ID
+ * @returns Storage keys, empty when there are none
+ */
+async function findDerivedStorageKeys(id: string): Promise<string[]> {
+    try {
+        const asset = await Asset.findById(id).select('+derivedStorageKeys').lean();
+        return asset?.derivedStorageKeys || [];
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find derived storage keys failed', 500, error);
+    }
+}
+
 /**
  * Find asset by ID
  * @param id - Asset ID
@@ -151,6 +379,20 @@ async function findById(id: string, populate = false): Promise<IAsset | null> {
     }
 }
 
+/**
+ * Find several assets by ID, skipping deleted ones
+ * @param ids - Asset IDs
+ * @returns Asset documents in no particular order
+ */
+async function findByIds(ids: string[]): Promise<IAsset[]> {
+    try {
+        if (ids.length === 0) return [];
+        return await Asset.find({ _id: { $in: ids }, deletedAt: { $exists: false } });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find assets by ID failed', 500, error);
+    }
+}
+
 /**
  * Find asset by checksum for deduplication
  * @param organizationId - Organization ID
@@ -171,25 +413,32 @@ async function findByChecksum(organizationId: string, checksum: string): Promise
 
 /**
  * List assets with filtering, pagination, and sorting
+ *
+ * Items are ordered by the sort field, then `_id`, which makes the order total:
+ * `nextCursor` points after the last item, and a page read with it starts there
+ * using the `..., <sort field>, _id` compound indexes instead of skipping rows.
  * @param filter - Asset filter criteria
- * @param options - List options (pagination, sorting)
- * @returns Assets list with pagination info
+ * @param options - List options (page or cursor, sorting, whether to count)
+ * @returns Assets page with the next cursor, and the total when counted
  */
 async function list(
     filter: AssetListFilter = {},
     options: AssetListOptions = {}
-): Promise<{ assets: IAsset[]; total: number; totalPages: number }> {
+): Promise<AssetListPage> {
     try {
         const {
             page = 1,
             limit = 20,
             sortBy = 'updatedAt',
             sortOrder = 'desc',
-            populate = false
+            populate = false,
+            cursor,
+            includeTotal = true
         } = options;
 
-        const skip = (page - 1) * limit;
-        const sort: any = { [sortBy]: sortOrder === 'desc' ? -1 : 1 };
+        const keys: CursorKey[] = [{ field: sortBy, order: sortOrder }];
+        const skip = cursor ? 0 : (page - 1) * limit;
+        const sort = cursorSort(keys);
 
         // Build query
         const query: any = { deletedAt: { $exists: false } };
@@ -225,16 +474,33 @@ async function list(
             }
         }
 
-        // Add text search if provided
+        // Add substring search if provided (full-text search lives in `search`)
         if (filter.search) {
+            const pattern = new RegExp(filter.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
             query.$or = [
-                { originalFilename: { $regex: filter.search, $options: 'i' } },
-                { tags: { $in: [new RegExp(filter.search, 'i')] } }
+                { originalFilename: pattern },
+                { tags: pattern }
             ];
         }
+        const conditions: any[] = [];
+        if (filter.visibleTo) {
+            conditions.push({
+                $or: [{ uploadedBy: filter.visibleTo }, { access: { $ne: AccessLevel.PRIVATE } }]
+            });
+        }
+        if (filter.where && Object.keys(filter.where).length > 0) {
+            conditions.push(filter.where);
+        }
+        if (conditions.length > 0) {
+            query.$and = conditions;
+        }
+        // The total counts every match, so the cursor only narrows the page query
+        const pageQuery: any = cursor
+            ? { ...query, $and: [...conditions, ...cursorConditions(cursor)] }
+            : query;
 
-        // Execute query
-        let assetsQuery = Asset.find(query).sort(sort).skip(skip).limit(limit);
+        // Execute query, reading one extra item to know whether another page follows
+        let assetsQuery = Asset.find(pageQuery).sort(sort).skip(skip).limit(limit + 1);
         
         if (populate) {
             assetsQuery = assetsQuery
@@ -243,14 +509,22 @@ async function list(
                 .populate('uploadedBy', 'name email');
         }
 
-        const [assets, total] = await Promise.all([
+        const [items, total] = await Promise.all([
             assetsQuery.exec(),
-            Asset.countDocuments(query)
+            includeTotal ? Asset.countDocuments(query) : Promise.resolve(undefined)
         ]);
 
-        const totalPages = Math.ceil(total / limit);
+        const hasNext = items.length > limit;
+        const assets = hasNext ? items.slice(0, limit) : items;
+        const nextCursor = hasNext ? encodeCursor(keys, assets[assets.length - 1]) : null;
 
-        return { assets, total, totalPages };
+        return {
+            assets,
+            total,
+            totalPages: total === undefined ? undefined : Math.ceil(total / limit),
+            nextCursor,
+            hasNext
+        };
     } catch (error: any) {
         throw dbError('DATABASE_ERROR', 'List assets failed', 500, error);
     }
@@ -266,6 +540,9 @@ async function updateById(id: string, data: UpdateAssetData): Promise<IAsset | n
     try {
         const updateDoc: any = {};
 
+        if (data.description !== undefined) {
+            updateDoc.description = data.description;
+        }
         if (data.tags !== undefined) {
             updateDoc.tags = data.tags;
         }
@@ -274,6 +551,10 @@ async function updateById(id: string, data: UpdateAssetData): Promise<IAsset | n
         }
         if (data.customMetadata !== undefined) {
             updateDoc.customMetadata = data.customMetadata;
+            updateDoc.customMetadataText = customMetadataSearchText(data.customMetadata);
+        }
+        if (data.extractedText !== undefined) {
+            updateDoc.extractedText = data.extractedText;
         }
         if (data.status !== undefined) {
             updateDoc.status = data.status;
@@ -281,6 +562,9 @@ async function updateById(id: string, data: UpdateAssetData): Promise<IAsset | n
         if (data.processingError !== undefined) {
             updateDoc.processingError = data.processingError;
         }
+        if (data.processingRecoveries !== undefined) {
+            updateDoc.processingRecoveries = data.processingRecoveries;
+        }
         if (data.metadata !== undefined) {
             updateDoc.metadata = data.metadata;
         }
@@ -305,44 +589,188 @@ async function updateById(id: string, data: UpdateAssetData): Promise<IAsset | n
 }
 
 /**
- * Add new version to asset
+ * Add or replace individual renditions, leaving the others in place
+ * Only applies while the asset still has the file the renditions were made from
+ * and, when given, while the named renditions still have the expected storage keys.
  * @param id - Asset ID
- * @param storageKey - Storage key for new version
- * @param fileSizeBytes - File size in bytes
- * @param createdBy - User who created the version
- * @returns Updated asset document
+ * @param storageKey - Storage key of the source file
+ * @param renditions - Renditions by name
+ * @param expected - Storage key each named rendition must have, null for none
+ * @returns Updated asset document, or null if the asset is missing or changed
  */
-async function addVersion(
+async function setRenditions(
     id: string,
     storageKey: string,
-    fileSizeBytes: number,
-    createdBy: string
+    renditions: Record<string, IRendition>,
+    expected: Record<string, string | null> = {}
 ): Promise<IAsset | null> {
     try {
-        const asset = await Asset.findById(id);
-        if (!asset) return null;
+        const update: Record<string, IRendition> = {};
+        for (const [name, rendition] of Object.entries(renditions)) {
+            update[`renditions.${name}`] = rendition;
+        }
 
-        const newVersion = asset.latestVersion + 1;
-        
-        await Asset.findByIdAndUpdate(id, {
-            $push: {
-                versions: {
-                    version: newVersion,
-                    storageKey,
-                    fileSizeBytes,
-                    createdBy,
-                    createdAt: new Date()
+        const filter: Record<string, any> = { _id: id, storageKey, deletedAt: { $exists: false } };
+        for (const [name, key] of Object.entries(expected)) {
+            filter[`renditions.${name}.storageKey`] = key === null ? { $exists: false } : key;
+        }
+
+        return await Asset.findOneAndUpdate(filter, { $set: update }, { new: true });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Set renditions failed', 500, error);
+    }
+}
+
+/**
+ * Add new version to asset and make it the current file
+ * Renditions, metadata and processing errors belong to the previous file and are cleared;
+ * callers queue the storage objects of the cleared renditions for deletion.
+ * @param id - Asset ID
+ * @param data - New version data; `version` must directly follow the latest version
+ * @returns Updated asset document, or null if the asset is missing or the version is stale
+ */
+async function addVersion(id: string, data: AddVersionData): Promise<IAsset | null> {
+    try {
+        const { status, ...version } = data;
+
+        return await Asset.findOneAndUpdate(
+            {
+                _id: id,
+                latestVersion: data.version - 1,
+                deletedAt: { $exists: false }
+            },
+            {
+                $push: {
+                    versions: {
+                        ...version,
+                        createdAt: new Date()
+                    }
+                },
+                $set: {
+                    latestVersion: data.version,
+                    storageKey: data.storageKey,
+                    fileSizeBytes: data.fileSizeBytes,
+                    checksum: data.checksum,
+                    mimeType: data.mimeType,
+                    originalFilename: data.originalFilename,
+                    ...(status && { status })
+                },
+                $unset: {
+                    renditions: 1,
+                    metadata: 1,
+                    processingError: 1,
+                    processingRecoveries: 1,
+                    pendingVersion: 1
                 }
             },
-            $set: { latestVersion: newVersion }
-        });
-
-        return await findById(id);
+            { new: true }
+        );
     } catch (error: any) {
         throw dbError('DATABASE_ERROR', 'Add asset version failed', 500, error);
     }
 }
 
+/**
+ * Record an upload of the next version, replacing any earlier pending upload
+ * @param id - Asset ID
+ * @param data - Pending version data
+ * @returns Updated asset document or null
+ */
+async function setPendingVersion(id: string, data: PendingVersionData): Promise<IAsset | null> {
+    try {
+        return await Asset.findOneAndUpdate(
+            { _id: id, deletedAt: { $exists: false } },
+            { $set: { pendingVersion: data } },
+            { new: true, runValidators: true }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Set pending asset version failed', 500, error);
+    }
+}
+
+/**
+ * Forget the multipart upload of an asset once it is completed or aborted
+ * @param id - Asset ID
+ * @returns Updated asset document or null
+ */
+async function clearMultipartUpload(id: string): Promise<IAsset | null> {
+    try {
+        return await Asset.findByIdAndUpdate(
+            id,
+            { $unset: { multipartUpload: 1 } },
+            { new: true }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Clear multipart upload failed', 500, error);
+    }
+}
+
+/**
+ * Push the upload deadline of an asset out to at least the given time
+ * @param id - Asset ID
+ * @param until - Earliest acceptable deadline
+ */
+async function extendUploadExpiry(id: string, until: Date): Promise<void> {
+    try {
+        await Asset.updateOne(
+            { _id: id, status: AssetStatus.UPLOADING },
+            { $max: { uploadExpiresAt: until } }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Extend upload expiry failed', 500, error);
+    }
+}
+
+/**
+ * Find uploads that were never finalized before their deadline
+ * Records created before deadlines were tracked fall back to the 1-hour
+ * lifetime of their presigned URL.
+ * @param before - Deadline cut-off
+ * @param limit - Maximum number of assets to return
+ * @returns Expired uploading assets, oldest first
+ */
+async function findExpiredUploads(before: Date, limit: number = 50): Promise<IAsset[]> {
+    try {
+        return await Asset.find({
+            status: AssetStatus.UPLOADING,
+            deletedAt: { $exists: false },
+            $or: [
+                { uploadExpiresAt: { $lte: before } },
+                {
+                    uploadExpiresAt: { $exists: false },
+                    createdAt: { $lte: new Date(before.getTime() - 60 * 60 * 1000) }
+                }
+            ]
+        })
+        .sort({ createdAt: 1 })
+        .limit(limit);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find expired uploads failed', 500, error);
+    }
+}
+
+/**
+ * Update an asset only while its original upload is still pending, so a
+ * concurrent finalize always wins over background maintenance
+ * @param id - Asset ID
+ * @param data - Status change or soft-deletion timestamp
+ * @returns Updated asset document, or null if the asset left the uploading state
+ */
+async function updateIfUploading(
+    id: string,
+    data: { status?: AssetStatus; deletedAt?: Date }
+): Promise<IAsset | null> {
+    try {
+        return await Asset.findOneAndUpdate(
+            { _id: id, status: AssetStatus.UPLOADING, deletedAt: { $exists: false } },
+            { $set: data },
+            { new: true }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update uploading asset failed', 500, error);
+    }
+}
+
 /**
  * Increment view count for asset analytics
  * @param id - Asset ID
@@ -396,6 +824,25 @@ async function softDeleteById(id: string): Promise<boolean> {
     }
 }
 
+/**
+ * Permanently remove a soft-deleted asset document
+ * Only documents already marked with deletedAt are removed, so a purge can
+ * never take out a live asset.
+ * @param id - Asset ID
+ * @returns Whether a document was removed
+ */
+async function hardDeleteById(id: string): Promise<boolean> {
+    try {
+        const result = await Asset.deleteOne({
+            _id: id,
+            deletedAt: { $exists: true }
+        });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Hard delete asset failed', 500, error);
+    }
+}
+
 /**
  * Find assets by project with pagination
  * @param organizationId - Organization ID
@@ -407,7 +854,7 @@ async function findByProject(
     organizationId: string,
     projectId: string,
     options: AssetListOptions = {}
-): Promise<{ assets: IAsset[]; total: number }> {
+): Promise<AssetListPage> {
     try {
         return await list({ organizationId, projectId }, options);
     } catch (error: any) {
@@ -426,7 +873,7 @@ async function findByTag(
     organizationId: string,
     tag: string,
     options: AssetListOptions = {}
-): Promise<{ assets: IAsset[]; total: number }> {
+): Promise<AssetListPage> {
     try {
         return await list({ organizationId, tags: [tag] }, options);
     } catch (error: any) {
@@ -558,47 +1005,245 @@ async function findDuplicateAssets(organizationId: string): Promise<IAsset[]> {
 }
 
 /**
- * Get assets requiring processing (status = pending or failed with retry)
+ * Get assets stuck in processing: pending or processing with no update since a cutoff
  * @param limit - Maximum number of assets to return
- * @returns Assets that need processing
+ * @param stuckBefore - Assets last updated before this time are considered stuck
+ * @returns Assets that need processing, least recently updated first
  */
-async function findAssetsRequiringProcessing(limit = 50): Promise<IAsset[]> {
+async function findAssetsRequiringProcessing(
+    limit = 50,
+    stuckBefore: Date = new Date(Date.now() - 30 * 60 * 1000) // 30 minutes ago
+): Promise<IAsset[]> {
     try {
         return await Asset.find({
-            $or: [
-                { status: AssetStatus.PENDING },
-                { 
-                    status: AssetStatus.FAILED,
-                    updatedAt: { $lt: new Date(Date.now() - 30 * 60 * 1000) } // 30 minutes ago
-                }
-            ],
+            status: { $in: [AssetStatus.PENDING, AssetStatus.PROCESSING] },
+            updatedAt: { $lt: stuckBefore },
             deletedAt: { $exists: false }
         })
-        .sort({ createdAt: 1 })
-        .limit(limit)
-        .populate('organizationId', 'name')
-        .populate('projectId', 'name path');
+        .sort({ updatedAt: 1 })
+        .limit(limit);
     } catch (error: any) {
         throw dbError('DATABASE_ERROR', 'Find assets requiring processing failed', 500, error);
     }
 }
 
+/**
+ * Update a stuck asset only if nothing touched it since it was read, so a
+ * worker finishing concurrently always wins over recovery
+ * @param id - Asset ID
+ * @param seenUpdatedAt - `updatedAt` of the asset when it was found stuck
+ * @param update - Update to apply
+ * @returns Updated asset document, or null if the asset changed in the meantime
+ */
+async function updateIfStuck(id: string, seenUpdatedAt: Date, update: UpdateQuery<IAsset>): Promise<IAsset | null> {
+    try {
+        return await Asset.findOneAndUpdate(
+            {
+                _id: id,
+                status: { $in: [AssetStatus.PENDING, AssetStatus.PROCESSING] },
+                updatedAt: seenUpdatedAt,
+                deletedAt: { $exists: false }
+            },
+            update,
+            { new: true }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update stuck asset failed', 500, error);
+    }
+}
+
+/**
+ * Point an asset at relocated storage objects, but only if its current file,
+ * version history and status are still the ones that were copied
+ * @param id - Asset ID
+ * @param seen - Storage key, latest version and status of the asset when it was read
+ * @param data - New project and storage keys
+ * @returns Updated asset document, or null if the asset changed in the meantime
+ */
+async function relocateIfUnchanged(
+    id: string,
+    seen: { storageKey: string; latestVersion: number; status: AssetStatus },
+    data: RelocateAssetData
+): Promise<IAsset | null> {
+    try {
+        const update: any = {
+            projectId: data.projectId,
+            storageKey: data.storageKey,
+            versions: data.versions
+        };
+        if (data.renditions !== undefined) {
+            update.renditions = data.renditions;
+        }
+
+        return await Asset.findOneAndUpdate(
+            {
+                _id: id,
+                storageKey: seen.storageKey,
+                latestVersion: seen.latestVersion,
+                status: seen.status,
+                pendingVersion: { $exists: false },
+                deletedAt: { $exists: false }
+            },
+            { $set: update },
+            { new: true, runValidators: true }
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Relocate asset failed', 500, error);
+    }
+}
+
+/**
+ * Full-text search over filename, tags, custom metadata and extracted document
+ * text, ranked by relevance, with facet counts computed over every match
+ * The large search-only text fields are dropped before the facets, which see every match.
+ * @param filter - Text query and filters
+ * @param options - Pagination and facet size
+ * @returns Page of matching assets (plain objects with `score`, without the search text fields) and facets
+ */
+async function search(filter: AssetSearchFilter, options: AssetSearchOptions = {}): Promise<AssetSearchResult> {
+    try {
+        const { page = 1, limit = 20, facetLimit = 10, cursor } = options;
+
+        // Aggregations do not cast, so IDs are converted here
+        const match: any = {
+            $text: { $search: filter.text },
+            deletedAt: { $exists: false }
+        };
+        if (filter.organizationId) {
+            match.organizationId = new Types.ObjectId(filter.organizationId);
+        }
+        if (filter.projectId) {
+            match.projectId = new Types.ObjectId(filter.projectId);
+        }
+        if (filter.assetType) {
+            match.assetType = filter.assetType;
+        }
+        if (filter.status) {
+            match.status = filter.status;
+        }
+        if (filter.access) {
+            match.access = filter.access;
+        }
+        if (filter.uploadedBy) {
+            match.uploadedBy = new Types.ObjectId(filter.uploadedBy);
+        }
+        if (filter.tags && filter.tags.length > 0) {
+            match.tags = { $in: filter.tags };
+        }
+        if (filter.visibleTo) {
+            match.$or = [
+                { uploadedBy: new Types.ObjectId(filter.visibleTo) },
+                { access: { $ne: AccessLevel.PRIVATE } }
+            ];
+        }
+
+        const countBy = (field: string, max?: number): any[] => [
+            { $group: { _id: field, count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            ...(max ? [{ $limit: max }] : [])
+        ];
+
+        const [result] = await Asset.aggregate([
+            { $match: match },
+            { $addFields: { score: { $meta: 'textScore' } } },
+            { $project: { extractedText: 0, customMetadataText: 0 } },
+            {
+                $facet: {
+                    // Facets and the total cover every match; only the page starts at the cursor
+                    assets: [
+                        ...(cursor ? [{ $match: { $and: cursorConditions(cursor) } }] : []),
+                        { $sort: cursorSort(SEARCH_SORT_KEYS) },
+                        { $skip: cursor ? 0 : (page - 1) * limit },
+                        { $limit: limit + 1 }
+                    ],
+                    total: [{ $count: 'count' }],
+                    assetType: countBy('$assetType'),
+                    status: countBy('$status'),
+                    tags: [{ $unwind: '$tags' }, ...countBy('$tags', facetLimit)],
+                    uploadedBy: [
+                        ...countBy('$uploadedBy', facetLimit),
+                        { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+                        {
+                            $project: {
+                                count: 1,
+                                email: { $arrayElemAt: ['$user.email', 0] },
+                                firstName: { $arrayElemAt: ['$user.profile.firstName', 0] },
+                                lastName: { $arrayElemAt: ['$user.profile.lastName', 0] }
+                            }
+                        }
+                    ],
+                    projectId: [
+                        ...countBy('$projectId', facetLimit),
+                        { $lookup: { from: 'projects', localField: '_id', foreignField: '_id', as: 'project' } },
+                        { $project: { count: 1, path: { $arrayElemAt: ['$project.path', 0] } } }
+                    ]
+                }
+            }
+        ]);
+
+        const total = result?.total?.[0]?.count || 0;
+        const bucket = (entry: any): SearchFacetBucket => ({ value: String(entry._id), count: entry.count });
+        const items: any[] = result?.assets || [];
+        const hasNext = items.length > limit;
+        const assets = hasNext ? items.slice(0, limit) : items;
+
+        return {
+            assets,
+            total,
+            totalPages: Math.ceil(total / limit),
+            nextCursor: hasNext ? encodeCursor(SEARCH_SORT_KEYS, assets[assets.length - 1]) : null,
+            hasNext,
+            facets: {
+                assetType: (result?.assetType || []).map(bucket),
+                status: (result?.status || []).map(bucket),
+                tags: (result?.tags || []).map(bucket),
+                uploadedBy: (result?.uploadedBy || []).map((entry: any) => ({
+                    ...bucket(entry),
+                    label: [entry.firstName, entry.lastName].filter(Boolean).join(' ') || entry.email
+                })),
+                projectId: (result?.projectId || []).map((entry: any) => ({
+                    ...bucket(entry),
+                    label: entry.path
+                }))
+            }
+        };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Search assets failed', 500, error);
+    }
+}
+
 /**
  * Export all DAO functions
  */
 export default {
     createAsset,
+    createCopy,
     findById,
+    findExtractedText,
+    findExtractedTexts,
+    addDerivedStorageKey,
+    findDerivedStorageKeys,
+    findByIds,
     findByChecksum,
     list,
+    search,
     updateById,
+    setRenditions,
     addVersion,
+    setPendingVersion,
+    clearMultipartUpload,
+    extendUploadExpiry,
+    findExpiredUploads,
+    updateIfUploading,
     incrementViewCount,
     incrementDownloadCount,
     softDeleteById,
+    hardDeleteById,
     findByProject,
     findByTag,
     getAnalyticsSummary,
     findDuplicateAssets,
-    findAssetsRequiringProcessing
+    findAssetsRequiringProcessing,
+    updateIfStuck,
+    relocateIfUnchanged
 };
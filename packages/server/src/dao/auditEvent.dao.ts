@@ -0,0 +1,130 @@
+/**
+ * @fileoverview AuditEvent DAO - Database operations for AuditEvent
+ */
+
+import AuditEvent, { type IAuditEventDocument } from '../models/AuditEvent.model';
+import dbError from '../utils/db.error';
+import {
+    encodeCursor,
+    cursorSort,
+    cursorConditions,
+    type CursorKey,
+    type PageCursor,
+} from '../utils/cursor';
+
+export interface AuditEventFilter {
+    organizationId: string;
+    // Exact actions, or prefixes ending in `.*` such as `asset.*`
+    actions?: string[];
+    actorId?: string;
+    targetType?: string;
+    targetId?: string;
+    requestId?: string;
+    from?: Date;
+    to?: Date;
+}
+
+/** Newest first; `_id` breaks ties between events written in the same millisecond */
+export const AUDIT_SORT_KEYS: CursorKey[] = [{ field: 'createdAt', order: 'desc' }];
+
+function buildQuery(filter: AuditEventFilter): Record<string, any> {
+    const query: any = { organizationId: filter.organizationId };
+    if (filter.actions && filter.actions.length > 0) {
+        query.action = {
+            $in: filter.actions.map((action) =>
+                action.endsWith('.*')
+                    ? new RegExp(`^${action.slice(0, -1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`)
+                    : action,
+            ),
+        };
+    }
+    if (filter.actorId) query.actorId = filter.actorId;
+    if (filter.targetType) query.targetType = filter.targetType;
+    if (filter.targetId) query.targetId = filter.targetId;
+    if (filter.requestId) query.requestId = filter.requestId;
+    if (filter.from || filter.to) {
+        query.createdAt = {};
+        if (filter.from) query.createdAt.$gte = filter.from;
+        if (filter.to) query.createdAt.$lte = filter.to;
+    }
+    return query;
+}
+
+async function createEvent(data: Partial<IAuditEventDocument>): Promise<IAuditEventDocument> {
+    try {
+        const event = new AuditEvent(data);
+        await event.save();
+        return event;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create audit event failed', 500, error);
+    }
+}
+
+/**
+ * One page of events, newest first
+ * @param filter - Organization and optional filters
+ * @param options - Page size and the cursor of the previous page
+ */
+async function list(
+    filter: AuditEventFilter,
+    options: { limit?: number; cursor?: PageCursor } = {},
+): Promise<{ events: any[]; nextCursor: string | null; hasNext: boolean }> {
+    try {
+        const { limit = 50, cursor } = options;
+        const query = buildQuery(filter);
+        if (cursor) {
+            query.$and = cursorConditions(cursor);
+        }
+        const items = await AuditEvent.find(query)
+            .sort(cursorSort(AUDIT_SORT_KEYS))
+            .limit(limit + 1)
+            .lean();
+
+        const hasNext = items.length > limit;
+        const events = hasNext ? items.slice(0, limit) : items;
+        return {
+            events,
+            nextCursor: hasNext ? encodeCursor(AUDIT_SORT_KEYS, events[events.length - 1]) : null,
+            hasNext,
+        };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List audit events failed', 500, error);
+    }
+}
+
+/**
+ * Every matching event, newest first, read in batches for exports
+ */
+function stream(filter: AuditEventFilter): AsyncIterable<any> {
+    return AuditEvent.find(buildQuery(filter))
+        .sort(cursorSort(AUDIT_SORT_KEYS))
+        .lean()
+        .cursor({ batchSize: 500 });
+}
+
+/**
+ * Re-date the expiry of an organization's events after its retention changed
+ * @param organizationId - Organization ID
+ * @param retentionDays - New retention, counted from each event's creation
+ */
+async function setRetention(organizationId: string, retentionDays: number): Promise<number> {
+    try {
+        const result = await AuditEvent.updateMany({ organizationId }, [
+            {
+                $set: {
+                    expiresAt: { $add: ['$createdAt', retentionDays * 24 * 60 * 60 * 1000] },
+                },
+            },
+        ]);
+        return result.modifiedCount;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update audit retention failed', 500, error);
+    }
+}
+
+export default {
+    createEvent,
+    list,
+    stream,
+    setRetention,
+};
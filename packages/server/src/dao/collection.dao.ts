@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Collection DAO - Database operations for Collection
+ */
+
+import Collection, {
+    type ICollectionDocument,
+    type ICollectionItem,
+} from '../models/Collection.model';
+import dbError from '../utils/db.error';
+
+async function createCollection(data: Partial<ICollectionDocument>): Promise<ICollectionDocument> {
+    try {
+        const collection = new Collection(data);
+        await collection.save();
+        return collection;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create collection failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<ICollectionDocument | null> {
+    try {
+        return await Collection.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find collection failed', 500, error);
+    }
+}
+
+/**
+ * List collections of an organization, newest activity first
+ * @param filter - `visibleTo` limits the list to collections owned by or shared with a user
+ */
+async function list(
+    filter: { organizationId: string; visibleTo?: string; search?: string },
+    options: { page?: number; limit?: number } = {},
+): Promise<{ collections: ICollectionDocument[]; total: number }> {
+    try {
+        const { page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const query: any = { organizationId: filter.organizationId };
+        if (filter.visibleTo) {
+            query.$or = [{ ownerId: filter.visibleTo }, { 'sharedWith.userId': filter.visibleTo }];
+        }
+        if (filter.search) {
+            const escaped = filter.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            query.name = { $regex: escaped, $options: 'i' };
+        }
+        const [collections, total] = await Promise.all([
+            Collection.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+            Collection.countDocuments(query),
+        ]);
+        return { collections, total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List collections failed', 500, error);
+    }
+}
+
+async function updateById(
+    id: string,
+    data: Partial<Pick<ICollectionDocument, 'name' | 'description' | 'sharedWith'>>,
+): Promise<ICollectionDocument | null> {
+    try {
+        return await Collection.findByIdAndUpdate(id, { $set: data }, { new: true });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update collection failed', 500, error);
+    }
+}
+
+/**
+ * Replace the item list, but only if the collection is unchanged since it was
+ * read, so concurrent edits never drop each other's items
+ * @param seenUpdatedAt - `updatedAt` of the collection the new list was derived from
+ * @returns Updated collection, or null if it changed in the meantime
+ */
+async function replaceItems(
+    id: string,
+    items: ICollectionItem[],
+    seenUpdatedAt: Date,
+): Promise<ICollectionDocument | null> {
+    try {
+        return await Collection.findOneAndUpdate(
+            { _id: id, updatedAt: seenUpdatedAt },
+            { $set: { items } },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update collection items failed', 500, error);
+    }
+}
+
+/**
+ * Remove an asset from a collection
+ * @returns Updated collection, or null if the asset was not in it
+ */
+async function removeItem(id: string, assetId: string): Promise<ICollectionDocument | null> {
+    try {
+        return await Collection.findOneAndUpdate(
+            { _id: id, 'items.assetId': assetId },
+            { $pull: { items: { assetId } } },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Remove collection item failed', 500, error);
+    }
+}
+
+async function countBySavedSearch(savedSearchId: string): Promise<number> {
+    try {
+        return await Collection.countDocuments({ savedSearchId });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Count smart collections failed', 500, error);
+    }
+}
+
+async function deleteById(id: string): Promise<boolean> {
+    try {
+        const result = await Collection.deleteOne({ _id: id });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Delete collection failed', 500, error);
+    }
+}
+
+export default {
+    createCollection,
+    findById,
+    list,
+    updateById,
+    replaceItems,
+    removeItem,
+    countBySavedSearch,
+    deleteById,
+};
@@ -1,13 +1,31 @@
 import assetDao from './asset.dao';
+import auditEventDao from './auditEvent.dao';
+import collectionDao from './collection.dao';
+import invitationDao from './invitation.dao';
+import membershipDao from './membership.dao';
 import organizationDao from './organization.dao';
 import projectDao from './project.dao';
+import renditionProfileDao from './renditionProfile.dao';
 import roleDao from './role.dao';
+import savedSearchDao from './savedSearch.dao';
+import shareLinkDao from './shareLink.dao';
 import userDao from './user.dao';
+import webhookDao from './webhook.dao';
+import webhookDeliveryDao from './webhookDelivery.dao';
 
 export { 
     assetDao,
+    auditEventDao,
+    collectionDao,
+    invitationDao,
+    membershipDao,
     organizationDao,
     projectDao,
+    renditionProfileDao,
     roleDao,
-    userDao 
+    savedSearchDao,
+    shareLinkDao,
+    userDao,
+    webhookDao,
+    webhookDeliveryDao 
 };
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Invitation DAO - Database operations for Invitation
+ */
+
+import Invitation, {
+    type IInvitationDocument,
+    type InvitationStatus,
+} from '../models/Invitation.model';
+import dbError from '../utils/db.error';
+
+async function createInvitation(data: Partial<IInvitationDocument>): Promise<IInvitationDocument> {
+    try {
+        const invitation = new Invitation(data);
+        await invitation.save();
+        return invitation;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create invitation failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<IInvitationDocument | null> {
+    try {
+        return await Invitation.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find invitation failed', 500, error);
+    }
+}
+
+async function list(
+    filter: { organizationId: string; status?: InvitationStatus; email?: string },
+    options: { page?: number; limit?: number } = {},
+): Promise<{ invitations: IInvitationDocument[]; total: number }> {
+    try {
+        const { page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const query: any = { organizationId: filter.organizationId };
+        if (filter.status) query.status = filter.status;
+        if (filter.email) query.email = filter.email.toLowerCase().trim();
+        const [invitations, total] = await Promise.all([
+            Invitation.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+            Invitation.countDocuments(query),
+        ]);
+        return { invitations: invitations as unknown as IInvitationDocument[], total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List invitations failed', 500, error);
+    }
+}
+
+/**
+ * Revoke every pending invitation for an email in an organization
+ * @returns Number of invitations revoked
+ */
+async function revokePendingForEmail(organizationId: string, email: string): Promise<number> {
+    try {
+        const result = await Invitation.updateMany(
+            { organizationId, email: email.toLowerCase().trim(), status: 'pending' },
+            { $set: { status: 'revoked', revokedAt: new Date() } },
+        );
+        return result.modifiedCount;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Revoke invitations failed', 500, error);
+    }
+}
+
+/**
+ * Move a pending invitation to a new status. Returns null when it is no longer pending.
+ */
+async function transitionFromPending(
+    id: string,
+    patch: Partial<IInvitationDocument>,
+): Promise<IInvitationDocument | null> {
+    try {
+        return await Invitation.findOneAndUpdate(
+            { _id: id, status: 'pending' },
+            { $set: patch },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update invitation failed', 500, error);
+    }
+}
+
+export default {
+    createInvitation,
+    findById,
+    list,
+    revokePendingForEmail,
+    transitionFromPending,
+};
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Membership DAO - Database operations for Membership
+ */
+
+import Membership, {
+    type IMembershipDocument,
+    type MembershipStatus,
+} from '../models/Membership.model';
+import dbError from '../utils/db.error';
+
+async function createMembership(data: Partial<IMembershipDocument>): Promise<IMembershipDocument> {
+    try {
+        const membership = new Membership(data);
+        await membership.save();
+        return membership;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create membership failed', 500, error);
+    }
+}
+
+async function findByUserAndOrganization(
+    userId: string,
+    organizationId: string,
+): Promise<IMembershipDocument | null> {
+    try {
+        return await Membership.findOne({ userId, organizationId });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find membership failed', 500, error);
+    }
+}
+
+async function findActive(
+    userId: string,
+    organizationId: string,
+): Promise<IMembershipDocument | null> {
+    try {
+        return await Membership.findOne({ userId, organizationId, status: 'active' });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find active membership failed', 500, error);
+    }
+}
+
+async function listByUser(
+    userId: string,
+    filter: { status?: MembershipStatus } = {},
+): Promise<IMembershipDocument[]> {
+    try {
+        const query: any = { userId };
+        if (filter.status) query.status = filter.status;
+        const memberships = await Membership.find(query)
+            .sort({ createdAt: 1 })
+            .populate('organizationId', 'name status')
+            .lean();
+        return memberships as unknown as IMembershipDocument[];
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List memberships by user failed', 500, error);
+    }
+}
+
+async function findOrganizationIdsByUser(userId: string): Promise<string[]> {
+    try {
+        const memberships = await Membership.find({ userId, status: 'active' })
+            .select('organizationId')
+            .lean();
+        return memberships.map((m: any) => String(m.organizationId));
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find organizations by member failed', 500, error);
+    }
+}
+
+async function listByOrganization(
+    organizationId: string,
+    filter: { status?: MembershipStatus } = {},
+    options: { page?: number; limit?: number } = {},
+): Promise<{ memberships: IMembershipDocument[]; total: number }> {
+    try {
+        const { page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const query: any = { organizationId };
+        if (filter.status) query.status = filter.status;
+        const [memberships, total] = await Promise.all([
+            Membership.find(query)
+                .sort({ createdAt: 1 })
+                .skip(skip)
+                .limit(limit)
+                .populate('userId', 'email profile status')
+                .lean(),
+            Membership.countDocuments(query),
+        ]);
+        return { memberships: memberships as unknown as IMembershipDocument[], total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List memberships by organization failed', 500, error);
+    }
+}
+
+async function countActiveWithRole(organizationId: string, role: string): Promise<number> {
+    try {
+        return await Membership.countDocuments({ organizationId, status: 'active', roles: role });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Count memberships failed', 500, error);
+    }
+}
+
+async function updateByUserAndOrganization(
+    userId: string,
+    organizationId: string,
+    patch: Partial<IMembershipDocument>,
+): Promise<IMembershipDocument | null> {
+    try {
+        return await Membership.findOneAndUpdate(
+            { userId, organizationId },
+            { $set: patch },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update membership failed', 500, error);
+    }
+}
+
+async function removeByUserAndOrganization(
+    userId: string,
+    organizationId: string,
+): Promise<boolean> {
+    try {
+        const result = await Membership.deleteOne({ userId, organizationId });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Delete membership failed', 500, error);
+    }
+}
+
+export default {
+    createMembership,
+    findByUserAndOrganization,
+    findActive,
+    listByUser,
+    findOrganizationIdsByUser,
+    listByOrganization,
+    countActiveWithRole,
+    updateByUserAndOrganization,
+    removeByUserAndOrganization,
+};
@@ -29,7 +29,7 @@ async function findById(id: string): Promise<IOrganizationDocument | null> {
 }
 
 async function list(
-    filter: { status?: OrgStatus } = {},
+    filter: { status?: OrgStatus; ids?: string[] } = {},
     options: { page?: number; limit?: number } = {},
 ): Promise<{ organizations: IOrganizationDocument[]; total: number }> {
     try {
@@ -37,6 +37,7 @@ async function list(
         const skip = (page - 1) * limit;
         const query: any = {};
         if (filter.status) query.status = filter.status;
+        if (filter.ids) query._id = { $in: filter.ids };
         const [organizations, total] = await Promise.all([
             Organization.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
             Organization.countDocuments(query),
@@ -50,6 +51,15 @@ async function list(
     }
 }
 
+async function findIdsByOwner(ownerId: string): Promise<string[]> {
+    try {
+        const orgs = await Organization.find({ ownerId }).select('_id').lean();
+        return orgs.map((o: any) => String(o._id));
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find organizations by owner failed', 500, error);
+    }
+}
+
 async function updateById(
     id: string,
     patch: Partial<{ name: string; status: OrgStatus; settings: any }>,
@@ -75,4 +85,11 @@ async function setStatus(id: string, status: OrgStatus): Promise<void> {
     }
 }
 
-export default { createOrganization, findById, list, updateById, setStatus };
+export default {
+    createOrganization,
+    findById,
+    list,
+    findIdsByOwner,
+    updateById,
+    setStatus,
+};
@@ -57,6 +57,18 @@ async function findByPath(organizationId: string, path: string): Promise<IProjec
     }
 }
 
+async function findIdsByPathPattern(organizationId: string, pattern: RegExp): Promise<string[]> {
+    try {
+        const projects = await Project.find(
+            { organizationId, path: pattern, deletedAt: { $exists: false } },
+            { _id: 1 },
+        ).lean();
+        return projects.map((project) => String(project._id));
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find projects by path pattern failed', 500, error);
+    }
+}
+
 async function findUniqueSiblingName(
     organizationId: string,
     parentPath: string,
@@ -133,6 +145,7 @@ export default {
     createProject,
     findById,
     findByPath,
+    findIdsByPathPattern,
     list,
     updateById,
     softDeleteById,
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Rendition Profile DAO - Database operations for RenditionProfile
+ */
+
+import RenditionProfile, {
+    type IRenditionProfileDocument,
+    type RenditionAssetType,
+    type RenditionProfileSpec,
+} from '../models/RenditionProfile.model';
+import dbError from '../utils/db.error';
+
+async function createProfile(
+    data: Partial<IRenditionProfileDocument>,
+): Promise<IRenditionProfileDocument> {
+    try {
+        const profile = new RenditionProfile(data);
+        await profile.save();
+        return profile;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create rendition profile failed', 500, error);
+    }
+}
+
+/**
+ * Store profiles for an organization unless one with the same name exists
+ * Safe to run concurrently; existing profiles are left untouched.
+ */
+async function insertMissing(organizationId: string, specs: RenditionProfileSpec[]): Promise<void> {
+    try {
+        if (specs.length === 0) return;
+        const now = new Date();
+        await RenditionProfile.bulkWrite(
+            specs.map((spec) => ({
+                updateOne: {
+                    filter: { organizationId, name: spec.name },
+                    update: {
+                        $setOnInsert: {
+                            ...spec,
+                            organizationId,
+                            active: true,
+                            createdAt: now,
+                            updatedAt: now,
+                        },
+                    },
+                    upsert: true,
+                },
+            })),
+            { ordered: false, timestamps: false },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Insert rendition profiles failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<IRenditionProfileDocument | null> {
+    try {
+        return await RenditionProfile.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find rendition profile failed', 500, error);
+    }
+}
+
+/**
+ * Profiles of an organization, ordered by name
+ * @param filter - `active` and `assetType` narrow the result
+ */
+async function listByOrganization(
+    organizationId: string,
+    filter: { active?: boolean; assetType?: RenditionAssetType } = {},
+): Promise<IRenditionProfileDocument[]> {
+    try {
+        const query: Record<string, any> = { organizationId };
+        if (filter.active !== undefined) query.active = filter.active;
+        if (filter.assetType) query.assetTypes = filter.assetType;
+        return await RenditionProfile.find(query).sort({ name: 1 });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List rendition profiles failed', 500, error);
+    }
+}
+
+async function countByOrganization(organizationId: string): Promise<number> {
+    try {
+        return await RenditionProfile.countDocuments({ organizationId });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Count rendition profiles failed', 500, error);
+    }
+}
+
+async function updateById(
+    id: string,
+    data: Partial<Omit<RenditionProfileSpec, 'name'> & { active: boolean }>,
+    unset: string[] = [],
+): Promise<IRenditionProfileDocument | null> {
+    try {
+        const update: Record<string, any> = { $set: data };
+        if (unset.length > 0) {
+            update.$unset = Object.fromEntries(unset.map((field) => [field, 1]));
+        }
+        return await RenditionProfile.findByIdAndUpdate(id, update, {
+            new: true,
+            runValidators: true,
+        });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update rendition profile failed', 500, error);
+    }
+}
+
+async function deleteById(id: string): Promise<boolean> {
+    try {
+        const result = await RenditionProfile.deleteOne({ _id: id });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Delete rendition profile failed', 500, error);
+    }
+}
+
+export default {
+    createProfile,
+    insertMissing,
+    findById,
+    listByOrganization,
+    countByOrganization,
+    updateById,
+    deleteById,
+};
@@ -42,6 +42,22 @@ async function list(
     }
 }
 
+async function findDefaults(organizationId: string): Promise<IRoleDocument[]> {
+    try {
+        return await Role.find({ organizationId, isDefault: true });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find default roles failed', 500, error);
+    }
+}
+
+async function findByNames(organizationId: string, names: string[]): Promise<IRoleDocument[]> {
+    try {
+        return await Role.find({ organizationId, name: { $in: names } });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find roles by name failed', 500, error);
+    }
+}
+
 async function updateById(
     id: string,
     patch: Partial<IRoleDocument>,
@@ -62,4 +78,12 @@ async function removeById(id: string): Promise<void> {
     }
 }
 
-export default { createRole, findById, list, updateById, removeById };
+export default {
+    createRole,
+    findById,
+    list,
+    findDefaults,
+    findByNames,
+    updateById,
+    removeById,
+};
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview SavedSearch DAO - Database operations for SavedSearch
+ */
+
+import SavedSearch, { type ISavedSearchDocument } from '../models/SavedSearch.model';
+import dbError from '../utils/db.error';
+
+async function createSavedSearch(
+    data: Partial<ISavedSearchDocument>,
+): Promise<ISavedSearchDocument> {
+    try {
+        const savedSearch = new SavedSearch(data);
+        await savedSearch.save();
+        return savedSearch;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create saved search failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<ISavedSearchDocument | null> {
+    try {
+        return await SavedSearch.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find saved search failed', 500, error);
+    }
+}
+
+/**
+ * List saved searches of an organization, newest activity first
+ * @param filter - `visibleTo` limits the list to a user's own searches and organization-scoped ones
+ */
+async function list(
+    filter: {
+        organizationId: string;
+        visibleTo?: string;
+        scope?: 'user' | 'organization';
+        search?: string;
+    },
+    options: { page?: number; limit?: number } = {},
+): Promise<{ savedSearches: ISavedSearchDocument[]; total: number }> {
+    try {
+        const { page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const query: any = { organizationId: filter.organizationId };
+        if (filter.visibleTo) {
+            query.$or = [{ ownerId: filter.visibleTo }, { scope: 'organization' }];
+        }
+        if (filter.scope) {
+            query.scope = filter.scope;
+        }
+        if (filter.search) {
+            const escaped = filter.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            query.name = { $regex: escaped, $options: 'i' };
+        }
+        const [savedSearches, total] = await Promise.all([
+            SavedSearch.find(query).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+            SavedSearch.countDocuments(query),
+        ]);
+        return { savedSearches, total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List saved searches failed', 500, error);
+    }
+}
+
+async function updateById(
+    id: string,
+    data: Partial<Pick<ISavedSearchDocument, 'name' | 'description' | 'scope' | 'filters'>>,
+): Promise<ISavedSearchDocument | null> {
+    try {
+        return await SavedSearch.findByIdAndUpdate(
+            id,
+            { $set: data },
+            { new: true, runValidators: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update saved search failed', 500, error);
+    }
+}
+
+async function deleteById(id: string): Promise<boolean> {
+    try {
+        const result = await SavedSearch.deleteOne({ _id: id });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Delete saved search failed', 500, error);
+    }
+}
+
+export default {
+    createSavedSearch,
+    findById,
+    list,
+    updateById,
+    deleteById,
+};
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview ShareLink DAO - Database operations for ShareLink
+ */
+
+import ShareLink, { type IShareLinkDocument } from '../models/ShareLink.model';
+import dbError from '../utils/db.error';
+
+async function createShareLink(data: Partial<IShareLinkDocument>): Promise<IShareLinkDocument> {
+    try {
+        const link = new ShareLink(data);
+        await link.save();
+        return link;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create share link failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<IShareLinkDocument | null> {
+    try {
+        return await ShareLink.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find share link failed', 500, error);
+    }
+}
+
+/**
+ * Find a link by the hash of its token
+ */
+async function findByTokenHash(tokenHash: string): Promise<IShareLinkDocument | null> {
+    try {
+        return await ShareLink.findOne({ tokenHash });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find share link failed', 500, error);
+    }
+}
+
+async function listByAsset(
+    assetId: string,
+    options: { includeRevoked?: boolean; page?: number; limit?: number } = {},
+): Promise<{ links: IShareLinkDocument[]; total: number }> {
+    try {
+        const { includeRevoked = false, page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const query: any = { assetId };
+        if (!includeRevoked) query.revokedAt = null;
+        const [links, total] = await Promise.all([
+            ShareLink.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+            ShareLink.countDocuments(query),
+        ]);
+        return { links, total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List share links failed', 500, error);
+    }
+}
+
+/**
+ * Revoke a link. Returns null when it was already revoked.
+ */
+async function revoke(id: string, revokedBy: string): Promise<IShareLinkDocument | null> {
+    try {
+        return await ShareLink.findOneAndUpdate(
+            { _id: id, revokedAt: null },
+            { $set: { revokedAt: new Date(), revokedBy } },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Revoke share link failed', 500, error);
+    }
+}
+
+/**
+ * Count one download against a link while it is active and under its limit
+ * @returns Updated link, or null when it was revoked, expired or used up meanwhile
+ */
+async function consumeDownload(id: string): Promise<IShareLinkDocument | null> {
+    try {
+        const now = new Date();
+        return await ShareLink.findOneAndUpdate(
+            {
+                _id: id,
+                revokedAt: null,
+                $and: [
+                    { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+                    {
+                        $or: [
+                            { maxDownloads: null },
+                            { $expr: { $lt: ['$downloadCount', '$maxDownloads'] } },
+                        ],
+                    },
+                ],
+            },
+            { $inc: { downloadCount: 1 }, $set: { lastAccessedAt: now } },
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update share link failed', 500, error);
+    }
+}
+
+/**
+ * Count a password attempt against a link unless it is locked out. The attempt
+ * that reaches `maxAttempts` locks the link for `lockoutMs`, so concurrent
+ * guesses cannot get past the limit.
+ * @returns Updated link, or null when the link is locked
+ */
+async function claimPasswordAttempt(
+    id: string,
+    maxAttempts: number,
+    lockoutMs: number,
+): Promise<IShareLinkDocument | null> {
+    try {
+        const now = new Date();
+        const lockedOut = { $gte: ['$failedPasswordAttempts', maxAttempts] };
+        return await ShareLink.findOneAndUpdate(
+            {
+                _id: id,
+                $or: [{ passwordLockedUntil: null }, { passwordLockedUntil: { $lte: now } }],
+            },
+            [
+                {
+                    $set: {
+                        failedPasswordAttempts: {
+                            $add: [{ $ifNull: ['$failedPasswordAttempts', 0] }, 1],
+                        },
+                    },
+                },
+                {
+                    $set: {
+                        passwordLockedUntil: {
+                            $cond: [lockedOut, new Date(now.getTime() + lockoutMs), null],
+                        },
+                        failedPasswordAttempts: {
+                            $cond: [lockedOut, 0, '$failedPasswordAttempts'],
+                        },
+                    },
+                },
+            ],
+            { new: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update share link failed', 500, error);
+    }
+}
+
+/**
+ * Forget the wrong passwords of a link once the right one is given
+ */
+async function resetPasswordAttempts(id: string): Promise<void> {
+    try {
+        await ShareLink.updateOne(
+            {
+                _id: id,
+                $or: [
+                    { failedPasswordAttempts: { $gt: 0 } },
+                    { passwordLockedUntil: { $ne: null } },
+                ],
+            },
+            { $set: { failedPasswordAttempts: 0, passwordLockedUntil: null } },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update share link failed', 500, error);
+    }
+}
+
+export default {
+    createShareLink,
+    findById,
+    findByTokenHash,
+    listByAsset,
+    revoke,
+    consumeDownload,
+    claimPasswordAttempt,
+    resetPasswordAttempts,
+};
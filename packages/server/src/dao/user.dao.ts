@@ -154,6 +154,27 @@ async function setLastLoginById(userId: string): Promise<void> {
     }
 }
 
+/**
+ * Set (or clear, with null) the user's active organization.
+ * @param {string} userId - User id
+ * @param {string|null} organizationId - Organization id or null
+ * @returns {Promise<void>}
+ * @throws {DATABASE_ERROR|CONNECTION_ERROR}
+ */
+async function setActiveOrganizationById(
+    userId: string,
+    organizationId: string | null,
+): Promise<void> {
+    try {
+        const update = organizationId
+            ? { $set: { organizationId } }
+            : { $unset: { organizationId: 1 } };
+        await User.updateOne({ _id: userId }, update);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Set active organization failed', 500, error);
+    }
+}
+
 /**
  * Soft delete a user by id (status = 'deleted').
  * @param {string} userId - User id
@@ -177,5 +198,6 @@ export default {
     updateProfileById,
     changePasswordById,
     setLastLoginById,
+    setActiveOrganizationById,
     softDeleteById,
 };
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Webhook DAO - Database operations for Webhook
+ */
+
+import Webhook, { type IWebhookDocument, type WebhookEvent } from '../models/Webhook.model';
+import dbError from '../utils/db.error';
+
+async function createWebhook(data: Partial<IWebhookDocument>): Promise<IWebhookDocument> {
+    try {
+        const webhook = new Webhook(data);
+        await webhook.save();
+        return webhook;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create webhook failed', 500, error);
+    }
+}
+
+/**
+ * @param options - `withSecret` also loads the signing secret
+ */
+async function findById(
+    id: string,
+    options: { withSecret?: boolean } = {},
+): Promise<IWebhookDocument | null> {
+    try {
+        const query = Webhook.findById(id);
+        return await (options.withSecret ? query.select('+secret') : query);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find webhook failed', 500, error);
+    }
+}
+
+/**
+ * Active webhooks of an organization subscribed to an event
+ */
+async function findSubscribers(
+    organizationId: string,
+    event: WebhookEvent,
+): Promise<IWebhookDocument[]> {
+    try {
+        return await Webhook.find({ organizationId, active: true, events: event });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find webhook subscribers failed', 500, error);
+    }
+}
+
+async function list(
+    organizationId: string,
+    options: { page?: number; limit?: number } = {},
+): Promise<{ webhooks: IWebhookDocument[]; total: number }> {
+    try {
+        const { page = 1, limit = 20 } = options;
+        const skip = (page - 1) * limit;
+        const [webhooks, total] = await Promise.all([
+            Webhook.find({ organizationId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+            Webhook.countDocuments({ organizationId }),
+        ]);
+        return { webhooks, total };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List webhooks failed', 500, error);
+    }
+}
+
+async function countByOrganization(organizationId: string): Promise<number> {
+    try {
+        return await Webhook.countDocuments({ organizationId });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Count webhooks failed', 500, error);
+    }
+}
+
+async function updateById(
+    id: string,
+    data: Partial<Pick<IWebhookDocument, 'url' | 'description' | 'events' | 'active' | 'secret'>>,
+): Promise<IWebhookDocument | null> {
+    try {
+        return await Webhook.findByIdAndUpdate(
+            id,
+            { $set: data },
+            { new: true, runValidators: true },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update webhook failed', 500, error);
+    }
+}
+
+async function deleteById(id: string): Promise<boolean> {
+    try {
+        const result = await Webhook.deleteOne({ _id: id });
+        return result.deletedCount > 0;
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Delete webhook failed', 500, error);
+    }
+}
+
+export default {
+    createWebhook,
+    findById,
+    findSubscribers,
+    list,
+    countByOrganization,
+    updateById,
+    deleteById,
+};
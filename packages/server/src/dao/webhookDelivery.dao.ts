@@ -0,0 +1,111 @@
+/**
+ * @fileoverview WebhookDelivery DAO - Database operations for WebhookDelivery
+ */
+
+import WebhookDelivery, {
+    type IWebhookAttempt,
+    type IWebhookDeliveryDocument,
+    type WebhookDeliveryStatus,
+} from '../models/WebhookDelivery.model';
+import dbError from '../utils/db.error';
+import {
+    encodeCursor,
+    cursorSort,
+    cursorConditions,
+    type CursorKey,
+    type PageCursor,
+} from '../utils/cursor';
+
+/** Newest first; `_id` breaks ties */
+export const DELIVERY_SORT_KEYS: CursorKey[] = [{ field: 'createdAt', order: 'desc' }];
+
+async function createDeliveries(
+    data: Partial<IWebhookDeliveryDocument>[],
+): Promise<IWebhookDeliveryDocument[]> {
+    try {
+        return (await WebhookDelivery.insertMany(data)) as unknown as IWebhookDeliveryDocument[];
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Create webhook deliveries failed', 500, error);
+    }
+}
+
+async function findById(id: string): Promise<IWebhookDeliveryDocument | null> {
+    try {
+        return await WebhookDelivery.findById(id);
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Find webhook delivery failed', 500, error);
+    }
+}
+
+/**
+ * One page of a webhook's deliveries, newest first
+ * @param filter - Webhook and optional status
+ * @param options - Page size and the cursor of the previous page
+ */
+async function list(
+    filter: { webhookId: string; status?: WebhookDeliveryStatus },
+    options: { limit?: number; cursor?: PageCursor } = {},
+): Promise<{ deliveries: any[]; nextCursor: string | null; hasNext: boolean }> {
+    try {
+        const { limit = 20, cursor } = options;
+        const query: any = { webhookId: filter.webhookId };
+        if (filter.status) query.status = filter.status;
+        if (cursor) query.$and = cursorConditions(cursor);
+
+        const items = await WebhookDelivery.find(query)
+            .sort(cursorSort(DELIVERY_SORT_KEYS))
+            .limit(limit + 1)
+            .lean();
+
+        const hasNext = items.length > limit;
+        const deliveries = hasNext ? items.slice(0, limit) : items;
+        return {
+            deliveries,
+            nextCursor: hasNext
+                ? encodeCursor(DELIVERY_SORT_KEYS, deliveries[deliveries.length - 1])
+                : null,
+            hasNext,
+        };
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'List webhook deliveries failed', 500, error);
+    }
+}
+
+/**
+ * Append an attempt, moving the delivery to `status` when given
+ */
+async function recordAttempt(
+    id: string,
+    attempt: IWebhookAttempt,
+    status?: Exclude<WebhookDeliveryStatus, 'pending'>,
+): Promise<IWebhookDeliveryDocument | null> {
+    try {
+        const update: any = { $push: { attempts: attempt } };
+        if (status) update.$set = { status, completedAt: new Date() };
+        return await WebhookDelivery.findByIdAndUpdate(id, update, { new: true });
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Record webhook attempt failed', 500, error);
+    }
+}
+
+/**
+ * Give up on a delivery without another attempt, e.g. when its webhook was removed
+ */
+async function markFailed(id: string): Promise<void> {
+    try {
+        await WebhookDelivery.updateOne(
+            { _id: id, status: 'pending' },
+            { $set: { status: 'failed', completedAt: new Date() } },
+        );
+    } catch (error: any) {
+        throw dbError('DATABASE_ERROR', 'Update webhook delivery failed', 500, error);
+    }
+}
+
+export default {
+    createDeliveries,
+    findById,
+    list,
+    recordAttempt,
+    markFailed,
+};
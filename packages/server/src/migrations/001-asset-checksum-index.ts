@@ -0,0 +1,25 @@
+/**
+ * Replace the checksum uniqueness index of assets
+ * Copies share their source's checksum, so the index now leaves them out. The
+ * old index has the same key and auto-generated name, which index sync never
+ * replaces; it is dropped here and the new one built under its own name.
+ */
+
+import Asset from '../models/Asset.model';
+import type { Migration } from './index';
+
+const LEGACY_INDEX = 'organizationId_1_checksum_1';
+
+const migration: Migration = {
+    id: '001-asset-checksum-index',
+    description: 'exclude copies from the asset checksum uniqueness index',
+    up: async () => {
+        const indexes = await Asset.collection.indexes();
+        if (indexes.some((index) => index.name === LEGACY_INDEX)) {
+            await Asset.collection.dropIndex(LEGACY_INDEX);
+        }
+        await Asset.createIndexes();
+    },
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+/**
+ * Give every organization owner an owner membership
+ * Organizations created before memberships existed only recorded `ownerId`, so
+ * their owners would lose their active organization on the next request.
+ */
+
+import Organization from '../models/Organization.model';
+import Membership from '../models/Membership.model';
+import type { Migration } from './index';
+
+const BATCH_SIZE = 500;
+
+const migration: Migration = {
+    id: '002-owner-memberships',
+    description: 'create the missing owner memberships of existing organizations',
+    up: async () => {
+        const upsert = (org: any) => ({
+            updateOne: {
+                filter: { userId: org.ownerId, organizationId: org._id },
+                update: {
+                    $setOnInsert: { roles: ['owner'], status: 'active', joinedAt: new Date() },
+                },
+                upsert: true,
+            },
+        });
+
+        let batch: any[] = [];
+        let created = 0;
+        for await (const org of Organization.find({}).select('ownerId').lean().cursor()) {
+            batch.push(upsert(org));
+            if (batch.length === BATCH_SIZE) {
+                created += (await Membership.bulkWrite(batch, { ordered: false })).upsertedCount;
+                batch = [];
+            }
+        }
+        if (batch.length > 0) {
+            created += (await Membership.bulkWrite(batch, { ordered: false })).upsertedCount;
+        }
+        console.log(`👥 Created ${created} missing owner membership(s)`);
+    },
+};
+
+export default migration;
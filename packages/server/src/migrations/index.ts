@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Database Migrations (TypeScript)
+ * One-off data and index changes, applied in order by `yarn db:migrate`.
+ * Each migration runs once per database; applied ids are kept in the
+ * `migrations` collection.
+ */
+
+import 'dotenv/config';
+import mongoose from 'mongoose';
+import { connectDB, disconnect } from '../config/db';
+import assetChecksumIndex from './001-asset-checksum-index';
+import ownerMemberships from './002-owner-memberships';
+
+export interface Migration {
+    id: string;
+    description: string;
+    up: () => Promise<void>;
+}
+
+// Append only; ids are recorded once applied
+const MIGRATIONS: Migration[] = [assetChecksumIndex, ownerMemberships];
+
+/**
+ * Apply every migration not yet recorded in the database
+ * @returns Ids of the migrations applied by this run
+ */
+async function migrate(): Promise<string[]> {
+    const collection = mongoose.connection.collection<{ _id: string; appliedAt: Date }>(
+        'migrations',
+    );
+    const applied = new Set((await collection.find({}).toArray()).map((entry) => entry._id));
+
+    const ran: string[] = [];
+    for (const migration of MIGRATIONS) {
+        if (applied.has(migration.id)) continue;
+
+        console.log(`⏳ Applying ${migration.id}: ${migration.description}`);
+        await migration.up();
+        await collection.insertOne({ _id: migration.id, appliedAt: new Date() });
+        ran.push(migration.id);
+    }
+    return ran;
+}
+
+async function main(): Promise<void> {
+    await connectDB();
+    try {
+        const ran = await migrate();
+        console.log(
+            ran.length > 0 ? `✅ Applied ${ran.length} migration(s)` : '✅ Database is up to date',
+        );
+    } finally {
+        await disconnect();
+    }
+}
+
+if (require.main === module) {
+    main().catch((error) => {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    });
+}
+
+export { migrate };
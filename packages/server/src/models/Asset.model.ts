@@ -54,31 +54,86 @@ export interface IAssetVersion {
     version: number;
     storageKey: string;
     fileSizeBytes: number;
+    checksum?: string;
+    mimeType?: string;
+    originalFilename?: string;
+    restoredFrom?: number;
     createdBy: Types.ObjectId;
     createdAt: Date;
 }
 
 /**
- * Asset rendition embedded document interface  
- * Stores processed variants like thumbnails and previews
- */
-export interface IRenditions {
-    thumbnail_small?: {
-        storageKey: string;
-        width: number;
-        height: number;
-    };
-    thumbnail_large?: {
-        storageKey: string;
-        width: number;
-        height: number;
-    };
-    preview_720p?: {
-        storageKey: string;
-        fileSizeBytes: number;
-    };
+ * Pending version embedded document interface
+ * Upload of the next version that has been requested but not yet finalized
+ */
+export interface IPendingVersion {
+    version: number;
+    storageKey: string;
+    fileSizeBytes: number;
+    checksum: string;
+    mimeType: string;
+    originalFilename: string;
+    createdBy: Types.ObjectId;
+    expiresAt: Date;
+}
+
+/**
+ * Multipart upload embedded document interface
+ * Tracks an S3 multipart upload of the original file until it is finalized
+ */
+export interface IMultipartUpload {
+    uploadId: string;
+    partSizeBytes: number;
+    partCount: number;
+    createdAt: Date;
+}
+
+/**
+ * Longest extracted document text kept for search
+ */
+export const MAX_EXTRACTED_TEXT_LENGTH = 100000;
+
+/**
+ * Longest free-text asset description
+ */
+export const MAX_DESCRIPTION_LENGTH = 5000;
+
+/**
+ * Flatten custom metadata into one searchable string of keys and values
+ * @param customMetadata - Custom metadata map or object
+ * @returns Text indexed for search
+ */
+export function customMetadataSearchText(customMetadata?: Map<string, string> | Record<string, string>): string {
+    const entries = customMetadata instanceof Map
+        ? Array.from(customMetadata.entries())
+        : Object.entries(customMetadata || {});
+    return entries.map(([key, value]) => `${key} ${value}`).join('\n');
+}
+
+/**
+ * Single generated rendition
+ * Profile renditions record their dimensions, format and size; the pipeline's
+ * own renditions add whatever describes them (e.g. entryCount of a file listing).
+ */
+export interface IRendition {
+    storageKey: string;
+    width?: number;
+    height?: number;
+    format?: string;
+    fileSizeBytes?: number;
+    // Renditions made of many objects (HLS) keep them all under this prefix
+    storagePrefix?: string;
+    [field: string]: any;
 }
 
+/**
+ * Asset renditions keyed by name: the organization's rendition profile names,
+ * plus `poster`, `poster_previous`, `waveform`, `file_listing`, `hls`, `sprites`
+ * and `thumbnails_vtt` written by the pipeline itself.
+ * Open-ended so new profiles need no schema change.
+ */
+export type IRenditions = Record<string, IRendition>;
+
 /**
  * Asset metadata interface for technical properties
  */
@@ -119,20 +174,31 @@ export interface IAsset extends Document {
     // Status
     status: AssetStatus;
     processingError?: string;
+    processingRecoveries?: number;
+    uploadExpiresAt?: Date;
 
     // Storage
     storageProvider: StorageProvider;
     storageKey: string;
+    multipartUpload?: IMultipartUpload;
 
     // Versions
     latestVersion: number;
     versions: IAssetVersion[];
+    pendingVersion?: IPendingVersion;
 
     // Descriptors
+    description?: string;
     tags: string[];
     metadata?: IAssetMetadata;
     customMetadata: Map<string, string>;
     renditions?: IRenditions;
+    // Cached on-demand transforms, purged with the asset
+    derivedStorageKeys?: string[];
+
+    // Search
+    customMetadataText?: string;
+    extractedText?: string;
 
     // Access
     access: AccessLevel;
@@ -140,6 +206,9 @@ export interface IAsset extends Document {
     // Analytics
     analytics: IAssetAnalytics;
 
+    // Provenance
+    copiedFrom?: Types.ObjectId;
+
     // Lifecycle
     deletedAt?: Date;
     createdAt: Date;
@@ -162,6 +231,18 @@ const AssetVersionSchema = new Schema<IAssetVersion>({
         type: Number, 
         required: true 
     },
+    checksum: { 
+        type: String 
+    },
+    mimeType: { 
+        type: String 
+    },
+    originalFilename: { 
+        type: String 
+    },
+    restoredFrom: { 
+        type: Number 
+    },
     createdBy: { 
         type: Schema.Types.ObjectId, 
         ref: 'User', 
@@ -174,23 +255,27 @@ const AssetVersionSchema = new Schema<IAssetVersion>({
 }, { _id: false });
 
 /**
- * Renditions embedded schema
+ * Pending Version embedded schema
  */
-const RenditionsSchema = new Schema<IRenditions>({
-    thumbnail_small: {
-        storageKey: { type: String, required: true },
-        width: { type: Number, required: true },
-        height: { type: Number, required: true }
-    },
-    thumbnail_large: {
-        storageKey: { type: String, required: true },
-        width: { type: Number, required: true },
-        height: { type: Number, required: true }
-    },
-    preview_720p: {
-        storageKey: { type: String, required: true },
-        fileSizeBytes: { type: Number, required: true }
-    }
+const PendingVersionSchema = new Schema<IPendingVersion>({
+    version: { type: Number, required: true },
+    storageKey: { type: String, required: true },
+    fileSizeBytes: { type: Number, required: true },
+    checksum: { type: String, required: true },
+    mimeType: { type: String, required: true },
+    originalFilename: { type: String, required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    expiresAt: { type: Date, required: true }
+}, { _id: false });
+
+/**
+ * Multipart Upload embedded schema
+ */
+const MultipartUploadSchema = new Schema<IMultipartUpload>({
+    uploadId: { type: String, required: true },
+    partSizeBytes: { type: Number, required: true },
+    partCount: { type: Number, required: true },
+    createdAt: { type: Date, default: Date.now }
 }, { _id: false });
 
 /**
@@ -269,6 +354,13 @@ const AssetSchema = new Schema<IAsset>({
         type: String,
         sparse: true 
     },
+    processingRecoveries: {
+        type: Number,
+        min: 0
+    },
+    uploadExpiresAt: { 
+        type: Date 
+    },
 
     // Storage
     storageProvider: { 
@@ -280,6 +372,10 @@ const AssetSchema = new Schema<IAsset>({
         type: String, 
         required: true 
     },
+    multipartUpload: {
+        type: MultipartUploadSchema,
+        default: undefined
+    },
 
     // Versions
     latestVersion: { 
@@ -291,8 +387,17 @@ const AssetSchema = new Schema<IAsset>({
         type: [AssetVersionSchema],
         default: []
     },
+    pendingVersion: {
+        type: PendingVersionSchema,
+        default: undefined
+    },
 
     // Descriptors
+    description: {
+        type: String,
+        trim: true,
+        maxlength: MAX_DESCRIPTION_LENGTH
+    },
     tags: {
         type: [String],
         default: [],
@@ -312,9 +417,31 @@ const AssetSchema = new Schema<IAsset>({
         of: String,
         default: new Map()
     },
+
+    // Search: derived from customMetadata, and text pulled out of documents
+    customMetadataText: {
+        type: String,
+        select: false
+    },
+    extractedText: {
+        type: String,
+        maxlength: MAX_EXTRACTED_TEXT_LENGTH,
+        select: false
+    },
     renditions: {
-        type: RenditionsSchema,
-        default: undefined
+        type: Schema.Types.Mixed,
+        default: undefined,
+        validate: {
+            validator: (renditions: any) => renditions == null || Object.values(renditions).every(
+                (rendition: any) => typeof rendition?.storageKey === 'string' && rendition.storageKey.length > 0
+            ),
+            message: 'Every rendition needs a storageKey'
+        }
+    },
+    derivedStorageKeys: {
+        type: [String],
+        default: undefined,
+        select: false
     },
 
     // Access
@@ -330,6 +457,12 @@ const AssetSchema = new Schema<IAsset>({
         default: () => ({ viewCount: 0, downloadCount: 0 })
     },
 
+    // Provenance
+    copiedFrom: {
+        type: Schema.Types.ObjectId,
+        ref: 'Asset'
+    },
+
     // Lifecycle
     deletedAt: { 
         type: Date,
@@ -345,29 +478,51 @@ const AssetSchema = new Schema<IAsset>({
  * Following the DB schema specifications for compound indexes
  */
 
-// Primary query patterns
-AssetSchema.index({ organizationId: 1, projectId: 1, status: 1, updatedAt: -1 });
-AssetSchema.index({ organizationId: 1, assetType: 1, updatedAt: -1 });
-AssetSchema.index({ organizationId: 1, access: 1, updatedAt: -1 });
+// Primary query patterns; the trailing _id serves the tie-breaker of list cursors
+AssetSchema.index({ organizationId: 1, projectId: 1, status: 1, updatedAt: -1, _id: -1 });
+AssetSchema.index({ organizationId: 1, assetType: 1, updatedAt: -1, _id: -1 });
+AssetSchema.index({ organizationId: 1, access: 1, updatedAt: -1, _id: -1 });
 
-// Uniqueness constraint for checksum (partial for non-deleted)
+// Uniqueness constraint for checksum (partial for non-deleted uploads; copies share their source's checksum)
 AssetSchema.index(
     { organizationId: 1, checksum: 1 }, 
     { 
+        name: 'asset_checksum_unique',
         unique: true, 
-        partialFilterExpression: { deletedAt: { $exists: false } }
+        partialFilterExpression: { deletedAt: { $exists: false }, copiedFrom: { $exists: false } }
     }
 );
 
 // Tag-based queries
 AssetSchema.index({ organizationId: 1, tags: 1 });
 
-// Time-based queries
-AssetSchema.index({ organizationId: 1, createdAt: -1 });
+// Full-text search, ranked by where the match is
+AssetSchema.index(
+    {
+        originalFilename: 'text',
+        tags: 'text',
+        description: 'text',
+        customMetadataText: 'text',
+        extractedText: 'text'
+    },
+    {
+        name: 'asset_text_search',
+        weights: { originalFilename: 10, tags: 8, description: 6, customMetadataText: 4, extractedText: 1 }
+    }
+);
+
+// Time-based queries (recent assets, createdAt cursors)
+AssetSchema.index({ organizationId: 1, createdAt: -1, _id: -1 });
 
 // Status-based admin queries  
 AssetSchema.index({ status: 1, updatedAt: -1 });
 
+// Expired upload reaping
+AssetSchema.index(
+    { uploadExpiresAt: 1 },
+    { partialFilterExpression: { status: AssetStatus.UPLOADING } }
+);
+
 /**
  * Instance methods
  */
@@ -481,6 +636,11 @@ AssetSchema.pre('save', function(next) {
     
     // Trim tags and remove empty ones
     this.tags = this.tags.filter(tag => tag.trim().length > 0).map(tag => tag.trim());
+
+    // Keep the searchable copy of custom metadata in step
+    if (this.isModified('customMetadata')) {
+        this.customMetadataText = customMetadataSearchText(this.customMetadata);
+    }
     
     next();
 });
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview AuditEvent Model (TypeScript)
+ * Append-only record of a mutation: who did what to which resource, what changed,
+ * and the request it came from. Events expire through a TTL index on `expiresAt`,
+ * set from the organization's audit retention when the event is written.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type AuditTargetType = 'asset' | 'role' | 'organization' | 'project' | 'user';
+
+/** Bounds of `Organization.settings.auditRetentionDays` */
+export const AUDIT_RETENTION_DAYS = { default: 365, min: 1, max: 3650 } as const;
+
+/**
+ * One changed field; `field` is a dot path into the target
+ */
+export interface IAuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface IAuditEvent {
+    // Absent for events outside any organization, e.g. registration
+    organizationId?: mongoose.Types.ObjectId;
+    actorId?: mongoose.Types.ObjectId;
+    // Kept for failed logins, where the actor may not exist
+    actorEmail?: string;
+    action: string;
+    targetType: AuditTargetType;
+    targetId?: mongoose.Types.ObjectId;
+    changes: IAuditChange[];
+    ip?: string;
+    requestId?: string;
+    createdAt: Date;
+    expiresAt?: Date;
+}
+
+export interface IAuditEventDocument extends Document, IAuditEvent {}
+export interface IAuditEventModel extends Model<IAuditEventDocument> {}
+
+const AuditChangeSchema = new Schema<IAuditChange>(
+    {
+        field: { type: String, required: true },
+        before: { type: Schema.Types.Mixed },
+        after: { type: Schema.Types.Mixed },
+    },
+    { _id: false },
+);
+
+const AuditEventSchema = new Schema<IAuditEventDocument, IAuditEventModel>(
+    {
+        organizationId: { type: Schema.Types.ObjectId, ref: 'Organization' },
+        actorId: { type: Schema.Types.ObjectId, ref: 'User' },
+        actorEmail: { type: String },
+        action: { type: String, required: true },
+        targetType: {
+            type: String,
+            enum: ['asset', 'role', 'organization', 'project', 'user'],
+            required: true,
+        },
+        targetId: { type: Schema.Types.ObjectId },
+        changes: { type: [AuditChangeSchema], default: [] },
+        ip: { type: String },
+        requestId: { type: String },
+        expiresAt: { type: Date },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        collection: 'audit_events',
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes: newest first within an organization, narrowed by the common filters
+AuditEventSchema.index({ organizationId: 1, createdAt: -1, _id: -1 });
+AuditEventSchema.index({ organizationId: 1, action: 1, createdAt: -1 });
+AuditEventSchema.index({ organizationId: 1, actorId: 1, createdAt: -1 });
+AuditEventSchema.index({ organizationId: 1, targetType: 1, targetId: 1, createdAt: -1 });
+AuditEventSchema.index({ requestId: 1 }, { sparse: true });
+// Retention
+AuditEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const AuditEvent = mongoose.model<IAuditEventDocument, IAuditEventModel>(
+    'AuditEvent',
+    AuditEventSchema,
+);
+export default AuditEvent;
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Collection Model (TypeScript)
+ * Curated, ordered list of assets that may span projects. Items only reference
+ * assets; adding an asset to a collection never moves or copies it. A smart
+ * collection has no items of its own: its members are the current matches of
+ * a saved search.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type CollectionShareAccess = 'view' | 'edit';
+
+export interface ICollectionItem {
+    assetId: mongoose.Types.ObjectId;
+    addedBy: mongoose.Types.ObjectId;
+    addedAt: Date;
+}
+
+export interface ICollectionShare {
+    userId: mongoose.Types.ObjectId;
+    access: CollectionShareAccess;
+}
+
+export interface ICollection {
+    organizationId: mongoose.Types.ObjectId;
+    name: string;
+    description?: string;
+    ownerId: mongoose.Types.ObjectId;
+    items: ICollectionItem[];
+    sharedWith: ICollectionShare[];
+    savedSearchId?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ICollectionDocument extends Document, ICollection {}
+export interface ICollectionModel extends Model<ICollectionDocument> {}
+
+const CollectionItemSchema = new Schema<ICollectionItem>(
+    {
+        assetId: { type: Schema.Types.ObjectId, ref: 'Asset', required: true },
+        addedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        addedAt: { type: Date, default: Date.now },
+    },
+    { _id: false },
+);
+
+const CollectionShareSchema = new Schema<ICollectionShare>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        access: { type: String, enum: ['view', 'edit'], default: 'view' },
+    },
+    { _id: false },
+);
+
+const CollectionSchema = new Schema<ICollectionDocument, ICollectionModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        name: { type: String, required: true, trim: true },
+        description: { type: String, trim: true },
+        ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        items: { type: [CollectionItemSchema], default: [] },
+        sharedWith: { type: [CollectionShareSchema], default: [] },
+        savedSearchId: { type: Schema.Types.ObjectId, ref: 'SavedSearch' },
+    },
+    {
+        timestamps: true,
+        collection: 'collections',
+        minimize: false,
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+CollectionSchema.index({ organizationId: 1, ownerId: 1, updatedAt: -1 });
+CollectionSchema.index({ organizationId: 1, 'sharedWith.userId': 1, updatedAt: -1 });
+CollectionSchema.index({ 'items.assetId': 1 });
+CollectionSchema.index({ savedSearchId: 1 }, { sparse: true });
+
+const Collection = mongoose.model<ICollectionDocument, ICollectionModel>(
+    'Collection',
+    CollectionSchema,
+);
+export default Collection;
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Invitation Model (TypeScript)
+ * Pending invitation for an email address to join an organization with a role set.
+ * The invite token itself is never stored; only the invitation record it points to.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface IInvitation {
+    organizationId: mongoose.Types.ObjectId;
+    email: string;
+    roles: string[];
+    status: InvitationStatus;
+    invitedBy: mongoose.Types.ObjectId;
+    expiresAt: Date;
+    acceptedBy?: mongoose.Types.ObjectId | null;
+    acceptedAt?: Date | null;
+    revokedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IInvitationDocument extends Document, IInvitation {}
+export interface IInvitationModel extends Model<IInvitationDocument> {}
+
+const InvitationSchema = new Schema<IInvitationDocument, IInvitationModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        email: { type: String, required: true, trim: true, lowercase: true },
+        roles: { type: [String], default: [] },
+        status: {
+            type: String,
+            enum: ['pending', 'accepted', 'revoked'],
+            default: 'pending',
+        },
+        invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        expiresAt: { type: Date, required: true },
+        acceptedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        acceptedAt: { type: Date, default: null },
+        revokedAt: { type: Date, default: null },
+    },
+    {
+        timestamps: true,
+        collection: 'invitations',
+        minimize: false,
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+InvitationSchema.index({ organizationId: 1, status: 1, createdAt: -1 });
+InvitationSchema.index({ organizationId: 1, email: 1, status: 1 });
+
+const Invitation = mongoose.model<IInvitationDocument, IInvitationModel>(
+    'Invitation',
+    InvitationSchema,
+);
+export default Invitation;
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Membership Model (TypeScript)
+ * Links a user to an organization with the roles they hold inside it.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export type MembershipStatus = 'active' | 'invited' | 'suspended';
+
+export interface IMembership {
+    userId: mongoose.Types.ObjectId;
+    organizationId: mongoose.Types.ObjectId;
+    roles: string[];
+    status: MembershipStatus;
+    invitedBy?: mongoose.Types.ObjectId | null;
+    joinedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IMembershipDocument extends Document, IMembership {}
+export interface IMembershipModel extends Model<IMembershipDocument> {}
+
+const MembershipSchema = new Schema<IMembershipDocument, IMembershipModel>(
+    {
+        userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        // Role names: built-in templates (owner, admin, editor, viewer) or Role.name
+        roles: { type: [String], default: [] },
+        status: {
+            type: String,
+            enum: ['active', 'invited', 'suspended'],
+            default: 'active',
+        },
+        invitedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+        joinedAt: { type: Date, default: null },
+    },
+    {
+        timestamps: true,
+        collection: 'memberships',
+        minimize: false,
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+MembershipSchema.index({ userId: 1, organizationId: 1 }, { unique: true });
+MembershipSchema.index({ organizationId: 1, status: 1 });
+MembershipSchema.index({ organizationId: 1, roles: 1 });
+
+const Membership = mongoose.model<IMembershipDocument, IMembershipModel>(
+    'Membership',
+    MembershipSchema,
+);
+export default Membership;
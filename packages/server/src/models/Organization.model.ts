@@ -4,11 +4,14 @@
  */
 
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AUDIT_RETENTION_DAYS } from './AuditEvent.model';
 
 export type OrgStatus = 'active' | 'suspended' | 'archived';
 
 export interface OrganizationSettings {
     storageQuotaBytes: number;
+    // Days audit events are kept before the TTL index removes them
+    auditRetentionDays: number;
     featureFlags: {
         enablePublicSharing: boolean;
         enableApiAccess: boolean;
@@ -34,6 +37,12 @@ const OrganizationSchema = new Schema<IOrganizationDocument, IOrganizationModel>
         ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
         settings: {
             storageQuotaBytes: { type: Number, default: 500_000_000_000 },
+            auditRetentionDays: {
+                type: Number,
+                default: AUDIT_RETENTION_DAYS.default,
+                min: AUDIT_RETENTION_DAYS.min,
+                max: AUDIT_RETENTION_DAYS.max,
+            },
             featureFlags: {
                 enablePublicSharing: { type: Boolean, default: true },
                 enableApiAccess: { type: Boolean, default: false },
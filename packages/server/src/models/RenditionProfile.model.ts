@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Rendition Profile Model (TypeScript)
+ * A rendition an organization wants generated for its assets: the workers
+ * render every active profile that applies to the asset's type and store the
+ * result under `renditions[name]`.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const RENDITION_FIT_MODES = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+export const IMAGE_RENDITION_FORMATS = ['jpeg', 'png', 'webp', 'avif'] as const;
+export const VIDEO_RENDITION_FORMATS = ['mp4', 'webm'] as const;
+export const RENDITION_FORMATS = [...IMAGE_RENDITION_FORMATS, ...VIDEO_RENDITION_FORMATS] as const;
+// Image formats render from the image itself, the poster frame of a video or the first page of a PDF
+export const RENDITION_ASSET_TYPES = ['image', 'video', 'document'] as const;
+
+export type RenditionFit = (typeof RENDITION_FIT_MODES)[number];
+export type RenditionFormat = (typeof RENDITION_FORMATS)[number];
+export type RenditionAssetType = (typeof RENDITION_ASSET_TYPES)[number];
+
+export const RENDITION_CONTENT_TYPES: Record<RenditionFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+    avif: 'image/avif',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+};
+
+export const RENDITION_FILE_EXTENSIONS: Record<RenditionFormat, string> = {
+    jpeg: 'jpg',
+    png: 'png',
+    webp: 'webp',
+    avif: 'avif',
+    mp4: 'mp4',
+    webm: 'webm',
+};
+
+// Names the pipeline writes itself; profiles cannot take them over
+export const RESERVED_RENDITION_NAMES = ['original', 'poster', 'waveform', 'file_listing', 'hls', 'sprites', 'thumbnails_vtt', 'poster_previous'];
+
+/**
+ * What the workers need to render a profile
+ */
+export interface RenditionProfileSpec {
+    name: string;
+    width: number;
+    height: number;
+    fit: RenditionFit;
+    format: RenditionFormat;
+    // 1-100; for video formats it maps to a constant rate factor unless bitrateKbps is set
+    quality: number;
+    bitrateKbps?: number;
+    assetTypes: RenditionAssetType[];
+}
+
+/**
+ * Profiles of organizations that have not defined their own
+ */
+export const DEFAULT_RENDITION_PROFILES: RenditionProfileSpec[] = [
+    {
+        name: 'thumbnail_small',
+        width: 256,
+        height: 256,
+        fit: 'inside',
+        format: 'jpeg',
+        quality: 85,
+        assetTypes: ['image', 'video', 'document'],
+    },
+    {
+        name: 'thumbnail_large',
+        width: 640,
+        height: 640,
+        fit: 'inside',
+        format: 'jpeg',
+        quality: 90,
+        assetTypes: ['image', 'video', 'document'],
+    },
+    {
+        name: 'preview_720p',
+        width: 1280,
+        height: 720,
+        fit: 'contain',
+        format: 'mp4',
+        quality: 75,
+        bitrateKbps: 2500,
+        assetTypes: ['video'],
+    },
+    {
+        name: 'preview_1080p',
+        width: 1920,
+        height: 1080,
+        fit: 'contain',
+        format: 'mp4',
+        quality: 75,
+        bitrateKbps: 5000,
+        assetTypes: ['video'],
+    },
+];
+
+export function isVideoFormat(format: RenditionFormat): boolean {
+    return (VIDEO_RENDITION_FORMATS as readonly string[]).includes(format);
+}
+
+export interface IRenditionProfile extends RenditionProfileSpec {
+    organizationId: mongoose.Types.ObjectId;
+    active: boolean;
+    createdBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IRenditionProfileDocument extends Document, IRenditionProfile {}
+export interface IRenditionProfileModel extends Model<IRenditionProfileDocument> {}
+
+const RenditionProfileSchema = new Schema<IRenditionProfileDocument, IRenditionProfileModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        name: { type: String, required: true, trim: true },
+        width: { type: Number, required: true, min: 1 },
+        height: { type: Number, required: true, min: 1 },
+        fit: { type: String, enum: RENDITION_FIT_MODES, default: 'inside' },
+        format: { type: String, enum: RENDITION_FORMATS, required: true },
+        quality: { type: Number, min: 1, max: 100, default: 80 },
+        bitrateKbps: { type: Number, min: 1 },
+        assetTypes: {
+            type: [{ type: String, enum: RENDITION_ASSET_TYPES }],
+            required: true,
+        },
+        active: { type: Boolean, default: true },
+        // Absent on the defaults copied in when an organization first customizes its profiles
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    },
+    {
+        timestamps: true,
+        collection: 'rendition_profiles',
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes: the name is the rendition key, so it is unique within an organization
+RenditionProfileSchema.index({ organizationId: 1, name: 1 }, { unique: true });
+RenditionProfileSchema.index({ organizationId: 1, active: 1, assetTypes: 1 });
+
+const RenditionProfile = mongoose.model<IRenditionProfileDocument, IRenditionProfileModel>(
+    'RenditionProfile',
+    RenditionProfileSchema,
+);
+export default RenditionProfile;
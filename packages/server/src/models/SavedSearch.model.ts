@@ -0,0 +1,102 @@
+/**
+ * @fileoverview SavedSearch Model (TypeScript)
+ * A named asset list query that can be re-run on demand. User-scoped searches
+ * are private to their owner; organization-scoped ones are visible to every
+ * member who can read assets. Results are computed at read time, never stored.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { AssetType, AssetStatus, AccessLevel } from './Asset.model';
+
+export type SavedSearchScope = 'user' | 'organization';
+
+/**
+ * Stored `GET /assets` filters; `q` is kept as text and parsed on every run
+ */
+export interface ISavedSearchFilters {
+    q?: string;
+    search?: string;
+    projectId?: mongoose.Types.ObjectId;
+    assetType?: AssetType;
+    status?: AssetStatus;
+    access?: AccessLevel;
+    tags?: string[];
+    sortBy: 'createdAt' | 'updatedAt' | 'originalFilename' | 'fileSizeBytes';
+    sortOrder: 'asc' | 'desc';
+}
+
+export interface ISavedSearch {
+    organizationId: mongoose.Types.ObjectId;
+    ownerId: mongoose.Types.ObjectId;
+    name: string;
+    description?: string;
+    scope: SavedSearchScope;
+    filters: ISavedSearchFilters;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface ISavedSearchDocument extends Document, ISavedSearch {}
+export interface ISavedSearchModel extends Model<ISavedSearchDocument> {}
+
+const SavedSearchFiltersSchema = new Schema<ISavedSearchFilters>(
+    {
+        q: { type: String },
+        search: { type: String },
+        projectId: { type: Schema.Types.ObjectId, ref: 'Project' },
+        assetType: { type: String, enum: Object.values(AssetType) },
+        status: { type: String, enum: Object.values(AssetStatus) },
+        access: { type: String, enum: Object.values(AccessLevel) },
+        tags: { type: [String], default: undefined },
+        sortBy: {
+            type: String,
+            enum: ['createdAt', 'updatedAt', 'originalFilename', 'fileSizeBytes'],
+            default: 'updatedAt',
+        },
+        sortOrder: { type: String, enum: ['asc', 'desc'], default: 'desc' },
+    },
+    { _id: false },
+);
+
+const SavedSearchSchema = new Schema<ISavedSearchDocument, ISavedSearchModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        name: { type: String, required: true, trim: true },
+        description: { type: String, trim: true },
+        scope: { type: String, enum: ['user', 'organization'], default: 'user' },
+        filters: { type: SavedSearchFiltersSchema, default: () => ({}) },
+    },
+    {
+        timestamps: true,
+        collection: 'saved_searches',
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+SavedSearchSchema.index({ organizationId: 1, ownerId: 1, updatedAt: -1 });
+SavedSearchSchema.index({ organizationId: 1, scope: 1, updatedAt: -1 });
+
+const SavedSearch = mongoose.model<ISavedSearchDocument, ISavedSearchModel>(
+    'SavedSearch',
+    SavedSearchSchema,
+);
+export default SavedSearch;
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview ShareLink Model (TypeScript)
+ * Tokenized public link to a single asset, usable without an account. Only a hash
+ * of the token is stored; the token itself is returned once, when the link is created.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export interface IShareLink {
+    organizationId: mongoose.Types.ObjectId;
+    assetId: mongoose.Types.ObjectId;
+    tokenHash: string;
+    passwordHash?: string | null;
+    allowedRenditions: string[];
+    expiresAt?: Date | null;
+    maxDownloads?: number | null;
+    downloadCount: number;
+    lastAccessedAt?: Date | null;
+    // Wrong passwords since the last lockout or success
+    failedPasswordAttempts: number;
+    passwordLockedUntil?: Date | null;
+    createdBy: mongoose.Types.ObjectId;
+    revokedAt?: Date | null;
+    revokedBy?: mongoose.Types.ObjectId | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IShareLinkDocument extends Document, IShareLink {}
+export interface IShareLinkModel extends Model<IShareLinkDocument> {}
+
+const ShareLinkSchema = new Schema<IShareLinkDocument, IShareLinkModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        assetId: { type: Schema.Types.ObjectId, ref: 'Asset', required: true },
+        tokenHash: { type: String, required: true, unique: true },
+        passwordHash: { type: String, default: null },
+        allowedRenditions: { type: [String], default: ['original'] },
+        expiresAt: { type: Date, default: null },
+        maxDownloads: { type: Number, default: null, min: 1 },
+        downloadCount: { type: Number, default: 0, min: 0 },
+        lastAccessedAt: { type: Date, default: null },
+        failedPasswordAttempts: { type: Number, default: 0, min: 0 },
+        passwordLockedUntil: { type: Date, default: null },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        revokedAt: { type: Date, default: null },
+        revokedBy: { type: Schema.Types.ObjectId, ref: 'User', default: null },
+    },
+    {
+        timestamps: true,
+        collection: 'share_links',
+        minimize: false,
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                delete r.tokenHash;
+                delete r.passwordHash;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+ShareLinkSchema.index({ assetId: 1, createdAt: -1 });
+ShareLinkSchema.index({ organizationId: 1, revokedAt: 1 });
+
+const ShareLink = mongoose.model<IShareLinkDocument, IShareLinkModel>('ShareLink', ShareLinkSchema);
+export default ShareLink;
@@ -0,0 +1,79 @@
+/**
+ * @fileoverview Webhook Model (TypeScript)
+ * Outbound webhook subscription of an organization: asset lifecycle events it
+ * listens to are POSTed to `url`, signed with the subscription's secret.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+
+export const WEBHOOK_EVENTS = [
+    'asset.created',
+    'asset.finalized',
+    'asset.processing.completed',
+    'asset.processing.failed',
+    'asset.deleted',
+    'asset.version.created',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface IWebhook {
+    organizationId: mongoose.Types.ObjectId;
+    url: string;
+    description?: string;
+    events: WebhookEvent[];
+    // HMAC key for signatures; readable only when explicitly selected
+    secret: string;
+    active: boolean;
+    createdBy: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IWebhookDocument extends Document, IWebhook {}
+export interface IWebhookModel extends Model<IWebhookDocument> {}
+
+const WebhookSchema = new Schema<IWebhookDocument, IWebhookModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        url: { type: String, required: true, trim: true },
+        description: { type: String, trim: true },
+        events: {
+            type: [{ type: String, enum: WEBHOOK_EVENTS }],
+            required: true,
+        },
+        secret: { type: String, required: true, select: false },
+        active: { type: Boolean, default: true },
+        createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    },
+    {
+        timestamps: true,
+        collection: 'webhooks',
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                delete r.secret;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes: the subscribers of an event are looked up on every emission
+WebhookSchema.index({ organizationId: 1, active: 1, events: 1 });
+WebhookSchema.index({ organizationId: 1, createdAt: -1 });
+
+const Webhook = mongoose.model<IWebhookDocument, IWebhookModel>('Webhook', WebhookSchema);
+export default Webhook;
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview WebhookDelivery Model (TypeScript)
+ * One event sent to one webhook, with every attempt made. Redelivering creates
+ * a new delivery of the same payload. Deliveries expire after
+ * WEBHOOK_DELIVERY_RETENTION_DAYS through a TTL index on `createdAt`.
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { WEBHOOK_EVENTS, type WebhookEvent } from './Webhook.model';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+const WEBHOOK_DELIVERY_RETENTION_DAYS = isNaN(Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS))
+    ? 30
+    : Number(process.env.WEBHOOK_DELIVERY_RETENTION_DAYS);
+
+export interface IWebhookAttempt {
+    attemptedAt: Date;
+    // Absent when no response came back (timeout, refused connection, ...)
+    responseStatus?: number;
+    // First bytes of the response body
+    responseBody?: string;
+    durationMs: number;
+    error?: string;
+}
+
+export interface IWebhookDelivery {
+    organizationId: mongoose.Types.ObjectId;
+    webhookId: mongoose.Types.ObjectId;
+    event: WebhookEvent;
+    // ID of the event in the payload; shared by redeliveries so receivers can dedupe
+    eventId: string;
+    payload: Record<string, any>;
+    status: WebhookDeliveryStatus;
+    attempts: IWebhookAttempt[];
+    redeliveryOf?: mongoose.Types.ObjectId;
+    completedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IWebhookDeliveryDocument extends Document, IWebhookDelivery {}
+export interface IWebhookDeliveryModel extends Model<IWebhookDeliveryDocument> {}
+
+const WebhookAttemptSchema = new Schema<IWebhookAttempt>(
+    {
+        attemptedAt: { type: Date, required: true },
+        responseStatus: { type: Number },
+        responseBody: { type: String },
+        durationMs: { type: Number, required: true },
+        error: { type: String },
+    },
+    { _id: false },
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+    {
+        organizationId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Organization',
+            required: true,
+        },
+        webhookId: { type: Schema.Types.ObjectId, ref: 'Webhook', required: true },
+        event: { type: String, enum: WEBHOOK_EVENTS, required: true },
+        eventId: { type: String, required: true },
+        payload: { type: Schema.Types.Mixed, required: true },
+        status: {
+            type: String,
+            enum: ['pending', 'succeeded', 'failed'],
+            default: 'pending',
+        },
+        attempts: { type: [WebhookAttemptSchema], default: [] },
+        redeliveryOf: { type: Schema.Types.ObjectId, ref: 'WebhookDelivery' },
+        completedAt: { type: Date },
+    },
+    {
+        timestamps: true,
+        collection: 'webhook_deliveries',
+        minimize: false,
+        toJSON: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+        toObject: {
+            virtuals: true,
+            transform: (_d, r: any) => {
+                delete r.__v;
+                return r;
+            },
+        },
+    },
+);
+
+// Indexes
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1, _id: -1 });
+WebhookDeliverySchema.index({ webhookId: 1, status: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ eventId: 1 });
+// Retention
+WebhookDeliverySchema.index(
+    { createdAt: 1 },
+    { expireAfterSeconds: WEBHOOK_DELIVERY_RETENTION_DAYS * 24 * 60 * 60 },
+);
+
+const WebhookDelivery = mongoose.model<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+    'WebhookDelivery',
+    WebhookDeliverySchema,
+);
+export default WebhookDelivery;
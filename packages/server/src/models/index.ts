@@ -1,15 +1,33 @@
 import Asset from './Asset.model';
+import AuditEvent from './AuditEvent.model';
+import Collection from './Collection.model';
+import Invitation from './Invitation.model';
+import Membership from './Membership.model';
 import Organization from './Organization.model';
 import Project from './Project.model';
+import RenditionProfile from './RenditionProfile.model';
 import Role from './Role.model';
+import SavedSearch from './SavedSearch.model';
+import ShareLink from './ShareLink.model';
 import User from './User.model';
+import Webhook from './Webhook.model';
+import WebhookDelivery from './WebhookDelivery.model';
 
 const models = { 
     Asset,
+    AuditEvent,
+    Collection,
+    Invitation,
+    Membership,
     Organization,
     Project, 
+    RenditionProfile,
     Role,
-    User 
+    SavedSearch,
+    ShareLink,
+    User,
+    Webhook,
+    WebhookDelivery 
 };
 
 export = models;
@@ -5,6 +5,7 @@
  */
 import { Queue, QueueOptions, Job } from 'bullmq';
 import { getRedisClient } from '../config/redis';
+import type { BulkAssetOperation } from '../schemas/bulkAsset.schema';
 
 /**
  * Queue names as constants for type safety
@@ -14,7 +15,9 @@ export const QUEUE_NAMES = {
     IMAGE_PROCESSING: 'image-processing', 
     VIDEO_PROCESSING: 'video-processing',
     METADATA_EXTRACTION: 'metadata-extraction',
-    CLEANUP: 'cleanup'
+    CLEANUP: 'cleanup',
+    BULK_OPERATIONS: 'bulk-operations',
+    WEBHOOKS: 'webhook-deliveries'
 } as const;
 
 /**
@@ -33,6 +36,7 @@ export const JOB_TYPES = {
     TRANSCODE_VIDEO: 'transcode-video',
     EXTRACT_POSTER: 'extract-poster',
     GENERATE_PREVIEWS: 'generate-previews',
+    GENERATE_SPRITES: 'generate-sprites',
     
     // Metadata extraction jobs
     EXTRACT_METADATA: 'extract-metadata',
@@ -40,7 +44,15 @@ export const JOB_TYPES = {
     
     // Cleanup jobs
     DELETE_STORAGE: 'delete-storage',
-    CLEANUP_TEMP: 'cleanup-temp'
+    CLEANUP_TEMP: 'cleanup-temp',
+    REAP_EXPIRED_UPLOADS: 'reap-expired-uploads',
+    RECOVER_STUCK_ASSETS: 'recover-stuck-assets',
+
+    // Bulk jobs
+    BULK_ASSET_OPERATION: 'bulk-asset-operation',
+
+    // Webhook jobs
+    DELIVER_WEBHOOK: 'deliver-webhook'
 } as const;
 
 /**
@@ -69,10 +81,29 @@ export interface TranscodeVideoJobData {
     assetId: string;
     organizationId: string;
     storageKey: string;
-    targetResolutions: Array<'720p' | '1080p'>;
+    // Renditions follow the organization's video rendition profiles; image profiles render from the poster
     extractPoster?: boolean;
 }
 
+export interface ExtractPosterJobData {
+    assetId: string;
+    organizationId: string;
+    // File the poster belongs to; the job is dropped once the asset has a newer one
+    storageKey: string;
+    // Seconds into the video to take the frame from
+    timeOffset?: string;
+    // Use this stored JPEG as the poster instead of extracting a frame (uploads, reverts)
+    posterKey?: string;
+}
+
+export interface GenerateSpritesJobData {
+    assetId: string;
+    organizationId: string;
+    // File the sprites are taken from; the job is dropped once the asset has a newer one
+    storageKey: string;
+    intervalSeconds?: number;
+}
+
 export interface ExtractMetadataJobData {
     assetId: string;
     organizationId: string;
@@ -83,10 +114,40 @@ export interface ExtractMetadataJobData {
 
 export interface CleanupJobData {
     storageKeys: string[];
+    // Every object below these prefixes is deleted as well, listed when the job runs
+    storagePrefixes?: string[];
     assetId?: string;
-    reason: 'asset-deleted' | 'processing-failed' | 'temp-cleanup';
+    reason: 'asset-deleted' | 'asset-moved' | 'version-replaced' | 'processing-failed' | 'temp-cleanup';
 }
 
+export interface ReapExpiredUploadsJobData {
+    limit?: number;
+}
+
+export interface RecoverStuckAssetsJobData {
+    limit?: number;
+}
+
+export interface BulkAssetOperationJobData {
+    organizationId: string;
+    requestedBy: string;
+    // Request that queued the job, carried into its audit events
+    ip?: string;
+    requestId?: string;
+    assetIds: string[];
+    operation: BulkAssetOperation;
+}
+
+export interface WebhookDeliveryJobData {
+    deliveryId: string;
+}
+
+/**
+ * Webhook delivery attempts; with exponential backoff from 10 seconds the last
+ * retry happens about 21 minutes after the first attempt
+ */
+export const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
 /**
  * Default queue options with retry policies and job settings
  */
@@ -148,6 +209,30 @@ const QUEUE_OPTIONS: Record<string, Partial<QueueOptions>> = {
             priority: 1,        // Low priority for cleanup
             delay: 30000       // 30 second delay for cleanup jobs
         }
+    },
+    [QUEUE_NAMES.BULK_OPERATIONS]: {
+        ...getDefaultQueueOptions(),
+        defaultJobOptions: {
+            attempts: 1,        // Results are per asset; a rerun would repeat finished work
+            priority: 5,
+            // Keep finished jobs around so their progress and results can be read back
+            removeOnComplete: { age: 24 * 60 * 60 },
+            removeOnFail: { age: 24 * 60 * 60 }
+        }
+    },
+    [QUEUE_NAMES.WEBHOOKS]: {
+        ...getDefaultQueueOptions(),
+        defaultJobOptions: {
+            ...getDefaultQueueOptions().defaultJobOptions,
+            attempts: WEBHOOK_MAX_ATTEMPTS,
+            backoff: {
+                type: 'exponential',
+                delay: 10000
+            },
+            // The delivery log is the record of outcomes
+            removeOnComplete: true,
+            removeOnFail: 100
+        }
     }
 };
 
@@ -202,6 +287,8 @@ export const getImageProcessingQueue = (): Queue => createQueue(QUEUE_NAMES.IMAG
 export const getVideoProcessingQueue = (): Queue => createQueue(QUEUE_NAMES.VIDEO_PROCESSING);
 export const getMetadataExtractionQueue = (): Queue => createQueue(QUEUE_NAMES.METADATA_EXTRACTION);
 export const getCleanupQueue = (): Queue => createQueue(QUEUE_NAMES.CLEANUP);
+export const getBulkOperationsQueue = (): Queue => createQueue(QUEUE_NAMES.BULK_OPERATIONS);
+export const getWebhookQueue = (): Queue => createQueue(QUEUE_NAMES.WEBHOOKS);
 
 /**
  * Queue management utilities
@@ -265,6 +352,32 @@ export const QueueManager = {
         return stats;
     },
 
+    /**
+     * Collect the IDs of assets that still have a job waiting, delayed or running
+     * in one of the processing queues
+     * @returns Set of asset IDs
+     */
+    getLiveAssetIds: async (): Promise<Set<string>> => {
+        const processingQueues = [
+            QUEUE_NAMES.ASSET_PROCESSING,
+            QUEUE_NAMES.IMAGE_PROCESSING,
+            QUEUE_NAMES.VIDEO_PROCESSING,
+            QUEUE_NAMES.METADATA_EXTRACTION
+        ];
+        const assetIds = new Set<string>();
+
+        for (const queueName of processingQueues) {
+            const jobs = await createQueue(queueName).getJobs(
+                ['active', 'waiting', 'delayed', 'prioritized', 'paused', 'waiting-children']
+            );
+            for (const job of jobs) {
+                if (job?.data?.assetId) assetIds.add(String(job.data.assetId));
+            }
+        }
+
+        return assetIds;
+    },
+
     /**
      * Pause all queues
      */
@@ -363,6 +476,32 @@ export const JobUtils = {
         return queue.add(JOB_TYPES.TRANSCODE_VIDEO, data, options);
     },
 
+    /**
+     * Add poster frame job
+     * @param data - Job data
+     * @param options - Job options
+     */
+    addExtractPosterJob: async (
+        data: ExtractPosterJobData,
+        options?: any
+    ): Promise<Job<ExtractPosterJobData>> => {
+        const queue = getVideoProcessingQueue();
+        return queue.add(JOB_TYPES.EXTRACT_POSTER, data, options);
+    },
+
+    /**
+     * Add sprite sheet generation job
+     * @param data - Job data
+     * @param options - Job options
+     */
+    addGenerateSpritesJob: async (
+        data: GenerateSpritesJobData,
+        options?: any
+    ): Promise<Job<GenerateSpritesJobData>> => {
+        const queue = getVideoProcessingQueue();
+        return queue.add(JOB_TYPES.GENERATE_SPRITES, data, options);
+    },
+
     /**
      * Add metadata extraction job
      * @param data - Job data
@@ -387,6 +526,87 @@ export const JobUtils = {
     ): Promise<Job<CleanupJobData>> => {
         const queue = getCleanupQueue();
         return queue.add(JOB_TYPES.DELETE_STORAGE, data, options);
+    },
+
+    /**
+     * Add temporary file cleanup job
+     * @param data - Job data
+     * @param options - Job options
+     */
+    addCleanupTempJob: async (
+        data: CleanupJobData,
+        options?: any
+    ): Promise<Job<CleanupJobData>> => {
+        const queue = getCleanupQueue();
+        return queue.add(JOB_TYPES.CLEANUP_TEMP, data, options);
+    },
+
+    /**
+     * Schedule the repeating sweep for expired uploads (idempotent)
+     * @param everyMs - Interval between runs in milliseconds
+     * @param data - Job data
+     */
+    scheduleExpiredUploadReaper: async (
+        everyMs: number,
+        data: ReapExpiredUploadsJobData = {}
+    ): Promise<Job<ReapExpiredUploadsJobData>> => {
+        const queue = getCleanupQueue();
+        return queue.upsertJobScheduler(
+            JOB_TYPES.REAP_EXPIRED_UPLOADS,
+            { every: everyMs },
+            {
+                name: JOB_TYPES.REAP_EXPIRED_UPLOADS,
+                data,
+                opts: { attempts: 1 }
+            }
+        );
+    },
+
+    /**
+     * Schedule the repeating sweep for assets stuck in processing (idempotent)
+     * @param everyMs - Interval between runs in milliseconds
+     * @param data - Job data
+     */
+    scheduleStuckAssetRecovery: async (
+        everyMs: number,
+        data: RecoverStuckAssetsJobData = {}
+    ): Promise<Job<RecoverStuckAssetsJobData>> => {
+        const queue = getCleanupQueue();
+        return queue.upsertJobScheduler(
+            JOB_TYPES.RECOVER_STUCK_ASSETS,
+            { every: everyMs },
+            {
+                name: JOB_TYPES.RECOVER_STUCK_ASSETS,
+                data,
+                opts: { attempts: 1 }
+            }
+        );
+    },
+
+    /**
+     * Add bulk asset operation job
+     * @param data - Job data
+     * @param options - Job options
+     */
+    addBulkAssetOperationJob: async (
+        data: BulkAssetOperationJobData,
+        options?: any
+    ): Promise<Job<BulkAssetOperationJobData>> => {
+        const queue = getBulkOperationsQueue();
+        return queue.add(JOB_TYPES.BULK_ASSET_OPERATION, data, options);
+    },
+
+    /**
+     * Add webhook delivery job
+     * @param data - Job data
+     * @param options - Job options
+     */
+    addWebhookDeliveryJob: async (
+        data: WebhookDeliveryJobData,
+        options?: any
+    ): Promise<Job<WebhookDeliveryJobData>> => {
+        const queue = getWebhookQueue();
+        return queue.add(JOB_TYPES.DELIVER_WEBHOOK, data, options);
     }
 };
 
@@ -5,7 +5,11 @@
  */
 import { z } from 'zod';
 import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
-import { AssetType, AssetStatus, StorageProvider, AccessLevel } from '../models/Asset.model';
+import { AssetType, AssetStatus, StorageProvider, AccessLevel, MAX_DESCRIPTION_LENGTH } from '../models/Asset.model';
+import { MULTIPART_LIMITS } from '../config/storage';
+import { parseAssetQuery, ASSET_QUERY_MAX_LENGTH } from '../utils/assetQuery';
+import { pageCursorSchema } from './common.schema';
+import { RENDITION_FIT_MODES } from '../models/RenditionProfile.model';
 
 extendZodWithOpenApi(z);
 
@@ -26,6 +30,20 @@ const checksumSchema = z.string().regex(/^[a-z0-9]+:[a-fA-F0-9]{64}$/, 'Invalid
     example: 'sha256:8a9c4f2e1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c'
 });
 
+const MAX_SINGLE_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024; // 5GB, single presigned PUT
+const MAX_MULTIPART_FILE_SIZE = 5 * 1024 * 1024 * 1024 * 1024; // 5TB
+
+const uploadedPartSchema = z.object({
+    partNumber: z.number().int().min(1).max(MULTIPART_LIMITS.maxParts).openapi({
+        description: 'Part number',
+        example: 1
+    }),
+    etag: z.string().min(1).max(200).openapi({
+        description: 'ETag returned by storage when the part was uploaded',
+        example: '5d41402abc4b2a76b9719d911017c592'
+    })
+});
+
 const storageKeySchema = z.string().min(1).max(500).openapi({
     type: 'string',
     minLength: 1,
@@ -98,6 +116,22 @@ const assetVersionSchema = z.object({
         description: 'File size in bytes',
         example: 2817345
     }),
+    checksum: checksumSchema.optional().openapi({
+        description: 'File checksum of this version',
+        example: 'sha256:8a9c4f2e1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c'
+    }),
+    mimeType: mimeTypeSchema.optional().openapi({
+        description: 'MIME type of this version',
+        example: 'image/jpeg'
+    }),
+    originalFilename: filenameSchema.optional().openapi({
+        description: 'Original filename of this version',
+        example: 'hero.jpg'
+    }),
+    restoredFrom: z.number().int().min(1).optional().openapi({
+        description: 'Version this one was restored from',
+        example: 1
+    }),
     createdBy: objectIdSchema.openapi({
         description: 'User who created this version',
         example: '64b123456789abcdef000001'
@@ -112,24 +146,21 @@ const assetVersionSchema = z.object({
 
 /**
  * Renditions schema (embedded document)
+ * Keyed by rendition profile name, plus poster, waveform and file_listing
  */
-const renditionsSchema = z.object({
-    thumbnail_small: z.object({
-        storageKey: storageKeySchema,
-        width: z.number().int().min(1),
-        height: z.number().int().min(1)
-    }).optional(),
-    thumbnail_large: z.object({
-        storageKey: storageKeySchema,
-        width: z.number().int().min(1),
-        height: z.number().int().min(1)
-    }).optional(),
-    preview_720p: z.object({
-        storageKey: storageKeySchema,
-        fileSizeBytes: z.number().int().min(0)
-    }).optional()
-}).openapi({
-    description: 'Generated asset renditions and thumbnails'
+const renditionSchema = z.object({
+    storageKey: storageKeySchema,
+    width: z.number().int().min(1).optional(),
+    height: z.number().int().min(1).optional(),
+    format: z.string().optional(),
+    fileSizeBytes: z.number().int().min(0).optional()
+}).passthrough();
+
+const renditionsSchema = z.record(z.string(), renditionSchema).openapi({
+    description: 'Generated asset renditions and thumbnails, keyed by rendition name',
+    example: {
+        thumbnail_small: { storageKey: 'org/64b0c7f4a2c8a2b3c4d5e6f7/assets/64b0c7f4a2c8a2b3c4d5e6f8/renditions/thumbnail_small_1736935920000.jpg', width: 256, height: 171, format: 'jpeg', fileSizeBytes: 14820 }
+    }
 });
 
 /**
@@ -200,14 +231,26 @@ const createAssetSchema = z.object({
         description: 'MIME type of the asset',
         example: 'image/jpeg'
     }),
-    fileSizeBytes: z.number().int().min(1).max(5 * 1024 * 1024 * 1024).openapi({ // 5GB limit
-        description: 'File size in bytes (max 5GB)',
+    fileSizeBytes: z.number().int().min(1).max(MAX_MULTIPART_FILE_SIZE).openapi({
+        description: 'File size in bytes (max 5GB, or 5TB with multipart upload)',
         example: 2817345
     }),
     checksum: checksumSchema.openapi({
         description: 'File checksum for integrity verification',
         example: 'sha256:8a9c4f2e1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c'
     }),
+    multipart: z.boolean().default(false).openapi({
+        description: 'Upload the file in parts; part URLs are requested separately',
+        example: false
+    }),
+    partSizeBytes: z.number().int().min(MULTIPART_LIMITS.minPartSizeBytes).max(MULTIPART_LIMITS.maxPartSizeBytes).optional().openapi({
+        description: 'Part size for multipart uploads (5MB-5GB, chosen automatically when omitted)',
+        example: 67108864
+    }),
+    description: z.string().trim().max(MAX_DESCRIPTION_LENGTH).optional().openapi({
+        description: 'Free-text description, included in full-text search',
+        example: 'Hero banner for the spring campaign landing page'
+    }),
     tags: z.array(tagSchema).max(20).default([]).openapi({
         description: 'Asset tags for categorization (max 20)',
         example: ['homepage', 'brand', 'hero']
@@ -220,6 +263,9 @@ const createAssetSchema = z.object({
         description: 'Custom key-value metadata',
         example: { 'license': 'royalty-free', 'photographer': 'John Doe' }
     })
+}).refine((data) => data.multipart || data.fileSizeBytes <= MAX_SINGLE_UPLOAD_SIZE, {
+    message: 'Files over 5GB require a multipart upload',
+    path: ['fileSizeBytes']
 }).openapi({
     description: 'Asset creation payload for upload initiation'
 });
@@ -239,15 +285,75 @@ const finalizeAssetSchema = z.object({
     actualFileSizeBytes: z.number().int().min(1).openapi({
         description: 'Actual file size from upload',
         example: 2817345
+    }),
+    parts: z.array(uploadedPartSchema).min(1).max(MULTIPART_LIMITS.maxParts).optional().openapi({
+        description: 'Part numbers and ETags of a multipart upload (read from storage when omitted)',
+        example: [{ partNumber: 1, etag: '5d41402abc4b2a76b9719d911017c592' }]
     })
 }).openapi({
     description: 'Asset finalization payload after successful upload'
 });
 
+/**
+ * Presign Upload Parts Schema
+ */
+const presignUploadPartsSchema = z.object({
+    partNumbers: z.array(z.number().int().min(1).max(MULTIPART_LIMITS.maxParts)).min(1).max(100).openapi({
+        description: 'Part numbers to presign (max 100 per request)',
+        example: [1, 2, 3]
+    })
+}).openapi({
+    description: 'Part numbers of a multipart upload that need upload URLs'
+});
+
+/**
+ * Create Asset Version (Upload Request) Schema
+ */
+const createAssetVersionSchema = z.object({
+    originalFilename: filenameSchema.optional().openapi({
+        description: 'Filename of the new version (defaults to the current filename)',
+        example: 'hero-image-v2.jpg'
+    }),
+    mimeType: mimeTypeSchema.optional().openapi({
+        description: 'MIME type of the new version (defaults to the current MIME type; must keep the asset type)',
+        example: 'image/jpeg'
+    }),
+    fileSizeBytes: z.number().int().min(1).max(5 * 1024 * 1024 * 1024).openapi({ // 5GB limit
+        description: 'File size in bytes (max 5GB)',
+        example: 3021456
+    }),
+    checksum: checksumSchema.openapi({
+        description: 'File checksum for integrity verification',
+        example: 'sha256:1f3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f8a9c4f2e1b3d5a7c'
+    })
+}).openapi({
+    description: 'Asset version payload for upload initiation'
+});
+
+/**
+ * Finalize Asset Version Upload Schema
+ */
+const finalizeAssetVersionSchema = z.object({
+    actualChecksum: checksumSchema.openapi({
+        description: 'Actual checksum from uploaded file',
+        example: 'sha256:1f3d5a7c9f8e1b2d4a6c8e0f1b3d5a7c9f8e1b2d4a6c8e0f8a9c4f2e1b3d5a7c'
+    }),
+    actualFileSizeBytes: z.number().int().min(1).openapi({
+        description: 'Actual file size from upload',
+        example: 3021456
+    })
+}).openapi({
+    description: 'Asset version finalization payload after successful upload'
+});
+
 /**
  * Update Asset Schema
  */
 const updateAssetSchema = z.object({
+    description: z.string().trim().max(MAX_DESCRIPTION_LENGTH).optional().openapi({
+        description: 'Update the asset description',
+        example: 'Hero banner, approved for print'
+    }),
     tags: z.array(tagSchema).max(20).optional().openapi({
         description: 'Update asset tags',
         example: ['updated', 'brand', 'campaign']
@@ -276,6 +382,106 @@ const assetIdParamSchema = z.object({
     description: 'Asset ID parameter'
 })
 
+/**
+ * Asset Version Parameter Schema
+ */
+const assetVersionParamSchema = z.object({
+    id: objectIdSchema.openapi({
+        description: 'Asset ID',
+        example: '64b123456789abcdef000003'
+    }),
+    version: z.coerce.number().int().min(1).openapi({
+        description: 'Version number',
+        example: 2
+    })
+}).openapi({
+    description: 'Asset ID and version parameters'
+})
+
+const assetStreamVariantParamSchema = z.object({
+    id: objectIdSchema.openapi({
+        description: 'Asset ID',
+        example: '64b123456789abcdef000003'
+    }),
+    variant: z.string().regex(/^[a-z0-9_]{1,32}$/, 'Invalid stream variant').openapi({
+        description: 'HLS variant name from the master playlist',
+        example: '720p'
+    })
+}).openapi({
+    description: 'Asset ID and HLS variant parameters'
+})
+
+/**
+ * Largest output dimension of an on-demand transform, after the pixel ratio
+ */
+const TRANSFORM_MAX_DIMENSION = 4096;
+
+/**
+ * Image Transform Query Schema
+ * Sizes are CSS pixels; the rendered image is `dpr` times larger and never
+ * larger than the original.
+ */
+const transformAssetQuerySchema = z.object({
+    w: z.coerce.number().int().min(1).max(TRANSFORM_MAX_DIMENSION).optional().openapi({
+        description: 'Target width',
+        example: 320
+    }),
+    h: z.coerce.number().int().min(1).max(TRANSFORM_MAX_DIMENSION).optional().openapi({
+        description: 'Target height',
+        example: 180
+    }),
+    fit: z.enum(RENDITION_FIT_MODES).default('inside').openapi({
+        description: 'How the image fills the target box when both sizes are given'
+    }),
+    format: z.enum(['webp', 'avif', 'jpeg']).default('webp'),
+    q: z.coerce.number().int().min(1).max(100).default(80).openapi({
+        description: 'Encoding quality'
+    }),
+    // Half steps keep the number of cached variants small
+    dpr: z.coerce.number().min(1).max(3).multipleOf(0.5).default(1).openapi({
+        description: 'Device pixel ratio',
+        example: 2
+    })
+}).strict().refine((query) => query.w !== undefined || query.h !== undefined, {
+    message: 'Provide w, h or both',
+    path: ['w']
+}).refine((query) => Math.max(query.w ?? 0, query.h ?? 0) * query.dpr <= TRANSFORM_MAX_DIMENSION, {
+    message: `Output cannot exceed ${TRANSFORM_MAX_DIMENSION} pixels per side`,
+    path: ['dpr']
+}).openapi({
+    description: 'Image transform parameters'
+});
+
+/**
+ * Project ID Parameter Schema (assets by project)
+ */
+const assetProjectParamSchema = z.object({
+    projectId: objectIdSchema.openapi({
+        description: 'Project ID',
+        example: '64b123456789abcdef000002'
+    })
+}).openapi({
+    description: 'Project ID parameter'
+})
+
+/**
+ * Asset query language expression, checked against the grammar; issues carry
+ * the `position` and `token` of the offending token
+ */
+const assetQueryTextSchema = z.string().trim().min(1).max(ASSET_QUERY_MAX_LENGTH).superRefine((q, ctx) => {
+    try {
+        parseAssetQuery(q);
+    } catch (error: any) {
+        if (error.code !== 'INVALID_ASSET_QUERY') throw error;
+        ctx.addIssue({ code: 'custom', message: error.message, params: { position: error.position, token: error.token } });
+    }
+});
+
+/**
+ * `true`/`false` query flag
+ */
+const queryFlagSchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+
 /**
  * List Assets Query Schema
  */
@@ -310,6 +516,10 @@ const listAssetsQuerySchema = z.object({
         description: 'Search in filename and tags',
         example: 'hero image'
     }),
+    q: assetQueryTextSchema.optional().openapi({
+        description: 'Filter expression in the asset query language (see the AssetQuery schema)',
+        example: 'type:video duration>60 -status:failed project:/marketing/**'
+    }).transform((q) => (q ? parseAssetQuery(q) : undefined)),
     createdAfter: z.string().datetime().optional().openapi({
         description: 'Filter assets created after this date',
         example: '2025-01-01T00:00:00.000Z'
@@ -318,8 +528,16 @@ const listAssetsQuerySchema = z.object({
         description: 'Filter assets created before this date', 
         example: '2025-12-31T23:59:59.999Z'
     }),
+    cursor: pageCursorSchema.optional().openapi({
+        description: 'Continue after the page that returned this `nextCursor`; repeat the same filters and sort. Replaces `page`',
+        example: 'eyJrIjpbWyJ1cGRhdGVkQXQiLC0xXV0sInYiOlt7ImQiOiIyMDI2LTAxLTAxVDAwOjAwOjAwLjAwMFoifV0sImlkIjoiNjRiMTIzNDU2Nzg5YWJjZGVmMDAwMDAzIn0'
+    }),
+    includeTotal: queryFlagSchema.optional().openapi({
+        description: 'Count all matches (`total`, `totalPages`). Defaults to true for page numbers and false with a cursor',
+        example: 'false'
+    }),
     page: z.coerce.number().int().min(1).max(10000).default(1).openapi({
-        description: 'Page number (1-based)',
+        description: 'Page number (1-based); prefer `cursor` for deep pages',
         example: 1
     }),
     limit: z.coerce.number().int().min(1).max(100).default(20).openapi({
@@ -338,6 +556,12 @@ const listAssetsQuerySchema = z.object({
     description: 'Query parameters for listing assets with pagination and filtering'
 })
 
+/**
+ * Query of the fixed listings (by project, by tag, recent): the list filters,
+ * with the organization optional where the route already implies it
+ */
+const assetListingQuerySchema = listAssetsQuerySchema.partial({ organizationId: true });
+
 /**
  * Asset Response Schema (full asset details)
  */
@@ -402,6 +626,10 @@ const assetResponseSchema = z.object({
         description: 'Asset versions history',
         example: []
     }),
+    description: z.string().optional().openapi({
+        description: 'Free-text description',
+        example: 'Hero banner for the spring campaign landing page'
+    }),
     tags: z.array(z.string()).openapi({
         description: 'Asset tags',
         example: ['homepage', 'brand', 'hero']
@@ -418,6 +646,26 @@ const assetResponseSchema = z.object({
         description: 'Generated renditions',
         example: {}
     }),
+    thumbnailTrack: z.object({
+        url: z.string(),
+        intervalSeconds: z.number(),
+        tileWidth: z.number().int(),
+        tileHeight: z.number().int(),
+        columns: z.number().int(),
+        rows: z.number().int(),
+        sheetCount: z.number().int()
+    }).optional().openapi({
+        description: 'WebVTT scrubbing track over sprite sheets (videos)',
+        example: {
+            url: '/api/v1/assets/64b123456789abcdef000003/thumbnails.vtt',
+            intervalSeconds: 5,
+            tileWidth: 160,
+            tileHeight: 90,
+            columns: 10,
+            rows: 10,
+            sheetCount: 1
+        }
+    }),
     access: accessLevelSchema.openapi({
         description: 'Access level',
         example: AccessLevel.ORGANIZATION
@@ -452,20 +700,20 @@ const assetListResponseSchema = z.object({
             description: 'Array of assets'
         }),
         pagination: z.object({
-            total: z.number().int().min(0).openapi({
-                description: 'Total number of assets matching filters',
+            total: z.number().int().min(0).optional().openapi({
+                description: 'Total number of assets matching filters (omitted unless counted, see includeTotal)',
                 example: 150
             }),
-            page: z.number().int().min(1).openapi({
-                description: 'Current page number',
+            page: z.number().int().min(1).optional().openapi({
+                description: 'Current page number (omitted for cursor pages)',
                 example: 1
             }),
             limit: z.number().int().min(1).openapi({
                 description: 'Assets per page',
                 example: 20
             }),
-            totalPages: z.number().int().min(0).openapi({
-                description: 'Total number of pages',
+            totalPages: z.number().int().min(0).optional().openapi({
+                description: 'Total number of pages (omitted unless counted)',
                 example: 8
             }),
             hasNext: z.boolean().openapi({
@@ -475,6 +723,10 @@ const assetListResponseSchema = z.object({
             hasPrev: z.boolean().openapi({
                 description: 'Whether there are previous pages',
                 example: false
+            }),
+            nextCursor: z.string().nullable().openapi({
+                description: 'Pass as `cursor` to read the next page; null on the last page',
+                example: 'eyJrIjpbWyJ1cGRhdGVkQXQiLC0xXV0sInYiOlt7ImQiOiIyMDI2LTAxLTAxVDAwOjAwOjAwLjAwMFoifV0sImlkIjoiNjRiMTIzNDU2Nzg5YWJjZGVmMDAwMDAzIn0'
             })
         }).openapi({
             description: 'Pagination information'
@@ -572,18 +824,51 @@ const replaceTagsSchema = z.object({
     description: 'Payload to replace all tags on an asset'
 });
 
+// Schema for moving or copying an asset into another project of its organization
+const relocateAssetSchema = z.object({
+    projectId: objectIdSchema.openapi({
+        description: 'Target project ID (same organization)',
+        example: '64b123456789abcdef000002'
+    })
+}).strict().openapi({
+    description: 'Target project for a move or copy'
+});
+
+// Schema for choosing a video poster by timestamp; an uploaded image comes as the multipart `image` field
+const setPosterSchema = z.object({
+    timestamp: z.coerce.number().min(0).optional().openapi({
+        description: 'Seconds into the video to take the poster frame from',
+        example: 12.5
+    })
+}).strict().openapi({
+    description: 'Poster frame selection'
+});
+
 export {
     createAssetSchema,
     finalizeAssetSchema,
+    presignUploadPartsSchema,
+    createAssetVersionSchema,
+    finalizeAssetVersionSchema,
     updateAssetSchema,
     assetIdParamSchema,
+    assetVersionParamSchema,
+    assetProjectParamSchema,
+    assetStreamVariantParamSchema,
+    transformAssetQuerySchema,
+    TRANSFORM_MAX_DIMENSION,
+    assetQueryTextSchema,
+    queryFlagSchema,
     listAssetsQuerySchema,
+    assetListingQuerySchema,
     assetResponseSchema,
     assetListResponseSchema,
     uploadUrlResponseSchema,
     downloadUrlResponseSchema,
     addTagsSchema,
     replaceTagsSchema,
+    relocateAssetSchema,
+    setPosterSchema,
 }
 
 
@@ -592,10 +877,16 @@ export {
  */
 export type CreateAssetInput = z.infer<typeof createAssetSchema>;
 export type FinalizeAssetInput = z.infer<typeof finalizeAssetSchema>;
+export type PresignUploadPartsInput = z.infer<typeof presignUploadPartsSchema>;
+export type CreateAssetVersionInput = z.infer<typeof createAssetVersionSchema>;
+export type FinalizeAssetVersionInput = z.infer<typeof finalizeAssetVersionSchema>;
 export type UpdateAssetInput = z.infer<typeof updateAssetSchema>;
 export type AssetIdParam = z.infer<typeof assetIdParamSchema>;
 export type ListAssetsQuery = z.infer<typeof listAssetsQuerySchema>;
+export type TransformAssetQuery = z.infer<typeof transformAssetQuerySchema>;
 export type AssetResponse = z.infer<typeof assetResponseSchema>;
 export type AssetListResponse = z.infer<typeof assetListResponseSchema>;
 export type UploadUrlResponse = z.infer<typeof uploadUrlResponseSchema>;
 export type DownloadUrlResponse = z.infer<typeof downloadUrlResponseSchema>;
+export type RelocateAssetInput = z.infer<typeof relocateAssetSchema>;
+export type SetPosterInput = z.infer<typeof setPosterSchema>;
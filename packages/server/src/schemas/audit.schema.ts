@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { objectIdOpenApi, pageCursorSchema } from './common.schema';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const AUDIT_PAGE_MAX = 200;
+
+const auditActionSchema = z
+    .string()
+    .regex(/^[a-z_]+(\.[a-z_]+)*(\.\*)?$/, 'Invalid audit action (e.g. asset.update or asset.*)');
+
+export const listAuditEventsQuerySchema = z
+    .object({
+        action: z
+            .string()
+            .optional()
+            .openapi({
+                description:
+                    'Comma-separated actions; a trailing `.*` matches a prefix, e.g. `asset.*,role.update`',
+                example: 'asset.*,role.update',
+            })
+            .transform((value) =>
+                value
+                    ? value
+                          .split(',')
+                          .map((action) => action.trim())
+                          .filter(Boolean)
+                    : undefined,
+            )
+            .pipe(z.array(auditActionSchema).max(20).optional()),
+        actorId: objectIdOpenApi.optional(),
+        targetType: z.enum(['asset', 'role', 'organization', 'project', 'user']).optional(),
+        targetId: objectIdOpenApi.optional(),
+        requestId: z.string().trim().min(1).max(128).optional(),
+        from: z.string().datetime().optional().openapi({ description: 'Events at or after' }),
+        to: z.string().datetime().optional().openapi({ description: 'Events at or before' }),
+        // json pages through events; ndjson and csv stream every match as a download
+        format: z.enum(['json', 'ndjson', 'csv']).default('json'),
+        cursor: pageCursorSchema.optional(),
+        limit: z.coerce.number().int().min(1).max(AUDIT_PAGE_MAX).default(50),
+    })
+    .strict();
+
+export type ListAuditEventsQuery = z.infer<typeof listAuditEventsQuerySchema>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { objectIdOpenApi } from './common.schema';
+import { AccessLevel } from '../models/Asset.model';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const BULK_MAX_ASSETS = 500;
+
+const bulkTagsSchema = z
+    .array(
+        z
+            .string()
+            .min(1)
+            .max(50)
+            .regex(/^[a-z0-9-]+$/i, 'Invalid tag format')
+            .transform((s) => s.trim()),
+    )
+    .min(1)
+    .max(20);
+
+const bulkOperationSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('addTags'), tags: bulkTagsSchema }).strict(),
+    z.object({ type: z.literal('removeTags'), tags: bulkTagsSchema }).strict(),
+    z.object({ type: z.literal('setAccess'), access: z.nativeEnum(AccessLevel) }).strict(),
+    z.object({ type: z.literal('moveProject'), projectId: objectIdOpenApi }).strict(),
+    z
+        .object({
+            type: z.literal('setCustomMetadata'),
+            customMetadata: z.record(z.string(), z.string().max(1000)),
+            // Merge into the existing metadata, or replace it entirely
+            merge: z.boolean().default(true),
+        })
+        .strict(),
+    z.object({ type: z.literal('delete') }).strict(),
+    z.object({ type: z.literal('retry') }).strict(),
+]);
+
+export const bulkAssetOperationSchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        assetIds: z
+            .array(objectIdOpenApi)
+            .min(1)
+            .max(BULK_MAX_ASSETS)
+            .refine((ids) => new Set(ids).size === ids.length, 'Asset IDs must be unique'),
+        operation: bulkOperationSchema,
+    })
+    .strict()
+    .openapi({
+        description: 'Apply one operation to many assets',
+        example: {
+            organizationId: '64b0c7f4a2c8a2b3c4d5e6f7',
+            assetIds: ['64b0c7f4a2c8a2b3c4d5e6f8', '64b0c7f4a2c8a2b3c4d5e6f9'],
+            operation: { type: 'addTags', tags: ['campaign', 'approved'] },
+        },
+    });
+
+export const bulkJobParamSchema = z
+    .object({
+        jobId: z.string().regex(/^bulk-[0-9a-f-]{36}$/, 'Invalid bulk job ID'),
+    })
+    .strict();
+
+export const bulkJobQuerySchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+    })
+    .strict();
+
+export type BulkAssetOperation = z.infer<typeof bulkOperationSchema>;
+export type BulkAssetOperationInput = z.infer<typeof bulkAssetOperationSchema>;
@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { objectIdSchema, objectIdOpenApi } from './common.schema';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+const collectionNameSchema = z
+    .string()
+    .trim()
+    .min(1, 'Collection name is required')
+    .max(200, 'Collection name cannot exceed 200 characters');
+
+const collectionShareSchema = z
+    .object({
+        userId: objectIdOpenApi,
+        access: z.enum(['view', 'edit']).default('view'),
+    })
+    .strict();
+
+const uniqueAssetIds = (ids: string[]) => new Set(ids).size === ids.length;
+
+export const createCollectionSchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        name: collectionNameSchema,
+        description: z.string().trim().max(2000).optional(),
+        assetIds: z
+            .array(objectIdOpenApi)
+            .max(100)
+            .refine(uniqueAssetIds, 'Asset IDs must be unique')
+            .optional(),
+        sharedWith: z.array(collectionShareSchema).max(100).optional(),
+        // Makes a smart collection whose members are the live matches of this saved search
+        savedSearchId: objectIdOpenApi.optional(),
+    })
+    .strict()
+    .refine(
+        (data) => !(data.savedSearchId && data.assetIds?.length),
+        'A smart collection cannot list assets; its members come from the saved search',
+    )
+    .openapi({
+        description: 'Create collection payload',
+        example: {
+            organizationId: '64b0c7f4a2c8a2b3c4d5e6f7',
+            name: 'Spring campaign picks',
+            description: 'Hero shots shortlisted for the spring launch',
+            assetIds: ['64b0c7f4a2c8a2b3c4d5e6f8'],
+            sharedWith: [{ userId: '64b0c7f4a2c8a2b3c4d5e6f9', access: 'edit' }],
+        },
+    });
+
+export const updateCollectionSchema = z
+    .object({
+        name: collectionNameSchema.optional(),
+        description: z.string().trim().max(2000).optional(),
+        sharedWith: z.array(collectionShareSchema).max(100).optional(),
+    })
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+    .openapi({
+        description: 'Update collection payload',
+    });
+
+export const collectionIdParamSchema = z.object({ id: objectIdSchema }).strict();
+
+export const collectionItemParamSchema = z
+    .object({
+        id: objectIdSchema,
+        assetId: objectIdSchema,
+    })
+    .strict();
+
+export const listCollectionsQuerySchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        search: z.string().trim().min(1).max(200).optional(),
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
+
+export const addCollectionItemsSchema = z
+    .object({
+        assetIds: z
+            .array(objectIdOpenApi)
+            .min(1)
+            .max(100)
+            .refine(uniqueAssetIds, 'Asset IDs must be unique'),
+        // Insert before this zero-based index; appended when omitted
+        position: z.number().int().min(0).optional(),
+    })
+    .strict()
+    .openapi({
+        description: 'Add assets to a collection',
+        example: { assetIds: ['64b0c7f4a2c8a2b3c4d5e6f8'], position: 0 },
+    });
+
+// The listed items are rearranged in this order among the slots they occupy;
+// items not listed keep their positions
+export const reorderCollectionItemsSchema = z
+    .object({
+        assetIds: z
+            .array(objectIdOpenApi)
+            .min(1)
+            .max(1000)
+            .refine(uniqueAssetIds, 'Asset IDs must be unique'),
+    })
+    .strict()
+    .openapi({
+        description: 'Reorder collection items',
+        example: { assetIds: ['64b0c7f4a2c8a2b3c4d5e6f9', '64b0c7f4a2c8a2b3c4d5e6f8'] },
+    });
+
+export type CreateCollectionInput = z.infer<typeof createCollectionSchema>;
+export type UpdateCollectionInput = z.infer<typeof updateCollectionSchema>;
+export type AddCollectionItemsInput = z.infer<typeof addCollectionItemsSchema>;
+export type ReorderCollectionItemsInput = z.infer<typeof reorderCollectionItemsSchema>;
@@ -4,3 +4,12 @@ export * from './auth.schema';
 export * from './organization.schema';
 export * from './project.schema';
 export * from './asset.schema';
+export * from './invitation.schema';
+export * from './shareLink.schema';
+export * from './collection.schema';
+export * from './bulkAsset.schema';
+export * from './search.schema';
+export * from './savedSearch.schema';
+export * from './audit.schema';
+export * from './webhook.schema';
+export * from './renditionProfile.schema';
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { objectIdSchema, emailSchema } from './common.schema';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const invitationStatusSchema = z.enum(['pending', 'accepted', 'revoked']);
+
+export const createInvitationSchema = z
+    .object({
+        email: emailSchema,
+        roles: z.array(z.string().trim().min(1).max(120)).min(1).max(20).optional(),
+        expiresInSeconds: z
+            .number()
+            .int()
+            .min(60)
+            .max(30 * 24 * 60 * 60)
+            .optional(),
+    })
+    .strict()
+    .openapi({
+        description: 'Create invitation payload',
+        example: {
+            email: 'jane.doe@example.com',
+            roles: ['editor'],
+            expiresInSeconds: 604800,
+        },
+    });
+
+export const invitationParamSchema = z
+    .object({
+        id: objectIdSchema,
+        invitationId: objectIdSchema,
+    })
+    .strict();
+
+export const listInvitationsQuerySchema = z
+    .object({
+        status: invitationStatusSchema.optional(),
+        email: emailSchema.optional(),
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
+
+export const invitationTokenParamSchema = z
+    .object({
+        token: z.string().min(1).max(4096),
+    })
+    .strict();
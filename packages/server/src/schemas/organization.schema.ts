@@ -1,10 +1,18 @@
 import { z } from 'zod';
-import { objectIdSchema } from './common.schema';
+import { objectIdSchema, emailSchema } from './common.schema';
+import { AUDIT_RETENTION_DAYS } from '../models/AuditEvent.model';
 import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 extendZodWithOpenApi(z);
 
 export const organizationStatusSchema = z.enum(['active', 'suspended', 'archived']);
 
+const auditRetentionDaysSchema = z
+    .number()
+    .int()
+    .min(AUDIT_RETENTION_DAYS.min)
+    .max(AUDIT_RETENTION_DAYS.max)
+    .openapi({ description: 'Days audit events are kept', example: 365 });
+
 const organizationNameSchema = z
     .string()
     .trim()
@@ -22,6 +30,7 @@ export const createOrganizationSchema = z
         settings: z
             .object({
                 storageQuotaBytes: z.number().int().positive().optional(),
+                auditRetentionDays: auditRetentionDaysSchema.optional(),
                 featureFlags: z
                     .object({
                         enablePublicSharing: z.boolean().optional(),
@@ -55,6 +64,7 @@ export const updateOrganizationSchema = z
         settings: z
             .object({
                 storageQuotaBytes: z.number().int().positive().optional(),
+                auditRetentionDays: auditRetentionDaysSchema.optional(),
                 featureFlags: z
                     .object({
                         enablePublicSharing: z.boolean().optional(),
@@ -90,3 +100,44 @@ export const listOrganizationsQuerySchema = z
         limit: z.coerce.number().int().positive().max(100).optional(),
     })
     .strict();
+
+export const membershipStatusSchema = z.enum(['active', 'invited', 'suspended']);
+
+const memberRolesSchema = z.array(z.string().trim().min(1).max(120)).min(1).max(20);
+
+export const addMemberSchema = z
+    .object({
+        userId: objectIdSchema.optional(),
+        email: emailSchema.optional(),
+        roles: memberRolesSchema.optional(),
+    })
+    .strict()
+    .refine((data) => !!data.userId !== !!data.email, 'Provide exactly one of userId or email')
+    .openapi({
+        description: 'Add member payload',
+        example: {
+            email: 'jane.doe@example.com',
+            roles: ['editor'],
+        },
+    });
+
+export const updateMemberSchema = z
+    .object({
+        roles: memberRolesSchema,
+    })
+    .strict();
+
+export const memberParamSchema = z
+    .object({
+        id: objectIdSchema,
+        userId: objectIdSchema,
+    })
+    .strict();
+
+export const listMembersQuerySchema = z
+    .object({
+        status: membershipStatusSchema.optional(),
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
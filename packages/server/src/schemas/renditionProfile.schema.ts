@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common.schema';
+import {
+    RENDITION_FIT_MODES,
+    RENDITION_FORMATS,
+    RENDITION_ASSET_TYPES,
+    RESERVED_RENDITION_NAMES,
+} from '../models/RenditionProfile.model';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const RENDITION_MAX_DIMENSION = 8192;
+
+// The name becomes the key under `renditions`, so it is kept to a safe identifier
+export const renditionProfileNameSchema = z
+    .string()
+    .trim()
+    .regex(
+        /^[a-z][a-z0-9_]{0,63}$/,
+        'Use up to 64 lowercase letters, digits and underscores, starting with a letter',
+    )
+    .refine((name) => !RESERVED_RENDITION_NAMES.includes(name), 'This rendition name is reserved')
+    .openapi({ example: 'hero_1600' });
+
+const dimensionSchema = z.number().int().min(1).max(RENDITION_MAX_DIMENSION);
+
+const assetTypesSchema = z
+    .array(z.enum(RENDITION_ASSET_TYPES))
+    .min(1, 'Apply the profile to at least one asset type')
+    .refine((types) => new Set(types).size === types.length, 'Asset types must be unique');
+
+export const createRenditionProfileSchema = z
+    .object({
+        name: renditionProfileNameSchema,
+        width: dimensionSchema,
+        height: dimensionSchema,
+        fit: z.enum(RENDITION_FIT_MODES).default('inside'),
+        format: z.enum(RENDITION_FORMATS),
+        quality: z.number().int().min(1).max(100).default(80),
+        bitrateKbps: z.number().int().min(100).max(100000).optional(),
+        assetTypes: assetTypesSchema,
+        active: z.boolean().optional(),
+    })
+    .strict()
+    .openapi({
+        description: 'Create rendition profile payload',
+        example: {
+            name: 'hero_1600',
+            width: 1600,
+            height: 900,
+            fit: 'cover',
+            format: 'webp',
+            quality: 82,
+            assetTypes: ['image', 'video'],
+        },
+    });
+
+export const updateRenditionProfileSchema = z
+    .object({
+        width: dimensionSchema.optional(),
+        height: dimensionSchema.optional(),
+        fit: z.enum(RENDITION_FIT_MODES).optional(),
+        format: z.enum(RENDITION_FORMATS).optional(),
+        quality: z.number().int().min(1).max(100).optional(),
+        // null goes back to quality-based encoding
+        bitrateKbps: z.number().int().min(100).max(100000).nullable().optional(),
+        assetTypes: assetTypesSchema.optional(),
+        active: z.boolean().optional(),
+    })
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export const renditionProfileParamSchema = z
+    .object({
+        id: objectIdSchema,
+        profileId: objectIdSchema,
+    })
+    .strict();
+
+export type CreateRenditionProfileInput = z.infer<typeof createRenditionProfileSchema>;
+export type UpdateRenditionProfileInput = z.infer<typeof updateRenditionProfileSchema>;
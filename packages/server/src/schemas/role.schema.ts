@@ -1,12 +1,15 @@
 import { z } from 'zod';
 import { objectIdSchema } from './common.schema';
+import { ALL_PERMISSIONS } from '../utils/constant/permissions';
+
+const permissionSchema = z.enum(ALL_PERMISSIONS as [string, ...string[]]);
 
 export const roleCreateSchema = z
     .object({
         organizationId: objectIdSchema,
         name: z.string().min(1).max(120).trim(),
         description: z.string().max(500).optional(),
-        permissions: z.array(z.string()).default([]).optional(),
+        permissions: z.array(permissionSchema).default([]).optional(),
         isSystemRole: z.boolean().optional(),
         isDefault: z.boolean().optional(),
     })
@@ -16,7 +19,7 @@ export const roleUpdateSchema = z
     .object({
         name: z.string().min(1).max(120).trim().optional(),
         description: z.string().max(500).optional(),
-        permissions: z.array(z.string()).optional(),
+        permissions: z.array(permissionSchema).optional(),
         isSystemRole: z.boolean().optional(),
         isDefault: z.boolean().optional(),
     })
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { objectIdSchema, objectIdOpenApi, pageCursorSchema } from './common.schema';
+import { assetQueryTextSchema } from './asset.schema';
+import { AssetType, AssetStatus, AccessLevel } from '../models/Asset.model';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const SAVED_SEARCH_MAX_NEWEST = 20;
+
+const savedSearchNameSchema = z
+    .string()
+    .trim()
+    .min(1, 'Saved search name is required')
+    .max(200, 'Saved search name cannot exceed 200 characters');
+
+// The filters of GET /assets, minus the organization and paging
+const savedSearchFiltersSchema = z
+    .object({
+        q: assetQueryTextSchema.optional(),
+        search: z.string().min(1).max(100).optional(),
+        projectId: objectIdOpenApi.optional(),
+        assetType: z.nativeEnum(AssetType).optional(),
+        status: z.nativeEnum(AssetStatus).optional(),
+        access: z.nativeEnum(AccessLevel).optional(),
+        tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+        sortBy: z
+            .enum(['createdAt', 'updatedAt', 'originalFilename', 'fileSizeBytes'])
+            .default('updatedAt'),
+        sortOrder: z.enum(['asc', 'desc']).default('desc'),
+    })
+    .strict();
+
+export const createSavedSearchSchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        name: savedSearchNameSchema,
+        description: z.string().trim().max(2000).optional(),
+        // 'user' searches are private to their owner; 'organization' ones are visible to every member
+        scope: z.enum(['user', 'organization']).default('user'),
+        filters: savedSearchFiltersSchema,
+    })
+    .strict()
+    .openapi({
+        description: 'Create saved search payload',
+        example: {
+            organizationId: '64b0c7f4a2c8a2b3c4d5e6f7',
+            name: 'Long campaign videos',
+            scope: 'organization',
+            filters: {
+                q: 'type:video duration>60 tag:campaign-2026 -status:failed',
+                sortBy: 'createdAt',
+                sortOrder: 'desc',
+            },
+        },
+    });
+
+export const updateSavedSearchSchema = z
+    .object({
+        name: savedSearchNameSchema.optional(),
+        description: z.string().trim().max(2000).optional(),
+        scope: z.enum(['user', 'organization']).optional(),
+        filters: savedSearchFiltersSchema.optional(),
+    })
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, 'At least one field is required')
+    .openapi({
+        description: 'Update saved search payload',
+    });
+
+export const savedSearchIdParamSchema = z.object({ id: objectIdSchema }).strict();
+
+export const listSavedSearchesQuerySchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        scope: z.enum(['user', 'organization']).optional(),
+        search: z.string().trim().min(1).max(200).optional(),
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
+
+export const runSavedSearchQuerySchema = z
+    .object({
+        cursor: pageCursorSchema.optional(),
+        page: z.coerce.number().int().min(1).max(10000).default(1),
+        limit: z.coerce.number().int().min(1).max(100).default(20),
+    })
+    .strict();
+
+export const savedSearchSummaryQuerySchema = z
+    .object({
+        newest: z.coerce.number().int().min(1).max(SAVED_SEARCH_MAX_NEWEST).default(5),
+    })
+    .strict();
+
+export type SavedSearchFiltersInput = z.infer<typeof savedSearchFiltersSchema>;
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>;
+export type RunSavedSearchQuery = z.infer<typeof runSavedSearchQuerySchema>;
+export type SavedSearchSummaryQuery = z.infer<typeof savedSearchSummaryQuerySchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { objectIdOpenApi, pageCursorSchema } from './common.schema';
+import { AssetType, AssetStatus, AccessLevel } from '../models/Asset.model';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const searchAssetsQuerySchema = z
+    .object({
+        organizationId: objectIdOpenApi.optional(),
+        q: z
+            .string()
+            .trim()
+            .min(1, 'Search query is required')
+            .max(200)
+            .openapi({
+                description:
+                    'Words to match in filename, tags, custom metadata, description and document text. ' +
+                    'Wrap phrases in double quotes; prefix a word with - to exclude it.',
+                example: 'hero "summer campaign" -draft',
+            }),
+        projectId: objectIdOpenApi.optional(),
+        assetType: z.nativeEnum(AssetType).optional(),
+        status: z.nativeEnum(AssetStatus).optional(),
+        access: z.nativeEnum(AccessLevel).optional(),
+        tags: z
+            .string()
+            .optional()
+            .openapi({ description: 'Filter by tags (comma-separated)', example: 'brand,homepage' })
+            .transform((tags) =>
+                tags
+                    ? tags
+                          .split(',')
+                          .map((tag) => tag.trim())
+                          .filter(Boolean)
+                    : undefined,
+            ),
+        uploadedBy: objectIdOpenApi.optional(),
+        cursor: pageCursorSchema.optional().openapi({
+            description:
+                'Continue after the page that returned this `nextCursor`; repeat the same query. Replaces `page`',
+        }),
+        page: z.coerce.number().int().min(1).max(10000).default(1),
+        limit: z.coerce.number().int().min(1).max(100).default(20),
+        facetLimit: z.coerce.number().int().min(1).max(50).default(10).openapi({
+            description: 'Maximum buckets returned for the tag, uploader and project facets',
+        }),
+    })
+    .strict();
+
+export type SearchAssetsQuery = z.infer<typeof searchAssetsQuerySchema>;
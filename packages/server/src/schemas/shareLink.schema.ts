@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { objectIdSchema } from './common.schema';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+// `original` is the uploaded file; any other name is a rendition of the asset
+export const shareRenditionNameSchema = z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9_]{1,64}$/, 'Invalid rendition name');
+
+export const createShareLinkSchema = z
+    .object({
+        expiresInSeconds: z
+            .number()
+            .int()
+            .min(60)
+            .max(365 * 24 * 60 * 60)
+            .optional(),
+        password: z.string().min(4).max(128).optional(),
+        maxDownloads: z.number().int().min(1).max(1000000).optional(),
+        allowedRenditions: z.array(shareRenditionNameSchema).min(1).max(20).optional(),
+    })
+    .strict()
+    .openapi({
+        description: 'Create share link payload',
+        example: {
+            expiresInSeconds: 604800,
+            password: 'spring-campaign',
+            maxDownloads: 25,
+            allowedRenditions: ['original', 'thumbnail_large'],
+        },
+    });
+
+export const shareLinkParamSchema = z
+    .object({
+        id: objectIdSchema,
+        shareId: objectIdSchema,
+    })
+    .strict();
+
+export const listShareLinksQuerySchema = z
+    .object({
+        includeRevoked: z
+            .enum(['true', 'false'])
+            .transform((value) => value === 'true')
+            .optional(),
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
+
+export const shareTokenParamSchema = z
+    .object({
+        token: z.string().regex(/^[A-Za-z0-9_-]{16,128}$/, 'Invalid share token'),
+    })
+    .strict();
+
+export const resolveShareLinkQuerySchema = z
+    .object({
+        rendition: shareRenditionNameSchema.optional(),
+        redirect: z
+            .enum(['true', 'false'])
+            .transform((value) => value === 'true')
+            .optional(),
+    })
+    .strict();
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
-import { emailSchema, passwordSchema, nameSchema } from './common.schema';
+import { emailSchema, passwordSchema, nameSchema, objectIdSchema } from './common.schema';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
@@ -95,6 +95,18 @@ const profileUpdateSchema = userProfileSchema
         },
     });
 
+const switchOrganizationSchema = z
+    .object({
+        organizationId: objectIdSchema,
+    })
+    .strict()
+    .openapi({
+        description: 'Switch active organization payload',
+        example: {
+            organizationId: '64b123456789abcdef000001',
+        },
+    });
+
 export {
     userProfileSchema,
     userStatusSchema,
@@ -103,4 +115,5 @@ export {
     loginSchema,
     changePasswordSchema,
     profileUpdateSchema,
+    switchOrganizationSchema,
 };
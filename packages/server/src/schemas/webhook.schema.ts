@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { objectIdSchema, pageCursorSchema } from './common.schema';
+import { WEBHOOK_EVENTS } from '../models/Webhook.model';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+extendZodWithOpenApi(z);
+
+export const webhookEventSchema = z.enum(WEBHOOK_EVENTS);
+
+const webhookUrlSchema = z
+    .string()
+    .trim()
+    .max(2048)
+    .url('Invalid webhook URL')
+    .refine((value) => /^https?:\/\//i.test(value), 'Webhook URL must use http or https')
+    .openapi({ example: 'https://hooks.example.com/dam' });
+
+const webhookEventsSchema = z
+    .array(webhookEventSchema)
+    .min(1, 'Subscribe to at least one event')
+    .refine((events) => new Set(events).size === events.length, 'Events must be unique');
+
+export const createWebhookSchema = z
+    .object({
+        url: webhookUrlSchema,
+        description: z.string().trim().max(500).optional(),
+        events: webhookEventsSchema,
+        active: z.boolean().optional(),
+    })
+    .strict()
+    .openapi({
+        description: 'Create webhook payload',
+        example: {
+            url: 'https://hooks.example.com/dam',
+            description: 'Publish finished renditions',
+            events: ['asset.processing.completed', 'asset.processing.failed'],
+        },
+    });
+
+export const updateWebhookSchema = z
+    .object({
+        url: webhookUrlSchema.optional(),
+        description: z.string().trim().max(500).optional(),
+        events: webhookEventsSchema.optional(),
+        active: z.boolean().optional(),
+        // Replaces the signing secret; the new one is returned once
+        rotateSecret: z.literal(true).optional(),
+    })
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, 'At least one field is required');
+
+export const webhookParamSchema = z
+    .object({
+        id: objectIdSchema,
+        webhookId: objectIdSchema,
+    })
+    .strict();
+
+export const webhookDeliveryParamSchema = z
+    .object({
+        id: objectIdSchema,
+        webhookId: objectIdSchema,
+        deliveryId: objectIdSchema,
+    })
+    .strict();
+
+export const listWebhooksQuerySchema = z
+    .object({
+        page: z.coerce.number().int().positive().max(100000).optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
+    })
+    .strict();
+
+export const listWebhookDeliveriesQuerySchema = z
+    .object({
+        status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+        cursor: pageCursorSchema.optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(20),
+    })
+    .strict();
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
@@ -4,11 +4,57 @@
  * Orchestrates storage, queue processing, and database operations for digital assets.
  */
 import assetDao from '../dao/asset.dao';
-import { getStorageService, StorageUtils } from '../config/storage';
-import { JobUtils, ProcessAssetJobData, GenerateThumbnailsJobData, TranscodeVideoJobData, ExtractMetadataJobData, CleanupJobData } from '../queues';
-import { AssetType, AssetStatus, AccessLevel, StorageProvider } from '../models/Asset.model';
-import { CreateAssetInput, UpdateAssetInput, ListAssetsQuery, FinalizeAssetInput } from '../schemas/asset.schema';
+import projectDao from '../dao/project.dao';
+import { getStorageService, StorageUtils, MULTIPART_LIMITS, type UploadedPart } from '../config/storage';
+import { JobUtils, QueueManager, ProcessAssetJobData, GenerateThumbnailsJobData, TranscodeVideoJobData, ExtractMetadataJobData, ExtractPosterJobData, CleanupJobData } from '../queues';
+import { AssetType, AssetStatus, AccessLevel, StorageProvider, type IAssetVersion } from '../models/Asset.model';
+import { CreateAssetInput, UpdateAssetInput, ListAssetsQuery, FinalizeAssetInput, CreateAssetVersionInput, FinalizeAssetVersionInput, PresignUploadPartsInput, RelocateAssetInput, TransformAssetQuery, SetPosterInput } from '../schemas/asset.schema';
+import { RENDITION_CONTENT_TYPES, RENDITION_FILE_EXTENSIONS } from '../models/RenditionProfile.model';
+import { PERMISSIONS, hasPermission, type Permission } from '../utils/constant/permissions';
+import { compileAssetQuery } from '../utils/assetQuery';
+import { matchesSort } from '../utils/cursor';
+import { renderImageRendition, type ImageRenditionSpec } from '../utils/imageRendition';
+import auditService from './audit.service';
+import webhookService from './webhook.service';
 import crypto from 'crypto';
+import { Types } from 'mongoose';
+
+/**
+ * Upload lifetimes: a single presigned PUT lives as long as its URL; multipart
+ * uploads get longer and are extended whenever part URLs are presigned
+ */
+const UPLOAD_URL_TTL_SECONDS = 3600; // 1 hour
+const MULTIPART_UPLOAD_TTL_SECONDS = Number(process.env.MULTIPART_UPLOAD_TTL_SECONDS) || 24 * 60 * 60;
+// Expired uploads are left alone this long so in-flight transfers can still finish
+const UPLOAD_REAP_GRACE_MS = Number(process.env.UPLOAD_REAP_GRACE_MS) || 15 * 60 * 1000;
+
+/**
+ * Stuck processing recovery: assets pending or processing without an update for
+ * this long and without a live job are re-queued, up to a number of times
+ */
+const STUCK_ASSET_THRESHOLD_MS = Number(process.env.STUCK_ASSET_THRESHOLD_MS) || 30 * 60 * 1000;
+const STUCK_ASSET_MAX_RECOVERIES = isNaN(Number(process.env.STUCK_ASSET_MAX_RECOVERIES))
+    ? 2
+    : Number(process.env.STUCK_ASSET_MAX_RECOVERIES);
+
+// Objects left behind by a move stay readable this long for download URLs issued before it
+const MOVED_OBJECT_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * On-demand transforms: originals are read into memory, so large ones are
+ * refused, and each asset has a bounded number of variants; past it only the
+ * variants already cached are served
+ */
+const TRANSFORM_MAX_SOURCE_BYTES = Number(process.env.TRANSFORM_MAX_SOURCE_BYTES) || 50 * 1024 * 1024;
+const TRANSFORM_MAX_VARIANTS_PER_ASSET = Number(process.env.TRANSFORM_MAX_VARIANTS_PER_ASSET) || 100;
+const TRANSFORM_URL_TTL_SECONDS = 300;
+const transformsInFlight = new Map<string, Promise<Buffer>>();
+
+// Uploaded posters are scaled down to fit this box
+const POSTER_MAX_DIMENSION = 3840;
+
+// Segment and sprite sheet URLs in a served playlist or track must outlive a viewing session, pauses included
+const HLS_SEGMENT_URL_TTL_SECONDS = Number(process.env.HLS_SEGMENT_URL_TTL_SECONDS) || 6 * 60 * 60;
 
 /**
  * Asset service errors
@@ -34,6 +80,48 @@ function uploadUrlExpiredError(): any {
     return err;
 }
 
+function accessDenied(message: string): any {
+    const err: any = new Error(message);
+    err.status = 403;
+    err.code = 'INSUFFICIENT_PERMISSIONS';
+    return err;
+}
+
+function transformError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function posterError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function streamNotAvailable(message: string): any {
+    const err: any = new Error(message);
+    err.status = 404;
+    err.code = 'STREAM_NOT_AVAILABLE';
+    return err;
+}
+
+function versionNotFound(): any {
+    const err: any = new Error('No pending upload for this asset version');
+    err.status = 404;
+    err.code = 'ASSET_VERSION_NOT_FOUND';
+    return err;
+}
+
+function invalidCursorError(): any {
+    const err: any = new Error('Cursor does not belong to this sort order; repeat the sortBy and sortOrder of the first page');
+    err.status = 400;
+    err.code = 'INVALID_CURSOR';
+    return err;
+}
+
 function processingError(message: string): any {
     const err: any = new Error(message);
     err.status = 422;
@@ -41,6 +129,49 @@ function processingError(message: string): any {
     return err;
 }
 
+/**
+ * Asset fields tracked by the audit log; storage and processing details are left out
+ * @param asset - Asset document
+ * @returns Plain snapshot to diff
+ */
+function auditedFields(asset: any) {
+    const customMetadata = asset.customMetadata instanceof Map
+        ? Object.fromEntries(asset.customMetadata)
+        : asset.customMetadata;
+    return {
+        projectId: asset.projectId,
+        originalFilename: asset.originalFilename,
+        mimeType: asset.mimeType,
+        fileSizeBytes: asset.fileSizeBytes,
+        status: asset.status,
+        description: asset.description,
+        latestVersion: asset.latestVersion,
+        tags: asset.tags,
+        access: asset.access,
+        customMetadata,
+        copiedFrom: asset.copiedFrom,
+        deletedAt: asset.deletedAt
+    };
+}
+
+/**
+ * Record an audit event for an asset mutation
+ * @param action - Audit action, e.g. asset.update
+ * @param asset - Asset the action applied to
+ * @param before - Asset before the mutation, if it existed
+ * @param after - Asset after the mutation, unless it was deleted
+ * @param auth - Authentication context
+ */
+async function auditAsset(action: string, asset: any, before: any, after: any, auth: any): Promise<void> {
+    await auditService.recordAudit({
+        action,
+        organizationId: asset.organizationId,
+        target: { type: 'asset', id: asset._id },
+        before: before ? auditedFields(before) : undefined,
+        after: after ? auditedFields(after) : undefined
+    }, auth);
+}
+
 /**
  * Generate unique asset ID with prefix
  * @returns Unique asset ID string
@@ -66,6 +197,31 @@ function determineAssetType(mimeType: string): AssetType {
     return AssetType.OTHER;
 }
 
+/**
+ * Pick a part size for a multipart upload: 64MB, grown in whole megabytes
+ * when the file would otherwise need more than the maximum number of parts
+ * @param fileSizeBytes - Total file size
+ * @returns Part size in bytes
+ */
+function defaultPartSize(fileSizeBytes: number): number {
+    const megabyte = 1024 * 1024;
+    const minimumForCount = Math.ceil(fileSizeBytes / MULTIPART_LIMITS.maxParts / megabyte) * megabyte;
+    return Math.max(64 * megabyte, minimumForCount);
+}
+
+/**
+ * Expected size of a part; every part but the last is exactly the part size
+ * @param upload - Multipart upload record
+ * @param fileSizeBytes - Total file size
+ * @param partNumber - Part number
+ * @returns Part size in bytes
+ */
+function expectedPartSize(upload: { partSizeBytes: number; partCount: number }, fileSizeBytes: number, partNumber: number): number {
+    return partNumber < upload.partCount
+        ? upload.partSizeBytes
+        : fileSizeBytes - (upload.partCount - 1) * upload.partSizeBytes;
+}
+
 /**
  * Create asset upload request and generate presigned URL
  * @param payload - Asset creation data
@@ -102,28 +258,70 @@ async function createUpload(payload: any, auth: any) {
             payload.originalFilename
         );
 
+        // Multipart uploads are started up front; part URLs are presigned on request
+        let multipartUpload: { uploadId: string; partSizeBytes: number; partCount: number } | undefined;
+        if (payload.multipart) {
+            const partSizeBytes = payload.partSizeBytes || defaultPartSize(payload.fileSizeBytes);
+            const partCount = Math.ceil(payload.fileSizeBytes / partSizeBytes);
+            if (partCount > MULTIPART_LIMITS.maxParts) {
+                const err: any = new Error(`Part size too small: upload would need more than ${MULTIPART_LIMITS.maxParts} parts`);
+                err.status = 400;
+                err.code = 'INVALID_PART_SIZE';
+                throw err;
+            }
+
+            const uploadId = await storage.createMultipartUpload(storageKey, { contentType: payload.mimeType });
+            multipartUpload = { uploadId, partSizeBytes, partCount };
+        }
+
+        const uploadTtlSeconds = multipartUpload ? MULTIPART_UPLOAD_TTL_SECONDS : UPLOAD_URL_TTL_SECONDS;
+        const uploadExpiresAt = new Date(Date.now() + uploadTtlSeconds * 1000);
+
         // Create asset record in database
-        const asset = await assetDao.createAsset({
-            organizationId: payload.organizationId,
-            projectId: payload.projectId,
-            uploadedBy: userId,
-            originalFilename: payload.originalFilename,
-            mimeType: payload.mimeType,
-            assetType,
-            fileSizeBytes: payload.fileSizeBytes,
-            checksum: payload.checksum,
-            storageProvider: StorageProvider.S3, // Default to S3/MinIO
-            storageKey,
-            tags: payload.tags || [],
-            access: payload.access || AccessLevel.PRIVATE,
-            customMetadata: payload.customMetadata || {}
-        });
+        let asset;
+        try {
+            asset = await assetDao.createAsset({
+                organizationId: payload.organizationId,
+                projectId: payload.projectId,
+                uploadedBy: userId,
+                originalFilename: payload.originalFilename,
+                mimeType: payload.mimeType,
+                assetType,
+                fileSizeBytes: payload.fileSizeBytes,
+                checksum: payload.checksum,
+                storageProvider: StorageProvider.S3, // Default to S3/MinIO
+                storageKey,
+                multipartUpload,
+                uploadExpiresAt,
+                description: payload.description,
+                tags: payload.tags || [],
+                access: payload.access || AccessLevel.PRIVATE,
+                customMetadata: payload.customMetadata || {}
+            });
+        } catch (createError) {
+            if (multipartUpload) {
+                await storage.abortMultipartUpload(storageKey, multipartUpload.uploadId).catch(() => undefined);
+            }
+            throw createError;
+        }
+
+        await auditAsset('asset.create', asset, null, asset, auth);
+        await webhookService.emitAssetEvent('asset.created', asset);
+
+        if (multipartUpload) {
+            return {
+                asset,
+                storageKey,
+                expiresAt: uploadExpiresAt,
+                multipart: multipartUpload
+            };
+        }
 
         // Generate presigned upload URL
         const { url: uploadUrl, expiresAt } = await storage.getPresignedUploadUrl(storageKey, {
             contentType: payload.mimeType,
             contentLength: payload.fileSizeBytes,
-            expiresIn: 3600 // 1 hour
+            expiresIn: UPLOAD_URL_TTL_SECONDS
         });
 
         return {
@@ -160,10 +358,7 @@ async function finalizeUpload(payload: FinalizeAssetInput, auth: any) {
 
         // Verify upload is from the same user
         if (asset.uploadedBy.toString() !== userId) {
-            const err: any = new Error('Unauthorized to finalize this asset');
-            err.status = 403;
-            err.code = 'UNAUTHORIZED_FINALIZE';
-            throw err;
+            throw accessDenied('Unauthorized to finalize this asset');
         }
 
         // Verify asset is still in uploading status
@@ -190,6 +385,11 @@ async function finalizeUpload(payload: FinalizeAssetInput, auth: any) {
             throw err;
         }
 
+        // Assemble multipart uploads into the final object
+        if (asset.multipartUpload) {
+            await completeMultipartUpload(asset, payload.parts);
+        }
+
         // Verify file exists in storage (skip in test environments if configured)
         if (process.env.SKIP_STORAGE_HEAD !== 'true') {
             const headResult = await storage.headObject(asset.storageKey);
@@ -209,6 +409,7 @@ async function finalizeUpload(payload: FinalizeAssetInput, auth: any) {
         if (!updatedAsset) {
             throw assetNotFound();
         }
+        await webhookService.emitAssetEvent('asset.finalized', updatedAsset);
 
         // Queue processing job (do not fail finalize if queueing fails)
         try {
@@ -228,260 +429,1774 @@ async function finalizeUpload(payload: FinalizeAssetInput, auth: any) {
 }
 
 /**
- * Queue appropriate processing jobs based on asset type
- * @param asset - Asset to process
- * @param userId - User ID who triggered processing
+ * Load an asset whose original upload is still in progress, for its uploader
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @returns Asset document
  */
-async function queueProcessingJob(asset: any, userId: string): Promise<void> {
-    const jobData: ProcessAssetJobData = {
-        assetId: asset._id.toString(),
-        organizationId: asset.organizationId.toString(),
-        uploadedBy: userId,
-        storageKey: asset.storageKey,
-        originalFilename: asset.originalFilename,
-        mimeType: asset.mimeType,
-        fileSizeBytes: asset.fileSizeBytes
-    };
+async function findOwnUploadingAsset(id: string, auth: any) {
+    const asset = await assetDao.findById(id);
+    if (!asset || asset.deletedAt) {
+        throw assetNotFound();
+    }
 
-    // Always start with metadata extraction
-    const metadataJobData: ExtractMetadataJobData = {
-        assetId: asset._id.toString(),
-        organizationId: asset.organizationId.toString(),
-        storageKey: asset.storageKey,
-        mimeType: asset.mimeType,
-        originalFilename: asset.originalFilename
-    };
+    if (asset.uploadedBy.toString() !== String(auth.userId)) {
+        throw accessDenied('Unauthorized to upload to this asset');
+    }
 
-    await JobUtils.addExtractMetadataJob(metadataJobData);
+    if (asset.status !== AssetStatus.UPLOADING) {
+        const err: any = new Error('Asset is not in uploading status');
+        err.status = 400;
+        err.code = 'INVALID_ASSET_STATUS';
+        throw err;
+    }
 
-    // Queue type-specific processing jobs
-    switch (asset.assetType) {
-        case AssetType.IMAGE:
-            const imageJobData: GenerateThumbnailsJobData = {
-                assetId: asset._id.toString(),
-                organizationId: asset.organizationId.toString(),
-                storageKey: asset.storageKey,
-                mimeType: asset.mimeType
-            };
-            await JobUtils.addGenerateThumbnailsJob(imageJobData);
-            break;
+    return asset;
+}
 
-        case AssetType.VIDEO:
-            const videoJobData: TranscodeVideoJobData = {
-                assetId: asset._id.toString(),
-                organizationId: asset.organizationId.toString(),
-                storageKey: asset.storageKey,
-                targetResolutions: ['720p', '1080p'],
-                extractPoster: true
-            };
-            await JobUtils.addTranscodeVideoJob(videoJobData);
-            break;
+function notMultipartError(): any {
+    const err: any = new Error('Asset is not being uploaded in parts');
+    err.status = 400;
+    err.code = 'NOT_MULTIPART_UPLOAD';
+    return err;
+}
 
-        // Other asset types can be added here
-        default:
-            // For other types, just process the main asset
-            await JobUtils.addProcessAssetJob(jobData);
-            break;
-    }
+function multipartUploadGoneError(): any {
+    const err: any = new Error('Multipart upload no longer exists; start a new upload');
+    err.status = 410;
+    err.code = 'UPLOAD_URL_EXPIRED';
+    return err;
 }
 
 /**
- * Get asset by ID
+ * Presign upload URLs for parts of a multipart upload
  * @param id - Asset ID
+ * @param payload - Part numbers to presign
  * @param auth - Authentication context
- * @param incrementView - Whether to increment view count
- * @returns Asset data
+ * @returns Part upload URLs and their expiration
  */
-async function getById(id: string, auth: any, incrementView = false) {
+async function presignUploadParts(id: string, payload: PresignUploadPartsInput, auth: any) {
     try {
-        const asset = await assetDao.findById(id, true); // Populate references
-        if (!asset) {
-            throw assetNotFound();
+        const storage = getStorageService();
+        const asset = await findOwnUploadingAsset(id, auth);
+        const upload = asset.multipartUpload;
+        if (!upload) {
+            throw notMultipartError();
         }
 
-        // Verify user has access to the asset
-        const hasAccess = await verifyAssetAccess(asset, auth);
-        if (!hasAccess) {
-            const err: any = new Error('Access denied to this asset');
-            err.status = 403;
-            err.code = 'ACCESS_DENIED';
+        const partNumbers = Array.from(new Set(payload.partNumbers)).sort((a, b) => a - b);
+        const outOfRange = partNumbers.filter(partNumber => partNumber > upload.partCount);
+        if (outOfRange.length > 0) {
+            const err: any = new Error(`Part numbers must be between 1 and ${upload.partCount}`);
+            err.status = 400;
+            err.code = 'INVALID_PART_NUMBER';
+            err.details = { partNumbers: outOfRange };
             throw err;
         }
 
-        // Increment view count if requested
-        if (incrementView) {
-            await assetDao.incrementViewCount(id);
-            asset.analytics.viewCount += 1;
-        }
+        const presigned = await Promise.all(
+            partNumbers.map(async (partNumber) => {
+                const { url, expiresAt } = await storage.getPresignedPartUrl(asset.storageKey, upload.uploadId, partNumber, {
+                    expiresIn: UPLOAD_URL_TTL_SECONDS
+                });
+                return {
+                    partNumber,
+                    uploadUrl: url,
+                    sizeBytes: expectedPartSize(upload, asset.fileSizeBytes, partNumber),
+                    expiresAt
+                };
+            })
+        );
 
-        return { asset };
+        // Keep the upload alive at least as long as the URLs just handed out
+        await assetDao.extendUploadExpiry(id, presigned[0].expiresAt);
+
+        return {
+            parts: presigned.map(({ expiresAt, ...part }) => part),
+            expiresAt: presigned[0].expiresAt
+        };
     } catch (error: any) {
         if (error.status) throw error;
-        const err: any = new Error('Asset fetch failed');
+        const err: any = new Error('Upload part presign failed');
         err.status = 500;
-        err.code = 'ASSET_FETCH_ERROR';
+        err.code = 'UPLOAD_PART_PRESIGN_ERROR';
         throw err;
     }
 }
 
 /**
- * List assets with filtering and pagination
- * @param query - List query parameters
+ * Report which parts of a multipart upload are stored, so an interrupted
+ * upload can resume with only the missing ones
+ * @param id - Asset ID
  * @param auth - Authentication context
- * @returns Assets list with pagination
+ * @returns Uploaded parts and the part numbers still missing
  */
-async function list(query: ListAssetsQuery, auth: any) {
+async function getUploadProgress(id: string, auth: any) {
     try {
-        // Ensure organization access
-        const filter = {
-            organizationId: query.organizationId,
-            projectId: query.projectId,
-            assetType: query.assetType,
-            status: query.status,
-            access: query.access,
-            tags: query.tags,
-            search: query.search,
-            createdAfter: query.createdAfter ? new Date(query.createdAfter) : undefined,
-            createdBefore: query.createdBefore ? new Date(query.createdBefore) : undefined
-        };
-
-        const options = {
-            page: query.page,
-            limit: query.limit,
-            sortBy: query.sortBy,
-            sortOrder: query.sortOrder,
-            populate: false
-        };
+        const storage = getStorageService();
+        const asset = await findOwnUploadingAsset(id, auth);
+        const upload = asset.multipartUpload;
+        if (!upload) {
+            throw notMultipartError();
+        }
 
-        const { assets, total, totalPages } = await assetDao.list(filter, options);
+        const stored = await storage.listParts(asset.storageKey, upload.uploadId);
+        if (!stored) {
+            throw multipartUploadGoneError();
+        }
 
-        // Filter assets based on access permissions
-        const accessibleAssets = await Promise.all(
-            assets.map(async (asset) => {
-                const hasAccess = await verifyAssetAccess(asset, auth);
-                return hasAccess ? asset : null;
-            })
+        // A part with an unexpected size (e.g. cut off mid-transfer) must be sent again
+        const complete = stored.filter(part =>
+            part.partNumber <= upload.partCount &&
+            (part.size === undefined || part.size === expectedPartSize(upload, asset.fileSizeBytes, part.partNumber))
         );
-
-        const filteredAssets = accessibleAssets.filter(Boolean) as any[];
+        const completeNumbers = new Set(complete.map(part => part.partNumber));
+        const missingPartNumbers: number[] = [];
+        for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+            if (!completeNumbers.has(partNumber)) {
+                missingPartNumbers.push(partNumber);
+            }
+        }
 
         return {
-            assets: filteredAssets,
-            pagination: {
-                total: total,
-                page: query.page,
-                limit: query.limit,
-                totalPages: totalPages,
-                hasNext: (query.page || 1) < (totalPages || 0),
-                hasPrev: (query.page || 1) > 1
-            }
+            uploadId: upload.uploadId,
+            partSizeBytes: upload.partSizeBytes,
+            partCount: upload.partCount,
+            uploadedParts: complete,
+            missingPartNumbers
         };
     } catch (error: any) {
         if (error.status) throw error;
-        const err: any = new Error('Asset list failed');
+        const err: any = new Error('Upload progress fetch failed');
         err.status = 500;
-        err.code = 'ASSET_LIST_ERROR';
+        err.code = 'UPLOAD_PROGRESS_ERROR';
         throw err;
     }
 }
 
 /**
- * Update asset metadata
- * @param id - Asset ID
- * @param payload - Update data
- * @param auth - Authentication context
- * @returns Updated asset
+ * Complete the multipart upload of an asset with the given (or stored) parts
+ * @param asset - Asset document with a multipart upload
+ * @param parts - Part numbers and ETags reported by the client
  */
-async function update(id: string, payload: UpdateAssetInput, auth: any) {
-    try {
-        const asset = await assetDao.findById(id);
-        if (!asset) {
-            throw assetNotFound();
-        }
-
-        // Verify user has edit access
-        const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
-        if (!hasAccess) {
-            const err: any = new Error('No permission to edit this asset');
-            err.status = 403;
-            err.code = 'EDIT_ACCESS_DENIED';
-            throw err;
-        }
-
-        // Handle customMetadata updates properly (it's a Mongoose Map)
-        const normalized: any = { ...payload };
-        
-        // If customMetadata is being updated, merge with existing customMetadata Map
-        if (normalized.customMetadata) {
-            const existingCustomMetadata = asset.customMetadata || new Map();
-            const existingObj = existingCustomMetadata instanceof Map ? 
-                Object.fromEntries(existingCustomMetadata) : existingCustomMetadata;
-            
-            normalized.customMetadata = {
-                ...existingObj,
-                ...normalized.customMetadata
-            };
+async function completeMultipartUpload(asset: any, parts?: UploadedPart[]): Promise<void> {
+    const storage = getStorageService();
+    const upload = asset.multipartUpload;
+
+    let completedParts = parts;
+    if (!completedParts || completedParts.length === 0) {
+        const stored = await storage.listParts(asset.storageKey, upload.uploadId);
+        if (!stored) {
+            throw multipartUploadGoneError();
         }
+        completedParts = stored;
+    }
 
-        const updatedAsset = await assetDao.updateById(id, normalized);
-        if (!updatedAsset) {
-            throw assetNotFound();
+    const partNumbers = new Set(completedParts.map(part => part.partNumber));
+    const missingPartNumbers: number[] = [];
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+        if (!partNumbers.has(partNumber)) {
+            missingPartNumbers.push(partNumber);
         }
+    }
+    if (missingPartNumbers.length > 0 || partNumbers.size !== completedParts.length || partNumbers.size !== upload.partCount) {
+        const err: any = new Error('Multipart upload parts are missing or out of range');
+        err.status = 400;
+        err.code = 'INCOMPLETE_MULTIPART_UPLOAD';
+        err.details = { missingPartNumbers };
+        throw err;
+    }
 
-        return { asset: updatedAsset };
+    try {
+        await storage.completeMultipartUpload(asset.storageKey, upload.uploadId, completedParts);
     } catch (error: any) {
-        if (error.status) throw error;
-        const err: any = new Error('Asset update failed');
-        err.status = 500;
-        err.code = 'ASSET_UPDATE_ERROR';
+        if (error.name === 'NoSuchUpload') {
+            throw multipartUploadGoneError();
+        }
+        const err: any = new Error(`Multipart upload could not be completed: ${error.message || error.name}`);
+        err.status = 400;
+        err.code = 'MULTIPART_COMPLETE_FAILED';
         throw err;
     }
+
+    await assetDao.clearMultipartUpload(asset._id.toString());
 }
 
 /**
- * Generate download URL for asset
+ * Abandon an upload that was never finalized: abort any multipart upload and
+ * delete the asset so its checksum can be uploaded again
  * @param id - Asset ID
  * @param auth - Authentication context
- * @returns Presigned download URL
  */
-async function getDownloadUrl(id: string, auth: any) {
+async function cancelUpload(id: string, auth: any) {
     try {
-        const asset = await assetDao.findById(id);
-        if (!asset) {
-            throw assetNotFound();
+        const storage = getStorageService();
+        const asset = await findOwnUploadingAsset(id, auth);
+
+        if (asset.multipartUpload) {
+            try {
+                await storage.abortMultipartUpload(asset.storageKey, asset.multipartUpload.uploadId);
+                await assetDao.clearMultipartUpload(id);
+            } catch (abortError) {
+                // The cleanup job aborts it again before purging
+                console.warn('Multipart upload abort failed, continuing:', (abortError as any)?.message || abortError);
+            }
         }
 
-        // Verify asset is completed
-        if (asset.status !== AssetStatus.COMPLETED) {
+        const success = await assetDao.softDeleteById(id);
+        if (!success) {
+            throw assetNotFound();
+        }
+
+        // Nothing was published yet, so purge right away
+        try {
+            await JobUtils.addCleanupJob({
+                storageKeys: [asset.storageKey],
+                assetId: id,
+                reason: 'asset-deleted'
+            });
+        } catch (queueError) {
+            console.warn('Cleanup job enqueue failed, continuing:', (queueError as any)?.message || queueError);
+        }
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Upload cancel failed');
+        err.status = 500;
+        err.code = 'UPLOAD_CANCEL_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Settle one expired upload: finalize it when the complete file reached
+ * storage, otherwise delete the record and whatever was partially stored
+ * @param asset - Expired asset still in uploading status
+ * @returns What happened to the asset
+ */
+async function reapExpiredUpload(asset: any): Promise<'finalized' | 'deleted' | 'skipped'> {
+    const storage = getStorageService();
+    const id = asset._id.toString();
+
+    // Multipart uploads whose parts all arrived only lack the completion call
+    if (asset.multipartUpload) {
+        const stored = await storage.listParts(asset.storageKey, asset.multipartUpload.uploadId);
+        const complete = !!stored && stored.length === asset.multipartUpload.partCount && stored.every(part =>
+            part.size === undefined || part.size === expectedPartSize(asset.multipartUpload, asset.fileSizeBytes, part.partNumber)
+        );
+        if (complete) {
+            try {
+                await completeMultipartUpload(asset, stored!);
+            } catch (error: any) {
+                console.warn(`Completing expired multipart upload ${id} failed:`, error?.message || error);
+            }
+        }
+    }
+
+    // The checksum cannot be recomputed from storage; a complete object of the
+    // declared size is treated as the file the client meant to finalize
+    const head = await storage.headObject(asset.storageKey);
+    if (head && head.contentLength === asset.fileSizeBytes) {
+        const claimed = await assetDao.updateIfUploading(id, { status: AssetStatus.PROCESSING });
+        if (!claimed) return 'skipped';
+
+        try {
+            await queueProcessingJob(claimed, asset.uploadedBy.toString());
+        } catch (queueError) {
+            console.warn('Queueing processing job failed, continuing:', (queueError as any)?.message || queueError);
+        }
+        return 'finalized';
+    }
+
+    const deleted = await assetDao.updateIfUploading(id, { deletedAt: new Date() });
+    if (!deleted) return 'skipped';
+
+    // Purges the partial object, aborts any multipart upload and removes the record
+    await JobUtils.addCleanupJob({
+        storageKeys: [asset.storageKey],
+        assetId: id,
+        reason: 'asset-deleted'
+    }, { delay: 0 });
+    return 'deleted';
+}
+
+/**
+ * Finalize or delete uploads that expired without being finalized, freeing
+ * their checksums for new uploads
+ * @param limit - Maximum number of uploads handled in one run
+ * @returns Number of uploads per outcome
+ */
+async function reapExpiredUploads(limit: number = 50) {
+    try {
+        const expired = await assetDao.findExpiredUploads(new Date(Date.now() - UPLOAD_REAP_GRACE_MS), limit);
+        const summary = { scanned: expired.length, finalized: 0, deleted: 0, skipped: 0, failed: 0 };
+
+        for (const asset of expired) {
+            try {
+                const outcome = await reapExpiredUpload(asset);
+                summary[outcome] += 1;
+            } catch (error: any) {
+                summary.failed += 1;
+                console.error(`Reaping expired upload ${String(asset._id)} failed:`, error?.message || error);
+            }
+        }
+
+        return summary;
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Expired upload reaping failed');
+        err.status = 500;
+        err.code = 'UPLOAD_REAP_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Re-queue processing for a stuck asset, or mark it failed once its recovery
+ * attempts are used up
+ * @param asset - Asset found stuck in pending or processing
+ * @returns Outcome; 'skipped' when the asset changed while being recovered
+ */
+async function recoverStuckAsset(asset: any): Promise<'requeued' | 'failed' | 'skipped'> {
+    const id = String(asset._id);
+    const recoveries = asset.processingRecoveries ?? 0;
+
+    if (recoveries >= STUCK_ASSET_MAX_RECOVERIES) {
+        const failed = await assetDao.updateIfStuck(id, asset.updatedAt, {
+            $set: {
+                status: AssetStatus.FAILED,
+                processingError:
+                    `Processing stalled: no live job after ${recoveries} recovery attempt(s)`
+            }
+        });
+        if (!failed) {
+            return 'skipped';
+        }
+        await webhookService.emitAssetEvent('asset.processing.failed', failed);
+        return 'failed';
+    }
+
+    const claimed = await assetDao.updateIfStuck(id, asset.updatedAt, {
+        $set: { status: AssetStatus.PROCESSING },
+        $inc: { processingRecoveries: 1 }
+    });
+    if (!claimed) {
+        return 'skipped';
+    }
+
+    await queueProcessingJob(claimed, String(claimed.uploadedBy));
+    return 'requeued';
+}
+
+/**
+ * Recover assets left in pending or processing by a crashed worker. Assets
+ * that still have a job waiting or running in a processing queue are left alone.
+ * @param limit - Maximum number of assets inspected in one run
+ * @returns Number of assets per outcome
+ */
+async function recoverStuckAssets(limit: number = 50) {
+    try {
+        const stuck = await assetDao.findAssetsRequiringProcessing(
+            limit,
+            new Date(Date.now() - STUCK_ASSET_THRESHOLD_MS)
+        );
+        const summary = { scanned: stuck.length, live: 0, requeued: 0, failed: 0, skipped: 0, errors: 0 };
+        if (stuck.length === 0) {
+            return summary;
+        }
+
+        const liveAssetIds = await QueueManager.getLiveAssetIds();
+
+        for (const asset of stuck) {
+            if (liveAssetIds.has(String(asset._id))) {
+                summary.live += 1;
+                continue;
+            }
+            try {
+                const outcome = await recoverStuckAsset(asset);
+                summary[outcome] += 1;
+            } catch (error: any) {
+                summary.errors += 1;
+                console.error(`Recovering stuck asset ${String(asset._id)} failed:`, error?.message || error);
+            }
+        }
+
+        return summary;
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Stuck asset recovery failed');
+        err.status = 500;
+        err.code = 'STUCK_ASSET_RECOVERY_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Create upload request for a new version of an existing asset
+ * @param id - Asset ID
+ * @param payload - New version file data
+ * @param auth - Authentication context
+ * @returns Asset record, version number and presigned upload URL
+ */
+async function createVersionUpload(id: string, payload: CreateAssetVersionInput, auth: any) {
+    try {
+        const userId = String(auth.userId);
+        const storage = getStorageService();
+
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
+        if (!hasAccess) {
+            throw accessDenied('No permission to add versions to this asset');
+        }
+
+        // A new version replaces renditions, so the current file must be settled first
+        if (asset.status !== AssetStatus.COMPLETED && asset.status !== AssetStatus.FAILED) {
+            const err: any = new Error('Asset must finish uploading and processing before adding a version');
+            err.status = 400;
+            err.code = 'INVALID_ASSET_STATUS';
+            throw err;
+        }
+
+        const originalFilename = payload.originalFilename || asset.originalFilename;
+        const mimeType = payload.mimeType || asset.mimeType;
+
+        if (!StorageUtils.validateFileExtension(originalFilename, mimeType)) {
+            const err: any = new Error('File extension does not match MIME type');
+            err.status = 400;
+            err.code = 'INVALID_FILE_EXTENSION';
+            throw err;
+        }
+
+        if (determineAssetType(mimeType) !== asset.assetType) {
+            const err: any = new Error('New version must keep the asset type');
+            err.status = 400;
+            err.code = 'ASSET_TYPE_MISMATCH';
+            throw err;
+        }
+
+        const existingAsset = await assetDao.findByChecksum(asset.organizationId.toString(), payload.checksum);
+        if (existingAsset) {
+            throw duplicateAssetError();
+        }
+
+        // Versions share the storage prefix of the original upload
+        const parsedKey = StorageUtils.parseStorageKey(asset.storageKey);
+        const version = asset.latestVersion + 1;
+        const storageKey = storage.generateAssetKey(
+            asset.organizationId.toString(),
+            asset.projectId.toString(),
+            parsedKey?.assetId || String(asset._id),
+            version,
+            originalFilename
+        );
+
+        const { url: uploadUrl, expiresAt } = await storage.getPresignedUploadUrl(storageKey, {
+            contentType: mimeType,
+            contentLength: payload.fileSizeBytes,
+            expiresIn: 3600 // 1 hour
+        });
+
+        const previousPending = asset.pendingVersion;
+        const updatedAsset = await assetDao.setPendingVersion(id, {
+            version,
+            storageKey,
+            fileSizeBytes: payload.fileSizeBytes,
+            checksum: payload.checksum,
+            mimeType,
+            originalFilename,
+            createdBy: userId,
+            expiresAt
+        });
+        if (!updatedAsset) {
+            throw assetNotFound();
+        }
+
+        // Drop whatever an abandoned upload under a different key may have stored
+        if (previousPending && previousPending.storageKey !== storageKey) {
+            try {
+                await JobUtils.addCleanupTempJob({
+                    storageKeys: [previousPending.storageKey],
+                    reason: 'temp-cleanup'
+                });
+            } catch (queueError) {
+                console.warn('Cleanup job enqueue failed, continuing:', (queueError as any)?.message || queueError);
+            }
+        }
+
+        return {
+            asset: updatedAsset,
+            version,
+            uploadUrl,
+            storageKey,
+            expiresAt
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset version upload creation failed');
+        err.status = 500;
+        err.code = 'ASSET_VERSION_UPLOAD_CREATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Finalize a new version upload, make it current and regenerate renditions
+ * @param id - Asset ID
+ * @param version - Version number being finalized
+ * @param payload - Finalization data
+ * @param auth - Authentication context
+ * @returns Updated asset record
+ */
+async function finalizeVersionUpload(
+    id: string,
+    version: number,
+    payload: FinalizeAssetVersionInput,
+    auth: any
+) {
+    try {
+        const userId = String(auth.userId);
+        const storage = getStorageService();
+
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const pending = asset.pendingVersion;
+        if (!pending || pending.version !== version) {
+            throw versionNotFound();
+        }
+
+        // Verify upload is from the same user
+        if (pending.createdBy.toString() !== userId) {
+            throw accessDenied('Unauthorized to finalize this asset version');
+        }
+
+        if (pending.expiresAt.getTime() <= Date.now()) {
+            throw uploadUrlExpiredError();
+        }
+
+        // Verify checksums match
+        if (payload.actualChecksum !== pending.checksum) {
+            const err: any = new Error('Checksum mismatch - upload integrity check failed');
+            err.status = 400;
+            err.code = 'CHECKSUM_MISMATCH';
+            throw err;
+        }
+
+        // Verify file sizes match
+        if (payload.actualFileSizeBytes !== pending.fileSizeBytes) {
+            const err: any = new Error('File size mismatch');
+            err.status = 400;
+            err.code = 'FILE_SIZE_MISMATCH';
+            throw err;
+        }
+
+        // Verify file exists in storage (skip in test environments if configured)
+        if (process.env.SKIP_STORAGE_HEAD !== 'true') {
+            const headResult = await storage.headObject(pending.storageKey);
+            if (!headResult) {
+                const err: any = new Error('File not found in storage');
+                err.status = 400;
+                err.code = 'FILE_NOT_IN_STORAGE';
+                throw err;
+            }
+        }
+
+        // Another asset may have claimed the checksum while the upload was in flight
+        const existingAsset = await assetDao.findByChecksum(asset.organizationId.toString(), pending.checksum);
+        if (existingAsset) {
+            throw duplicateAssetError();
+        }
+
+        const updatedAsset = await assetDao.addVersion(id, {
+            version: pending.version,
+            storageKey: pending.storageKey,
+            fileSizeBytes: pending.fileSizeBytes,
+            checksum: pending.checksum,
+            mimeType: pending.mimeType,
+            originalFilename: pending.originalFilename,
+            createdBy: userId,
+            status: AssetStatus.PROCESSING
+        });
+
+        if (!updatedAsset) {
+            const err: any = new Error('Asset version changed during upload');
+            err.status = 409;
+            err.code = 'ASSET_VERSION_CONFLICT';
+            throw err;
+        }
+
+        await queueRenditionCleanup(asset);
+
+        await auditAsset('asset.version_create', asset, asset, updatedAsset, auth);
+        await webhookService.emitAssetEvent('asset.version.created', updatedAsset, {
+            version: { version: pending.version, restoredFrom: null }
+        });
+
+        // Queue processing job (do not fail finalize if queueing fails)
+        try {
+            await queueProcessingJob(updatedAsset, userId);
+        } catch (queueError) {
+            console.warn('Queueing processing job failed, continuing:', (queueError as any)?.message || queueError);
+        }
+
+        return { asset: updatedAsset };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset version finalization failed');
+        err.status = 500;
+        err.code = 'ASSET_VERSION_FINALIZE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Queue the renditions of a file that was just replaced for deletion
+ * Renditions stored under a prefix are listed when the job runs, and anything
+ * the asset references again by then is spared.
+ * @param asset - Asset document as it was before the new version was added
+ */
+async function queueRenditionCleanup(asset: any): Promise<void> {
+    const storageKeys: string[] = [];
+    const storagePrefixes: string[] = [];
+    for (const rendition of Object.values(plainRenditions(asset)) as any[]) {
+        if (rendition?.storageKey) storageKeys.push(rendition.storageKey);
+        if (rendition?.storagePrefix) storagePrefixes.push(rendition.storagePrefix);
+    }
+    if (storageKeys.length === 0 && storagePrefixes.length === 0) return;
+
+    try {
+        await JobUtils.addCleanupJob({
+            storageKeys,
+            storagePrefixes,
+            assetId: asset._id.toString(),
+            reason: 'version-replaced'
+        });
+    } catch (queueError) {
+        console.warn('Cleanup job enqueue failed, continuing:', (queueError as any)?.message || queueError);
+    }
+}
+
+/**
+ * Queue appropriate processing jobs based on asset type
+ * @param asset - Asset to process
+ * @param userId - User ID who triggered processing
+ */
+async function queueProcessingJob(asset: any, userId: string): Promise<void> {
+    const jobData: ProcessAssetJobData = {
+        assetId: asset._id.toString(),
+        organizationId: asset.organizationId.toString(),
+        uploadedBy: userId,
+        storageKey: asset.storageKey,
+        originalFilename: asset.originalFilename,
+        mimeType: asset.mimeType,
+        fileSizeBytes: asset.fileSizeBytes
+    };
+
+    // Always start with metadata extraction
+    const metadataJobData: ExtractMetadataJobData = {
+        assetId: asset._id.toString(),
+        organizationId: asset.organizationId.toString(),
+        storageKey: asset.storageKey,
+        mimeType: asset.mimeType,
+        originalFilename: asset.originalFilename
+    };
+
+    await JobUtils.addExtractMetadataJob(metadataJobData);
+
+    // Queue type-specific processing jobs
+    switch (asset.assetType) {
+        case AssetType.IMAGE:
+            const imageJobData: GenerateThumbnailsJobData = {
+                assetId: asset._id.toString(),
+                organizationId: asset.organizationId.toString(),
+                storageKey: asset.storageKey,
+                mimeType: asset.mimeType
+            };
+            await JobUtils.addGenerateThumbnailsJob(imageJobData);
+            break;
+
+        case AssetType.VIDEO:
+            const videoJobData: TranscodeVideoJobData = {
+                assetId: asset._id.toString(),
+                organizationId: asset.organizationId.toString(),
+                storageKey: asset.storageKey,
+                extractPoster: true
+            };
+            await JobUtils.addTranscodeVideoJob(videoJobData);
+            break;
+
+        // Other asset types can be added here
+        default:
+            // For other types, just process the main asset
+            await JobUtils.addProcessAssetJob(jobData);
+            break;
+    }
+}
+
+/**
+ * Get asset by ID
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @param incrementView - Whether to increment view count
+ * @returns Asset data
+ */
+async function getById(id: string, auth: any, incrementView = false) {
+    try {
+        const asset = await assetDao.findById(id, true); // Populate references
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        // Verify user has access to the asset
+        const hasAccess = await verifyAssetAccess(asset, auth);
+        if (!hasAccess) {
+            throw accessDenied('Access denied to this asset');
+        }
+
+        // Increment view count if requested
+        if (incrementView) {
+            await assetDao.incrementViewCount(id);
+            asset.analytics.viewCount += 1;
+        }
+
+        return { asset };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset fetch failed');
+        err.status = 500;
+        err.code = 'ASSET_FETCH_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List assets with filtering and pagination
+ * @param query - List query parameters
+ * @param auth - Authentication context
+ * @returns Assets list with pagination
+ */
+async function list(query: ListAssetsQuery, auth: any) {
+    try {
+        const isAdmin = (auth.permissions || []).includes(PERMISSIONS.ORG_ADMIN);
+        const sortBy = query.sortBy || 'updatedAt';
+        const sortOrder = query.sortOrder || 'desc';
+        if (query.cursor && !matchesSort(query.cursor, [{ field: sortBy, order: sortOrder }])) {
+            throw invalidCursorError();
+        }
+
+        // Scope to the organization the caller was authorized against
+        const filter = {
+            organizationId: query.organizationId || auth.organizationId,
+            projectId: query.projectId,
+            assetType: query.assetType,
+            status: query.status,
+            access: query.access,
+            tags: query.tags,
+            search: query.search,
+            createdAfter: query.createdAfter ? new Date(query.createdAfter) : undefined,
+            createdBefore: query.createdBefore ? new Date(query.createdBefore) : undefined,
+            where: query.q
+                ? await compileAssetQuery(query.q, {
+                    userId: String(auth.userId),
+                    resolveProjects: (pattern) => projectDao.findIdsByPathPattern(String(query.organizationId || auth.organizationId), pattern)
+                })
+                : undefined,
+            // Leave other members' private assets out of the page and the total
+            visibleTo: isAdmin ? undefined : String(auth.userId)
+        };
+
+        const options = {
+            page: query.page,
+            limit: query.limit,
+            sortBy,
+            sortOrder,
+            populate: false,
+            cursor: query.cursor,
+            // Counting every match is what makes deep pages slow, so cursor pages skip it unless asked
+            includeTotal: query.includeTotal ?? !query.cursor
+        };
+
+        const { assets, total, totalPages, nextCursor, hasNext } = await assetDao.list(filter, options);
+
+        // Filter assets based on access permissions
+        const accessibleAssets = await Promise.all(
+            assets.map(async (asset) => {
+                const hasAccess = await verifyAssetAccess(asset, auth);
+                return hasAccess ? asset : null;
+            })
+        );
+
+        const filteredAssets = accessibleAssets.filter(Boolean) as any[];
+
+        return {
+            assets: filteredAssets,
+            pagination: {
+                total,
+                page: query.cursor ? undefined : query.page,
+                limit: query.limit,
+                totalPages,
+                hasNext,
+                hasPrev: Boolean(query.cursor) || (query.page || 1) > 1,
+                nextCursor
+            }
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset list failed');
+        err.status = 500;
+        err.code = 'ASSET_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Update asset metadata
+ * @param id - Asset ID
+ * @param payload - Update data
+ * @param auth - Authentication context
+ * @returns Updated asset
+ */
+async function update(id: string, payload: UpdateAssetInput, auth: any) {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        // Verify user has edit access
+        const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
+        if (!hasAccess) {
+            throw accessDenied('No permission to edit this asset');
+        }
+
+        // Handle customMetadata updates properly (it's a Mongoose Map)
+        const normalized: any = { ...payload };
+        
+        // If customMetadata is being updated, merge with existing customMetadata Map
+        if (normalized.customMetadata) {
+            const existingCustomMetadata = asset.customMetadata || new Map();
+            const existingObj = existingCustomMetadata instanceof Map ? 
+                Object.fromEntries(existingCustomMetadata) : existingCustomMetadata;
+            
+            normalized.customMetadata = {
+                ...existingObj,
+                ...normalized.customMetadata
+            };
+        }
+
+        const updatedAsset = await assetDao.updateById(id, normalized);
+        if (!updatedAsset) {
+            throw assetNotFound();
+        }
+
+        // Replacing the tag list is audited apart from other edits
+        const tagsOnly = Object.keys(payload).length === 1 && payload.tags !== undefined;
+        await auditAsset(tagsOnly ? 'asset.tags_replace' : 'asset.update', asset, asset, updatedAsset, auth);
+
+        return { asset: updatedAsset };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset update failed');
+        err.status = 500;
+        err.code = 'ASSET_UPDATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Generate download URL for asset
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @param version - Optional version number; defaults to the current file
+ * @returns Presigned download URL
+ */
+async function getDownloadUrl(id: string, auth: any, version?: number) {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const target = version === undefined ? undefined : findVersion(asset, version);
+        if (version !== undefined && !target) {
+            throw versionNotFound();
+        }
+        const isCurrent = !target || target.version === asset.latestVersion;
+
+        // Verify asset is completed (earlier versions are already settled in storage)
+        if (isCurrent && asset.status !== AssetStatus.COMPLETED) {
             const err: any = new Error('Asset is not ready for download');
             err.status = 400;
-            err.code = 'ASSET_NOT_READY';
+            err.code = 'ASSET_NOT_READY';
+            throw err;
+        }
+
+        // Verify user has download access
+        const hasAccess = await verifyAssetAccess(asset, auth, 'download');
+        if (!hasAccess) {
+            throw accessDenied('No permission to download this asset');
+        }
+
+        const storage = getStorageService();
+        const storageKey = isCurrent ? asset.storageKey : target!.storageKey;
+        const { url: downloadUrl, expiresAt } = await storage.getPresignedDownloadUrl(storageKey, {
+            expiresIn: 300 // 5 minutes
+        });
+
+        // Increment download count
+        await assetDao.incrementDownloadCount(id);
+
+        return target ? { version: target.version, downloadUrl, expiresAt } : { downloadUrl, expiresAt };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Download URL generation failed');
+        err.status = 500;
+        err.code = 'DOWNLOAD_URL_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Render an image asset at a requested size and format, caching the result in storage
+ * Derived objects live under a key made of the source version and the transform,
+ * so the same request always maps to the same object and a new version never
+ * serves a stale one. A cache hit is answered with a presigned URL.
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @param query - Validated transform parameters
+ * @returns Presigned URL of the cached object, or the freshly rendered image
+ */
+async function transformImage(id: string, auth: any, query: TransformAssetQuery): Promise<
+    | { cached: true; url: string; expiresAt: Date }
+    | { cached: false; buffer: Buffer; contentType: string }
+> {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth);
+        if (!hasAccess) {
+            throw accessDenied('No permission to access this asset');
+        }
+
+        if (asset.assetType !== AssetType.IMAGE) {
+            throw transformError(400, 'TRANSFORM_NOT_SUPPORTED', 'Only image assets can be transformed');
+        }
+        if (asset.status !== AssetStatus.COMPLETED) {
+            const err: any = new Error('Asset is not ready for transformation');
+            err.status = 400;
+            err.code = 'ASSET_NOT_READY';
+            throw err;
+        }
+        if (asset.fileSizeBytes > TRANSFORM_MAX_SOURCE_BYTES) {
+            throw transformError(
+                400,
+                'TRANSFORM_SOURCE_TOO_LARGE',
+                `Images larger than ${TRANSFORM_MAX_SOURCE_BYTES} bytes cannot be transformed on demand`
+            );
+        }
+
+        const spec: ImageRenditionSpec = {
+            width: query.w ? Math.round(query.w * query.dpr) : undefined,
+            height: query.h ? Math.round(query.h * query.dpr) : undefined,
+            fit: query.fit,
+            format: query.format,
+            quality: query.q
+        };
+        const storage = getStorageService();
+        const derivedKey = transformStorageKey(asset, spec);
+
+        if (await storage.headObject(derivedKey)) {
+            const { url, expiresAt } = await storage.getPresignedDownloadUrl(derivedKey, {
+                expiresIn: TRANSFORM_URL_TTL_SECONDS
+            });
+            return { cached: true, url, expiresAt };
+        }
+
+        // Concurrent requests for the same variant share one render
+        let pending = transformsInFlight.get(derivedKey);
+        if (!pending) {
+            pending = renderAndCacheTransform(String(asset._id), asset.storageKey, derivedKey, spec)
+                .finally(() => transformsInFlight.delete(derivedKey));
+            transformsInFlight.set(derivedKey, pending);
+        }
+        const buffer = await pending;
+        return { cached: false, buffer, contentType: RENDITION_CONTENT_TYPES[spec.format] };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw transformError(500, 'ASSET_TRANSFORM_ERROR', 'Asset transformation failed');
+    }
+}
+
+/**
+ * Deterministic storage key of a transformed variant
+ * @param asset - Source asset
+ * @param spec - Device-pixel dimensions, fit, format and quality
+ */
+function transformStorageKey(asset: any, spec: ImageRenditionSpec): string {
+    const size = `${spec.width ?? 'auto'}x${spec.height ?? 'auto'}`;
+    const filename = `${size}_${spec.fit}_q${spec.quality}.${RENDITION_FILE_EXTENSIONS[spec.format]}`;
+    return `org/${asset.organizationId}/assets/${asset._id}/derived/v${asset.latestVersion}/${filename}`;
+}
+
+/**
+ * Render a variant from the original and cache it
+ * Assets at TRANSFORM_MAX_VARIANTS_PER_ASSET get no new variants, so each
+ * request past the limit cannot cost a render.
+ */
+async function renderAndCacheTransform(
+    assetId: string,
+    sourceKey: string,
+    derivedKey: string,
+    spec: ImageRenditionSpec
+): Promise<Buffer> {
+    // Record the key first so the cleanup worker always knows about the object
+    const recorded = await assetDao.addDerivedStorageKey(assetId, derivedKey, TRANSFORM_MAX_VARIANTS_PER_ASSET);
+    if (!recorded) {
+        throw transformError(
+            400,
+            'TRANSFORM_VARIANT_LIMIT_REACHED',
+            `Asset already has ${TRANSFORM_MAX_VARIANTS_PER_ASSET} transformed variants; request one of the existing sizes`
+        );
+    }
+
+    const storage = getStorageService();
+    const original = await storage.getObject(sourceKey);
+    const { buffer } = await renderImageRendition(original, spec);
+
+    await storage.putObject(derivedKey, buffer, {
+        contentType: RENDITION_CONTENT_TYPES[spec.format],
+        cacheControl: 'public, max-age=31536000, immutable'
+    });
+    return buffer;
+}
+
+/**
+ * Replace the relative URIs of a playlist or track with presigned storage URLs
+ * Media fragments (`#xywh=`) are kept; each object is presigned once.
+ * @param source - Playlist or track text
+ * @param sourceKey - Storage key of the text; URIs are relative to its directory
+ * @param isUri - Whether a non-blank line is a URI
+ * @returns Rewritten text
+ */
+async function presignRelativeUris(
+    source: string,
+    sourceKey: string,
+    isUri: (line: string) => boolean
+): Promise<string> {
+    const storage = getStorageService();
+    const baseKey = sourceKey.slice(0, sourceKey.lastIndexOf('/') + 1);
+    const urls = new Map<string, Promise<string>>();
+
+    const lines = await Promise.all(source.split('\n').map(async (line) => {
+        const trimmed = line.trim();
+        if (!trimmed || !isUri(trimmed)) return line;
+
+        const hashAt = trimmed.indexOf('#');
+        const uri = hashAt === -1 ? trimmed : trimmed.slice(0, hashAt);
+        const fragment = hashAt === -1 ? '' : trimmed.slice(hashAt);
+        if (!urls.has(uri)) {
+            urls.set(uri, storage.getPresignedDownloadUrl(`${baseKey}${uri}`, {
+                expiresIn: HLS_SEGMENT_URL_TTL_SECONDS
+            }).then(({ url }) => url));
+        }
+        return `${await urls.get(uri)}${fragment}`;
+    }));
+    return lines.join('\n');
+}
+
+/**
+ * Serve the HLS playlists of a video asset
+ * The master playlist is returned as stored; its variant entries are relative,
+ * so players request them from this API with the same credentials. Variant
+ * playlists are rewritten so every segment points at a presigned URL.
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @param variant - Variant name; the master playlist when omitted
+ * @returns Playlist text
+ */
+async function getStreamPlaylist(id: string, auth: any, variant?: string): Promise<{ playlist: string }> {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset || asset.deletedAt) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth);
+        if (!hasAccess) {
+            throw accessDenied('No permission to access this asset');
+        }
+
+        const hls = plainRenditions(asset).hls;
+        if (!hls?.storagePrefix) {
+            throw streamNotAvailable('No HLS stream is available for this asset');
+        }
+
+        const storage = getStorageService();
+        if (!variant) {
+            const master = await storage.getObject(hls.storageKey);
+            return { playlist: master.toString('utf8') };
+        }
+
+        const entry = (hls.variants || []).find((candidate: any) => candidate.name === variant);
+        if (!entry) {
+            throw streamNotAvailable(`Stream variant '${variant}' does not exist`);
+        }
+
+        const playlistKey = `${hls.storagePrefix}${entry.playlist}`;
+        const source = (await storage.getObject(playlistKey)).toString('utf8');
+
+        // Tags and blank lines stay; every other line is a segment URI
+        const playlist = await presignRelativeUris(source, playlistKey, (line) => !line.startsWith('#'));
+        return { playlist };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Stream playlist generation failed');
+        err.status = 500;
+        err.code = 'STREAM_PLAYLIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Serve the WebVTT thumbnails track of a video asset for timeline scrubbing
+ * Each cue points at a tile of a sprite sheet; sheets get presigned URLs.
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @returns Track text
+ */
+async function getThumbnailTrack(id: string, auth: any): Promise<{ track: string }> {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset || asset.deletedAt) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth);
+        if (!hasAccess) {
+            throw accessDenied('No permission to access this asset');
+        }
+
+        const vtt = plainRenditions(asset).thumbnails_vtt;
+        if (!vtt?.storageKey) {
+            throw streamNotAvailable('No thumbnails track is available for this asset');
+        }
+
+        const source = (await getStorageService().getObject(vtt.storageKey)).toString('utf8');
+        // Cue payloads are the only lines carrying a media fragment
+        const track = await presignRelativeUris(source, vtt.storageKey, (line) => line.includes('#xywh='));
+        return { track };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Thumbnails track generation failed');
+        err.status = 500;
+        err.code = 'THUMBNAIL_TRACK_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Check that a video asset can get a new poster
+ * @param asset - Asset document
+ * @param auth - Authentication context
+ */
+async function assertPosterEditable(asset: any, auth: any): Promise<void> {
+    if (!asset || asset.deletedAt) {
+        throw assetNotFound();
+    }
+
+    const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
+    if (!hasAccess) {
+        throw accessDenied('No permission to change the poster of this asset');
+    }
+
+    if (asset.assetType !== AssetType.VIDEO) {
+        throw posterError(400, 'POSTER_NOT_SUPPORTED', 'Only video assets have a poster');
+    }
+    if (asset.status !== AssetStatus.COMPLETED) {
+        const err: any = new Error('Asset is not ready for a new poster');
+        err.status = 400;
+        err.code = 'ASSET_NOT_READY';
+        throw err;
+    }
+}
+
+/**
+ * Replace the poster of a video with a frame at a timestamp or an uploaded image
+ * The video worker swaps the poster in and re-renders the thumbnails made from it;
+ * the current poster is kept as `poster_previous` for revertPoster.
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @param payload - Frame timestamp in seconds, or the uploaded image
+ * @returns Queued poster job
+ */
+async function setPoster(
+    id: string,
+    auth: any,
+    payload: SetPosterInput & { image?: { buffer: Buffer } }
+) {
+    try {
+        const asset = await assetDao.findById(id);
+        await assertPosterEditable(asset, auth);
+
+        const { timestamp, image } = payload;
+        if ((timestamp === undefined) === !image) {
+            throw posterError(400, 'INVALID_POSTER_SOURCE', 'Provide either a timestamp or an image');
+        }
+        const duration = asset!.metadata?.duration;
+        if (timestamp !== undefined && duration && timestamp >= duration) {
+            throw posterError(400, 'INVALID_POSTER_SOURCE', `Timestamp must be before the end of the video (${duration}s)`);
+        }
+
+        const jobData: ExtractPosterJobData = {
+            assetId: String(asset!._id),
+            organizationId: String(asset!.organizationId),
+            storageKey: asset!.storageKey
+        };
+
+        if (image) {
+            // Posters are JPEG like the frames the worker extracts
+            let poster;
+            try {
+                poster = await renderImageRendition(image.buffer, {
+                    width: POSTER_MAX_DIMENSION,
+                    height: POSTER_MAX_DIMENSION,
+                    fit: 'inside',
+                    format: 'jpeg',
+                    quality: 90
+                });
+            } catch {
+                throw posterError(400, 'INVALID_POSTER_SOURCE', 'The uploaded file is not a readable image');
+            }
+            const posterKey = `org/${jobData.organizationId}/assets/${jobData.assetId}/renditions/poster_${Date.now()}.jpg`;
+            await getStorageService().putObject(posterKey, poster.buffer, { contentType: 'image/jpeg' });
+            jobData.posterKey = posterKey;
+        } else {
+            jobData.timeOffset = String(timestamp);
+        }
+
+        let job;
+        try {
+            job = await JobUtils.addExtractPosterJob(jobData);
+        } catch (error) {
+            // Without the job nothing would ever reference the uploaded poster
+            if (jobData.posterKey) {
+                await getStorageService().deleteObject(jobData.posterKey).catch((cleanupError: any) => {
+                    console.warn('Poster upload cleanup failed:', cleanupError?.message || cleanupError);
+                });
+            }
+            throw error;
+        }
+
+        await auditService.recordAudit({
+            action: 'asset.poster.update',
+            organizationId: asset!.organizationId,
+            target: { type: 'asset', id: asset!._id },
+            before: { poster: plainRenditions(asset).poster?.storageKey },
+            after: image ? { posterSource: 'upload' } : { posterSource: 'frame', timestamp }
+        }, auth);
+
+        return { jobId: job.id, status: 'queued' };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw posterError(500, 'POSTER_UPDATE_ERROR', 'Poster update failed');
+    }
+}
+
+/**
+ * Bring back the poster that was replaced last, along with thumbnails rendered from it
+ * Reverting twice returns to the newer poster.
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @returns Queued poster job
+ */
+async function revertPoster(id: string, auth: any) {
+    try {
+        const asset = await assetDao.findById(id);
+        await assertPosterEditable(asset, auth);
+
+        const renditions = plainRenditions(asset);
+        const previous = renditions.poster_previous;
+        if (!previous?.storageKey) {
+            throw posterError(404, 'PREVIOUS_POSTER_NOT_FOUND', 'There is no previous poster to revert to');
+        }
+
+        const job = await JobUtils.addExtractPosterJob({
+            assetId: String(asset!._id),
+            organizationId: String(asset!.organizationId),
+            storageKey: asset!.storageKey,
+            posterKey: previous.storageKey
+        });
+
+        await auditService.recordAudit({
+            action: 'asset.poster.revert',
+            organizationId: asset!.organizationId,
+            target: { type: 'asset', id: asset!._id },
+            before: { poster: renditions.poster?.storageKey },
+            after: { poster: previous.storageKey }
+        }, auth);
+
+        return { jobId: job.id, status: 'queued' };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw posterError(500, 'POSTER_REVERT_ERROR', 'Poster revert failed');
+    }
+}
+
+/**
+ * List the version history of an asset, newest first
+ * @param id - Asset ID
+ * @param auth - Authentication context
+ * @returns Versions with size, author and date
+ */
+async function listVersions(id: string, auth: any) {
+    try {
+        const asset = await assetDao.findById(id, true); // Populate version authors
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth);
+        if (!hasAccess) {
+            throw accessDenied('Access denied to this asset');
+        }
+
+        const versions = [...asset.versions]
+            .sort((a, b) => b.version - a.version)
+            .map((entry) => presentVersion(entry, asset));
+
+        return {
+            assetId: String(asset._id),
+            latestVersion: asset.latestVersion,
+            versions
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset version list failed');
+        err.status = 500;
+        err.code = 'ASSET_VERSION_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Make an earlier version current again by appending a copy of it to the history
+ * @param id - Asset ID
+ * @param version - Version number to restore
+ * @param auth - Authentication context
+ * @returns Updated asset record
+ */
+async function restoreVersion(id: string, version: number, auth: any) {
+    try {
+        const userId = String(auth.userId);
+
+        const asset = await assetDao.findById(id);
+        if (!asset) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
+        if (!hasAccess) {
+            throw accessDenied('No permission to restore versions of this asset');
+        }
+
+        const target = findVersion(asset, version);
+        if (!target) {
+            throw versionNotFound();
+        }
+
+        if (target.version === asset.latestVersion) {
+            const err: any = new Error('Version is already current');
+            err.status = 400;
+            err.code = 'ASSET_VERSION_CURRENT';
             throw err;
         }
 
-        // Verify user has download access
-        const hasAccess = await verifyAssetAccess(asset, auth, 'download');
-        if (!hasAccess) {
-            const err: any = new Error('No permission to download this asset');
-            err.status = 403;
-            err.code = 'DOWNLOAD_ACCESS_DENIED';
+        if (asset.status !== AssetStatus.COMPLETED && asset.status !== AssetStatus.FAILED) {
+            const err: any = new Error('Asset must finish uploading and processing before restoring a version');
+            err.status = 400;
+            err.code = 'INVALID_ASSET_STATUS';
             throw err;
         }
 
-        const storage = getStorageService();
-        const { url: downloadUrl, expiresAt } = await storage.getPresignedDownloadUrl(asset.storageKey, {
-            expiresIn: 300 // 5 minutes
+        // Versions recorded before checksums were tracked cannot be deduplicated safely
+        if (!target.checksum) {
+            const err: any = new Error('Version cannot be restored because its checksum is unknown');
+            err.status = 422;
+            err.code = 'ASSET_VERSION_NOT_RESTORABLE';
+            throw err;
+        }
+
+        const existingAsset = await assetDao.findByChecksum(asset.organizationId.toString(), target.checksum);
+        if (existingAsset && String(existingAsset._id) !== String(asset._id)) {
+            throw duplicateAssetError();
+        }
+
+        const pending = asset.pendingVersion;
+        const updatedAsset = await assetDao.addVersion(id, {
+            version: asset.latestVersion + 1,
+            storageKey: target.storageKey,
+            fileSizeBytes: target.fileSizeBytes,
+            checksum: target.checksum,
+            mimeType: target.mimeType || asset.mimeType,
+            originalFilename: target.originalFilename || asset.originalFilename,
+            createdBy: userId,
+            restoredFrom: target.version,
+            status: AssetStatus.PROCESSING
         });
 
-        // Increment download count
-        await assetDao.incrementDownloadCount(id);
+        if (!updatedAsset) {
+            const err: any = new Error('Asset version changed during restore');
+            err.status = 409;
+            err.code = 'ASSET_VERSION_CONFLICT';
+            throw err;
+        }
+
+        await queueRenditionCleanup(asset);
+
+        await auditAsset('asset.version_restore', asset, asset, updatedAsset, auth);
+        await webhookService.emitAssetEvent('asset.version.created', updatedAsset, {
+            version: { version: updatedAsset.latestVersion, restoredFrom: target.version }
+        });
+
+        // The restore supersedes any version upload that was still in flight
+        if (pending) {
+            try {
+                await JobUtils.addCleanupTempJob({
+                    storageKeys: [pending.storageKey],
+                    reason: 'temp-cleanup'
+                });
+            } catch (queueError) {
+                console.warn('Cleanup job enqueue failed, continuing:', (queueError as any)?.message || queueError);
+            }
+        }
+
+        // Renditions were cleared with the previous file; rebuild them for the restored one
+        try {
+            await queueProcessingJob(updatedAsset, userId);
+        } catch (queueError) {
+            console.warn('Queueing processing job failed, continuing:', (queueError as any)?.message || queueError);
+        }
+
+        return { asset: updatedAsset };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset version restore failed');
+        err.status = 500;
+        err.code = 'ASSET_VERSION_RESTORE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Find a version entry of an asset
+ * @param asset - Asset document
+ * @param version - Version number
+ * @returns Version entry or undefined
+ */
+function findVersion(asset: any, version: number): IAssetVersion | undefined {
+    return (asset.versions || []).find((entry: IAssetVersion) => entry.version === version);
+}
+
+/**
+ * Shape a version entry for API responses
+ * @param entry - Version entry (createdBy may be populated)
+ * @param asset - Owning asset
+ * @returns Public version fields
+ */
+function presentVersion(entry: any, asset: any) {
+    const createdBy = entry.createdBy?._id
+        ? { id: String(entry.createdBy._id), email: entry.createdBy.email }
+        : { id: String(entry.createdBy), email: undefined };
+
+    return {
+        version: entry.version,
+        fileSizeBytes: entry.fileSizeBytes,
+        checksum: entry.checksum,
+        mimeType: entry.mimeType,
+        originalFilename: entry.originalFilename,
+        restoredFrom: entry.restoredFrom,
+        createdBy,
+        createdAt: entry.createdAt,
+        isCurrent: entry.version === asset.latestVersion
+    };
+}
+
+/**
+ * Load the project an asset is moved or copied into
+ * @param projectId - Target project ID
+ * @param organizationId - Organization of the asset
+ * @returns Project document
+ */
+async function findTargetProject(projectId: string, organizationId: string) {
+    const project: any = await projectDao.findById(projectId);
+    if (!project || project.deletedAt || String(project.organizationId) !== organizationId) {
+        const err: any = new Error('Target project not found in this organization');
+        err.status = 400;
+        err.code = 'INVALID_TARGET_PROJECT';
+        throw err;
+    }
+    return project;
+}
+
+/**
+ * Storage objects can only be relocated while no upload or worker is writing them
+ * @param asset - Asset document
+ */
+function assertRelocatable(asset: any): void {
+    const settled = asset.status === AssetStatus.COMPLETED || asset.status === AssetStatus.FAILED;
+    if (!settled || asset.multipartUpload || asset.pendingVersion) {
+        const err: any = new Error('Asset cannot be moved or copied while it is uploading or processing');
+        err.status = 409;
+        err.code = 'ASSET_BUSY';
+        throw err;
+    }
+}
+
+function plainRenditions(asset: any): Record<string, any> {
+    return asset.renditions?.toObject ? asset.renditions.toObject() : { ...(asset.renditions || {}) };
+}
+
+/**
+ * Best-effort removal of storage objects, used to roll back copies
+ * @param keys - Storage keys to delete
+ */
+async function deleteStorageObjects(keys: string[]): Promise<void> {
+    const storage = getStorageService();
+    for (const key of keys) {
+        try {
+            await storage.deleteObject(key);
+        } catch (error: any) {
+            console.warn(`Failed to delete storage object ${key}:`, error?.message || error);
+        }
+    }
+}
+
+/**
+ * Copy every storage object of an asset to its relocated key, server-side.
+ * If any copy fails, the objects copied so far are removed again.
+ * @param asset - Asset document
+ * @param target - New project and, for copies, new storage and document IDs
+ * @returns Map of every original key to its relocated key (unchanged keys map to themselves)
+ */
+async function copyStorageObjects(
+    asset: any,
+    target: { projectId: string; assetId?: string; documentId?: string }
+): Promise<Map<string, string>> {
+    const keyMap = new Map<string, string>();
+    for (const key of await StorageUtils.collectAssetKeys(asset)) {
+        const relocated = StorageUtils.relocateKey(key, target);
+        if (!relocated) {
+            const err: any = new Error(`Unrecognized storage key layout: ${key}`);
+            err.status = 500;
+            err.code = 'ASSET_STORAGE_LAYOUT_ERROR';
+            throw err;
+        }
+        keyMap.set(key, relocated);
+    }
+
+    const storage = getStorageService();
+    const copied: string[] = [];
+    try {
+        for (const [from, to] of keyMap) {
+            if (from === to) continue;
+            await storage.copyObject(from, to);
+            copied.push(to);
+        }
+    } catch (error) {
+        await deleteStorageObjects(copied);
+        throw error;
+    }
+
+    return keyMap;
+}
+
+/**
+ * Rewrite the version history and renditions of an asset to relocated keys
+ * @param asset - Asset document
+ * @param keyMap - Original key to relocated key
+ */
+function relocateEntries(asset: any, keyMap: Map<string, string>) {
+    const versions = (asset.versions || []).map((entry: any) => {
+        const { _id, ...version } = entry.toObject ? entry.toObject() : entry;
+        return { ...version, storageKey: keyMap.get(version.storageKey) || version.storageKey };
+    });
+
+    const renditions = plainRenditions(asset);
+    for (const [name, rendition] of Object.entries(renditions)) {
+        if (rendition?.storageKey) {
+            const storageKey = keyMap.get(rendition.storageKey) || rendition.storageKey;
+            renditions[name] = { ...rendition, storageKey };
+            // The entry object of a prefixed rendition sits at the top of its prefix
+            if (rendition.storagePrefix) {
+                renditions[name].storagePrefix = storageKey.slice(0, storageKey.lastIndexOf('/') + 1);
+            }
+        }
+    }
+
+    return { versions, renditions };
+}
+
+/**
+ * Move asset to another project of its organization
+ * Storage objects whose keys embed the project are copied to their new keys;
+ * the old objects are purged after a grace period.
+ * @param id - Asset ID
+ * @param payload - Target project
+ * @param auth - Authentication context
+ * @returns Moved asset
+ */
+async function moveAsset(id: string, payload: RelocateAssetInput, auth: any) {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset || asset.deletedAt) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
+        if (!hasAccess) {
+            throw accessDenied('No permission to move this asset');
+        }
+
+        await findTargetProject(payload.projectId, String(asset.organizationId));
+        if (String(asset.projectId) === payload.projectId) {
+            return { asset };
+        }
+
+        assertRelocatable(asset);
+
+        const keyMap = await copyStorageObjects(asset, { projectId: payload.projectId });
+        const moved = Array.from(keyMap).filter(([from, to]) => from !== to);
+        const { versions, renditions } = relocateEntries(asset, keyMap);
+
+        const updatedAsset = await assetDao.relocateIfUnchanged(
+            id,
+            { storageKey: asset.storageKey, latestVersion: asset.latestVersion, status: asset.status },
+            {
+                projectId: payload.projectId,
+                storageKey: keyMap.get(asset.storageKey)!,
+                versions,
+                renditions
+            }
+        );
+
+        if (!updatedAsset) {
+            await deleteStorageObjects(moved.map(([, to]) => to));
+            const err: any = new Error('Asset changed while it was being moved');
+            err.status = 409;
+            err.code = 'ASSET_VERSION_CONFLICT';
+            throw err;
+        }
+
+        await auditAsset('asset.move', asset, asset, updatedAsset, auth);
+
+        // Purge the old objects once download URLs issued before the move have expired
+        if (moved.length > 0) {
+            try {
+                await JobUtils.addCleanupJob({
+                    storageKeys: moved.map(([from]) => from),
+                    assetId: id,
+                    reason: 'asset-moved'
+                }, { delay: MOVED_OBJECT_GRACE_MS });
+            } catch (queueError) {
+                console.warn('Cleanup job enqueue failed, continuing:', (queueError as any)?.message || queueError);
+            }
+        }
 
-        return { downloadUrl, expiresAt };
+        return { asset: updatedAsset };
     } catch (error: any) {
         if (error.status) throw error;
-        const err: any = new Error('Download URL generation failed');
+        const err: any = new Error('Asset move failed');
         err.status = 500;
-        err.code = 'DOWNLOAD_URL_ERROR';
+        err.code = 'ASSET_MOVE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Copy asset into a project of its organization
+ * The copy gets its own storage objects, versions and renditions, starts with
+ * fresh analytics and is owned by the caller.
+ * @param id - Asset ID
+ * @param payload - Target project
+ * @param auth - Authentication context
+ * @returns Created copy
+ */
+async function copyAsset(id: string, payload: RelocateAssetInput, auth: any) {
+    try {
+        const asset = await assetDao.findById(id);
+        if (!asset || asset.deletedAt) {
+            throw assetNotFound();
+        }
+
+        const hasAccess = await verifyAssetAccess(asset, auth, 'download');
+        if (!hasAccess) {
+            throw accessDenied('No permission to copy this asset');
+        }
+
+        await findTargetProject(payload.projectId, String(asset.organizationId));
+        assertRelocatable(asset);
+
+        const documentId = new Types.ObjectId();
+        const keyMap = await copyStorageObjects(asset, {
+            projectId: payload.projectId,
+            assetId: generateAssetId(),
+            documentId: String(documentId)
+        });
+        const { versions, renditions } = relocateEntries(asset, keyMap);
+        const customMetadata = asset.customMetadata instanceof Map
+            ? Object.fromEntries(asset.customMetadata)
+            : (asset.customMetadata || {});
+        const extractedText = await assetDao.findExtractedText(id);
+
+        try {
+            const copy = await assetDao.createCopy({
+                _id: documentId,
+                copiedFrom: String(asset._id),
+                organizationId: String(asset.organizationId),
+                projectId: payload.projectId,
+                uploadedBy: String(auth.userId),
+                originalFilename: asset.originalFilename,
+                mimeType: asset.mimeType,
+                assetType: asset.assetType,
+                fileSizeBytes: asset.fileSizeBytes,
+                checksum: asset.checksum,
+                storageProvider: asset.storageProvider,
+                storageKey: keyMap.get(asset.storageKey)!,
+                status: asset.status,
+                processingError: asset.processingError,
+                latestVersion: asset.latestVersion,
+                versions,
+                metadata: (asset.metadata as any)?.toObject ? (asset.metadata as any).toObject() : asset.metadata,
+                renditions,
+                description: asset.description,
+                tags: [...(asset.tags || [])],
+                access: asset.access,
+                customMetadata,
+                extractedText
+            });
+
+            await auditAsset('asset.copy', copy, null, copy, auth);
+            await webhookService.emitAssetEvent('asset.created', copy);
+            return { asset: copy };
+        } catch (createError) {
+            await deleteStorageObjects(
+                Array.from(keyMap).filter(([from, to]) => from !== to).map(([, to]) => to)
+            );
+            throw createError;
+        }
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Asset copy failed');
+        err.status = 500;
+        err.code = 'ASSET_COPY_ERROR';
         throw err;
     }
 }
@@ -501,10 +2216,7 @@ async function softDelete(id: string, auth: any) {
         // Verify user has delete access
         const hasAccess = await verifyAssetAccess(asset, auth, 'delete');
         if (!hasAccess) {
-            const err: any = new Error('No permission to delete this asset');
-            err.status = 403;
-            err.code = 'DELETE_ACCESS_DENIED';
-            throw err;
+            throw accessDenied('No permission to delete this asset');
         }
 
         // Soft delete the asset
@@ -519,6 +2231,9 @@ async function softDelete(id: string, auth: any) {
             throw assetNotFound();
         }
 
+        await auditAsset('asset.delete', asset, asset, null, auth);
+        await webhookService.emitAssetEvent('asset.deleted', deletedAsset);
+
         // Queue cleanup job for storage (non-fatal if it fails)
         try {
             const cleanupJobData: CleanupJobData = {
@@ -543,11 +2258,22 @@ async function softDelete(id: string, auth: any) {
     }
 }
 
+/**
+ * Permission required for each asset action
+ */
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+    view: PERMISSIONS.ASSET_READ,
+    download: PERMISSIONS.ASSET_READ,
+    edit: PERMISSIONS.ASSET_WRITE,
+    delete: PERMISSIONS.ASSET_DELETE,
+    share: PERMISSIONS.ASSET_SHARE
+};
+
 /**
  * Verify user has access to an asset
  * @param asset - Asset document
- * @param auth - Authentication context
- * @param action - Action being performed ('view', 'edit', 'download', 'delete')
+ * @param auth - Authentication context (organizationId and permissions set by `authorize`)
+ * @param action - Action being performed ('view', 'edit', 'download', 'delete', 'share')
  * @returns Whether user has access
  */
 async function verifyAssetAccess(asset: any, auth: any, action = 'view'): Promise<boolean> {
@@ -564,28 +2290,30 @@ async function verifyAssetAccess(asset: any, auth: any, action = 'view'): Promis
     const uploadedById = getId(asset.uploadedBy);
     const organizationId = getId(asset.organizationId);
     const authOrganizationId = String(auth.organizationId || '');
+    const permissions: string[] = auth.permissions || [];
 
-    // Owner always has access
-    if (uploadedById === userId) {
-        return true;
+    // Permissions are only valid inside the organization they were resolved for
+    if (organizationId !== authOrganizationId) {
+        return false;
     }
 
-    // Organization members have access to organization-level assets
-    if (asset.access === AccessLevel.ORGANIZATION && organizationId === authOrganizationId) {
+    // Uploader always has access to their own asset
+    if (uploadedById === userId) {
         return true;
     }
 
-    // Public assets are viewable by anyone in the organization
-    if (asset.access === AccessLevel.PUBLIC && action === 'view' && organizationId === authOrganizationId) {
+    // Organization admins can act on every asset
+    if (permissions.includes(PERMISSIONS.ORG_ADMIN)) {
         return true;
     }
 
     // Private assets only accessible by owner
     if (asset.access === AccessLevel.PRIVATE) {
-        return uploadedById === userId;
+        return false;
     }
 
-    return false;
+    const required = ACTION_PERMISSIONS[action] || PERMISSIONS.ASSET_READ;
+    return hasPermission(permissions, required);
 }
 
 /**
@@ -597,8 +2325,6 @@ async function verifyAssetAccess(asset: any, auth: any, action = 'view'): Promis
  */
 async function getAnalytics(organizationId: string, projectId: string | undefined, auth: any) {
     try {
-        // NOTE: In this environment, we do not enforce org membership checks.
-        // A stricter check can be reintroduced when organization membership is modeled.
         const summary = await assetDao.getAnalyticsSummary(organizationId, projectId);
         const analytics = {
             totalAssets: summary.totalAssets,
@@ -635,10 +2361,7 @@ async function retryProcessing(id: string, auth: any) {
         // Verify access
         const hasAccess = await verifyAssetAccess(asset, auth, 'edit');
         if (!hasAccess) {
-            const err: any = new Error('No permission to retry processing');
-            err.status = 403;
-            err.code = 'RETRY_ACCESS_DENIED';
-            throw err;
+            throw accessDenied('No permission to retry processing');
         }
 
         // Only retry failed assets
@@ -652,7 +2375,8 @@ async function retryProcessing(id: string, auth: any) {
         // Update status to pending and clear error
         const updatedAsset = await assetDao.updateById(id, {
             status: AssetStatus.PENDING,
-            processingError: undefined
+            processingError: undefined,
+            processingRecoveries: 0
         });
 
         if (!updatedAsset) {
@@ -678,13 +2402,31 @@ async function retryProcessing(id: string, auth: any) {
 const service = {
     createUpload,
     finalizeUpload,
+    presignUploadParts,
+    getUploadProgress,
+    cancelUpload,
+    reapExpiredUploads,
+    recoverStuckAssets,
+    createVersionUpload,
+    finalizeVersionUpload,
     getById,
     list,
     update,
     getDownloadUrl,
+    transformImage,
+    getStreamPlaylist,
+    getThumbnailTrack,
+    setPoster,
+    revertPoster,
+    listVersions,
+    restoreVersion,
+    moveAsset,
+    copyAsset,
     softDelete,
     getAnalytics,
-    retryProcessing
+    retryProcessing,
+    verifyAssetAccess,
+    auditAsset
 };
 
 export = service;
\ No newline at end of file
@@ -0,0 +1,228 @@
+/**
+ * Audit Service (TypeScript)
+ *
+ * Records who changed what. Services call `recordAudit` after each mutation with
+ * the target's state before and after it; the event keeps only the fields that
+ * differ. Recording never fails the mutation it describes: a write error is
+ * logged and the request carries on.
+ */
+
+import auditEventDao, { AUDIT_SORT_KEYS, type AuditEventFilter } from '../dao/auditEvent.dao';
+import organizationDao from '../dao/organization.dao';
+import {
+    AUDIT_RETENTION_DAYS,
+    type AuditTargetType,
+    type IAuditChange,
+} from '../models/AuditEvent.model';
+import { matchesSort } from '../utils/cursor';
+import type { ListAuditEventsQuery } from '../schemas/audit.schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bookkeeping fields every write touches
+const IGNORED_FIELDS = new Set(['_id', 'id', '__v', 'createdAt', 'updatedAt']);
+
+const CSV_COLUMNS = [
+    'createdAt',
+    'action',
+    'actorId',
+    'actorEmail',
+    'targetType',
+    'targetId',
+    'ip',
+    'requestId',
+    'changes',
+] as const;
+
+interface AuditEntry {
+    action: string;
+    organizationId?: unknown;
+    target: { type: AuditTargetType; id?: unknown };
+    // Target state around the mutation; omit `before` for creations, `after` for deletions
+    before?: unknown;
+    after?: unknown;
+    // Overrides the acting user of the context, e.g. for logins
+    actor?: { userId?: unknown; email?: string };
+}
+
+function auditError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+/**
+ * JSON form of a document: maps become objects, IDs and dates strings
+ */
+function toPlain(value: unknown): any {
+    return value === undefined || value === null ? {} : JSON.parse(JSON.stringify(value));
+}
+
+function flatten(value: any, prefix = '', out: Record<string, unknown> = {}) {
+    for (const [key, child] of Object.entries(value)) {
+        if (!prefix && IGNORED_FIELDS.has(key)) continue;
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (child && typeof child === 'object' && !Array.isArray(child)) {
+            flatten(child, path, out);
+        } else {
+            out[path] = child;
+        }
+    }
+    return out;
+}
+
+/**
+ * Fields that differ between two states, as dot paths; arrays compare as a whole
+ */
+function diffChanges(before: unknown, after: unknown): IAuditChange[] {
+    const a = flatten(toPlain(before));
+    const b = flatten(toPlain(after));
+    const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+
+    return fields
+        .filter((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+        .map((field) => ({ field, before: a[field], after: b[field] }));
+}
+
+async function expiryFor(organizationId: string | undefined): Promise<Date> {
+    const organization: any = organizationId
+        ? await organizationDao.findById(organizationId)
+        : null;
+    const days = organization?.settings?.auditRetentionDays ?? AUDIT_RETENTION_DAYS.default;
+    return new Date(Date.now() + days * DAY_MS);
+}
+
+/**
+ * Record an audit event; never throws
+ * @param entry - Action, target and the target's state around the mutation
+ * @param context - Authentication context (actor, IP and request ID)
+ */
+async function recordAudit(entry: AuditEntry, context: any = {}): Promise<void> {
+    try {
+        const organizationId = entry.organizationId ? String(entry.organizationId) : undefined;
+        const actorId = entry.actor?.userId ?? context.userId;
+
+        await auditEventDao.createEvent({
+            organizationId,
+            actorId: actorId ? String(actorId) : undefined,
+            actorEmail: entry.actor?.email ?? context.email,
+            action: entry.action,
+            targetType: entry.target.type,
+            targetId: entry.target.id ? String(entry.target.id) : undefined,
+            changes: diffChanges(entry.before, entry.after),
+            ip: context.ip,
+            requestId: context.requestId,
+            expiresAt: await expiryFor(organizationId),
+        } as any);
+    } catch (error: any) {
+        console.error(`Recording audit event ${entry.action} failed:`, error?.message || error);
+    }
+}
+
+function presentAuditEvent(event: any) {
+    return {
+        id: String(event._id),
+        organizationId: event.organizationId ? String(event.organizationId) : null,
+        actor: {
+            id: event.actorId ? String(event.actorId) : null,
+            email: event.actorEmail ?? null,
+        },
+        action: event.action,
+        target: { type: event.targetType, id: event.targetId ? String(event.targetId) : null },
+        changes: event.changes || [],
+        ip: event.ip ?? null,
+        requestId: event.requestId ?? null,
+        createdAt: event.createdAt,
+        expiresAt: event.expiresAt ?? null,
+    };
+}
+
+function toFilter(organizationId: string, query: ListAuditEventsQuery): AuditEventFilter {
+    return {
+        organizationId,
+        actions: query.action,
+        actorId: query.actorId,
+        targetType: query.targetType,
+        targetId: query.targetId,
+        requestId: query.requestId,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+    };
+}
+
+/**
+ * Page through an organization's audit events, newest first
+ */
+async function listAuditEvents(organizationId: string, query: ListAuditEventsQuery) {
+    try {
+        if (query.cursor && !matchesSort(query.cursor, AUDIT_SORT_KEYS)) {
+            throw auditError(400, 'INVALID_CURSOR', 'Cursor was not issued by the audit log');
+        }
+        const { events, nextCursor, hasNext } = await auditEventDao.list(
+            toFilter(organizationId, query),
+            { limit: query.limit, cursor: query.cursor },
+        );
+        return {
+            events: events.map(presentAuditEvent),
+            pagination: { limit: query.limit, hasNext, nextCursor },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw auditError(500, 'AUDIT_LIST_ERROR', 'Audit log list failed');
+    }
+}
+
+/**
+ * Every matching audit event, newest first, for NDJSON and CSV exports
+ */
+async function* exportAuditEvents(organizationId: string, query: ListAuditEventsQuery) {
+    for await (const event of auditEventDao.stream(toFilter(organizationId, query))) {
+        yield presentAuditEvent(event);
+    }
+}
+
+function csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    // Quote everything that could split the row, and defuse spreadsheet formulas
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function csvHeader(): string {
+    return `${CSV_COLUMNS.join(',')}\r\n`;
+}
+
+function csvRow(event: ReturnType<typeof presentAuditEvent>): string {
+    const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+        createdAt: event.createdAt,
+        action: event.action,
+        actorId: event.actor.id,
+        actorEmail: event.actor.email,
+        targetType: event.target.type,
+        targetId: event.target.id,
+        ip: event.ip,
+        requestId: event.requestId,
+        changes: event.changes.length > 0 ? JSON.stringify(event.changes) : '',
+    };
+    return `${CSV_COLUMNS.map((column) => csvCell(values[column])).join(',')}\r\n`;
+}
+
+/**
+ * Re-date the expiry of an organization's existing events after its retention changed
+ */
+async function applyRetention(organizationId: string, retentionDays: number): Promise<void> {
+    await auditEventDao.setRetention(organizationId, retentionDays);
+}
+
+const service = {
+    recordAudit,
+    diffChanges,
+    listAuditEvents,
+    exportAuditEvents,
+    csvHeader,
+    csvRow,
+    applyRetention,
+};
+export = service;
@@ -6,6 +6,7 @@ import jwt, { SignOptions } from 'jsonwebtoken';
 require('dotenv').config();
 import { userDao } from '../dao';
 import { sanitizeUser } from '../utils/sanitize';
+import auditService from './audit.service';
 
 const EXPIRES_IN = isNaN(Number(process.env.ACCESS_TOKEN_EXPIRY))
     ? 86400
@@ -58,10 +59,27 @@ function verifyToken(token: string): any {
     }
 }
 
-async function login(email: string, password: string) {
+/**
+ * Record a login attempt against the user's active organization. Failed attempts
+ * keep only the email tried: the caller has not proven who they are.
+ */
+async function auditLogin(success: boolean, email: string, user: any, context: any) {
+    await auditService.recordAudit(
+        {
+            action: success ? 'auth.login' : 'auth.login_failed',
+            organizationId: user?.organizationId,
+            target: { type: 'user', id: user?._id },
+            actor: success ? { userId: user._id, email: user.email } : { email },
+        },
+        context,
+    );
+}
+
+async function login(email: string, password: string, context: any = {}) {
     try {
         const user = await userDao.findByEmail(email);
         if (!user) {
+            await auditLogin(false, email, null, context);
             const error: any = new Error('Invalid credentials');
             error.status = 401;
             error.code = 'INVALID_CREDENTIALS';
@@ -69,6 +87,7 @@ async function login(email: string, password: string) {
         }
         const isPasswordValid = await user.comparePassword(password);
         if (!isPasswordValid) {
+            await auditLogin(false, email, user, context);
             const error: any = new Error('Invalid credentials');
             error.status = 401;
             error.code = 'INVALID_CREDENTIALS';
@@ -76,6 +95,7 @@ async function login(email: string, password: string) {
         }
         const statusInfo = user.getStatusInfo();
         if (!statusInfo.isActive) {
+            await auditLogin(false, email, user, context);
             const error: any = new Error(`Account ${statusInfo.status}`);
             error.status = statusInfo.statusCode;
             error.code = 'ACCOUNT_STATUS_ERROR';
@@ -83,6 +103,7 @@ async function login(email: string, password: string) {
         }
         const token = signToken(user);
         await user.updateLastLogin();
+        await auditLogin(true, email, user, context);
         return {
             user: sanitizeUser(user),
             token,
@@ -128,7 +149,7 @@ async function refresh(currentToken: string) {
     }
 }
 
-async function register(userData: any) {
+async function register(userData: any, context: any = {}) {
     try {
         const email = userData.email;
         const findUser = await userDao.findByEmail(email);
@@ -139,6 +160,16 @@ async function register(userData: any) {
             throw error;
         }
         const user = await userDao.createUser(userData);
+        await auditService.recordAudit(
+            {
+                action: 'auth.register',
+                organizationId: user.organizationId,
+                target: { type: 'user', id: user._id },
+                actor: { userId: user._id, email: user.email },
+                after: sanitizeUser(user),
+            },
+            context,
+        );
         return {
             user: sanitizeUser(user),
             token: signToken(user),
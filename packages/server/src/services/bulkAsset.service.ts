@@ -0,0 +1,326 @@
+/**
+ * Bulk Asset Service (TypeScript)
+ *
+ * Applies one operation to many assets. Access is checked per asset with the
+ * same rules as the single-asset endpoints and every asset gets its own result,
+ * so one failure never aborts the rest. Small batches run inline; larger ones
+ * are handed to the bulk-operations queue and report progress on the job.
+ */
+
+import crypto from 'crypto';
+import assetDao from '../dao/asset.dao';
+import projectDao from '../dao/project.dao';
+import assetService from './asset.service';
+import permissionService from './permission.service';
+import { JobUtils, getBulkOperationsQueue, type BulkAssetOperationJobData } from '../queues';
+import { PERMISSIONS, hasPermission, type Permission } from '../utils/constant/permissions';
+import type { BulkAssetOperation, BulkAssetOperationInput } from '../schemas/bulkAsset.schema';
+
+// Batches up to this size are answered inline; larger ones run as a job
+const BULK_INLINE_LIMIT = Number(process.env.BULK_INLINE_LIMIT) || 50;
+const BULK_PROGRESS_EVERY = 25;
+const MAX_ASSET_TAGS = 20;
+
+interface BulkAssetResult {
+    assetId: string;
+    success: boolean;
+    code?: string;
+    message?: string;
+}
+
+interface BulkProgress {
+    processed: number;
+    total: number;
+    succeeded: number;
+    failed: number;
+}
+
+interface BulkOutcome {
+    results: BulkAssetResult[];
+    summary: { total: number; succeeded: number; failed: number };
+}
+
+function bulkError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function bulkJobNotFound(): any {
+    return bulkError(404, 'BULK_JOB_NOT_FOUND', 'Bulk job not found');
+}
+
+/**
+ * Check the parts of an operation that do not depend on the individual asset
+ * @param operation - Bulk operation
+ * @param organizationId - Organization the batch runs in
+ */
+async function validateOperation(
+    operation: BulkAssetOperation,
+    organizationId: string,
+): Promise<void> {
+    if (operation.type !== 'moveProject') return;
+
+    const project: any = await projectDao.findById(operation.projectId);
+    if (!project || project.deletedAt || String(project.organizationId) !== organizationId) {
+        throw bulkError(
+            400,
+            'INVALID_TARGET_PROJECT',
+            'Target project not found in this organization',
+        );
+    }
+}
+
+/**
+ * Build the field update an edit operation makes to one asset
+ * @param asset - Current asset document
+ * @param operation - Bulk operation
+ */
+function buildUpdate(asset: any, operation: BulkAssetOperation) {
+    switch (operation.type) {
+        case 'addTags': {
+            const tags = Array.from(new Set([...(asset.tags || []), ...operation.tags]));
+            if (tags.length > MAX_ASSET_TAGS) {
+                throw bulkError(
+                    400,
+                    'TOO_MANY_TAGS',
+                    `Assets cannot have more than ${MAX_ASSET_TAGS} tags`,
+                );
+            }
+            return { tags };
+        }
+        case 'removeTags': {
+            const removed = new Set(operation.tags);
+            return { tags: (asset.tags || []).filter((tag: string) => !removed.has(tag)) };
+        }
+        case 'setAccess':
+            return { access: operation.access };
+        case 'setCustomMetadata': {
+            if (!operation.merge) return { customMetadata: operation.customMetadata };
+            const existing =
+                asset.customMetadata instanceof Map
+                    ? Object.fromEntries(asset.customMetadata)
+                    : asset.customMetadata || {};
+            return { customMetadata: { ...existing, ...operation.customMetadata } };
+        }
+        default:
+            throw bulkError(400, 'INVALID_BULK_OPERATION', 'Unsupported bulk operation');
+    }
+}
+
+/**
+ * Apply an operation to a single asset, enforcing access like the single-asset endpoints
+ * @param assetId - Asset ID
+ * @param operation - Bulk operation
+ * @param auth - Authentication context
+ */
+async function applyToAsset(
+    assetId: string,
+    operation: BulkAssetOperation,
+    auth: any,
+): Promise<void> {
+    if (operation.type === 'delete') {
+        await assetService.softDelete(assetId, auth);
+        return;
+    }
+    if (operation.type === 'retry') {
+        await assetService.retryProcessing(assetId, auth);
+        return;
+    }
+    if (operation.type === 'moveProject') {
+        await assetService.moveAsset(assetId, { projectId: operation.projectId }, auth);
+        return;
+    }
+
+    const asset = await assetDao.findById(assetId);
+    if (!asset || asset.deletedAt) {
+        throw bulkError(404, 'ASSET_NOT_FOUND', 'Asset not found');
+    }
+    if (!(await assetService.verifyAssetAccess(asset, auth, 'edit'))) {
+        throw bulkError(403, 'INSUFFICIENT_PERMISSIONS', 'No permission to edit this asset');
+    }
+
+    const updated = await assetDao.updateById(assetId, buildUpdate(asset, operation));
+    if (!updated) {
+        throw bulkError(404, 'ASSET_NOT_FOUND', 'Asset not found');
+    }
+    await assetService.auditAsset('asset.update', asset, asset, updated, auth);
+}
+
+/**
+ * Apply an operation to every asset in turn, collecting a result per asset
+ * @param assetIds - Asset IDs
+ * @param operation - Bulk operation
+ * @param auth - Authentication context
+ * @param onProgress - Called periodically with running counts
+ */
+async function runOperation(
+    assetIds: string[],
+    operation: BulkAssetOperation,
+    auth: any,
+    onProgress?: (progress: BulkProgress) => Promise<void>,
+): Promise<BulkOutcome> {
+    const results: BulkAssetResult[] = [];
+    let succeeded = 0;
+
+    for (const [index, assetId] of assetIds.entries()) {
+        try {
+            await applyToAsset(assetId, operation, auth);
+            results.push({ assetId, success: true });
+            succeeded++;
+        } catch (error: any) {
+            results.push({
+                assetId,
+                success: false,
+                code: error.status ? error.code : 'BULK_OPERATION_ERROR',
+                message: error.status ? error.message : 'Operation failed',
+            });
+        }
+
+        const processed = index + 1;
+        if (
+            onProgress &&
+            (processed % BULK_PROGRESS_EVERY === 0 || processed === assetIds.length)
+        ) {
+            await onProgress({
+                processed,
+                total: assetIds.length,
+                succeeded,
+                failed: processed - succeeded,
+            });
+        }
+    }
+
+    return {
+        results,
+        summary: { total: assetIds.length, succeeded, failed: assetIds.length - succeeded },
+    };
+}
+
+/**
+ * Permission an operation needs on top of `asset:write`, matching its single-asset endpoint
+ * @param operation - Bulk operation
+ */
+function requiredPermission(operation: BulkAssetOperation): Permission {
+    return operation.type === 'delete' ? PERMISSIONS.ASSET_DELETE : PERMISSIONS.ASSET_WRITE;
+}
+
+/**
+ * Apply an operation to many assets, inline for small batches or as a background job
+ * @param payload - Asset IDs and the operation
+ * @param auth - Authentication context (organization resolved by `authorize`)
+ * @returns The outcome, or the queued job for large batches
+ */
+async function bulkOperation(payload: BulkAssetOperationInput, auth: any) {
+    try {
+        const organizationId = String(auth.organizationId);
+        const permission = requiredPermission(payload.operation);
+        if (!hasPermission(auth.permissions || [], permission)) {
+            throw permissionService.insufficientPermissions(permission, organizationId);
+        }
+        await validateOperation(payload.operation, organizationId);
+
+        if (payload.assetIds.length <= BULK_INLINE_LIMIT) {
+            return await runOperation(payload.assetIds, payload.operation, auth);
+        }
+
+        const jobId = `bulk-${crypto.randomUUID()}`;
+        const jobData: BulkAssetOperationJobData = {
+            organizationId,
+            requestedBy: String(auth.userId),
+            ip: auth.ip,
+            requestId: auth.requestId,
+            assetIds: payload.assetIds,
+            operation: payload.operation,
+        };
+        await JobUtils.addBulkAssetOperationJob(jobData, { jobId });
+
+        return { jobId, status: 'queued', total: payload.assetIds.length };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw bulkError(500, 'BULK_OPERATION_ERROR', 'Bulk operation failed');
+    }
+}
+
+/**
+ * Run a queued bulk job. Permissions are resolved again because the requester's
+ * roles may have changed since the job was queued.
+ * @param data - Job data
+ * @param onProgress - Called periodically with running counts
+ */
+async function runBulkJob(
+    data: BulkAssetOperationJobData,
+    onProgress?: (progress: BulkProgress) => Promise<void>,
+): Promise<BulkOutcome> {
+    const access = await permissionService.assertPermission(
+        data.requestedBy,
+        data.organizationId,
+        PERMISSIONS.ASSET_WRITE,
+    );
+    const permission = requiredPermission(data.operation);
+    if (!hasPermission(access.permissions, permission)) {
+        throw permissionService.insufficientPermissions(permission, data.organizationId);
+    }
+    const auth = {
+        userId: data.requestedBy,
+        organizationId: access.organizationId,
+        roles: access.roles,
+        permissions: access.permissions,
+        ip: data.ip,
+        requestId: data.requestId,
+    };
+
+    await validateOperation(data.operation, data.organizationId);
+    return runOperation(data.assetIds, data.operation, auth, onProgress);
+}
+
+/**
+ * Report the progress of a bulk job; only its requester can see it
+ * @param jobId - Bulk job ID
+ * @param auth - Authentication context
+ * @returns Job state, running counts and, once finished, the per-asset results
+ */
+async function getBulkJob(jobId: string, auth: any) {
+    try {
+        const job = await getBulkOperationsQueue().getJob(jobId);
+        if (
+            !job ||
+            String(job.data.organizationId) !== String(auth.organizationId) ||
+            String(job.data.requestedBy) !== String(auth.userId)
+        ) {
+            throw bulkJobNotFound();
+        }
+
+        const data = job.data as BulkAssetOperationJobData;
+        const state = await job.getState();
+        const outcome = state === 'completed' ? (job.returnvalue as BulkOutcome) : undefined;
+        const progress: Partial<BulkProgress> =
+            job.progress && typeof job.progress === 'object' ? job.progress : {};
+
+        return {
+            job: {
+                jobId,
+                operation: data.operation.type,
+                status: state,
+                progress: {
+                    processed: progress.processed || 0,
+                    total: data.assetIds.length,
+                    succeeded: progress.succeeded || 0,
+                    failed: progress.failed || 0,
+                },
+                createdAt: new Date(job.timestamp),
+                finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+                error: state === 'failed' ? job.failedReason : undefined,
+                results: outcome?.results,
+                summary: outcome?.summary,
+            },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw bulkError(500, 'BULK_JOB_FETCH_ERROR', 'Bulk job fetch failed');
+    }
+}
+
+const service = { bulkOperation, runBulkJob, getBulkJob };
+export = service;
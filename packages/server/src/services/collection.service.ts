@@ -0,0 +1,501 @@
+/**
+ * Collection Service (TypeScript)
+ *
+ * Curated, ordered sets of assets that span projects. A collection belongs to
+ * its owner, who may share it with other members of the organization for viewing
+ * or editing. Listing a collection only returns the assets the caller can still
+ * access; the rest stay in place but are left out. Smart collections take their
+ * members from a saved search instead, so they follow asset changes on their own.
+ */
+
+import collectionDao from '../dao/collection.dao';
+import assetDao from '../dao/asset.dao';
+import membershipDao from '../dao/membership.dao';
+import savedSearchDao from '../dao/savedSearch.dao';
+import assetService from './asset.service';
+import savedSearchService from './savedSearch.service';
+import { PERMISSIONS } from '../utils/constant/permissions';
+import type {
+    CreateCollectionInput,
+    UpdateCollectionInput,
+    AddCollectionItemsInput,
+    ReorderCollectionItemsInput,
+} from '../schemas/collection.schema';
+
+const COLLECTION_MAX_ITEMS = 1000;
+
+type CollectionAccess = 'owner' | 'admin' | 'edit' | 'view';
+
+function collectionError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function collectionNotFound(): any {
+    return collectionError(404, 'COLLECTION_NOT_FOUND', 'Collection not found');
+}
+
+function collectionConflict(): any {
+    return collectionError(
+        409,
+        'COLLECTION_CONFLICT',
+        'Collection was changed by someone else, please retry',
+    );
+}
+
+/**
+ * The caller's access to a collection, or null if they cannot see it
+ */
+function accessOf(collection: any, auth: any): CollectionAccess | null {
+    if (String(collection.organizationId) !== String(auth.organizationId)) return null;
+    const userId = String(auth.userId);
+    if (String(collection.ownerId) === userId) return 'owner';
+    if ((auth.permissions || []).includes(PERMISSIONS.ORG_ADMIN)) return 'admin';
+    const share = collection.sharedWith.find((entry: any) => String(entry.userId) === userId);
+    return share ? share.access : null;
+}
+
+/**
+ * Load a collection and check the caller's access to it
+ * @param level - 'view' to read, 'edit' to change items and details, 'manage' to share or delete
+ */
+async function findAccessible(id: string, auth: any, level: 'view' | 'edit' | 'manage') {
+    const collection = await collectionDao.findById(id);
+    if (!collection) throw collectionNotFound();
+
+    const access = accessOf(collection, auth);
+    // Collections not shared with the caller do not exist as far as they know
+    if (!access) throw collectionNotFound();
+
+    const allowed =
+        level === 'view' ||
+        (level === 'edit' && access !== 'view') ||
+        (level === 'manage' && (access === 'owner' || access === 'admin'));
+    if (!allowed) {
+        throw collectionError(
+            403,
+            'INSUFFICIENT_PERMISSIONS',
+            level === 'manage'
+                ? 'Only the collection owner can share or delete it'
+                : 'No permission to edit this collection',
+        );
+    }
+    return { collection, access };
+}
+
+function assertManual(collection: any): void {
+    if (collection.savedSearchId) {
+        throw collectionError(
+            409,
+            'SMART_COLLECTION_READ_ONLY',
+            'Smart collection members follow its saved search and cannot be edited',
+        );
+    }
+}
+
+function presentCollection(collection: any, access: CollectionAccess | null) {
+    const c = typeof collection.toJSON === 'function' ? collection.toJSON() : collection;
+    const smart = !!c.savedSearchId;
+    return {
+        id: String(c._id),
+        organizationId: String(c.organizationId),
+        name: c.name,
+        description: c.description ?? null,
+        ownerId: String(c.ownerId),
+        smart,
+        savedSearchId: smart ? String(c.savedSearchId) : null,
+        // Counting a smart collection means running its search, so only the detail view has it
+        itemCount: smart ? null : c.items.length,
+        sharedWith: c.sharedWith.map((entry: any) => ({
+            userId: String(entry.userId),
+            access: entry.access,
+        })),
+        access,
+        createdAt: c.createdAt,
+        updatedAt: c.updatedAt,
+    };
+}
+
+/**
+ * Ensure every share target is an active member of the organization other than the owner
+ */
+async function assertValidShares(
+    organizationId: string,
+    ownerId: string,
+    sharedWith: Array<{ userId: string; access: 'view' | 'edit' }>,
+): Promise<void> {
+    const userIds = sharedWith.map((entry) => String(entry.userId));
+    if (new Set(userIds).size !== userIds.length) {
+        throw collectionError(400, 'VALIDATION_ERROR', 'A member can only be listed once');
+    }
+    if (userIds.includes(ownerId)) {
+        throw collectionError(
+            400,
+            'VALIDATION_ERROR',
+            'The owner cannot be listed among shared members',
+        );
+    }
+
+    const memberships = await Promise.all(
+        userIds.map((userId) => membershipDao.findActive(userId, organizationId)),
+    );
+    const unknown = userIds.filter((_, index) => !memberships[index]);
+    if (unknown.length > 0) {
+        const err = collectionError(
+            400,
+            'INVALID_COLLECTION_MEMBER',
+            'Collections can only be shared with active members of the organization',
+        );
+        err.details = { userIds: unknown };
+        throw err;
+    }
+}
+
+/**
+ * Load assets to add to a collection; each must belong to the collection's
+ * organization and be visible to the caller
+ */
+async function loadAddableAssets(assetIds: string[], organizationId: string, auth: any) {
+    const assets: any[] = await assetDao.findByIds(assetIds);
+    const byId = new Map(assets.map((asset) => [String(asset._id), asset]));
+
+    const rejected: string[] = [];
+    for (const assetId of assetIds) {
+        const asset = byId.get(assetId);
+        const usable =
+            !!asset &&
+            String(asset.organizationId) === organizationId &&
+            (await assetService.verifyAssetAccess(asset, auth));
+        if (!usable) rejected.push(assetId);
+    }
+    if (rejected.length > 0) {
+        const err = collectionError(
+            400,
+            'INVALID_COLLECTION_ASSET',
+            'Some assets do not exist or are not accessible',
+        );
+        err.details = { assetIds: rejected };
+        throw err;
+    }
+}
+
+/**
+ * Resolve a collection's items to the assets the caller can access, in order
+ */
+async function accessibleItems(collection: any, auth: any) {
+    const assetIds = collection.items.map((item: any) => String(item.assetId));
+    const assets: any[] = await assetDao.findByIds(assetIds);
+    const byId = new Map(assets.map((asset) => [String(asset._id), asset]));
+
+    const items = [];
+    for (const item of collection.items) {
+        const asset = byId.get(String(item.assetId));
+        if (!asset || !(await assetService.verifyAssetAccess(asset, auth))) continue;
+        items.push({
+            asset,
+            addedBy: String(item.addedBy),
+            addedAt: item.addedAt,
+        });
+    }
+    return items;
+}
+
+/**
+ * Resolve a smart collection's members: the caller's view of its saved search's
+ * current matches, in the search's own order
+ */
+async function smartItems(collection: any, auth: any) {
+    const savedSearch = await savedSearchDao.findById(String(collection.savedSearchId));
+    if (!savedSearch) return { items: [], total: 0 };
+
+    const { assets, pagination } = await savedSearchService.matchAssets(
+        savedSearch,
+        { page: 1, limit: COLLECTION_MAX_ITEMS },
+        auth,
+    );
+    return {
+        items: assets.map((asset: any) => ({ asset, addedBy: null, addedAt: null })),
+        total: pagination.total,
+    };
+}
+
+/**
+ * Create a collection owned by the caller
+ * @param payload - Name, optional description, initial assets and shared members
+ * @param auth - Authentication context (permissions resolved for the target organization)
+ */
+async function createCollection(payload: CreateCollectionInput, auth: any) {
+    try {
+        const organizationId = String(auth.organizationId);
+        const ownerId = String(auth.userId);
+
+        const sharedWith = payload.sharedWith ?? [];
+        await assertValidShares(organizationId, ownerId, sharedWith);
+
+        const assetIds = payload.assetIds ?? [];
+        await loadAddableAssets(assetIds, organizationId, auth);
+
+        if (payload.savedSearchId) {
+            await savedSearchService
+                .findAccessible(payload.savedSearchId, auth, 'view')
+                .catch((error: any) => {
+                    if (error.code !== 'SAVED_SEARCH_NOT_FOUND') throw error;
+                    throw collectionError(
+                        400,
+                        'INVALID_SAVED_SEARCH',
+                        'Saved search does not exist or is not accessible',
+                    );
+                });
+        }
+
+        const now = new Date();
+        const collection = await collectionDao.createCollection({
+            organizationId,
+            name: payload.name,
+            description: payload.description,
+            ownerId,
+            items: assetIds.map((assetId) => ({ assetId, addedBy: ownerId, addedAt: now })),
+            sharedWith,
+            savedSearchId: payload.savedSearchId,
+        } as any);
+
+        return { collection: presentCollection(collection, 'owner') };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection create failed');
+        err.status = 500;
+        err.code = 'COLLECTION_CREATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List the collections the caller owns or that are shared with them; organization
+ * admins see every collection
+ */
+async function listCollections(
+    query: { search?: string; page?: number; limit?: number },
+    auth: any,
+) {
+    try {
+        const isAdmin = (auth.permissions || []).includes(PERMISSIONS.ORG_ADMIN);
+        const { collections, total } = await collectionDao.list(
+            {
+                organizationId: String(auth.organizationId),
+                visibleTo: isAdmin ? undefined : String(auth.userId),
+                search: query.search,
+            },
+            { page: query.page, limit: query.limit },
+        );
+        return {
+            collections: collections.map((collection) =>
+                presentCollection(collection, accessOf(collection, auth)),
+            ),
+            total,
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection list failed');
+        err.status = 500;
+        err.code = 'COLLECTION_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Get a collection with its accessible assets in order
+ * @returns Collection details and items holding raw asset documents
+ */
+async function getCollection(id: string, auth: any) {
+    try {
+        const { collection, access } = await findAccessible(id, auth, 'view');
+        if (collection.savedSearchId) {
+            const { items, total } = await smartItems(collection, auth);
+            return {
+                collection: { ...presentCollection(collection, access), itemCount: total },
+                items,
+            };
+        }
+        const items = await accessibleItems(collection, auth);
+        return { collection: presentCollection(collection, access), items };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection get failed');
+        err.status = 500;
+        err.code = 'COLLECTION_GET_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Rename, describe or re-share a collection. Sharing changes are limited to the owner.
+ */
+async function updateCollection(id: string, payload: UpdateCollectionInput, auth: any) {
+    try {
+        const level = payload.sharedWith ? 'manage' : 'edit';
+        const { collection, access } = await findAccessible(id, auth, level);
+
+        if (payload.sharedWith) {
+            await assertValidShares(
+                String(collection.organizationId),
+                String(collection.ownerId),
+                payload.sharedWith,
+            );
+        }
+
+        const updated = await collectionDao.updateById(id, payload as any);
+        if (!updated) throw collectionNotFound();
+        return { collection: presentCollection(updated, access) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection update failed');
+        err.status = 500;
+        err.code = 'COLLECTION_UPDATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Delete a collection; the assets it references are untouched
+ */
+async function deleteCollection(id: string, auth: any) {
+    try {
+        await findAccessible(id, auth, 'manage');
+        const deleted = await collectionDao.deleteById(id);
+        if (!deleted) throw collectionNotFound();
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection delete failed');
+        err.status = 500;
+        err.code = 'COLLECTION_DELETE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Add assets to a collection. Assets already in it are left where they are.
+ * @param payload - Asset IDs and an optional insert position
+ */
+async function addItems(id: string, payload: AddCollectionItemsInput, auth: any) {
+    try {
+        const { collection } = await findAccessible(id, auth, 'edit');
+        assertManual(collection);
+
+        const present = new Set(collection.items.map((item: any) => String(item.assetId)));
+        const newIds = payload.assetIds.filter((assetId) => !present.has(assetId));
+        if (newIds.length > 0) {
+            if (collection.items.length + newIds.length > COLLECTION_MAX_ITEMS) {
+                throw collectionError(
+                    400,
+                    'COLLECTION_FULL',
+                    `A collection holds at most ${COLLECTION_MAX_ITEMS} assets`,
+                );
+            }
+            await loadAddableAssets(newIds, String(collection.organizationId), auth);
+
+            const now = new Date();
+            const addedBy = String(auth.userId);
+            const items: any[] = collection.items.map((item: any) => item.toObject());
+            const position = Math.min(payload.position ?? items.length, items.length);
+            items.splice(
+                position,
+                0,
+                ...newIds.map((assetId) => ({ assetId, addedBy, addedAt: now })),
+            );
+
+            const updated = await collectionDao.replaceItems(id, items, collection.updatedAt);
+            if (!updated) throw collectionConflict();
+        }
+
+        return await getCollection(id, auth);
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection item add failed');
+        err.status = 500;
+        err.code = 'COLLECTION_ITEM_ADD_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Remove an asset from a collection
+ */
+async function removeItem(id: string, assetId: string, auth: any) {
+    try {
+        const { collection } = await findAccessible(id, auth, 'edit');
+        assertManual(collection);
+        const updated = await collectionDao.removeItem(id, assetId);
+        if (!updated) {
+            throw collectionError(
+                404,
+                'COLLECTION_ITEM_NOT_FOUND',
+                'Asset is not in this collection',
+            );
+        }
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection item remove failed');
+        err.status = 500;
+        err.code = 'COLLECTION_ITEM_REMOVE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Reorder collection items. The listed assets are placed, in the given order,
+ * into the positions they currently occupy; unlisted items do not move, so a
+ * caller who cannot see every item can still reorder the ones they see.
+ */
+async function reorderItems(id: string, payload: ReorderCollectionItemsInput, auth: any) {
+    try {
+        const { collection } = await findAccessible(id, auth, 'edit');
+        assertManual(collection);
+
+        const items: any[] = collection.items.map((item: any) => item.toObject());
+        const indexById = new Map(items.map((item, index) => [String(item.assetId), index]));
+        const unknown = payload.assetIds.filter((assetId) => !indexById.has(assetId));
+        if (unknown.length > 0) {
+            const err = collectionError(
+                400,
+                'COLLECTION_ITEM_NOT_FOUND',
+                'Some assets are not in this collection',
+            );
+            err.details = { assetIds: unknown };
+            throw err;
+        }
+
+        const slots = payload.assetIds
+            .map((assetId) => indexById.get(assetId)!)
+            .sort((a, b) => a - b);
+        const moved = payload.assetIds.map((assetId) => items[indexById.get(assetId)!]);
+        const reordered = [...items];
+        slots.forEach((slot, index) => {
+            reordered[slot] = moved[index];
+        });
+
+        const updated = await collectionDao.replaceItems(id, reordered, collection.updatedAt);
+        if (!updated) throw collectionConflict();
+
+        return await getCollection(id, auth);
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Collection reorder failed');
+        err.status = 500;
+        err.code = 'COLLECTION_REORDER_ERROR';
+        throw err;
+    }
+}
+
+const service = {
+    createCollection,
+    listCollections,
+    getCollection,
+    updateCollection,
+    deleteCollection,
+    addItems,
+    removeItem,
+    reorderItems,
+};
+export = service;
@@ -0,0 +1,333 @@
+/**
+ * Invitation Service (TypeScript)
+ *
+ * Invites an email address into an organization with a role set. The invite token
+ * is a signed, expiring JWT pointing at the invitation record; accepting it with a
+ * matching account creates the membership.
+ */
+
+import jwt from 'jsonwebtoken';
+import invitationDao from '../dao/invitation.dao';
+import membershipDao from '../dao/membership.dao';
+import organizationDao from '../dao/organization.dao';
+import userDao from '../dao/user.dao';
+import membershipService from './membership.service';
+import { getNotifier } from '../config/notifier';
+
+require('dotenv').config();
+
+const INVITATION_TTL_SECONDS = isNaN(Number(process.env.INVITATION_TTL_SECONDS))
+    ? 7 * 24 * 60 * 60
+    : Number(process.env.INVITATION_TTL_SECONDS);
+const INVITATION_AUDIENCE = 'dam.invitations';
+const ALGORITHM = 'HS256';
+
+function invitationError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function getInvitationSecret(): string {
+    const secret = process.env.INVITATION_TOKEN_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+        throw invitationError(
+            500,
+            'MISSING_JWT_SECRET',
+            'Invitation token secret is not configured',
+        );
+    }
+    return secret;
+}
+
+/**
+ * Sign an invite token bound to the invitation's email and roles
+ */
+function signInvitationToken(invitation: any): string {
+    const expiresIn = Math.max(
+        1,
+        Math.floor((new Date(invitation.expiresAt).getTime() - Date.now()) / 1000),
+    );
+    return jwt.sign(
+        {
+            org: String(invitation.organizationId),
+            email: invitation.email,
+            roles: invitation.roles,
+        },
+        getInvitationSecret(),
+        {
+            algorithm: ALGORITHM,
+            subject: String(invitation._id),
+            audience: INVITATION_AUDIENCE,
+            expiresIn,
+        },
+    );
+}
+
+/**
+ * Verify an invite token and return its payload
+ */
+function verifyInvitationToken(token: string): any {
+    try {
+        return jwt.verify(token, getInvitationSecret(), {
+            algorithms: [ALGORITHM],
+            audience: INVITATION_AUDIENCE,
+        });
+    } catch (error: any) {
+        if (error?.name === 'TokenExpiredError') {
+            throw invitationError(410, 'INVITATION_EXPIRED', 'Invitation has expired');
+        }
+        throw invitationError(400, 'INVALID_INVITATION_TOKEN', 'Invalid invitation token');
+    }
+}
+
+function presentInvitation(invitation: any) {
+    const i = typeof invitation.toJSON === 'function' ? invitation.toJSON() : invitation;
+    return {
+        id: String(i._id),
+        organizationId: String(i.organizationId),
+        email: i.email,
+        roles: i.roles,
+        status: i.status,
+        invitedBy: String(i.invitedBy),
+        expiresAt: i.expiresAt,
+        isExpired: i.status === 'pending' && new Date(i.expiresAt).getTime() <= Date.now(),
+        acceptedBy: i.acceptedBy ? String(i.acceptedBy) : null,
+        acceptedAt: i.acceptedAt ?? null,
+        revokedAt: i.revokedAt ?? null,
+        createdAt: i.createdAt,
+    };
+}
+
+/**
+ * Create an invitation, superseding any pending one for the same email, and
+ * hand it to the notifier
+ * @param organizationId - Organization ID
+ * @param payload - Invitee email, optional roles and lifetime
+ * @param auth - Authentication context (roles resolved for this organization)
+ * @returns Invitation, its token and whether delivery succeeded
+ */
+async function createInvitation(
+    organizationId: string,
+    payload: { email: string; roles?: string[]; expiresInSeconds?: number },
+    auth: any,
+) {
+    try {
+        const org: any = await organizationDao.findById(organizationId);
+        if (!org) throw invitationError(404, 'ORG_NOT_FOUND', 'Organization not found');
+
+        const email = payload.email.toLowerCase().trim();
+        const existingUser = await userDao.findByEmail(email);
+        if (existingUser) {
+            const member = await membershipDao.findActive(String(existingUser._id), organizationId);
+            if (member) {
+                throw invitationError(
+                    409,
+                    'MEMBERSHIP_EXISTS',
+                    'User is already a member of this organization',
+                );
+            }
+        }
+
+        const roles = payload.roles?.length
+            ? payload.roles
+            : await membershipService.defaultRoles(organizationId);
+        await membershipService.assertValidRoles(organizationId, roles);
+        if (roles.includes('owner') && !auth.roles?.includes('owner')) {
+            throw invitationError(
+                403,
+                'INSUFFICIENT_PERMISSIONS',
+                'Only owners can grant or revoke the owner role',
+            );
+        }
+        await membershipService.assertGrantableRoles(organizationId, roles, auth);
+
+        await invitationDao.revokePendingForEmail(organizationId, email);
+
+        const ttl = payload.expiresInSeconds ?? INVITATION_TTL_SECONDS;
+        const invitation = await invitationDao.createInvitation({
+            organizationId,
+            email,
+            roles,
+            status: 'pending',
+            invitedBy: auth.userId,
+            expiresAt: new Date(Date.now() + ttl * 1000),
+        } as any);
+
+        const token = signInvitationToken(invitation);
+
+        let delivered = true;
+        try {
+            await getNotifier().send({
+                type: 'organization.invitation',
+                to: email,
+                subject: `You have been invited to join ${org.name}`,
+                text:
+                    `You have been invited to join ${org.name} as ${roles.join(', ')}.\n` +
+                    `Accept with: POST /api/v1/invitations/${token}/accept\n` +
+                    `This invitation expires at ${invitation.expiresAt.toISOString()}.`,
+                data: {
+                    invitationId: String(invitation._id),
+                    organizationId,
+                    roles,
+                    token,
+                    expiresAt: invitation.expiresAt,
+                },
+            });
+        } catch (error: any) {
+            // The invitation stays valid; the token is returned to the inviter either way
+            delivered = false;
+            console.error('Invitation delivery failed:', error?.message || error);
+        }
+
+        return { invitation: presentInvitation(invitation), token, delivered };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Invitation create failed');
+        err.status = 500;
+        err.code = 'INVITATION_CREATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List invitations of an organization
+ */
+async function listInvitations(
+    organizationId: string,
+    query: { status?: any; email?: string; page?: number; limit?: number },
+) {
+    try {
+        const { invitations, total } = await invitationDao.list(
+            { organizationId, status: query.status, email: query.email },
+            { page: query.page, limit: query.limit },
+        );
+        return { invitations: invitations.map(presentInvitation), total };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Invitation list failed');
+        err.status = 500;
+        err.code = 'INVITATION_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Revoke a pending invitation
+ */
+async function revokeInvitation(organizationId: string, invitationId: string) {
+    try {
+        const invitation = await invitationDao.findById(invitationId);
+        if (!invitation || String(invitation.organizationId) !== organizationId) {
+            throw invitationError(404, 'INVITATION_NOT_FOUND', 'Invitation not found');
+        }
+
+        const revoked = await invitationDao.transitionFromPending(invitationId, {
+            status: 'revoked',
+            revokedAt: new Date(),
+        } as any);
+        if (!revoked) {
+            throw invitationError(409, 'INVITATION_NOT_PENDING', 'Invitation is no longer pending');
+        }
+        return { invitation: presentInvitation(revoked) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Invitation revoke failed');
+        err.status = 500;
+        err.code = 'INVITATION_REVOKE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Accept an invitation as the authenticated user and create the membership
+ * @param token - Invite token
+ * @param auth - Authentication context; its email must match the invitation
+ */
+async function acceptInvitation(token: string, auth: any) {
+    try {
+        const payload = verifyInvitationToken(token);
+        const invitation = await invitationDao.findById(String(payload.sub));
+        if (!invitation) {
+            throw invitationError(404, 'INVITATION_NOT_FOUND', 'Invitation not found');
+        }
+        if (invitation.status === 'revoked') {
+            throw invitationError(410, 'INVITATION_REVOKED', 'Invitation has been revoked');
+        }
+        if (invitation.status !== 'pending') {
+            throw invitationError(409, 'INVITATION_NOT_PENDING', 'Invitation is no longer pending');
+        }
+        if (invitation.expiresAt.getTime() <= Date.now()) {
+            throw invitationError(410, 'INVITATION_EXPIRED', 'Invitation has expired');
+        }
+        if (String(auth.email).toLowerCase() !== invitation.email) {
+            throw invitationError(
+                403,
+                'INVITATION_EMAIL_MISMATCH',
+                'Invitation was issued to a different email address',
+            );
+        }
+
+        const userId = String(auth.userId);
+        const organizationId = String(invitation.organizationId);
+        const org: any = await organizationDao.findById(organizationId);
+        if (!org) throw invitationError(404, 'ORG_NOT_FOUND', 'Organization not found');
+
+        const existing = await membershipDao.findByUserAndOrganization(userId, organizationId);
+        if (existing?.status === 'active') {
+            throw invitationError(
+                409,
+                'MEMBERSHIP_EXISTS',
+                'User is already a member of this organization',
+            );
+        }
+
+        // Claim the invitation first so it cannot be accepted twice
+        const claimed = await invitationDao.transitionFromPending(String(invitation._id), {
+            status: 'accepted',
+            acceptedBy: userId,
+            acceptedAt: new Date(),
+        } as any);
+        if (!claimed) {
+            throw invitationError(409, 'INVITATION_NOT_PENDING', 'Invitation is no longer pending');
+        }
+
+        const membershipData = {
+            roles: invitation.roles,
+            status: 'active',
+            invitedBy: invitation.invitedBy,
+            joinedAt: new Date(),
+        } as any;
+        const membership = existing
+            ? await membershipDao.updateByUserAndOrganization(
+                  userId,
+                  organizationId,
+                  membershipData,
+              )
+            : await membershipDao.createMembership({ userId, organizationId, ...membershipData });
+
+        if (!auth.organizationId) {
+            await userDao.setActiveOrganizationById(userId, organizationId);
+        }
+
+        return {
+            membership: membershipService.presentMembership(membership),
+            organization: { id: organizationId, name: org.name },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Invitation accept failed');
+        err.status = 500;
+        err.code = 'INVITATION_ACCEPT_ERROR';
+        throw err;
+    }
+}
+
+const service = {
+    createInvitation,
+    listInvitations,
+    revokeInvitation,
+    acceptInvitation,
+};
+export = service;
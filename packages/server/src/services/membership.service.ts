@@ -0,0 +1,410 @@
+/**
+ * Membership Service (TypeScript)
+ *
+ * Organization membership: which organizations a user belongs to, the roles held
+ * in each, and which one is currently active.
+ */
+
+import membershipDao from '../dao/membership.dao';
+import organizationDao from '../dao/organization.dao';
+import roleDao from '../dao/role.dao';
+import userDao from '../dao/user.dao';
+import permissionService from './permission.service';
+import { PERMISSIONS, hasPermission } from '../utils/constant/permissions';
+import { sanitizeUser } from '../utils/sanitize';
+
+function membershipNotFound(): any {
+    const err: any = new Error('Membership not found');
+    err.status = 404;
+    err.code = 'MEMBERSHIP_NOT_FOUND';
+    return err;
+}
+
+function userNotFound(): any {
+    const err: any = new Error('User not found');
+    err.status = 404;
+    err.code = 'USER_NOT_FOUND';
+    return err;
+}
+
+function ownerProtected(): any {
+    const err: any = new Error('The organization owner cannot be removed or lose the owner role');
+    err.status = 409;
+    err.code = 'ORG_OWNER_PROTECTED';
+    return err;
+}
+
+function ownerRequired(): any {
+    const err: any = new Error('Only owners can grant or revoke the owner role');
+    err.status = 403;
+    err.code = 'INSUFFICIENT_PERMISSIONS';
+    return err;
+}
+
+/**
+ * Shape a membership (with populated user or organization) for API responses
+ */
+function presentMembership(membership: any) {
+    const m = typeof membership.toJSON === 'function' ? membership.toJSON() : membership;
+    const user = m.userId && m.userId.email ? sanitizeUser(m.userId) : undefined;
+    const userId = user ? user.id : String(m.userId);
+    return {
+        id: String(m._id),
+        userId,
+        ...(user && { user }),
+        organizationId: String(m.organizationId?._id ?? m.organizationId),
+        roles: m.roles,
+        status: m.status,
+        invitedBy: m.invitedBy ? String(m.invitedBy) : null,
+        joinedAt: m.joinedAt,
+        createdAt: m.createdAt,
+    };
+}
+
+/**
+ * Ensure every role name is a built-in template or a role defined in the organization
+ */
+async function assertValidRoles(organizationId: string, roles: string[]): Promise<void> {
+    const customNames = roles.filter((name) => !permissionService.isRoleTemplate(name));
+    if (customNames.length === 0) return;
+
+    const found = await roleDao.findByNames(organizationId, customNames);
+    const foundNames = new Set(found.map((role) => role.name));
+    const unknown = customNames.filter((name) => !foundNames.has(name));
+    if (unknown.length > 0) {
+        const err: any = new Error(`Unknown role(s): ${unknown.join(', ')}`);
+        err.status = 400;
+        err.code = 'INVALID_ROLE';
+        err.details = { roles: unknown };
+        throw err;
+    }
+}
+
+/**
+ * Ensure the caller holds every permission carried by the given roles.
+ * Callers with `org:admin` pass; the owner role is checked separately.
+ * @param organizationId - Organization the roles belong to
+ * @param roles - Role names being granted or taken away
+ * @param auth - Authentication context (permissions resolved for this organization)
+ * @param message - Error message when a permission is missing
+ */
+async function assertHeldRolePermissions(
+    organizationId: string,
+    roles: string[],
+    auth: any,
+    message: string,
+): Promise<void> {
+    const held: string[] = auth.permissions || [];
+    if (roles.length === 0 || hasPermission(held, PERMISSIONS.ORG_ADMIN)) return;
+
+    const carried = await permissionService.permissionsForRoles(organizationId, roles);
+    const missing = carried.filter((permission) => !held.includes(permission));
+    if (missing.length > 0) {
+        const err: any = new Error(message);
+        err.status = 403;
+        err.code = 'INSUFFICIENT_PERMISSIONS';
+        err.details = { permissions: missing };
+        throw err;
+    }
+}
+
+/**
+ * Ensure the caller already holds every permission the roles would grant
+ */
+async function assertGrantableRoles(
+    organizationId: string,
+    roles: string[],
+    auth: any,
+): Promise<void> {
+    await assertHeldRolePermissions(
+        organizationId,
+        roles,
+        auth,
+        'Cannot grant permissions you do not hold',
+    );
+}
+
+/**
+ * Ensure the caller holds every permission of the roles being taken away,
+ * so members cannot demote or remove those with more access than themselves
+ */
+async function assertRevocableRoles(
+    organizationId: string,
+    roles: string[],
+    auth: any,
+): Promise<void> {
+    await assertHeldRolePermissions(
+        organizationId,
+        roles,
+        auth,
+        'Cannot revoke permissions you do not hold',
+    );
+}
+
+/**
+ * Roles given to a new member when none are requested
+ */
+async function defaultRoles(organizationId: string): Promise<string[]> {
+    const defaults = await roleDao.findDefaults(organizationId);
+    return defaults.length > 0 ? defaults.map((role) => role.name) : ['viewer'];
+}
+
+/**
+ * Record the creator of an organization as its owner and make it their active organization
+ * @param organizationId - Newly created organization ID
+ * @param userId - Creator user ID
+ */
+async function addOwner(organizationId: string, userId: string) {
+    try {
+        const membership = await membershipDao.createMembership({
+            userId,
+            organizationId,
+            roles: ['owner'],
+            status: 'active',
+            joinedAt: new Date(),
+        } as any);
+        await userDao.setActiveOrganizationById(userId, organizationId);
+        return { membership };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Owner membership create failed');
+        err.status = 500;
+        err.code = 'MEMBERSHIP_CREATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List the organizations the caller belongs to, flagging the active one
+ * @param auth - Authentication context
+ */
+async function listMyOrganizations(auth: any) {
+    try {
+        const memberships: any[] = await membershipDao.listByUser(String(auth.userId));
+        const organizations = memberships
+            .filter((m) => m.organizationId)
+            .map((m) => ({
+                organization: {
+                    id: String(m.organizationId._id),
+                    name: m.organizationId.name,
+                    status: m.organizationId.status,
+                },
+                roles: m.roles,
+                status: m.status,
+                joinedAt: m.joinedAt,
+                isActive: String(m.organizationId._id) === auth.organizationId,
+            }));
+        return { organizations, activeOrganizationId: auth.organizationId ?? null };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Organization list failed');
+        err.status = 500;
+        err.code = 'MEMBERSHIP_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Switch the caller's active organization
+ * @param auth - Authentication context
+ * @param organizationId - Organization to activate; the caller must be an active member
+ */
+async function switchActiveOrganization(auth: any, organizationId: string) {
+    try {
+        const userId = String(auth.userId);
+        const org = await organizationDao.findById(organizationId);
+        if (!org) {
+            const err: any = new Error('Organization not found');
+            err.status = 404;
+            err.code = 'ORG_NOT_FOUND';
+            throw err;
+        }
+
+        const membership = await membershipDao.findActive(userId, organizationId);
+        if (!membership) {
+            const err: any = new Error('Not an active member of this organization');
+            err.status = 403;
+            err.code = 'INSUFFICIENT_PERMISSIONS';
+            throw err;
+        }
+
+        await userDao.setActiveOrganizationById(userId, organizationId);
+        return { activeOrganizationId: organizationId, roles: membership.roles };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Active organization switch failed');
+        err.status = 500;
+        err.code = 'ACTIVE_ORG_SWITCH_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List members of an organization
+ */
+async function listMembers(
+    organizationId: string,
+    query: { status?: any; page?: number; limit?: number },
+) {
+    try {
+        const { memberships, total } = await membershipDao.listByOrganization(
+            organizationId,
+            { status: query.status },
+            { page: query.page, limit: query.limit },
+        );
+        return { members: memberships.map(presentMembership), total };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Member list failed');
+        err.status = 500;
+        err.code = 'MEMBER_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Add an existing user to an organization
+ * @param organizationId - Organization ID
+ * @param payload - `userId` or `email` of the user, optional role names
+ * @param auth - Authentication context (roles resolved for this organization)
+ */
+async function addMember(
+    organizationId: string,
+    payload: { userId?: string; email?: string; roles?: string[] },
+    auth: any,
+) {
+    try {
+        const user = payload.userId
+            ? await userDao.findById(payload.userId)
+            : await userDao.findByEmail(String(payload.email));
+        if (!user || user.status === 'deleted') throw userNotFound();
+        const userId = String(user._id);
+
+        const existing = await membershipDao.findByUserAndOrganization(userId, organizationId);
+        if (existing) {
+            const err: any = new Error('User is already a member of this organization');
+            err.status = 409;
+            err.code = 'MEMBERSHIP_EXISTS';
+            throw err;
+        }
+
+        const roles = payload.roles?.length ? payload.roles : await defaultRoles(organizationId);
+        await assertValidRoles(organizationId, roles);
+        if (roles.includes('owner') && !auth.roles?.includes('owner')) throw ownerRequired();
+        await assertGrantableRoles(organizationId, roles, auth);
+
+        const membership = await membershipDao.createMembership({
+            userId,
+            organizationId,
+            roles,
+            status: 'active',
+            invitedBy: auth.userId,
+            joinedAt: new Date(),
+        } as any);
+
+        // First organization joined becomes the active one
+        if (!user.organizationId) {
+            await userDao.setActiveOrganizationById(userId, organizationId);
+        }
+
+        return { member: presentMembership(membership) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Member add failed');
+        err.status = 500;
+        err.code = 'MEMBER_ADD_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Replace the roles a member holds in an organization
+ */
+async function updateMemberRoles(
+    organizationId: string,
+    userId: string,
+    roles: string[],
+    auth: any,
+) {
+    try {
+        const [org, membership] = await Promise.all([
+            organizationDao.findById(organizationId),
+            membershipDao.findByUserAndOrganization(userId, organizationId),
+        ]);
+        if (!membership) throw membershipNotFound();
+
+        await assertValidRoles(organizationId, roles);
+
+        const touchesOwner = roles.includes('owner') !== membership.roles.includes('owner');
+        if (touchesOwner && !auth.roles?.includes('owner')) throw ownerRequired();
+        await assertGrantableRoles(
+            organizationId,
+            roles.filter((name) => !membership.roles.includes(name)),
+            auth,
+        );
+        await assertRevocableRoles(
+            organizationId,
+            membership.roles.filter((name) => !roles.includes(name)),
+            auth,
+        );
+        if (!roles.includes('owner') && String(org?.ownerId) === userId) throw ownerProtected();
+
+        const updated = await membershipDao.updateByUserAndOrganization(userId, organizationId, {
+            roles,
+        } as any);
+        if (!updated) throw membershipNotFound();
+        return { member: presentMembership(updated) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Member update failed');
+        err.status = 500;
+        err.code = 'MEMBER_UPDATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Remove a member from an organization
+ */
+async function removeMember(organizationId: string, userId: string, auth: any) {
+    try {
+        const [org, membership] = await Promise.all([
+            organizationDao.findById(organizationId),
+            membershipDao.findByUserAndOrganization(userId, organizationId),
+        ]);
+        if (!membership) throw membershipNotFound();
+        if (String(org?.ownerId) === userId) throw ownerProtected();
+        if (membership.roles.includes('owner') && !auth.roles?.includes('owner')) {
+            throw ownerRequired();
+        }
+        await assertRevocableRoles(organizationId, membership.roles, auth);
+
+        await membershipDao.removeByUserAndOrganization(userId, organizationId);
+
+        const user = await userDao.findById(userId);
+        if (user && String(user.organizationId) === organizationId) {
+            await userDao.setActiveOrganizationById(userId, null);
+        }
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Member remove failed');
+        err.status = 500;
+        err.code = 'MEMBER_REMOVE_ERROR';
+        throw err;
+    }
+}
+
+const service = {
+    presentMembership,
+    assertValidRoles,
+    assertGrantableRoles,
+    defaultRoles,
+    addOwner,
+    listMyOrganizations,
+    switchActiveOrganization,
+    listMembers,
+    addMember,
+    updateMemberRoles,
+    removeMember,
+};
+export = service;
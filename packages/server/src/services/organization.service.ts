@@ -4,6 +4,9 @@
 
 import organizationDao from '../dao/organization.dao';
 import userDao from '../dao/user.dao';
+import membershipService from './membership.service';
+import permissionService from './permission.service';
+import auditService from './audit.service';
 
 function notFound(): any {
     const err: any = new Error('Organization not found');
@@ -25,9 +28,18 @@ async function create(payload: any, auth: any) {
             settings: payload.settings,
         } as any);
 
-        user.organizationId = org._id;
-        await user.save();
+        // Creator becomes the owner; the new organization becomes their active one
+        await membershipService.addOwner(String(org._id), userId);
 
+        await auditService.recordAudit(
+            {
+                action: 'organization.create',
+                organizationId: org._id,
+                target: { type: 'organization', id: org._id },
+                after: org,
+            },
+            auth,
+        );
         return { organization: org };
     } catch (error: any) {
         if (error.status) throw error;
@@ -52,10 +64,12 @@ async function getById(id: string) {
     }
 }
 
-async function list(query: { status?: string; page?: number; limit?: number }) {
+async function list(query: { status?: string; page?: number; limit?: number }, auth: any) {
     try {
+        // Only organizations the caller belongs to are listed
+        const ids = await permissionService.listOrganizationIds(String(auth.userId));
         const { organizations, total } = await organizationDao.list(
-            { status: query.status as any },
+            { status: query.status as any, ids },
             { page: query.page, limit: query.limit },
         );
         return { organizations, total };
@@ -68,10 +82,44 @@ async function list(query: { status?: string; page?: number; limit?: number }) {
     }
 }
 
-async function update(id: string, patch: any) {
+async function update(id: string, patch: any, auth: any) {
     try {
-        const updated = await organizationDao.updateById(id, patch);
+        const current: any = await organizationDao.findById(id);
+        if (!current) throw notFound();
+
+        // Settings are replaced as a whole, so keep the ones the patch leaves out
+        const currentSettings = current.toObject().settings || {};
+        const changes = patch.settings
+            ? {
+                  ...patch,
+                  settings: {
+                      ...currentSettings,
+                      ...patch.settings,
+                      featureFlags: {
+                          ...currentSettings.featureFlags,
+                          ...patch.settings.featureFlags,
+                      },
+                  },
+              }
+            : patch;
+
+        const updated: any = await organizationDao.updateById(id, changes);
         if (!updated) throw notFound();
+
+        const retentionDays = updated.settings?.auditRetentionDays;
+        if (retentionDays && retentionDays !== currentSettings.auditRetentionDays) {
+            await auditService.applyRetention(id, retentionDays);
+        }
+        await auditService.recordAudit(
+            {
+                action: 'organization.update',
+                organizationId: id,
+                target: { type: 'organization', id },
+                before: current,
+                after: updated,
+            },
+            auth,
+        );
         return { organization: updated };
     } catch (error: any) {
         if (error.status) throw error;
@@ -82,9 +130,21 @@ async function update(id: string, patch: any) {
     }
 }
 
-async function archive(id: string) {
+async function archive(id: string, auth: any) {
     try {
+        const current = await organizationDao.findById(id);
+        if (!current) throw notFound();
         await organizationDao.setStatus(id, 'archived');
+        await auditService.recordAudit(
+            {
+                action: 'organization.archive',
+                organizationId: id,
+                target: { type: 'organization', id },
+                before: { status: current.status },
+                after: { status: 'archived' },
+            },
+            auth,
+        );
     } catch (error: any) {
         if (error.status) throw error;
         const err: any = new Error('Organization archive failed');
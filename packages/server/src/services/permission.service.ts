@@ -0,0 +1,143 @@
+/**
+ * Permission Service (TypeScript)
+ *
+ * Resolves what a user may do inside an organization: which roles their
+ * membership holds and the union of permissions those roles grant.
+ */
+
+import membershipDao from '../dao/membership.dao';
+import organizationDao from '../dao/organization.dao';
+import roleDao from '../dao/role.dao';
+import { ROLE_TEMPLATES, hasPermission, type Permission } from '../utils/constant/permissions';
+
+interface OrganizationAccess {
+    organizationId: string;
+    isMember: boolean;
+    isOwner: boolean;
+    roles: string[];
+    permissions: string[];
+}
+
+function orgNotFound(): any {
+    const err: any = new Error('Organization not found');
+    err.status = 404;
+    err.code = 'ORG_NOT_FOUND';
+    return err;
+}
+
+function insufficientPermissions(permission?: string, organizationId?: string): any {
+    const err: any = new Error(
+        permission
+            ? `Missing permission '${permission}' in this organization`
+            : 'Insufficient permissions',
+    );
+    err.status = 403;
+    err.code = 'INSUFFICIENT_PERMISSIONS';
+    if (permission) err.details = { permission, organizationId };
+    return err;
+}
+
+function isRoleTemplate(name: string): name is keyof typeof ROLE_TEMPLATES {
+    return Object.prototype.hasOwnProperty.call(ROLE_TEMPLATES, name);
+}
+
+/**
+ * Union of the permissions granted by role names inside an organization.
+ * Built-in templates win over custom roles of the same name.
+ * @param organizationId - Organization the roles belong to
+ * @param roles - Role names held by the member
+ */
+async function permissionsForRoles(organizationId: string, roles: string[]): Promise<string[]> {
+    const permissions = new Set<string>();
+    const customNames = roles.filter((name) => !isRoleTemplate(name));
+
+    roles.filter(isRoleTemplate).forEach((name) => {
+        ROLE_TEMPLATES[name].forEach((p) => permissions.add(p));
+    });
+
+    if (customNames.length > 0) {
+        const customRoles = await roleDao.findByNames(organizationId, customNames);
+        customRoles.forEach((role) => role.permissions.forEach((p) => permissions.add(p)));
+    }
+
+    return Array.from(permissions);
+}
+
+/**
+ * Resolve the caller's roles and permissions inside an organization
+ * @param userId - Caller user ID
+ * @param organizationId - Target organization ID
+ * @returns Organization access (empty permissions when not a member)
+ */
+async function resolveAccess(userId: string, organizationId: string): Promise<OrganizationAccess> {
+    try {
+        const org: any = await organizationDao.findById(organizationId);
+        if (!org) throw orgNotFound();
+
+        const isOwner = String(org.ownerId) === String(userId);
+        const membership = await membershipDao.findActive(userId, organizationId);
+
+        const roles = membership ? [...membership.roles] : [];
+        // The recorded owner always holds the owner role, membership or not
+        if (isOwner && !roles.includes('owner')) roles.unshift('owner');
+
+        const isMember = isOwner || !!membership;
+        if (!isMember) {
+            return { organizationId, isMember, isOwner, roles: [], permissions: [] };
+        }
+
+        const permissions = await permissionsForRoles(organizationId, roles);
+        return { organizationId, isMember, isOwner, roles, permissions };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Permission resolution failed');
+        err.status = 500;
+        err.code = 'PERMISSION_RESOLVE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Resolve access and throw a 403 unless the permission is granted
+ * @returns The resolved organization access
+ */
+async function assertPermission(
+    userId: string,
+    organizationId: string,
+    permission: Permission,
+): Promise<OrganizationAccess> {
+    const access = await resolveAccess(userId, organizationId);
+    if (!hasPermission(access.permissions, permission)) {
+        throw insufficientPermissions(permission, organizationId);
+    }
+    return access;
+}
+
+/**
+ * List the IDs of every organization the user belongs to
+ * @param userId - User ID
+ */
+async function listOrganizationIds(userId: string): Promise<string[]> {
+    try {
+        const [memberOf, owned] = await Promise.all([
+            membershipDao.findOrganizationIdsByUser(userId),
+            organizationDao.findIdsByOwner(userId),
+        ]);
+        return Array.from(new Set([...memberOf, ...owned]));
+    } catch (error: any) {
+        const err: any = new Error('Organization membership lookup failed');
+        err.status = 500;
+        err.code = 'PERMISSION_RESOLVE_ERROR';
+        throw err;
+    }
+}
+
+const service = {
+    resolveAccess,
+    assertPermission,
+    listOrganizationIds,
+    permissionsForRoles,
+    isRoleTemplate,
+    insufficientPermissions,
+};
+export = service;
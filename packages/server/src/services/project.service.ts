@@ -6,6 +6,7 @@ import projectDao from '../dao/project.dao';
 import organizationDao from '../dao/organization.dao';
 import computeParentPath from '../utils/project.utils';
 import userDao from '../dao/user.dao';
+import auditService from './audit.service';
 
 function notFound(): any {
     const err: any = new Error('Project not found');
@@ -59,6 +60,15 @@ async function create(payload: any, auth: any) {
             ancestors: payload.ancestors ?? [],
             createdBy: userId,
         } as any);
+        await auditService.recordAudit(
+            {
+                action: 'project.create',
+                organizationId: payload.organizationId,
+                target: { type: 'project', id: project._id },
+                after: project,
+            },
+            auth,
+        );
         return { project };
     } catch (error: any) {
         if (error.status) throw error;
@@ -123,7 +133,7 @@ async function list(query: {
     }
 }
 
-async function update(id: string, patch: any) {
+async function update(id: string, patch: any, auth: any) {
     try {
         const current = await projectDao.findById(id);
         if (!current) throw notFound();
@@ -135,6 +145,16 @@ async function update(id: string, patch: any) {
         }
         const updated = await projectDao.updateById(id, patch);
         if (!updated) throw notFound();
+        await auditService.recordAudit(
+            {
+                action: 'project.update',
+                organizationId: current.organizationId,
+                target: { type: 'project', id },
+                before: current,
+                after: updated,
+            },
+            auth,
+        );
         return { project: updated };
     } catch (error: any) {
         if (error.status) throw error;
@@ -145,9 +165,21 @@ async function update(id: string, patch: any) {
     }
 }
 
-async function softDelete(id: string) {
+async function softDelete(id: string, auth: any) {
     try {
+        const current = await projectDao.findById(id);
         await projectDao.softDeleteById(id);
+        if (current) {
+            await auditService.recordAudit(
+                {
+                    action: 'project.delete',
+                    organizationId: current.organizationId,
+                    target: { type: 'project', id },
+                    before: current,
+                },
+                auth,
+            );
+        }
     } catch (error: any) {
         if (error.status) throw error;
         const err: any = new Error('Project delete failed');
@@ -0,0 +1,269 @@
+/**
+ * Rendition Profile Service (TypeScript)
+ *
+ * Organizations decide which renditions the workers generate. Until an
+ * organization defines profiles of its own it uses DEFAULT_RENDITION_PROFILES;
+ * its first change copies those defaults in, so customizing one profile does not
+ * silently drop the others. Deleting every profile returns to the defaults.
+ */
+
+import renditionProfileDao from '../dao/renditionProfile.dao';
+import {
+    DEFAULT_RENDITION_PROFILES,
+    isVideoFormat,
+    type RenditionAssetType,
+    type RenditionProfileSpec,
+} from '../models/RenditionProfile.model';
+import type {
+    CreateRenditionProfileInput,
+    UpdateRenditionProfileInput,
+} from '../schemas/renditionProfile.schema';
+
+require('dotenv').config();
+
+const RENDITION_PROFILE_MAX_PER_ORG = Number(process.env.RENDITION_PROFILE_MAX_PER_ORG) || 20;
+
+function renditionProfileError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function renditionProfileNotFound(): any {
+    return renditionProfileError(404, 'RENDITION_PROFILE_NOT_FOUND', 'Rendition profile not found');
+}
+
+/**
+ * Reject combinations the workers cannot render
+ */
+function assertRenderable(spec: RenditionProfileSpec): void {
+    if (isVideoFormat(spec.format)) {
+        if (spec.assetTypes.some((type) => type !== 'video')) {
+            throw renditionProfileError(
+                400,
+                'INVALID_RENDITION_PROFILE',
+                `Format '${spec.format}' only applies to video assets`,
+            );
+        }
+        // H.264 and VP9 encoders need even frame dimensions
+        if (spec.width % 2 !== 0 || spec.height % 2 !== 0) {
+            throw renditionProfileError(
+                400,
+                'INVALID_RENDITION_PROFILE',
+                'Video renditions need an even width and height',
+            );
+        }
+    } else if (spec.bitrateKbps !== undefined) {
+        throw renditionProfileError(
+            400,
+            'INVALID_RENDITION_PROFILE',
+            'bitrateKbps only applies to video formats',
+        );
+    }
+}
+
+function toSpec(profile: any): RenditionProfileSpec {
+    return {
+        name: profile.name,
+        width: profile.width,
+        height: profile.height,
+        fit: profile.fit,
+        format: profile.format,
+        quality: profile.quality,
+        ...(profile.bitrateKbps ? { bitrateKbps: profile.bitrateKbps } : {}),
+        assetTypes: [...profile.assetTypes],
+    };
+}
+
+function presentProfile(profile: any) {
+    return {
+        id: String(profile._id),
+        ...toSpec(profile),
+        bitrateKbps: profile.bitrateKbps ?? null,
+        active: profile.active,
+        createdAt: profile.createdAt,
+        updatedAt: profile.updatedAt,
+    };
+}
+
+function presentDefault(spec: RenditionProfileSpec) {
+    return { id: null, ...spec, bitrateKbps: spec.bitrateKbps ?? null, active: true };
+}
+
+async function findOwnProfile(organizationId: string, profileId: string) {
+    const profile = await renditionProfileDao.findById(profileId);
+    if (!profile || String(profile.organizationId) !== organizationId) {
+        throw renditionProfileNotFound();
+    }
+    return profile;
+}
+
+/**
+ * Profiles of an organization, or the defaults it currently uses
+ */
+async function listProfiles(organizationId: string) {
+    try {
+        const profiles = await renditionProfileDao.listByOrganization(organizationId);
+        if (profiles.length === 0) {
+            return {
+                profiles: DEFAULT_RENDITION_PROFILES.map(presentDefault),
+                usingDefaults: true,
+            };
+        }
+        return { profiles: profiles.map(presentProfile), usingDefaults: false };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw renditionProfileError(
+            500,
+            'RENDITION_PROFILE_LIST_ERROR',
+            'Rendition profile list failed',
+        );
+    }
+}
+
+/**
+ * Add a profile; the first one of an organization also stores the defaults
+ */
+async function createProfile(
+    organizationId: string,
+    payload: CreateRenditionProfileInput,
+    auth: any,
+) {
+    try {
+        const { active, ...spec } = payload;
+        assertRenderable(spec);
+
+        let count = await renditionProfileDao.countByOrganization(organizationId);
+        if (count === 0) {
+            await renditionProfileDao.insertMissing(
+                organizationId,
+                DEFAULT_RENDITION_PROFILES.filter((d) => d.name !== spec.name),
+            );
+            count = await renditionProfileDao.countByOrganization(organizationId);
+        }
+        if (count >= RENDITION_PROFILE_MAX_PER_ORG) {
+            throw renditionProfileError(
+                409,
+                'RENDITION_PROFILE_LIMIT_REACHED',
+                `Organizations can have at most ${RENDITION_PROFILE_MAX_PER_ORG} rendition profiles`,
+            );
+        }
+
+        const profile = await renditionProfileDao.createProfile({
+            organizationId,
+            ...spec,
+            active: active ?? true,
+            createdBy: String(auth.userId),
+        } as any);
+        return { profile: presentProfile(profile) };
+    } catch (error: any) {
+        if (error.code === 'DUPLICATE_KEY_ERROR') {
+            throw renditionProfileError(
+                409,
+                'RENDITION_PROFILE_EXISTS',
+                `A rendition profile named '${payload.name}' already exists`,
+            );
+        }
+        if (error.status) throw error;
+        throw renditionProfileError(
+            500,
+            'RENDITION_PROFILE_CREATE_ERROR',
+            'Rendition profile create failed',
+        );
+    }
+}
+
+async function getProfile(organizationId: string, profileId: string) {
+    try {
+        const profile = await findOwnProfile(organizationId, profileId);
+        return { profile: presentProfile(profile) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw renditionProfileError(
+            500,
+            'RENDITION_PROFILE_FETCH_ERROR',
+            'Rendition profile fetch failed',
+        );
+    }
+}
+
+/**
+ * Change a profile; renditions already generated keep their previous settings
+ */
+async function updateProfile(
+    organizationId: string,
+    profileId: string,
+    payload: UpdateRenditionProfileInput,
+) {
+    try {
+        const current = await findOwnProfile(organizationId, profileId);
+        const { bitrateKbps, ...changes } = payload;
+        const merged = { ...toSpec(current), ...changes } as RenditionProfileSpec;
+        if (bitrateKbps === null) delete merged.bitrateKbps;
+        else if (bitrateKbps !== undefined) merged.bitrateKbps = bitrateKbps;
+        assertRenderable(merged);
+
+        const updated = await renditionProfileDao.updateById(
+            profileId,
+            { ...changes, ...(bitrateKbps ? { bitrateKbps } : {}) },
+            bitrateKbps === null ? ['bitrateKbps'] : [],
+        );
+        if (!updated) throw renditionProfileNotFound();
+        return { profile: presentProfile(updated) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw renditionProfileError(
+            500,
+            'RENDITION_PROFILE_UPDATE_ERROR',
+            'Rendition profile update failed',
+        );
+    }
+}
+
+/**
+ * Remove a profile; renditions already generated from it stay on their assets
+ */
+async function deleteProfile(organizationId: string, profileId: string) {
+    try {
+        await findOwnProfile(organizationId, profileId);
+        await renditionProfileDao.deleteById(profileId);
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw renditionProfileError(
+            500,
+            'RENDITION_PROFILE_DELETE_ERROR',
+            'Rendition profile delete failed',
+        );
+    }
+}
+
+/**
+ * Active profiles the workers render for an asset type of an organization
+ * @returns Profile specs, empty when nothing applies
+ */
+async function resolveProfiles(
+    organizationId: string,
+    assetType: RenditionAssetType,
+): Promise<RenditionProfileSpec[]> {
+    const profiles = await renditionProfileDao.listByOrganization(organizationId, {
+        active: true,
+        assetType,
+    });
+    if (profiles.length > 0) return profiles.map(toSpec);
+
+    const stored = await renditionProfileDao.countByOrganization(organizationId);
+    if (stored > 0) return [];
+    return DEFAULT_RENDITION_PROFILES.filter((spec) => spec.assetTypes.includes(assetType));
+}
+
+const service = {
+    listProfiles,
+    createProfile,
+    getProfile,
+    updateProfile,
+    deleteProfile,
+    resolveProfiles,
+};
+
+export = service;
@@ -3,6 +3,8 @@
  */
 
 import roleDao from '../dao/role.dao';
+import auditService from './audit.service';
+import { PERMISSIONS, hasPermission } from '../utils/constant/permissions';
 
 function notFound(): any {
     const e: any = new Error('Role not found');
@@ -11,8 +13,28 @@ function notFound(): any {
     return e;
 }
 
-async function create(payload: any) {
+/**
+ * Refuse role permissions the caller does not hold, so role edits cannot escalate
+ * @param permissions - Permissions the role would carry
+ * @param auth - Authentication context (permissions resolved for the role's organization)
+ */
+function assertHeldPermissions(permissions: string[] | undefined, auth: any): void {
+    const held: string[] = auth.permissions || [];
+    if (!permissions?.length || hasPermission(held, PERMISSIONS.ORG_ADMIN)) return;
+
+    const missing = permissions.filter((permission) => !held.includes(permission));
+    if (missing.length > 0) {
+        const e: any = new Error('Cannot give a role permissions you do not hold');
+        e.status = 403;
+        e.code = 'INSUFFICIENT_PERMISSIONS';
+        e.details = { permissions: missing };
+        throw e;
+    }
+}
+
+async function create(payload: any, auth: any) {
     try {
+        assertHeldPermissions(payload.permissions, auth);
         const role = await roleDao.createRole({
             organizationId: payload.organizationId,
             name: String(payload.name).trim(),
@@ -21,6 +43,15 @@ async function create(payload: any) {
             isSystemRole: !!payload.isSystemRole,
             isDefault: !!payload.isDefault,
         } as any);
+        await auditService.recordAudit(
+            {
+                action: 'role.create',
+                organizationId: role.organizationId,
+                target: { type: 'role', id: role._id },
+                after: role,
+            },
+            auth,
+        );
         return { role };
     } catch (error: any) {
         if (error.status) throw error;
@@ -61,10 +92,23 @@ async function list(query: { organizationId?: string; page?: number; limit?: num
     }
 }
 
-async function update(id: string, patch: any) {
+async function update(id: string, patch: any, auth: any) {
     try {
+        const current = await roleDao.findById(id);
+        if (!current) throw notFound();
+        assertHeldPermissions(patch.permissions, auth);
         const updated = await roleDao.updateById(id, patch);
         if (!updated) throw notFound();
+        await auditService.recordAudit(
+            {
+                action: 'role.update',
+                organizationId: updated.organizationId,
+                target: { type: 'role', id },
+                before: current,
+                after: updated,
+            },
+            auth,
+        );
         return { role: updated };
     } catch (error: any) {
         if (error.status) throw error;
@@ -75,9 +119,20 @@ async function update(id: string, patch: any) {
     }
 }
 
-async function remove(id: string) {
+async function remove(id: string, auth: any) {
     try {
+        const current = await roleDao.findById(id);
+        if (!current) throw notFound();
         await roleDao.removeById(id);
+        await auditService.recordAudit(
+            {
+                action: 'role.delete',
+                organizationId: current.organizationId,
+                target: { type: 'role', id },
+                before: current,
+            },
+            auth,
+        );
     } catch (error: any) {
         if (error.status) throw error;
         const e: any = new Error('Role delete failed');
@@ -0,0 +1,298 @@
+/**
+ * Saved Search Service (TypeScript)
+ *
+ * Named asset list queries. A saved search stores the filters of GET /assets and
+ * is re-run through `assetService.list` every time it is read, so its results,
+ * and the smart collections built on it, always follow the current assets. The
+ * caller's own access decides which matches they see.
+ */
+
+import savedSearchDao from '../dao/savedSearch.dao';
+import collectionDao from '../dao/collection.dao';
+import assetService from './asset.service';
+import { parseAssetQuery } from '../utils/assetQuery';
+import { PERMISSIONS } from '../utils/constant/permissions';
+import type { ListAssetsQuery } from '../schemas/asset.schema';
+import type {
+    CreateSavedSearchInput,
+    UpdateSavedSearchInput,
+    RunSavedSearchQuery,
+    SavedSearchSummaryQuery,
+} from '../schemas/savedSearch.schema';
+
+type SavedSearchAccess = 'owner' | 'admin' | 'view';
+
+interface MatchOptions {
+    page: number;
+    limit: number;
+    cursor?: ListAssetsQuery['cursor'];
+    sortBy?: ListAssetsQuery['sortBy'];
+    sortOrder?: ListAssetsQuery['sortOrder'];
+}
+
+function savedSearchError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function savedSearchNotFound(): any {
+    return savedSearchError(404, 'SAVED_SEARCH_NOT_FOUND', 'Saved search not found');
+}
+
+/**
+ * The caller's access to a saved search, or null if they cannot see it. User-scoped
+ * searches stay private to their owner, even for organization admins.
+ */
+function accessOf(savedSearch: any, auth: any): SavedSearchAccess | null {
+    if (String(savedSearch.organizationId) !== String(auth.organizationId)) return null;
+    if (String(savedSearch.ownerId) === String(auth.userId)) return 'owner';
+    if (savedSearch.scope !== 'organization') return null;
+    return (auth.permissions || []).includes(PERMISSIONS.ORG_ADMIN) ? 'admin' : 'view';
+}
+
+/**
+ * Load a saved search and check the caller's access to it
+ * @param level - 'view' to read and run it, 'manage' to change or delete it
+ */
+async function findAccessible(id: string, auth: any, level: 'view' | 'manage') {
+    const savedSearch = await savedSearchDao.findById(id);
+    if (!savedSearch) throw savedSearchNotFound();
+
+    const access = accessOf(savedSearch, auth);
+    if (!access) throw savedSearchNotFound();
+    if (level === 'manage' && access === 'view') {
+        throw savedSearchError(
+            403,
+            'INSUFFICIENT_PERMISSIONS',
+            'Only the owner or an organization admin can change this saved search',
+        );
+    }
+    return { savedSearch, access };
+}
+
+function presentSavedSearch(savedSearch: any, access: SavedSearchAccess | null) {
+    const s = typeof savedSearch.toJSON === 'function' ? savedSearch.toJSON() : savedSearch;
+    const filters = s.filters || {};
+    return {
+        id: String(s._id),
+        organizationId: String(s.organizationId),
+        name: s.name,
+        description: s.description ?? null,
+        ownerId: String(s.ownerId),
+        scope: s.scope,
+        filters: {
+            q: filters.q,
+            search: filters.search,
+            projectId: filters.projectId ? String(filters.projectId) : undefined,
+            assetType: filters.assetType,
+            status: filters.status,
+            access: filters.access,
+            tags: filters.tags,
+            sortBy: filters.sortBy,
+            sortOrder: filters.sortOrder,
+        },
+        access,
+        createdAt: s.createdAt,
+        updatedAt: s.updatedAt,
+    };
+}
+
+/**
+ * Run a saved search's filters through `assetService.list` as the caller. Visibility
+ * of the saved search itself is not checked, so smart collections shared with
+ * other members can use it; the caller still only sees assets they can access.
+ * @param savedSearch - Saved search document
+ * @param options - Paging, and optionally a sort overriding the stored one
+ * @param auth - Authentication context (organization of the saved search)
+ * @returns Assets and pagination, as returned by `assetService.list`
+ */
+async function matchAssets(savedSearch: any, options: MatchOptions, auth: any) {
+    const filters = savedSearch.filters || {};
+    const query: ListAssetsQuery = {
+        organizationId: String(savedSearch.organizationId),
+        projectId: filters.projectId ? String(filters.projectId) : undefined,
+        assetType: filters.assetType,
+        status: filters.status,
+        access: filters.access,
+        tags: filters.tags?.length ? [...filters.tags] : undefined,
+        search: filters.search,
+        // Stored as text so it always runs with the current grammar
+        q: filters.q ? parseAssetQuery(filters.q) : undefined,
+        page: options.page,
+        limit: options.limit,
+        cursor: options.cursor,
+        // Counts feed dashboards and smart collection sizes
+        includeTotal: true,
+        sortBy: options.sortBy ?? filters.sortBy ?? 'updatedAt',
+        sortOrder: options.sortOrder ?? filters.sortOrder ?? 'desc',
+    };
+    return assetService.list(query, auth);
+}
+
+/**
+ * Save a search owned by the caller
+ * @param payload - Name, scope and the asset list filters
+ * @param auth - Authentication context (permissions resolved for the target organization)
+ */
+async function createSavedSearch(payload: CreateSavedSearchInput, auth: any) {
+    try {
+        const savedSearch = await savedSearchDao.createSavedSearch({
+            organizationId: auth.organizationId,
+            ownerId: auth.userId,
+            name: payload.name,
+            description: payload.description,
+            scope: payload.scope,
+            filters: payload.filters,
+        } as any);
+
+        return { savedSearch: presentSavedSearch(savedSearch, 'owner') };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_CREATE_ERROR', 'Saved search create failed');
+    }
+}
+
+/**
+ * List the caller's own saved searches and the organization-scoped ones
+ */
+async function listSavedSearches(
+    query: { scope?: 'user' | 'organization'; search?: string; page?: number; limit?: number },
+    auth: any,
+) {
+    try {
+        const { savedSearches, total } = await savedSearchDao.list(
+            {
+                organizationId: String(auth.organizationId),
+                visibleTo: String(auth.userId),
+                scope: query.scope,
+                search: query.search,
+            },
+            { page: query.page, limit: query.limit },
+        );
+        return {
+            savedSearches: savedSearches.map((savedSearch) =>
+                presentSavedSearch(savedSearch, accessOf(savedSearch, auth)),
+            ),
+            total,
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_LIST_ERROR', 'Saved search list failed');
+    }
+}
+
+async function getSavedSearch(id: string, auth: any) {
+    try {
+        const { savedSearch, access } = await findAccessible(id, auth, 'view');
+        return { savedSearch: presentSavedSearch(savedSearch, access) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_GET_ERROR', 'Saved search get failed');
+    }
+}
+
+/**
+ * Rename, re-scope or change the filters of a saved search. Only the owner can
+ * make a personal search organization-wide, or the reverse.
+ */
+async function updateSavedSearch(id: string, payload: UpdateSavedSearchInput, auth: any) {
+    try {
+        const { savedSearch, access } = await findAccessible(id, auth, 'manage');
+        if (payload.scope && payload.scope !== savedSearch.scope && access !== 'owner') {
+            throw savedSearchError(
+                403,
+                'INSUFFICIENT_PERMISSIONS',
+                'Only the owner can change the scope of a saved search',
+            );
+        }
+
+        const updated = await savedSearchDao.updateById(id, payload as any);
+        if (!updated) throw savedSearchNotFound();
+        return { savedSearch: presentSavedSearch(updated, access) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_UPDATE_ERROR', 'Saved search update failed');
+    }
+}
+
+/**
+ * Delete a saved search, unless smart collections are built on it
+ */
+async function deleteSavedSearch(id: string, auth: any) {
+    try {
+        await findAccessible(id, auth, 'manage');
+
+        const collections = await collectionDao.countBySavedSearch(id);
+        if (collections > 0) {
+            const err = savedSearchError(
+                409,
+                'SAVED_SEARCH_IN_USE',
+                'Saved search is used by smart collections; delete them first',
+            );
+            err.details = { collections };
+            throw err;
+        }
+
+        const deleted = await savedSearchDao.deleteById(id);
+        if (!deleted) throw savedSearchNotFound();
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_DELETE_ERROR', 'Saved search delete failed');
+    }
+}
+
+/**
+ * Run a saved search
+ * @returns The saved search, a page of matching assets and pagination
+ */
+async function runSavedSearch(id: string, query: RunSavedSearchQuery, auth: any) {
+    try {
+        const { savedSearch, access } = await findAccessible(id, auth, 'view');
+        const { assets, pagination } = await matchAssets(
+            savedSearch,
+            { page: query.page, limit: query.limit, cursor: query.cursor },
+            auth,
+        );
+        return { savedSearch: presentSavedSearch(savedSearch, access), assets, pagination };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_RUN_ERROR', 'Saved search run failed');
+    }
+}
+
+/**
+ * Count the matches of a saved search and return the newest ones, for dashboards
+ */
+async function summarizeSavedSearch(id: string, query: SavedSearchSummaryQuery, auth: any) {
+    try {
+        const { savedSearch, access } = await findAccessible(id, auth, 'view');
+        const { assets, pagination } = await matchAssets(
+            savedSearch,
+            { page: 1, limit: query.newest, sortBy: 'createdAt', sortOrder: 'desc' },
+            auth,
+        );
+        return {
+            savedSearch: presentSavedSearch(savedSearch, access),
+            count: pagination.total,
+            newest: assets,
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw savedSearchError(500, 'SAVED_SEARCH_RUN_ERROR', 'Saved search run failed');
+    }
+}
+
+const service = {
+    createSavedSearch,
+    listSavedSearches,
+    getSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    runSavedSearch,
+    summarizeSavedSearch,
+    findAccessible,
+    matchAssets,
+};
+export = service;
@@ -0,0 +1,190 @@
+/**
+ * Search Service (TypeScript)
+ *
+ * Full-text asset search backed by the `asset_text_search` index. MongoDB ranks
+ * the matches; this layer scopes them to what the caller may see and marks up
+ * where each term was found so clients can show highlighted snippets.
+ */
+
+import assetDao, { SEARCH_SORT_KEYS } from '../dao/asset.dao';
+import { PERMISSIONS } from '../utils/constant/permissions';
+import { matchesSort } from '../utils/cursor';
+import type { SearchAssetsQuery } from '../schemas/search.schema';
+
+// Characters of extracted document text shown around the first match
+const SNIPPET_LENGTH = 160;
+const MAX_HIGHLIGHTS_PER_ASSET = 5;
+
+interface SearchHighlight {
+    field: string;
+    snippet: string;
+    matches: [number, number][];
+}
+
+function searchError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+/**
+ * Split a query into the words and phrases to highlight, following MongoDB
+ * `$text` syntax: "quoted phrases", plain words, and -negated terms (skipped)
+ * @param q - Search query
+ */
+function parseTerms(q: string): string[] {
+    const terms = new Set<string>();
+    const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(q)) !== null) {
+        const negated = match[1] || match[3];
+        const term = (match[2] ?? match[4]).replace(/"/g, '').trim().toLowerCase();
+        if (!negated && term) terms.add(term);
+    }
+    return Array.from(terms);
+}
+
+/**
+ * Build a matcher for terms at the start of a word, so stemmed matches such as
+ * "running" for "run" are still marked
+ * @param terms - Parsed search terms
+ */
+function buildMatcher(terms: string[]): RegExp | null {
+    if (terms.length === 0) return null;
+    const escaped = terms
+        .sort((a, b) => b.length - a.length)
+        .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})`, 'giu');
+}
+
+function findMatches(text: string, matcher: RegExp): [number, number][] {
+    return Array.from(text.matchAll(matcher), (m) => [m.index!, m.index! + m[0].length]);
+}
+
+/**
+ * Cut a window of long text around its first match
+ * @param text - Full text
+ * @param matcher - Term matcher
+ */
+function snippetAround(text: string, matcher: RegExp): string | null {
+    const first = findMatches(text, matcher)[0];
+    if (!first) return null;
+    if (text.length <= SNIPPET_LENGTH) return text;
+
+    const start = Math.max(0, first[0] - Math.floor((SNIPPET_LENGTH - (first[1] - first[0])) / 2));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    const window = text.slice(start, end).replace(/\s+/g, ' ');
+    return `${start > 0 ? '…' : ''}${window}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Locate the query terms in the searchable fields of one asset
+ * @param asset - Asset returned by the search aggregation
+ * @param matcher - Term matcher
+ */
+function highlightAsset(asset: any, matcher: RegExp | null): SearchHighlight[] {
+    if (!matcher) return [];
+    const highlights: SearchHighlight[] = [];
+
+    const add = (field: string, snippet: string | null | undefined) => {
+        if (!snippet) return;
+        const matches = findMatches(snippet, matcher);
+        if (matches.length > 0) highlights.push({ field, snippet, matches });
+    };
+
+    add('originalFilename', asset.originalFilename);
+    if (asset.description) {
+        add('description', snippetAround(asset.description, matcher));
+    }
+    for (const tag of asset.tags || []) {
+        add('tags', tag);
+    }
+    for (const [key, value] of Object.entries<string>(asset.customMetadata || {})) {
+        add(
+            `customMetadata.${key}`,
+            typeof value === 'string' ? snippetAround(value, matcher) : null,
+        );
+    }
+    if (asset.extractedText) {
+        add('extractedText', snippetAround(asset.extractedText, matcher));
+    }
+
+    return highlights.slice(0, MAX_HIGHLIGHTS_PER_ASSET);
+}
+
+/**
+ * Search the assets of the caller's organization by relevance
+ * @param query - Validated search query
+ * @param auth - Authentication context (organization resolved by `authorize`)
+ * @returns Ranked assets with highlights, facet counts and pagination
+ */
+async function searchAssets(query: SearchAssetsQuery, auth: any) {
+    try {
+        const isAdmin = (auth.permissions || []).includes(PERMISSIONS.ORG_ADMIN);
+        if (query.cursor && !matchesSort(query.cursor, SEARCH_SORT_KEYS)) {
+            throw searchError(400, 'INVALID_CURSOR', 'Cursor was not issued by asset search');
+        }
+
+        const { assets, total, totalPages, facets, nextCursor, hasNext } = await assetDao.search(
+            {
+                text: query.q,
+                organizationId: String(auth.organizationId),
+                projectId: query.projectId,
+                assetType: query.assetType,
+                status: query.status,
+                access: query.access,
+                tags: query.tags,
+                uploadedBy: query.uploadedBy,
+                // Same visibility as verifyAssetAccess: admins see everything, others
+                // their own uploads and anything not private (ASSET_READ is already checked)
+                visibleTo: isAdmin ? undefined : String(auth.userId),
+            },
+            {
+                page: query.page,
+                limit: query.limit,
+                facetLimit: query.facetLimit,
+                cursor: query.cursor,
+            },
+        );
+
+        // Document text is only read for the page being returned
+        const extractedTexts = await assetDao.findExtractedTexts(
+            assets.map((asset: any) => String(asset._id)),
+        );
+        const matcher = buildMatcher(parseTerms(query.q));
+        const results = assets.map(({ score, ...asset }: any) => ({
+            asset,
+            score,
+            highlights: highlightAsset(
+                { ...asset, extractedText: extractedTexts.get(String(asset._id)) },
+                matcher,
+            ),
+        }));
+
+        return {
+            results,
+            facets: {
+                ...facets,
+                assetType: facets.assetType.map((b) => ({ ...b, value: b.value.toLowerCase() })),
+                status: facets.status.map((b) => ({ ...b, value: b.value.toLowerCase() })),
+            },
+            pagination: {
+                total,
+                page: query.cursor ? undefined : query.page,
+                limit: query.limit,
+                totalPages,
+                hasNext,
+                hasPrev: Boolean(query.cursor) || query.page > 1,
+                nextCursor,
+            },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw searchError(500, 'ASSET_SEARCH_ERROR', 'Asset search failed');
+    }
+}
+
+const service = { searchAssets };
+export = service;
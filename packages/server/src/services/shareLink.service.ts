@@ -0,0 +1,346 @@
+/**
+ * Share Link Service (TypeScript)
+ *
+ * Public links that hand a single asset to someone outside the organization. A
+ * link carries a random token (only its hash is stored) and may be limited by
+ * expiry, password, download count and the renditions it exposes. Resolving a
+ * link yields a short-lived presigned URL; the bucket itself is never public.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import shareLinkDao from '../dao/shareLink.dao';
+import assetDao from '../dao/asset.dao';
+import organizationDao from '../dao/organization.dao';
+import assetService from './asset.service';
+import { getStorageService } from '../config/storage';
+import { AssetStatus } from '../models/Asset.model';
+import type { CreateShareLinkInput } from '../schemas/shareLink.schema';
+
+require('dotenv').config();
+
+const ORIGINAL_RENDITION = 'original';
+const SHARE_DOWNLOAD_URL_TTL_SECONDS = 300; // 5 minutes
+const SHARE_LINK_BASE_URL = (process.env.SHARE_LINK_BASE_URL || '').replace(/\/+$/, '');
+const PASSWORD_SALT_ROUNDS = 12;
+// Wrong passwords allowed per link before it is locked for a while
+const SHARE_PASSWORD_MAX_ATTEMPTS = Number(process.env.SHARE_PASSWORD_MAX_ATTEMPTS) || 5;
+const SHARE_PASSWORD_LOCKOUT_MS = Number(process.env.SHARE_PASSWORD_LOCKOUT_MS) || 15 * 60 * 1000;
+
+function shareLinkError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function shareLinkNotFound(): any {
+    return shareLinkError(404, 'SHARE_LINK_NOT_FOUND', 'Share link not found');
+}
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function shareUrl(token: string): string {
+    return `${SHARE_LINK_BASE_URL}/s/${token}`;
+}
+
+function remainingDownloads(link: any): number | null {
+    return link.maxDownloads ? Math.max(0, link.maxDownloads - link.downloadCount) : null;
+}
+
+/**
+ * Whether a link can still be used, and if not, why
+ */
+function linkState(link: any): 'active' | 'revoked' | 'expired' | 'exhausted' {
+    if (link.revokedAt) return 'revoked';
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+    if (remainingDownloads(link) === 0) return 'exhausted';
+    return 'active';
+}
+
+function presentShareLink(link: any) {
+    const passwordProtected = Boolean(link.passwordHash);
+    const l = typeof link.toJSON === 'function' ? link.toJSON() : link;
+    return {
+        id: String(l._id),
+        assetId: String(l.assetId),
+        organizationId: String(l.organizationId),
+        status: linkState(l),
+        allowedRenditions: l.allowedRenditions,
+        passwordProtected,
+        expiresAt: l.expiresAt ?? null,
+        maxDownloads: l.maxDownloads ?? null,
+        downloadCount: l.downloadCount,
+        remainingDownloads: remainingDownloads(l),
+        lastAccessedAt: l.lastAccessedAt ?? null,
+        createdBy: String(l.createdBy),
+        createdAt: l.createdAt,
+        revokedAt: l.revokedAt ?? null,
+    };
+}
+
+/**
+ * Load an asset the caller may share
+ */
+async function findShareableAsset(assetId: string, auth: any) {
+    const asset = await assetDao.findById(assetId);
+    if (!asset || asset.deletedAt) {
+        throw shareLinkError(404, 'ASSET_NOT_FOUND', 'Asset not found');
+    }
+    const hasAccess = await assetService.verifyAssetAccess(asset, auth, 'share');
+    if (!hasAccess) {
+        throw shareLinkError(403, 'INSUFFICIENT_PERMISSIONS', 'No permission to share this asset');
+    }
+    return asset;
+}
+
+async function assertPublicSharingEnabled(organizationId: string): Promise<void> {
+    const org: any = await organizationDao.findById(organizationId);
+    if (!org?.settings?.featureFlags?.enablePublicSharing) {
+        throw shareLinkError(
+            403,
+            'PUBLIC_SHARING_DISABLED',
+            'Public sharing is disabled for this organization',
+        );
+    }
+}
+
+/**
+ * Storage key and file name of a shareable rendition, or null if the asset lacks it
+ */
+function resolveRendition(
+    asset: any,
+    name: string,
+): { storageKey: string; filename: string } | null {
+    if (name === ORIGINAL_RENDITION) {
+        return { storageKey: asset.storageKey, filename: asset.originalFilename };
+    }
+    const rendition = asset.renditions?.[name];
+    if (!rendition?.storageKey) return null;
+    const extension = rendition.storageKey.includes('.')
+        ? rendition.storageKey.slice(rendition.storageKey.lastIndexOf('.'))
+        : '';
+    const baseName = asset.originalFilename.replace(/\.[^.]+$/, '');
+    return { storageKey: rendition.storageKey, filename: `${baseName}_${name}${extension}` };
+}
+
+/**
+ * Create a share link for an asset
+ * @param assetId - Asset ID
+ * @param payload - Optional expiry, password, download limit and renditions
+ * @param auth - Authentication context (permissions resolved for the asset's organization)
+ * @returns Link, its token and the public URL; the token is not retrievable later
+ */
+async function createShareLink(assetId: string, payload: CreateShareLinkInput, auth: any) {
+    try {
+        const asset = await findShareableAsset(assetId, auth);
+        const organizationId = String(asset.organizationId);
+        await assertPublicSharingEnabled(organizationId);
+
+        if (asset.status !== AssetStatus.COMPLETED) {
+            throw shareLinkError(400, 'ASSET_NOT_READY', 'Asset is not ready to be shared');
+        }
+
+        const allowedRenditions = Array.from(
+            new Set(payload.allowedRenditions ?? [ORIGINAL_RENDITION]),
+        );
+        const unknown = allowedRenditions.filter((name) => !resolveRendition(asset, name));
+        if (unknown.length > 0) {
+            const err = shareLinkError(
+                400,
+                'INVALID_RENDITION',
+                `Asset has no rendition(s): ${unknown.join(', ')}`,
+            );
+            err.details = { renditions: unknown };
+            throw err;
+        }
+
+        const token = crypto.randomBytes(32).toString('base64url');
+        const link = await shareLinkDao.createShareLink({
+            organizationId,
+            assetId,
+            tokenHash: hashToken(token),
+            passwordHash: payload.password
+                ? await bcrypt.hash(payload.password, PASSWORD_SALT_ROUNDS)
+                : null,
+            allowedRenditions,
+            expiresAt: payload.expiresInSeconds
+                ? new Date(Date.now() + payload.expiresInSeconds * 1000)
+                : null,
+            maxDownloads: payload.maxDownloads ?? null,
+            createdBy: auth.userId,
+        } as any);
+
+        return { shareLink: presentShareLink(link), token, url: shareUrl(token) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Share link create failed');
+        err.status = 500;
+        err.code = 'SHARE_LINK_CREATE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * List the share links of an asset, newest first
+ */
+async function listShareLinks(
+    assetId: string,
+    query: { includeRevoked?: boolean; page?: number; limit?: number },
+    auth: any,
+) {
+    try {
+        await findShareableAsset(assetId, auth);
+        const { links, total } = await shareLinkDao.listByAsset(assetId, query);
+        return { shareLinks: links.map(presentShareLink), total };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Share link list failed');
+        err.status = 500;
+        err.code = 'SHARE_LINK_LIST_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Revoke a share link so it no longer resolves
+ */
+async function revokeShareLink(assetId: string, shareId: string, auth: any) {
+    try {
+        await findShareableAsset(assetId, auth);
+        const link = await shareLinkDao.findById(shareId);
+        if (!link || String(link.assetId) !== assetId) throw shareLinkNotFound();
+
+        const revoked = await shareLinkDao.revoke(shareId, String(auth.userId));
+        if (!revoked) {
+            throw shareLinkError(409, 'SHARE_LINK_REVOKED', 'Share link is already revoked');
+        }
+        return { shareLink: presentShareLink(revoked) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Share link revoke failed');
+        err.status = 500;
+        err.code = 'SHARE_LINK_REVOKE_ERROR';
+        throw err;
+    }
+}
+
+/**
+ * Resolve a share link to a short-lived download URL. Each successful call
+ * counts against the link's download limit.
+ * @param token - Share token from the link
+ * @param options - Requested rendition and the link password, if any
+ * @returns Presigned URL with its expiry and the shared file's name
+ */
+async function resolveShareLink(
+    token: string,
+    options: { rendition?: string; password?: string } = {},
+) {
+    try {
+        const link = await shareLinkDao.findByTokenHash(hashToken(token));
+        if (!link) throw shareLinkNotFound();
+
+        const state = linkState(link);
+        if (state === 'revoked') {
+            throw shareLinkError(410, 'SHARE_LINK_REVOKED', 'Share link has been revoked');
+        }
+        if (state === 'expired') {
+            throw shareLinkError(410, 'SHARE_LINK_EXPIRED', 'Share link has expired');
+        }
+        if (state === 'exhausted') {
+            throw shareLinkError(410, 'SHARE_LINK_EXHAUSTED', 'Share link download limit reached');
+        }
+
+        if (link.passwordHash) {
+            if (!options.password) {
+                throw shareLinkError(
+                    401,
+                    'SHARE_PASSWORD_REQUIRED',
+                    'Share link is password protected',
+                );
+            }
+            const claimed = await shareLinkDao.claimPasswordAttempt(
+                String(link._id),
+                SHARE_PASSWORD_MAX_ATTEMPTS,
+                SHARE_PASSWORD_LOCKOUT_MS,
+            );
+            if (!claimed) {
+                throw shareLinkError(
+                    429,
+                    'SHARE_PASSWORD_LOCKED',
+                    'Too many wrong passwords for this share link; try again later',
+                );
+            }
+            if (!(await bcrypt.compare(options.password, link.passwordHash))) {
+                throw shareLinkError(401, 'INVALID_SHARE_PASSWORD', 'Invalid share link password');
+            }
+            await shareLinkDao.resetPasswordAttempts(String(link._id));
+        }
+
+        const asset = await assetDao.findById(String(link.assetId));
+        if (!asset || asset.deletedAt) throw shareLinkNotFound();
+        await assertPublicSharingEnabled(String(link.organizationId));
+        if (asset.status !== AssetStatus.COMPLETED) {
+            throw shareLinkError(409, 'ASSET_NOT_READY', 'Shared asset is not available right now');
+        }
+
+        const renditionName =
+            options.rendition ??
+            (link.allowedRenditions.includes(ORIGINAL_RENDITION)
+                ? ORIGINAL_RENDITION
+                : link.allowedRenditions[0]);
+        if (!link.allowedRenditions.includes(renditionName)) {
+            throw shareLinkError(
+                403,
+                'RENDITION_NOT_SHARED',
+                `Rendition '${renditionName}' is not shared by this link`,
+            );
+        }
+        const target = resolveRendition(asset, renditionName);
+        if (!target) {
+            throw shareLinkError(
+                404,
+                'RENDITION_NOT_FOUND',
+                `Rendition '${renditionName}' is not available`,
+            );
+        }
+
+        // Claim the download last so failed attempts do not use up the link
+        const consumed = await shareLinkDao.consumeDownload(String(link._id));
+        if (!consumed) {
+            throw shareLinkError(410, 'SHARE_LINK_EXHAUSTED', 'Share link is no longer available');
+        }
+
+        const { url: downloadUrl, expiresAt } = await getStorageService().getPresignedDownloadUrl(
+            target.storageKey,
+            { expiresIn: SHARE_DOWNLOAD_URL_TTL_SECONDS },
+        );
+        if (renditionName === ORIGINAL_RENDITION) {
+            await assetDao.incrementDownloadCount(String(asset._id));
+        }
+
+        return {
+            downloadUrl,
+            expiresAt,
+            rendition: renditionName,
+            filename: target.filename,
+            remainingDownloads: remainingDownloads(consumed),
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        const err: any = new Error('Share link resolve failed');
+        err.status = 500;
+        err.code = 'SHARE_LINK_RESOLVE_ERROR';
+        throw err;
+    }
+}
+
+const service = {
+    createShareLink,
+    listShareLinks,
+    revokeShareLink,
+    resolveShareLink,
+};
+export = service;
@@ -0,0 +1,497 @@
+/**
+ * Webhook Service (TypeScript)
+ *
+ * Organizations subscribe URLs to asset lifecycle events. Emitting an event
+ * records one delivery per subscribed webhook and queues it; the webhook worker
+ * POSTs the payload, signed with the webhook's secret, and BullMQ retries failed
+ * attempts with exponential backoff. Every attempt is kept in the delivery log.
+ *
+ * Receivers verify `X-Webhook-Signature: t=<unix seconds>,v1=<hex>`, where v1 is
+ * the HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook secret.
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch, type Response as UndiciResponse } from 'undici';
+import webhookDao from '../dao/webhook.dao';
+import webhookDeliveryDao, { DELIVERY_SORT_KEYS } from '../dao/webhookDelivery.dao';
+import { JobUtils } from '../queues';
+import { matchesSort } from '../utils/cursor';
+import type { WebhookEvent } from '../models/Webhook.model';
+import type { IWebhookAttempt } from '../models/WebhookDelivery.model';
+import type {
+    CreateWebhookInput,
+    UpdateWebhookInput,
+    ListWebhookDeliveriesQuery,
+} from '../schemas/webhook.schema';
+
+require('dotenv').config();
+
+const WEBHOOK_MAX_PER_ORG = Number(process.env.WEBHOOK_MAX_PER_ORG) || 20;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
+// Receivers on private networks are refused unless explicitly allowed (local development)
+const WEBHOOK_ALLOW_PRIVATE_URLS = process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+const RESPONSE_SNIPPET_BYTES = 1024;
+const USER_AGENT = 'DAM-Webhooks/1.0';
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+function webhookError(status: number, code: string, message: string): any {
+    const err: any = new Error(message);
+    err.status = status;
+    err.code = code;
+    return err;
+}
+
+function webhookNotFound(): any {
+    return webhookError(404, 'WEBHOOK_NOT_FOUND', 'Webhook not found');
+}
+
+function generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature header value for a request body
+ * @param secret - Webhook secret
+ * @param body - Raw request body
+ * @param timestamp - Unix seconds, also sent in the header so receivers can reject replays
+ */
+function signPayload(secret: string, body: string, timestamp: number): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+}
+
+function isPrivateAddress(address: string): boolean {
+    // IPv4-mapped IPv6 addresses are checked as IPv4
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+    return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+function privateAddressError(): any {
+    return webhookError(
+        400,
+        'INVALID_WEBHOOK_URL',
+        'Webhook URL must not point to a private network address',
+    );
+}
+
+/**
+ * DNS lookup for delivery connections that fails on private addresses
+ * The check runs on the addresses the socket then connects to, so a receiver
+ * cannot pass validation and resolve to an internal host on the next lookup.
+ */
+const checkedLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address: any, family) => {
+        if (error) return callback(error, address, family);
+        const addresses: string[] = Array.isArray(address)
+            ? address.map((entry) => entry.address)
+            : [address];
+        if (!WEBHOOK_ALLOW_PRIVATE_URLS && addresses.some(isPrivateAddress)) {
+            return callback(privateAddressError(), address, family);
+        }
+        callback(null, address, family);
+    });
+};
+
+const deliveryAgent = new Agent({ connect: { lookup: checkedLookup } });
+
+/**
+ * Refuse URLs whose host resolves to a loopback, link-local or private address
+ */
+async function assertDeliverableUrl(url: string): Promise<void> {
+    if (WEBHOOK_ALLOW_PRIVATE_URLS) return;
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = net.isIP(hostname)
+            ? [hostname]
+            : (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch {
+        throw webhookError(400, 'INVALID_WEBHOOK_URL', `Webhook host ${hostname} does not resolve`);
+    }
+    if (addresses.some(isPrivateAddress)) throw privateAddressError();
+}
+
+function presentWebhook(webhook: any) {
+    const w = typeof webhook.toJSON === 'function' ? webhook.toJSON() : webhook;
+    return {
+        id: String(w._id),
+        organizationId: String(w.organizationId),
+        url: w.url,
+        description: w.description ?? null,
+        events: w.events,
+        active: w.active,
+        createdBy: String(w.createdBy),
+        createdAt: w.createdAt,
+        updatedAt: w.updatedAt,
+    };
+}
+
+function presentDelivery(delivery: any) {
+    return {
+        id: String(delivery._id),
+        webhookId: String(delivery.webhookId),
+        event: delivery.event,
+        eventId: delivery.eventId,
+        status: delivery.status,
+        attempts: delivery.attempts || [],
+        payload: delivery.payload,
+        redeliveryOf: delivery.redeliveryOf ? String(delivery.redeliveryOf) : null,
+        completedAt: delivery.completedAt ?? null,
+        createdAt: delivery.createdAt,
+    };
+}
+
+/**
+ * Load a webhook of an organization; webhooks of other organizations are not found
+ */
+async function findOwnWebhook(organizationId: string, webhookId: string) {
+    const webhook = await webhookDao.findById(webhookId);
+    if (!webhook || String(webhook.organizationId) !== organizationId) {
+        throw webhookNotFound();
+    }
+    return webhook;
+}
+
+/**
+ * Subscribe a URL to events of an organization
+ * @returns Webhook and its signing secret, which is only shown here and on rotation
+ */
+async function createWebhook(organizationId: string, payload: CreateWebhookInput, auth: any) {
+    try {
+        const count = await webhookDao.countByOrganization(organizationId);
+        if (count >= WEBHOOK_MAX_PER_ORG) {
+            throw webhookError(
+                409,
+                'WEBHOOK_LIMIT_REACHED',
+                `Organizations can have at most ${WEBHOOK_MAX_PER_ORG} webhooks`,
+            );
+        }
+        await assertDeliverableUrl(payload.url);
+
+        const secret = generateSecret();
+        const webhook = await webhookDao.createWebhook({
+            organizationId,
+            url: payload.url,
+            description: payload.description,
+            events: payload.events,
+            active: payload.active ?? true,
+            secret,
+            createdBy: String(auth.userId),
+        } as any);
+        return { webhook: presentWebhook(webhook), secret };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_CREATE_ERROR', 'Webhook create failed');
+    }
+}
+
+async function listWebhooks(organizationId: string, query: { page?: number; limit?: number }) {
+    try {
+        const page = query.page ?? 1;
+        const limit = query.limit ?? 20;
+        const { webhooks, total } = await webhookDao.list(organizationId, { page, limit });
+        return {
+            webhooks: webhooks.map(presentWebhook),
+            pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_LIST_ERROR', 'Webhook list failed');
+    }
+}
+
+async function getWebhook(organizationId: string, webhookId: string) {
+    try {
+        const webhook = await findOwnWebhook(organizationId, webhookId);
+        return { webhook: presentWebhook(webhook) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_FETCH_ERROR', 'Webhook fetch failed');
+    }
+}
+
+/**
+ * Change a webhook; `rotateSecret` replaces its secret and returns the new one
+ */
+async function updateWebhook(
+    organizationId: string,
+    webhookId: string,
+    payload: UpdateWebhookInput,
+) {
+    try {
+        await findOwnWebhook(organizationId, webhookId);
+        const { rotateSecret, ...changes } = payload;
+        if (changes.url) await assertDeliverableUrl(changes.url);
+
+        const secret = rotateSecret ? generateSecret() : undefined;
+        const updated = await webhookDao.updateById(webhookId, {
+            ...changes,
+            ...(secret ? { secret } : {}),
+        });
+        if (!updated) throw webhookNotFound();
+        return { webhook: presentWebhook(updated), ...(secret ? { secret } : {}) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_UPDATE_ERROR', 'Webhook update failed');
+    }
+}
+
+/**
+ * Remove a webhook; deliveries still queued for it are given up
+ */
+async function deleteWebhook(organizationId: string, webhookId: string) {
+    try {
+        await findOwnWebhook(organizationId, webhookId);
+        await webhookDao.deleteById(webhookId);
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_DELETE_ERROR', 'Webhook delete failed');
+    }
+}
+
+/**
+ * Page through the delivery log of a webhook, newest first
+ */
+async function listDeliveries(
+    organizationId: string,
+    webhookId: string,
+    query: ListWebhookDeliveriesQuery,
+) {
+    try {
+        await findOwnWebhook(organizationId, webhookId);
+        if (query.cursor && !matchesSort(query.cursor, DELIVERY_SORT_KEYS)) {
+            throw webhookError(400, 'INVALID_CURSOR', 'Cursor was not issued by the delivery log');
+        }
+        const { deliveries, nextCursor, hasNext } = await webhookDeliveryDao.list(
+            { webhookId, status: query.status },
+            { limit: query.limit, cursor: query.cursor },
+        );
+        return {
+            deliveries: deliveries.map(presentDelivery),
+            pagination: { limit: query.limit, hasNext, nextCursor },
+        };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_DELIVERY_LIST_ERROR', 'Webhook delivery list failed');
+    }
+}
+
+async function enqueueDelivery(deliveryId: string): Promise<void> {
+    await JobUtils.addWebhookDeliveryJob({ deliveryId }, { jobId: `webhook-${deliveryId}` });
+}
+
+/**
+ * Send a past delivery again, as a new delivery of the same payload
+ * @returns The new delivery, queued
+ */
+async function redeliver(organizationId: string, webhookId: string, deliveryId: string) {
+    try {
+        await findOwnWebhook(organizationId, webhookId);
+        const original = await webhookDeliveryDao.findById(deliveryId);
+        if (!original || String(original.webhookId) !== webhookId) {
+            throw webhookError(404, 'WEBHOOK_DELIVERY_NOT_FOUND', 'Webhook delivery not found');
+        }
+
+        const [delivery] = await webhookDeliveryDao.createDeliveries([
+            {
+                organizationId: original.organizationId,
+                webhookId: original.webhookId,
+                event: original.event,
+                eventId: original.eventId,
+                payload: original.payload,
+                redeliveryOf: original._id,
+            } as any,
+        ]);
+        await enqueueDelivery(String(delivery._id));
+        return { delivery: presentDelivery(delivery) };
+    } catch (error: any) {
+        if (error.status) throw error;
+        throw webhookError(500, 'WEBHOOK_REDELIVER_ERROR', 'Webhook redelivery failed');
+    }
+}
+
+/**
+ * Asset fields sent with events
+ */
+function webhookAsset(asset: any) {
+    return {
+        id: String(asset._id),
+        organizationId: String(asset.organizationId),
+        projectId: asset.projectId ? String(asset.projectId) : null,
+        originalFilename: asset.originalFilename,
+        mimeType: asset.mimeType,
+        assetType: asset.assetType,
+        fileSizeBytes: asset.fileSizeBytes,
+        status: asset.status,
+        latestVersion: asset.latestVersion,
+        processingError: asset.processingError ?? null,
+        tags: asset.tags ? [...asset.tags] : [],
+        createdAt: asset.createdAt,
+        updatedAt: asset.updatedAt,
+        deletedAt: asset.deletedAt ?? null,
+    };
+}
+
+/**
+ * Queue an event to every webhook of the asset's organization subscribed to it.
+ * Never throws: a failure to queue is logged and must not fail the caller.
+ * @param event - Event name
+ * @param asset - Asset the event is about
+ * @param data - Extra event data, e.g. the version created
+ */
+async function emitAssetEvent(
+    event: WebhookEvent,
+    asset: any,
+    data: Record<string, unknown> = {},
+): Promise<void> {
+    try {
+        const organizationId = String(asset.organizationId);
+        const webhooks = await webhookDao.findSubscribers(organizationId, event);
+        if (webhooks.length === 0) return;
+
+        const payload = {
+            id: `evt_${crypto.randomUUID()}`,
+            type: event,
+            createdAt: new Date().toISOString(),
+            organizationId,
+            data: { asset: webhookAsset(asset), ...data },
+        };
+        const deliveries = await webhookDeliveryDao.createDeliveries(
+            webhooks.map((webhook) => ({
+                organizationId: webhook.organizationId,
+                webhookId: webhook._id,
+                event,
+                eventId: payload.id,
+                payload,
+            })) as any[],
+        );
+        for (const delivery of deliveries) {
+            await enqueueDelivery(String(delivery._id));
+        }
+    } catch (error: any) {
+        console.error(`Emitting webhook event ${event} failed:`, error?.message || error);
+    }
+}
+
+/**
+ * First bytes of a response body, without reading the rest
+ */
+async function readSnippet(response: UndiciResponse): Promise<string> {
+    if (!response.body) return '';
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    try {
+        while (size < RESPONSE_SNIPPET_BYTES) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            chunks.push(value);
+            size += value.length;
+        }
+    } finally {
+        await reader.cancel().catch(() => undefined);
+    }
+    return Buffer.concat(chunks).subarray(0, RESPONSE_SNIPPET_BYTES).toString('utf8');
+}
+
+/**
+ * Make one delivery attempt; called by the webhook worker
+ * @param deliveryId - Delivery ID
+ * @param options - `final` when no retry follows a failure
+ * @returns Outcome; throws when the attempt failed so the job is retried
+ */
+async function attemptDelivery(
+    deliveryId: string,
+    options: { final: boolean },
+): Promise<'succeeded' | 'failed' | 'skipped'> {
+    const delivery = await webhookDeliveryDao.findById(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return 'skipped';
+
+    const webhook = await webhookDao.findById(String(delivery.webhookId), { withSecret: true });
+    if (!webhook || !webhook.active) {
+        await webhookDeliveryDao.markFailed(deliveryId);
+        return 'skipped';
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+    const attempt: IWebhookAttempt = { attemptedAt: new Date(started), durationMs: 0 };
+
+    try {
+        // Sockets skip the lookup for IP literals, so those are checked here
+        const hostname = new URL(webhook.url).hostname.replace(/^\[|\]$/g, '');
+        if (!WEBHOOK_ALLOW_PRIVATE_URLS && net.isIP(hostname) && isPrivateAddress(hostname)) {
+            throw privateAddressError();
+        }
+        const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': USER_AGENT,
+                'X-Webhook-Event': delivery.event,
+                'X-Webhook-Delivery': deliveryId,
+                'X-Webhook-Signature': signPayload(webhook.secret, body, timestamp),
+            },
+            body,
+            // A redirect could lead anywhere; receivers must answer at the registered URL
+            redirect: 'manual',
+            signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+            dispatcher: deliveryAgent,
+        });
+        attempt.responseStatus = response.status;
+        attempt.responseBody = await readSnippet(response);
+        if (!response.ok) {
+            attempt.error = `Receiver answered ${response.status}`;
+        }
+    } catch (error: any) {
+        attempt.error =
+            error?.name === 'TimeoutError'
+                ? `No response within ${WEBHOOK_TIMEOUT_MS}ms`
+                : error?.cause?.code === 'INVALID_WEBHOOK_URL'
+                  ? error.cause.message
+                  : error?.message || 'Request failed';
+    }
+    attempt.durationMs = Date.now() - started;
+
+    if (!attempt.error) {
+        await webhookDeliveryDao.recordAttempt(deliveryId, attempt, 'succeeded');
+        return 'succeeded';
+    }
+    await webhookDeliveryDao.recordAttempt(
+        deliveryId,
+        attempt,
+        options.final ? 'failed' : undefined,
+    );
+    if (options.final) return 'failed';
+    throw new Error(attempt.error);
+}
+
+const service = {
+    createWebhook,
+    listWebhooks,
+    getWebhook,
+    updateWebhook,
+    deleteWebhook,
+    listDeliveries,
+    redeliver,
+    emitAssetEvent,
+    attemptDelivery,
+    signPayload,
+};
+export = service;
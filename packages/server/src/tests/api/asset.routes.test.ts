@@ -8,6 +8,7 @@ import request from 'supertest';
 import * as fs from 'fs';
 import * as path from 'path';
 import crypto from 'crypto';
+import { getStorageService } from '../../config/storage';
 
 const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
 
@@ -597,6 +598,483 @@ describe('Asset API - Comprehensive E2E Tests', () => {
         });
     });
 
+    describe('Multipart Uploads', () => {
+        const partSizeBytes = 5 * 1024 * 1024;
+        const fileSizeBytes = 2 * partSizeBytes + 1024;
+        let multipartAssetId: string;
+        let multipartChecksum: string;
+
+        beforeEach(async () => {
+            multipartChecksum = generateChecksum('multipart-setup');
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'multipart-master.mp4',
+                    mimeType: 'video/mp4',
+                    fileSizeBytes,
+                    checksum: multipartChecksum,
+                    organizationId,
+                    projectId,
+                    multipart: true,
+                    partSizeBytes
+                })
+                .expect(201);
+
+            expect(uploadRes.body.data.uploadUrl).toBeUndefined();
+            expect(uploadRes.body.data.multipart).toMatchObject({ partSizeBytes, partCount: 3 });
+            multipartAssetId = uploadRes.body.data.assetId;
+        });
+
+        it('presigns requested part URLs', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${multipartAssetId}/parts`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ partNumbers: [1, 3] })
+                .expect(200);
+
+            expect(res.body.data.parts).toHaveLength(2);
+            expect(res.body.data.parts[1]).toMatchObject({ partNumber: 3, sizeBytes: 1024 });
+            expect(typeof res.body.data.parts[0].uploadUrl).toBe('string');
+        });
+
+        it('rejects part numbers beyond the part count', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${multipartAssetId}/parts`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ partNumbers: [4] })
+                .expect(400);
+        });
+
+        it('reports every part as missing before any upload', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${multipartAssetId}/parts`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.uploadedParts).toEqual([]);
+            expect(res.body.data.missingPartNumbers).toEqual([1, 2, 3]);
+        });
+
+        it('rejects finalize while parts are missing', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${multipartAssetId}/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    assetId: multipartAssetId,
+                    actualChecksum: multipartChecksum,
+                    actualFileSizeBytes: fileSizeBytes
+                })
+                .expect(400);
+        });
+
+        it('cancels the upload', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/assets/${multipartAssetId}/upload`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            await request(baseUrl)
+                .get(`/api/v1/assets/${multipartAssetId}/parts`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+
+        it('rejects part requests for single-request uploads', async () => {
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'single.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('multipart-single'),
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${uploadRes.body.data.assetId}/parts`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ partNumbers: [1] })
+                .expect(400);
+        });
+    });
+
+    describe('POST /api/v1/assets/:id/versions - Upload New Version', () => {
+        let versionAssetId: string;
+
+        beforeEach(async () => {
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'version-test.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('version-setup'),
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+
+            versionAssetId = uploadRes.body.data.assetId;
+        });
+
+        it('rejects a new version while the asset is still uploading', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${versionAssetId}/versions`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    fileSizeBytes: 2048,
+                    checksum: generateChecksum('version-uploading')
+                })
+                .expect(400);
+        });
+
+        it('rejects missing checksum', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${versionAssetId}/versions`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ fileSizeBytes: 2048 })
+                .expect(400);
+        });
+
+        it('returns 404 for non-existent asset', async () => {
+            await request(baseUrl)
+                .post('/api/v1/assets/507f1f77bcf86cd799439011/versions')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    fileSizeBytes: 2048,
+                    checksum: generateChecksum('version-fake-id')
+                })
+                .expect(404);
+        });
+
+        it('returns 404 when finalizing a version that was never requested', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${versionAssetId}/versions/2/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    actualChecksum: generateChecksum('version-not-pending'),
+                    actualFileSizeBytes: 2048
+                })
+                .expect(404);
+        });
+
+        it('rejects invalid version number', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${versionAssetId}/versions/0/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    actualChecksum: generateChecksum('version-zero'),
+                    actualFileSizeBytes: 2048
+                })
+                .expect(400);
+        });
+    });
+
+    describe('Asset Version History', () => {
+        let historyAssetId: string;
+
+        beforeAll(async () => {
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'history-test.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('history-setup'),
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+
+            historyAssetId = uploadRes.body.data.assetId;
+        });
+
+        it('lists the initial version', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${historyAssetId}/versions`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.success).toBe(true);
+            expect(res.body.data.latestVersion).toBe(1);
+            expect(res.body.data.versions).toHaveLength(1);
+            expect(res.body.data.versions[0]).toMatchObject({
+                version: 1,
+                fileSizeBytes: 1024,
+                isCurrent: true
+            });
+            expect(res.body.data.versions[0].createdBy.id).toBe(testUserId);
+        });
+
+        it('returns 404 when downloading an unknown version', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${historyAssetId}/versions/2/download`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+
+        it('rejects restoring the current version', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${historyAssetId}/versions/1/restore`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('returns 404 when restoring an unknown version', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${historyAssetId}/versions/5/restore`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+    });
+
+    describe('Renditions of Replaced Versions', () => {
+        const imageBuffer = createTestImageBuffer();
+        let renditionAssetId: string;
+
+        const putObject = async (url: string) => {
+            const res = await fetch(url, {
+                method: 'PUT',
+                body: new Uint8Array(imageBuffer),
+                headers: { 'Content-Type': 'image/png' }
+            });
+            expect(res.ok).toBe(true);
+        };
+
+        const waitForProcessing = async () => {
+            for (let attempt = 0; attempt < 20; attempt++) {
+                const res = await request(baseUrl)
+                    .get(`/api/v1/assets/${renditionAssetId}`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                const asset = res.body.data.asset;
+                if (asset.status === 'completed' || asset.status === 'failed') return asset;
+                await sleep(1000);
+            }
+            throw new Error('Asset did not finish processing');
+        };
+
+        const renditionKeys = (asset: any): string[] =>
+            Object.values(asset.renditions || {})
+                .map((rendition: any) => rendition.storageKey)
+                .filter(Boolean);
+
+        const waitUntilDeleted = async (keys: string[]) => {
+            const storage = getStorageService();
+            for (let attempt = 0; attempt < 20; attempt++) {
+                const remaining = [];
+                for (const key of keys) {
+                    if (await storage.headObject(key)) remaining.push(key);
+                }
+                if (remaining.length === 0) return;
+                await sleep(1000);
+            }
+            throw new Error('Renditions of the replaced file were not deleted');
+        };
+
+        beforeAll(async () => {
+            const checksum = generateChecksum('rendition-cleanup');
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'rendition-cleanup.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: imageBuffer.length,
+                    checksum,
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+
+            renditionAssetId = uploadRes.body.data.assetId;
+            await putObject(uploadRes.body.data.uploadUrl);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${renditionAssetId}/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetId: renditionAssetId, actualChecksum: checksum, actualFileSizeBytes: imageBuffer.length })
+                .expect(200);
+        }, 30000);
+
+        it('deletes the renditions of the previous file once a new version is finalized', async () => {
+            const before = await waitForProcessing();
+            const previousKeys = renditionKeys(before);
+            expect(previousKeys.length).toBeGreaterThan(0);
+
+            const checksum = generateChecksum('rendition-cleanup-v2');
+            const versionRes = await request(baseUrl)
+                .post(`/api/v1/assets/${renditionAssetId}/versions`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ fileSizeBytes: imageBuffer.length, checksum })
+                .expect(201);
+
+            await putObject(versionRes.body.data.uploadUrl);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${renditionAssetId}/versions/2/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ actualChecksum: checksum, actualFileSizeBytes: imageBuffer.length })
+                .expect(200);
+
+            await waitUntilDeleted(previousKeys);
+        }, 60000);
+
+        it('deletes the renditions of the replaced file on restore', async () => {
+            const before = await waitForProcessing();
+            const previousKeys = renditionKeys(before);
+            expect(previousKeys.length).toBeGreaterThan(0);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${renditionAssetId}/versions/1/restore`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            await waitUntilDeleted(previousKeys);
+
+            const after = await waitForProcessing();
+            expect(renditionKeys(after)).not.toEqual(expect.arrayContaining(previousKeys));
+        }, 60000);
+    });
+
+    describe('Share Links', () => {
+        let shareAssetId: string;
+
+        beforeAll(async () => {
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'share-test.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('share-setup'),
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+
+            shareAssetId = uploadRes.body.data.assetId;
+        });
+
+        it('rejects sharing an asset that is not processed yet', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${shareAssetId}/shares`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ expiresInSeconds: 3600 })
+                .expect(400);
+
+            expect(res.body.success).toBe(false);
+        });
+
+        it('rejects unknown share link options', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${shareAssetId}/shares`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ maxDownloads: 0, public: true })
+                .expect(400);
+        });
+
+        it('requires authentication to create share links', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${shareAssetId}/shares`)
+                .send({})
+                .expect(401);
+        });
+
+        it('lists no share links for a new asset', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${shareAssetId}/shares`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.shareLinks).toEqual([]);
+            expect(res.body.data.total).toBe(0);
+        });
+
+        it('returns 404 for an unknown share token without authentication', async () => {
+            const res = await request(baseUrl)
+                .get(`/s/${crypto.randomBytes(32).toString('base64url')}`)
+                .expect(404);
+
+            expect(res.body.code).toBe('SHARE_LINK_NOT_FOUND');
+        });
+
+        it('rejects malformed share tokens', async () => {
+            await request(baseUrl)
+                .get('/s/not*a*token')
+                .expect(400);
+        });
+
+        it('locks a share link after repeated wrong passwords', async () => {
+            const imageBuffer = createTestImageBuffer();
+            const checksum = generateChecksum('share-lockout');
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'share-lockout.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: imageBuffer.length,
+                    checksum,
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+            const lockoutAssetId = uploadRes.body.data.assetId;
+
+            const putRes = await fetch(uploadRes.body.data.uploadUrl, {
+                method: 'PUT',
+                body: new Uint8Array(imageBuffer),
+                headers: { 'Content-Type': 'image/png' }
+            });
+            expect(putRes.ok).toBe(true);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${lockoutAssetId}/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetId: lockoutAssetId, actualChecksum: checksum, actualFileSizeBytes: imageBuffer.length })
+                .expect(200);
+
+            for (let attempt = 0; attempt < 20; attempt++) {
+                const res = await request(baseUrl)
+                    .get(`/api/v1/assets/${lockoutAssetId}`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                if (res.body.data.asset.status === 'completed') break;
+                await sleep(1000);
+            }
+
+            const shareRes = await request(baseUrl)
+                .post(`/api/v1/assets/${lockoutAssetId}/shares`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ password: 'spring-campaign' })
+                .expect(201);
+            const { token } = shareRes.body.data;
+
+            // Default limit of five wrong passwords per link
+            for (let attempt = 0; attempt < 5; attempt++) {
+                const res = await request(baseUrl)
+                    .get(`/s/${token}`)
+                    .set('X-Share-Password', `guess-${attempt}`)
+                    .expect(401);
+                expect(res.body.code).toBe('INVALID_SHARE_PASSWORD');
+            }
+
+            const lockedRes = await request(baseUrl)
+                .get(`/s/${token}`)
+                .set('X-Share-Password', 'spring-campaign')
+                .expect(429);
+            expect(lockedRes.body.code).toBe('SHARE_PASSWORD_LOCKED');
+        }, 60000);
+    });
+
     describe('GET /api/v1/assets - List Assets', () => {
         describe('✅ Valid List Cases', () => {
             it('lists assets with default pagination', async () => {
@@ -685,6 +1163,81 @@ describe('Asset API - Comprehensive E2E Tests', () => {
                     }
                 }
             });
+
+            it('filters with a query expression', async () => {
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, q: 'type:image -status:failed size<10MB project:/test-project/** uploader:me' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+
+                expect(res.body.success).toBe(true);
+                res.body.data.assets.forEach((asset: any) => {
+                    expect(asset.assetType).toBe('image');
+                    expect(asset.status).not.toBe('failed');
+                    expect(asset.projectId).toBe(projectId);
+                    expect(asset.fileSizeBytes).toBeLessThan(10 * 1024 * 1024);
+                });
+            });
+
+            it('walks every asset with cursors', async () => {
+                const first = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 100, sortBy: 'createdAt' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+
+                const seen: string[] = [];
+                let cursor: string | null = null;
+                do {
+                    const res: any = await request(baseUrl)
+                        .get('/api/v1/assets')
+                        .query({ organizationId, limit: 1, sortBy: 'createdAt', ...(cursor ? { cursor } : {}) })
+                        .set('Authorization', `Bearer ${authToken}`)
+                        .expect(200);
+
+                    seen.push(...res.body.data.assets.map((asset: any) => asset._id));
+                    cursor = res.body.data.pagination.nextCursor;
+                    expect(res.body.data.pagination.hasNext).toBe(cursor !== null);
+                } while (cursor && seen.length <= first.body.data.assets.length);
+
+                expect(seen).toEqual(first.body.data.assets.map((asset: any) => asset._id));
+            });
+
+            it('only counts cursor pages when asked', async () => {
+                const first = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 1 })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                const cursor = first.body.data.pagination.nextCursor;
+                if (!cursor) return;
+
+                const uncounted = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 1, cursor })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                expect(uncounted.body.data.pagination).not.toHaveProperty('total');
+                expect(uncounted.body.data.pagination.hasPrev).toBe(true);
+
+                const counted = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 1, cursor, includeTotal: 'true' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                expect(counted.body.data.pagination.total).toBe(first.body.data.pagination.total);
+            });
+
+            it('matches nothing for a project path without projects', async () => {
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, q: 'project:/no-such-project/**' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+
+                expect(res.body.data.assets).toHaveLength(0);
+            });
         });
 
         describe('❌ List Validation Failures', () => {
@@ -743,6 +1296,54 @@ describe('Asset API - Comprehensive E2E Tests', () => {
                     .set('Authorization', `Bearer ${authToken}`)
                     .expect(400);
             });
+
+            it('points at the offending token of an invalid query expression', async () => {
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, q: 'type:video colour:red' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+
+                expect(res.body.details[0]).toMatchObject({ field: 'q', position: 11, token: 'colour' });
+            });
+
+            it('rejects a malformed cursor', async () => {
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, cursor: 'not-a-cursor' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+
+                expect(res.body.details[0]).toMatchObject({ field: 'cursor' });
+            });
+
+            it('rejects a cursor issued for another sort', async () => {
+                const first = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 1, sortBy: 'createdAt' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                const cursor = first.body.data.pagination.nextCursor;
+                if (!cursor) return;
+
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, limit: 1, sortBy: 'fileSizeBytes', cursor })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+
+                expect(res.body.code).toBe('INVALID_CURSOR');
+            });
+
+            it('rejects comparisons on text fields', async () => {
+                const res = await request(baseUrl)
+                    .get('/api/v1/assets')
+                    .query({ organizationId, q: 'tag>brand' })
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+
+                expect(res.body.details[0]).toMatchObject({ position: 3, token: '>' });
+            });
         });
     });
 
@@ -791,36 +1392,161 @@ describe('Asset API - Comprehensive E2E Tests', () => {
                     .expect(400);
             });
 
-            it('supports version parameter for renditions', async () => {
-                await request(baseUrl)
-                    .get(`/api/v1/assets/${assetId}/download?version=thumbnail`)
-                    .set('Authorization', `Bearer ${authToken}`)
-                    .expect(400);
-            });
+            it('supports version parameter for renditions', async () => {
+                await request(baseUrl)
+                    .get(`/api/v1/assets/${assetId}/download?version=thumbnail`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+            });
+        });
+
+        describe('❌ Download Failures', () => {
+            it('returns 404 for non-existent asset', async () => {
+                const fakeId = '507f1f77bcf86cd799439011';
+                await request(baseUrl)
+                    .get(`/api/v1/assets/${fakeId}/download`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(404);
+            });
+
+            it('rejects invalid asset ID format', async () => {
+                await request(baseUrl)
+                    .get('/api/v1/assets/invalid-id/download')
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+            });
+
+            it('rejects invalid version parameter', async () => {
+                await request(baseUrl)
+                    .get(`/api/v1/assets/${assetId}/download?version=invalid-version`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(400);
+            });
+        });
+    });
+
+    describe('GET /api/v1/assets/:id/transform - Transform Image', () => {
+        it('rejects assets that are not processed yet', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/transform?w=320&format=webp`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+
+            expect(res.body.code).toBe('ASSET_NOT_READY');
+        });
+
+        it('returns 404 for non-existent asset', async () => {
+            const fakeId = '507f1f77bcf86cd799439011';
+            await request(baseUrl)
+                .get(`/api/v1/assets/${fakeId}/transform?w=320`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+
+        it('requires a width or height', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/transform?format=jpeg`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('rejects sizes past the limit once dpr is applied', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/transform?w=3000&dpr=2`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('rejects unsupported formats and unknown parameters', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/transform?w=320&format=gif`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/transform?w=320&blur=5`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+    });
+
+    describe('GET /api/v1/assets/:id/stream - HLS Playlists', () => {
+        it('returns 404 when the asset has no HLS stream', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/stream/master.m3u8`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(res.body.code).toBe('STREAM_NOT_AVAILABLE');
+        });
+
+        it('rejects invalid variant names', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/stream/..%2Foriginal/index.m3u8`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('requires authentication', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/stream/master.m3u8`)
+                .expect(401);
+        });
+    });
+
+    describe('GET /api/v1/assets/:id/thumbnails.vtt - Scrubbing Thumbnails', () => {
+        it('returns 404 when no sprites were generated', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}/thumbnails.vtt`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(res.body.code).toBe('STREAM_NOT_AVAILABLE');
+        });
+
+        it('omits thumbnailTrack from assets without sprites', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/${assetId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.asset.thumbnailTrack).toBeUndefined();
+        });
+    });
+
+    describe('POST /api/v1/assets/:id/poster - Choose Poster', () => {
+        it('rejects assets that are not videos', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${assetId}/poster`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ timestamp: 3 })
+                .expect(400);
+
+            expect(res.body.code).toBe('POSTER_NOT_SUPPORTED');
         });
 
-        describe('❌ Download Failures', () => {
-            it('returns 404 for non-existent asset', async () => {
-                const fakeId = '507f1f77bcf86cd799439011';
-                await request(baseUrl)
-                    .get(`/api/v1/assets/${fakeId}/download`)
-                    .set('Authorization', `Bearer ${authToken}`)
-                    .expect(404);
-            });
+        it('rejects a negative timestamp', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${assetId}/poster`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ timestamp: -1 })
+                .expect(400);
+        });
 
-            it('rejects invalid asset ID format', async () => {
-                await request(baseUrl)
-                    .get('/api/v1/assets/invalid-id/download')
-                    .set('Authorization', `Bearer ${authToken}`)
-                    .expect(400);
-            });
+        it('rejects uploads that are not images', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${assetId}/poster`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .attach('image', Buffer.from('not an image'), { filename: 'poster.txt', contentType: 'text/plain' })
+                .expect(400);
+        });
 
-            it('rejects invalid version parameter', async () => {
-                await request(baseUrl)
-                    .get(`/api/v1/assets/${assetId}/download?version=invalid-version`)
-                    .set('Authorization', `Bearer ${authToken}`)
-                    .expect(400);
-            });
+        it('returns 404 for non-existent asset', async () => {
+            const fakeId = '507f1f77bcf86cd799439011';
+            await request(baseUrl)
+                .post(`/api/v1/assets/${fakeId}/poster/revert`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
         });
     });
 
@@ -980,6 +1706,21 @@ describe('Asset API - Comprehensive E2E Tests', () => {
             expect(res.body.success).toBe(true);
             expect(res.body.data.analytics).toHaveProperty('totalAssets');
         });
+
+        it('defaults to the active organization', async () => {
+            const explicitRes = await request(baseUrl)
+                .get(`/api/v1/assets/analytics?organizationId=${organizationId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const res = await request(baseUrl)
+                .get('/api/v1/assets/analytics')
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.analytics.totalAssets).toBeGreaterThan(0);
+            expect(res.body.data.analytics.totalAssets).toBe(explicitRes.body.data.analytics.totalAssets);
+        });
     });
 
     describe('GET /api/v1/assets/search - Search Assets', () => {
@@ -998,7 +1739,385 @@ describe('Asset API - Comprehensive E2E Tests', () => {
             await request(baseUrl)
                 .get(`/api/v1/assets/search?q=&organizationId=${organizationId}`)
                 .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('ranks matches by relevance and highlights them', async () => {
+            const term = `aurora${Date.now()}`;
+            // Filename matches outweigh tag matches
+            for (const [filename, tags] of [
+                ['unrelated-name.png', [term]],
+                [`${term}-poster.png`, [term]]
+            ] as [string, string[]][]) {
+                await request(baseUrl)
+                    .post('/api/v1/assets/uploads')
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .send({
+                        originalFilename: filename,
+                        mimeType: 'image/png',
+                        fileSizeBytes: 1024,
+                        checksum: generateChecksum(filename),
+                        organizationId,
+                        projectId,
+                        tags
+                    })
+                    .expect(201);
+            }
+
+            const res = await request(baseUrl)
+                .get('/api/v1/assets/search')
+                .query({ q: term, organizationId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const assets = res.body.data.assets;
+            expect(assets).toHaveLength(2);
+            expect(assets[0].originalFilename).toBe(`${term}-poster.png`);
+            expect(assets[0].match.score).toBeGreaterThan(assets[1].match.score);
+            expect(assets[0].match.highlights[0]).toEqual({
+                field: 'originalFilename',
+                snippet: `${term}-poster.png`,
+                matches: [[0, term.length]]
+            });
+            expect(assets[0]).not.toHaveProperty('extractedText');
+        });
+
+        it('finds assets by description', async () => {
+            const term = `borealis${Date.now()}`;
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'described.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('described'),
+                    organizationId,
+                    projectId,
+                    description: `Night sky over the fjord, ${term} season`
+                })
+                .expect(201);
+
+            const res = await request(baseUrl)
+                .get('/api/v1/assets/search')
+                .query({ q: term, organizationId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const assets = res.body.data.assets;
+            expect(assets).toHaveLength(1);
+            expect(assets[0]._id).toBe(uploadRes.body.data.assetId);
+            expect(assets[0].match.highlights[0]).toMatchObject({ field: 'description' });
+        });
+
+        it('returns facet counts over all matches', async () => {
+            const res = await request(baseUrl)
+                .get('/api/v1/assets/search')
+                .query({ q: 'png', organizationId, limit: 1 })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const { facets, pagination } = res.body.data;
+            expect(res.body.data.assets.length).toBeLessThanOrEqual(1);
+            for (const facet of ['assetType', 'status', 'tags', 'uploadedBy', 'projectId']) {
+                expect(Array.isArray(facets[facet])).toBe(true);
+            }
+            const typeTotal = facets.assetType.reduce((sum: number, b: any) => sum + b.count, 0);
+            expect(typeTotal).toBe(pagination.total);
+            expect(facets.uploadedBy[0]).toMatchObject({ value: testUserId, label: 'Asset Tester' });
+        });
+
+        it('handles regex metacharacters in list search', async () => {
+            await request(baseUrl)
+                .get('/api/v1/assets')
+                .query({ search: '(*', organizationId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+        });
+    });
+
+    describe('Move & Copy Assets', () => {
+        let relocateAssetId: string;
+        let targetProjectId: string;
+
+        beforeAll(async () => {
+            const projectRes = await request(baseUrl)
+                .post('/api/v1/projects')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId,
+                    name: 'Relocation Target',
+                    path: '/relocation-target'
+                })
+                .expect(201);
+            targetProjectId = projectRes.body.data.project._id;
+
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'relocate-test.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum('relocate-setup'),
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+            relocateAssetId = uploadRes.body.data.assetId;
+        });
+
+        it('rejects moving an asset that is still uploading', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${relocateAssetId}/move`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId: targetProjectId })
+                .expect(409);
+
+            expect(res.body.code).toBe('ASSET_BUSY');
+        });
+
+        it('rejects copying an asset that is still uploading', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${relocateAssetId}/copy`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId: targetProjectId })
+                .expect(409);
+        });
+
+        it('rejects target projects outside the organization', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${relocateAssetId}/move`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId: '64b0c7f4a2c8a2b3c4d5e6f7' })
+                .expect(400);
+
+            expect(res.body.code).toBe('INVALID_TARGET_PROJECT');
+        });
+
+        it('treats moving into the current project as a no-op', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/assets/${relocateAssetId}/move`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId })
+                .expect(200);
+
+            expect(res.body.data.asset._id).toBe(relocateAssetId);
+        });
+
+        it('requires a target project', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/assets/${relocateAssetId}/copy`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({})
+                .expect(400);
+        });
+
+        it('copies a processed asset into another project of the same organization', async () => {
+            const imageBuffer = createTestImageBuffer();
+            const checksum = generateChecksum('copy-same-org');
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'copy-same-org.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: imageBuffer.length,
+                    checksum,
+                    organizationId,
+                    projectId
+                })
+                .expect(201);
+            const sourceId = uploadRes.body.data.assetId;
+
+            const putRes = await fetch(uploadRes.body.data.uploadUrl, {
+                method: 'PUT',
+                body: new Uint8Array(imageBuffer),
+                headers: { 'Content-Type': 'image/png' }
+            });
+            expect(putRes.ok).toBe(true);
+
+            await request(baseUrl)
+                .post(`/api/v1/assets/${sourceId}/finalize`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetId: sourceId, actualChecksum: checksum, actualFileSizeBytes: imageBuffer.length })
+                .expect(200);
+
+            for (let attempt = 0; attempt < 20; attempt++) {
+                const res = await request(baseUrl)
+                    .get(`/api/v1/assets/${sourceId}`)
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .expect(200);
+                if (['completed', 'failed'].includes(res.body.data.asset.status)) break;
+                await sleep(1000);
+            }
+
+            // The copy keeps its source's checksum within the same organization
+            const copyRes = await request(baseUrl)
+                .post(`/api/v1/assets/${sourceId}/copy`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId: targetProjectId })
+                .expect(201);
+
+            expect(copyRes.body.data.asset._id).not.toBe(sourceId);
+            expect(copyRes.body.data.asset.projectId).toBe(targetProjectId);
+        }, 60000);
+
+        it('returns 404 for unknown assets', async () => {
+            await request(baseUrl)
+                .post('/api/v1/assets/64b0c7f4a2c8a2b3c4d5e6f7/copy')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ projectId: targetProjectId })
+                .expect(404);
+        });
+    });
+
+    describe('POST /api/v1/assets/bulk - Bulk Operations', () => {
+        let bulkAssetIds: string[] = [];
+
+        beforeAll(async () => {
+            bulkAssetIds = [];
+            for (const name of ['bulk-a', 'bulk-b']) {
+                const uploadRes = await request(baseUrl)
+                    .post('/api/v1/assets/uploads')
+                    .set('Authorization', `Bearer ${authToken}`)
+                    .send({
+                        originalFilename: `${name}.png`,
+                        mimeType: 'image/png',
+                        fileSizeBytes: 1024,
+                        checksum: generateChecksum(name),
+                        organizationId,
+                        projectId
+                    })
+                    .expect(201);
+                bulkAssetIds.push(uploadRes.body.data.assetId);
+            }
+        });
+
+        it('adds tags to every asset and reports per-asset results', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId,
+                    assetIds: bulkAssetIds,
+                    operation: { type: 'addTags', tags: ['bulk-tagged'] }
+                })
+                .expect(200);
+
+            expect(res.body.data.summary).toEqual({ total: 2, succeeded: 2, failed: 0 });
+            expect(res.body.data.results.map((r: any) => r.assetId)).toEqual(bulkAssetIds);
+
+            const assetRes = await request(baseUrl)
+                .get(`/api/v1/assets/${bulkAssetIds[0]}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+            expect(assetRes.body.data.asset.tags).toContain('bulk-tagged');
+        });
+
+        it('reports unknown assets without failing the batch', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId,
+                    assetIds: [bulkAssetIds[0], '64b0c7f4a2c8a2b3c4d5e6f7'],
+                    operation: { type: 'setAccess', access: 'organization' }
+                })
+                .expect(200);
+
+            expect(res.body.data.results[0]).toEqual({ assetId: bulkAssetIds[0], success: true });
+            expect(res.body.data.results[1]).toMatchObject({ success: false, code: 'ASSET_NOT_FOUND' });
+            expect(res.body.data.summary.failed).toBe(1);
+        });
+
+        it('rejects moving assets to a project outside the organization', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId,
+                    assetIds: bulkAssetIds,
+                    operation: { type: 'moveProject', projectId: '64b0c7f4a2c8a2b3c4d5e6f7' }
+                })
+                .expect(400);
+
+            expect(res.body.code).toBe('INVALID_TARGET_PROJECT');
+        });
+
+        it('rejects unknown operations and duplicate IDs', async () => {
+            await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId, assetIds: bulkAssetIds, operation: { type: 'archive' } })
+                .expect(400);
+
+            await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId,
+                    assetIds: [bulkAssetIds[0], bulkAssetIds[0]],
+                    operation: { type: 'delete' }
+                })
+                .expect(400);
+        });
+
+        it('returns 404 for unknown bulk jobs', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/assets/bulk/bulk-${crypto.randomUUID()}`)
+                .query({ organizationId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(res.body.code).toBe('BULK_JOB_NOT_FOUND');
+        });
+
+        it('requires asset:delete for bulk deletes', async () => {
+            const writer = {
+                email: `asset.test.writer+${Date.now()}@example.com`,
+                password: 'SecureP@ssw0rd123!',
+                profile: { firstName: 'Asset', lastName: 'Writer' }
+            };
+            await request(baseUrl).post('/api/v1/auth/register').send(writer).expect(201);
+            const loginRes = await request(baseUrl)
+                .post('/api/v1/auth/login')
+                .send({ email: writer.email, password: writer.password })
+                .expect(200);
+
+            await request(baseUrl)
+                .post('/api/v1/roles')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId, name: 'asset-writer', permissions: ['asset:read', 'asset:write'] })
+                .expect(201);
+            await request(baseUrl)
+                .post(`/api/v1/organizations/${organizationId}/members`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ email: writer.email, roles: ['asset-writer'] })
+                .expect(201);
+
+            const res = await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${loginRes.body.data.token}`)
+                .send({ organizationId, assetIds: bulkAssetIds, operation: { type: 'delete' } })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+
+            await request(baseUrl)
+                .get(`/api/v1/assets/${bulkAssetIds[0]}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+        });
+
+        it('soft-deletes assets in bulk', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/assets/bulk')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId, assetIds: bulkAssetIds, operation: { type: 'delete' } })
                 .expect(200);
+
+            expect(res.body.data.summary.succeeded).toBe(2);
         });
     });
 
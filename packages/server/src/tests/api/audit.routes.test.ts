@@ -0,0 +1,207 @@
+/**
+ * @fileoverview E2E API tests for the organization audit log
+ * Requires running server with env: API_BASE_URL, MONGO_URI, JWT_SECRET
+ */
+
+import request from 'supertest';
+
+const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
+
+describe('Audit Log API - E2E Tests', () => {
+    let authToken: string;
+    let outsiderToken: string;
+    let orgId: string;
+    let roleId: string;
+    const requestId = `audit-test-${Date.now()}`;
+
+    const owner = {
+        email: `audit.owner+${Date.now()}@example.com`,
+        password: 'SecureP@ssw0rd123!',
+        profile: { firstName: 'Audit', lastName: 'Owner' },
+    };
+    const outsider = {
+        email: `audit.outsider+${Date.now()}@example.com`,
+        password: 'SecureP@ssw0rd123!',
+        profile: { firstName: 'Audit', lastName: 'Outsider' },
+    };
+
+    const login = async (user: typeof owner) => {
+        await request(baseUrl).post('/api/v1/auth/register').send(user).expect(201);
+        const res = await request(baseUrl)
+            .post('/api/v1/auth/login')
+            .send({ email: user.email, password: user.password })
+            .expect(200);
+        return res.body.data.token as string;
+    };
+
+    beforeAll(async () => {
+        authToken = await login(owner);
+        outsiderToken = await login(outsider);
+
+        const orgRes = await request(baseUrl)
+            .post('/api/v1/organizations')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Audit Test Org' })
+            .expect(201);
+        orgId = orgRes.body.data.organization._id;
+
+        const roleRes = await request(baseUrl)
+            .post('/api/v1/roles')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ organizationId: orgId, name: 'Reviewer', permissions: ['asset:read'] })
+            .expect(201);
+        roleId = roleRes.body.data.role._id;
+
+        await request(baseUrl)
+            .patch(`/api/v1/roles/${roleId}`)
+            .set('Authorization', `Bearer ${authToken}`)
+            .set('X-Request-Id', requestId)
+            .send({ name: 'Senior Reviewer' })
+            .expect(200);
+    });
+
+    describe('GET /api/v1/organizations/:id/audit', () => {
+        it('records mutations with the changed fields and request ID', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ action: 'role.update' })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.events).toHaveLength(1);
+            const [event] = res.body.data.events;
+            expect(event).toMatchObject({
+                action: 'role.update',
+                target: { type: 'role', id: roleId },
+                requestId,
+            });
+            expect(event.actor.id).toBeTruthy();
+            expect(event.changes).toEqual([
+                { field: 'name', before: 'Reviewer', after: 'Senior Reviewer' },
+            ]);
+        });
+
+        it('echoes the request ID in the response header', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .set('X-Request-Id', requestId)
+                .expect(200);
+
+            expect(res.headers['x-request-id']).toBe(requestId);
+        });
+
+        it('matches action prefixes', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ action: 'role.*' })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const actions = res.body.data.events.map((event: any) => event.action);
+            expect(actions).toEqual(['role.update', 'role.create']);
+        });
+
+        it('pages through events with a cursor', async () => {
+            const first = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ limit: 1 })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(first.body.data.pagination.hasNext).toBe(true);
+            const second = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ limit: 1, cursor: first.body.data.pagination.nextCursor })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(second.body.data.events[0].id).not.toBe(first.body.data.events[0].id);
+        });
+
+        it('exports NDJSON', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ format: 'ndjson', action: 'role.*' })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.headers['content-type']).toContain('application/x-ndjson');
+            const lines = res.text
+                .trim()
+                .split('\n')
+                .map((line) => JSON.parse(line));
+            expect(lines.map((event) => event.action)).toEqual(['role.update', 'role.create']);
+        });
+
+        it('exports CSV', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ format: 'csv', action: 'role.update' })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.headers['content-type']).toContain('text/csv');
+            expect(res.headers['content-disposition']).toContain(`audit-${orgId}.csv`);
+            const rows = res.text.trim().split('\r\n');
+            expect(rows[0]).toBe(
+                'createdAt,action,actorId,actorEmail,targetType,targetId,ip,requestId,changes',
+            );
+            expect(rows).toHaveLength(2);
+            expect(rows[1]).toContain(requestId);
+        });
+
+        it('rejects unknown filters', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ actor: 'someone' })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(400);
+        });
+
+        it('denies users outside the organization', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .set('Authorization', `Bearer ${outsiderToken}`)
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+    });
+
+    describe('Audit retention', () => {
+        it('updates the retention and keeps other settings', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ settings: { auditRetentionDays: 30 } })
+                .expect(200);
+
+            expect(res.body.data.organization.settings.auditRetentionDays).toBe(30);
+            expect(res.body.data.organization.settings.storageQuotaBytes).toBe(500_000_000_000);
+
+            const audit = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/audit`)
+                .query({ action: 'organization.update', limit: 1 })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const [event] = audit.body.data.events;
+            expect(event.changes).toEqual([
+                { field: 'settings.auditRetentionDays', before: 365, after: 30 },
+            ]);
+            const expiresInDays =
+                (new Date(event.expiresAt).getTime() - new Date(event.createdAt).getTime()) /
+                (24 * 60 * 60 * 1000);
+            expect(Math.round(expiresInDays)).toBe(30);
+        });
+
+        it('rejects a retention outside 1 to 3650 days', async () => {
+            await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ settings: { auditRetentionDays: 0 } })
+                .expect(400);
+        });
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview E2E API tests for Collection endpoints
+ * Requires running server with env: API_BASE_URL, MONGO_URI, JWT_SECRET
+ */
+
+import request from 'supertest';
+import crypto from 'crypto';
+
+const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
+
+const generateChecksum = (seed: string): string =>
+    'sha256:' +
+    crypto.createHash('sha256').update(`${seed}-${Date.now()}-${Math.random()}`).digest('hex');
+
+describe('Collection API - E2E Tests', () => {
+    let authToken: string;
+    let orgId: string;
+    let collectionId: string;
+    const assetIds: string[] = [];
+
+    const user = {
+        email: `collection.test+${Date.now()}@example.com`,
+        password: 'SecureP@ssw0rd123!',
+        profile: { firstName: 'Collection', lastName: 'Tester' },
+    };
+
+    beforeAll(async () => {
+        await request(baseUrl).post('/api/v1/auth/register').send(user).expect(201);
+        const loginRes = await request(baseUrl)
+            .post('/api/v1/auth/login')
+            .send({ email: user.email, password: user.password })
+            .expect(200);
+        authToken = loginRes.body.data.token;
+
+        const orgRes = await request(baseUrl)
+            .post('/api/v1/organizations')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Collection Test Org' })
+            .expect(201);
+        orgId = orgRes.body.data.organization._id;
+
+        // Assets in two different projects
+        for (const name of ['Collections A', 'Collections B']) {
+            const projectRes = await request(baseUrl)
+                .post('/api/v1/projects')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name,
+                    path: `/${name.replace(' ', '-')}`,
+                })
+                .expect(201);
+
+            const uploadRes = await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: `${name.replace(' ', '-').toLowerCase()}.png`,
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum: generateChecksum(name),
+                    organizationId: orgId,
+                    projectId: projectRes.body.data.project._id,
+                })
+                .expect(201);
+            assetIds.push(uploadRes.body.data.assetId);
+        }
+    });
+
+    describe('POST /api/v1/collections - Create Collection', () => {
+        it('creates a collection spanning projects', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/collections')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId: orgId, name: 'Shortlist', assetIds })
+                .expect(201);
+
+            expect(res.body.success).toBe(true);
+            expect(res.body.data.collection).toMatchObject({
+                name: 'Shortlist',
+                itemCount: 2,
+                access: 'owner',
+            });
+            collectionId = res.body.data.collection.id;
+        });
+
+        it('rejects unknown assets', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/collections')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name: 'Broken',
+                    assetIds: ['64b0c7f4a2c8a2b3c4d5e6f7'],
+                })
+                .expect(400);
+
+            expect(res.body.code).toBe('INVALID_COLLECTION_ASSET');
+        });
+
+        it('rejects sharing with non-members', async () => {
+            await request(baseUrl)
+                .post('/api/v1/collections')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name: 'Shared',
+                    sharedWith: [{ userId: '64b0c7f4a2c8a2b3c4d5e6f7', access: 'view' }],
+                })
+                .expect(400);
+        });
+    });
+
+    describe('GET /api/v1/collections', () => {
+        it('lists my collections', async () => {
+            const res = await request(baseUrl)
+                .get('/api/v1/collections')
+                .query({ organizationId: orgId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.total).toBeGreaterThanOrEqual(1);
+            expect(res.body.data.collections.map((c: any) => c.id)).toContain(collectionId);
+        });
+
+        it('returns items in order with presented assets', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/collections/${collectionId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const items = res.body.data.items;
+            expect(items.map((item: any) => item.asset._id)).toEqual(assetIds);
+            expect(items[0].position).toBe(0);
+            expect(items[0].asset.assetType).toBe('image');
+        });
+
+        it('returns 404 for unknown collections', async () => {
+            await request(baseUrl)
+                .get('/api/v1/collections/64b0c7f4a2c8a2b3c4d5e6f7')
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+    });
+
+    describe('Collection items', () => {
+        it('reorders items', async () => {
+            const res = await request(baseUrl)
+                .put(`/api/v1/collections/${collectionId}/items/order`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetIds: [assetIds[1], assetIds[0]] })
+                .expect(200);
+
+            expect(res.body.data.items.map((item: any) => item.asset._id)).toEqual([
+                assetIds[1],
+                assetIds[0],
+            ]);
+        });
+
+        it('ignores assets that are already in the collection', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/collections/${collectionId}/items`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetIds: [assetIds[0]] })
+                .expect(200);
+
+            expect(res.body.data.collection.itemCount).toBe(2);
+        });
+
+        it('removes an item', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/collections/${collectionId}/items/${assetIds[0]}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            await request(baseUrl)
+                .delete(`/api/v1/collections/${collectionId}/items/${assetIds[0]}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+
+        it('adds an item at a position', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/collections/${collectionId}/items`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetIds: [assetIds[0]], position: 0 })
+                .expect(200);
+
+            expect(res.body.data.items[0].asset._id).toBe(assetIds[0]);
+        });
+    });
+
+    describe('PATCH / DELETE /api/v1/collections/:id', () => {
+        it('renames the collection', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/collections/${collectionId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Final picks' })
+                .expect(200);
+
+            expect(res.body.data.collection.name).toBe('Final picks');
+        });
+
+        it('deletes the collection but keeps its assets', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/collections/${collectionId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            await request(baseUrl)
+                .get(`/api/v1/assets/${assetIds[0]}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+        });
+    });
+});
@@ -651,7 +651,7 @@ describe('Organization API - Comprehensive E2E Tests', () => {
                 await request(baseUrl)
                     .delete(`/api/v1/organizations/${fakeId}`)
                     .set('Authorization', `Bearer ${authToken}`)
-                    .expect(204);
+                    .expect(404);
             });
 
             it('rejects invalid ObjectId', async () => {
@@ -683,12 +683,348 @@ describe('Organization API - Comprehensive E2E Tests', () => {
             expect(res.body.data.organization.ownerId).toBe(secondUserId);
         });
 
-        it('allows cross-user organization access', async () => {
-            // Second user can view first user's org
+        it('denies cross-user organization access', async () => {
+            // Second user is not a member of the first user's org
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('denies cross-user organization updates', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ name: 'Hijacked' })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+    });
+
+    describe('👥 Members', () => {
+        it('lists the owner as the first member', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/members`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const owner = res.body.data.members.find((m: any) => m.userId === testUserId);
+            expect(owner.roles).toEqual(['owner']);
+            expect(owner.status).toBe('active');
+        });
+
+        it('adds a member by email with the default role', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/members`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ email: secondUser.email })
+                .expect(201);
+
+            expect(res.body.data.member.userId).toBe(secondUserId);
+            expect(res.body.data.member.roles).toEqual(['viewer']);
+        });
+
+        it('rejects adding an existing member', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/members`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ userId: secondUserId })
+                .expect(409);
+        });
+
+        it('rejects unknown roles', async () => {
+            await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${secondUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ roles: ['no-such-role'] })
+                .expect(400);
+        });
+
+        it('lets a viewer read but not administer the organization', async () => {
             await request(baseUrl)
                 .get(`/api/v1/organizations/${orgId}`)
                 .set('Authorization', `Bearer ${secondUserToken}`)
                 .expect(200);
+
+            await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/members`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ userId: testUserId })
+                .expect(403);
+        });
+
+        it('lists my organizations and switches the active one', async () => {
+            const listRes = await request(baseUrl)
+                .get('/api/v1/users/me/organizations')
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(200);
+
+            const entry = listRes.body.data.organizations.find(
+                (o: any) => o.organization.id === orgId,
+            );
+            expect(entry.roles).toEqual(['viewer']);
+            expect(entry.isActive).toBe(false);
+
+            const switchRes = await request(baseUrl)
+                .put('/api/v1/users/me/active-organization')
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ organizationId: orgId })
+                .expect(200);
+
+            expect(switchRes.body.data.activeOrganizationId).toBe(orgId);
+            expect(switchRes.body.data.roles).toEqual(['viewer']);
+        });
+
+        it('refuses to switch to an organization the user is not a member of', async () => {
+            const res = await request(baseUrl)
+                .put('/api/v1/users/me/active-organization')
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ organizationId: secondOrgId })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('refuses grants of permissions the caller does not hold', async () => {
+            await request(baseUrl)
+                .post('/api/v1/roles')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name: 'member-manager',
+                    permissions: ['member:manage'],
+                })
+                .expect(201);
+
+            await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${secondUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ roles: ['editor', 'member-manager'] })
+                .expect(200);
+
+            const res = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${secondUserId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ roles: ['editor', 'member-manager', 'admin'] })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('refuses roles carrying permissions the caller does not hold', async () => {
+            const managerRes = await request(baseUrl)
+                .post('/api/v1/roles')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name: 'role-manager',
+                    permissions: ['role:manage'],
+                })
+                .expect(201);
+            const roleManagerId = managerRes.body.data.role._id;
+
+            await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${secondUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ roles: ['editor', 'member-manager', 'role-manager'] })
+                .expect(200);
+
+            const createRes = await request(baseUrl)
+                .post('/api/v1/roles')
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ organizationId: orgId, name: 'escalated', permissions: ['org:admin'] })
+                .expect(403);
+            expect(createRes.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+
+            const updateRes = await request(baseUrl)
+                .patch(`/api/v1/roles/${roleManagerId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ permissions: ['role:manage', 'org:admin'] })
+                .expect(403);
+            expect(updateRes.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('refuses to demote or remove members with permissions the caller lacks', async () => {
+            const admin = {
+                email: `org.test.admin+${Date.now()}@example.com`,
+                password: 'SecureP@ssw0rd321!',
+                profile: { firstName: 'Admin', lastName: 'Member' },
+            };
+            await request(baseUrl).post('/api/v1/auth/register').send(admin).expect(201);
+
+            const addRes = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/members`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ email: admin.email, roles: ['admin'] })
+                .expect(201);
+            const adminUserId = addRes.body.data.member.userId;
+
+            const demoteRes = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${adminUserId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .send({ roles: ['viewer'] })
+                .expect(403);
+            expect(demoteRes.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+
+            const removeRes = await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/members/${adminUserId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(403);
+            expect(removeRes.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+
+            await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/members/${adminUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+        });
+
+        it('protects the organization owner from removal', async () => {
+            const res = await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/members/${testUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(409);
+
+            expect(res.body.code).toBe('ORG_OWNER_PROTECTED');
+        });
+
+        it('removes a member and revokes their access', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/members/${secondUserId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(403);
+        });
+    });
+
+    describe('✉️ Invitations', () => {
+        let inviteeToken: string;
+        let invitationId: string;
+        let invitationToken: string;
+
+        const invitee = {
+            email: `org.test.invitee+${Date.now()}@example.com`,
+            password: 'SecureP@ssw0rd789!',
+            profile: { firstName: 'Invited', lastName: 'User' },
+        };
+
+        beforeAll(async () => {
+            await request(baseUrl).post('/api/v1/auth/register').send(invitee).expect(201);
+            const loginRes = await request(baseUrl)
+                .post('/api/v1/auth/login')
+                .send({ email: invitee.email, password: invitee.password })
+                .expect(200);
+            inviteeToken = loginRes.body.data.token;
+        });
+
+        it('creates an invitation token bound to an email and roles', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/invitations`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ email: invitee.email, roles: ['editor'] })
+                .expect(201);
+
+            expect(res.body.data.invitation.status).toBe('pending');
+            expect(res.body.data.invitation.roles).toEqual(['editor']);
+            expect(typeof res.body.data.token).toBe('string');
+            invitationId = res.body.data.invitation.id;
+            invitationToken = res.body.data.token;
+        });
+
+        it('lists pending invitations', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/invitations?status=pending`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.invitations.some((i: any) => i.id === invitationId)).toBe(true);
+        });
+
+        it('rejects acceptance by a different account', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/invitations/${invitationToken}/accept`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(403);
+
+            expect(res.body.code).toBe('INVITATION_EMAIL_MISMATCH');
+        });
+
+        it('rejects a tampered token', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/invitations/${invitationToken}x/accept`)
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .expect(400);
+        });
+
+        it('accepts the invitation and creates the membership', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/invitations/${invitationToken}/accept`)
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .expect(200);
+
+            expect(res.body.data.membership.organizationId).toBe(orgId);
+            expect(res.body.data.membership.roles).toEqual(['editor']);
+
+            await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}`)
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .expect(200);
+        });
+
+        it('does not accept the same invitation twice', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/invitations/${invitationToken}/accept`)
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .expect(409);
+        });
+
+        it('refuses invitations granting permissions the inviter does not hold', async () => {
+            const meRes = await request(baseUrl)
+                .get('/api/v1/users/me')
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .expect(200);
+
+            await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/members/${meRes.body.data.user.id}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ roles: ['editor', 'member-manager'] })
+                .expect(200);
+
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/invitations`)
+                .set('Authorization', `Bearer ${inviteeToken}`)
+                .send({ email: secondUser.email, roles: ['admin'] })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('revokes a pending invitation', async () => {
+            const createRes = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/invitations`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ email: secondUser.email })
+                .expect(201);
+
+            await request(baseUrl)
+                .delete(
+                    `/api/v1/organizations/${orgId}/invitations/${createRes.body.data.invitation.id}`,
+                )
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            const res = await request(baseUrl)
+                .post(`/api/v1/invitations/${createRes.body.data.token}/accept`)
+                .set('Authorization', `Bearer ${secondUserToken}`)
+                .expect(410);
+
+            expect(res.body.code).toBe('INVITATION_REVOKED');
         });
     });
 
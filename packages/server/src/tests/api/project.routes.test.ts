@@ -252,4 +252,40 @@ describe('Project API - Comprehensive E2E Tests', () => {
             await request(baseUrl).delete(`/api/v1/projects/${childProjectId}`).expect(401);
         });
     });
+
+    describe('Permissions', () => {
+        let outsiderToken: string;
+
+        beforeAll(async () => {
+            const outsider = {
+                email: `proj.outsider+${Date.now()}@example.com`,
+                password: 'SecureP@ssw0rd123!',
+                profile: { firstName: 'Proj', lastName: 'Outsider' },
+            };
+            await request(baseUrl).post('/api/v1/auth/register').send(outsider).expect(201);
+            const loginRes = await request(baseUrl)
+                .post('/api/v1/auth/login')
+                .send({ email: outsider.email, password: outsider.password })
+                .expect(200);
+            outsiderToken = loginRes.body.data.token;
+        });
+
+        it('denies listing projects of another organization', async () => {
+            const res = await request(baseUrl)
+                .get('/api/v1/projects')
+                .query({ organizationId: orgId })
+                .set('Authorization', `Bearer ${outsiderToken}`)
+                .expect(403);
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+
+        it('denies updating a project of another organization', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/projects/${rootProjectId}`)
+                .set('Authorization', `Bearer ${outsiderToken}`)
+                .send({ name: 'Hijacked' })
+                .expect(403);
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+    });
 });
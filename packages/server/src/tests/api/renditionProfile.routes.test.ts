@@ -0,0 +1,168 @@
+/**
+ * @fileoverview E2E API tests for organization rendition profiles
+ * Requires running server with env: API_BASE_URL, MONGO_URI, JWT_SECRET
+ */
+
+import request from 'supertest';
+
+const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
+
+describe('Rendition Profile API - E2E Tests', () => {
+    let authToken: string;
+    let outsiderToken: string;
+    let orgId: string;
+    let profileId: string;
+
+    const register = async (label: string) => {
+        const user = {
+            email: `renditions.${label}+${Date.now()}@example.com`,
+            password: 'SecureP@ssw0rd123!',
+            profile: { firstName: 'Rendition', lastName: label },
+        };
+        await request(baseUrl).post('/api/v1/auth/register').send(user).expect(201);
+        const res = await request(baseUrl)
+            .post('/api/v1/auth/login')
+            .send({ email: user.email, password: user.password })
+            .expect(200);
+        return res.body.data.token as string;
+    };
+
+    beforeAll(async () => {
+        authToken = await register('owner');
+        outsiderToken = await register('outsider');
+
+        const orgRes = await request(baseUrl)
+            .post('/api/v1/organizations')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Rendition Profile Test Org' })
+            .expect(201);
+        orgId = orgRes.body.data.organization._id;
+    });
+
+    describe('GET /api/v1/organizations/:id/rendition-profiles', () => {
+        it('lists the built-in defaults for a new organization', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.usingDefaults).toBe(true);
+            expect(res.body.data.profiles.map((p: any) => p.name)).toEqual(
+                expect.arrayContaining(['thumbnail_small', 'thumbnail_large', 'preview_720p']),
+            );
+        });
+
+        it('denies users outside the organization', async () => {
+            await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${outsiderToken}`)
+                .expect(403);
+        });
+    });
+
+    describe('POST /api/v1/organizations/:id/rendition-profiles', () => {
+        it('creates a profile and keeps the defaults alongside it', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'hero_1600',
+                    width: 1600,
+                    height: 900,
+                    fit: 'cover',
+                    format: 'webp',
+                    quality: 82,
+                    assetTypes: ['image', 'video'],
+                })
+                .expect(201);
+
+            expect(res.body.data.profile).toMatchObject({
+                name: 'hero_1600',
+                fit: 'cover',
+                format: 'webp',
+                active: true,
+            });
+            profileId = res.body.data.profile.id;
+
+            const list = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+            expect(list.body.data.usingDefaults).toBe(false);
+            expect(list.body.data.profiles.map((p: any) => p.name)).toEqual(
+                expect.arrayContaining(['hero_1600', 'thumbnail_small', 'preview_1080p']),
+            );
+        });
+
+        it('rejects a duplicate name', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'hero_1600',
+                    width: 800,
+                    height: 800,
+                    format: 'jpeg',
+                    assetTypes: ['image'],
+                })
+                .expect(409);
+
+            expect(res.body.code).toBe('RENDITION_PROFILE_EXISTS');
+        });
+
+        it('rejects video formats for image assets', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'clip_480p',
+                    width: 854,
+                    height: 480,
+                    format: 'mp4',
+                    assetTypes: ['image'],
+                })
+                .expect(400);
+
+            expect(res.body.code).toBe('INVALID_RENDITION_PROFILE');
+        });
+
+        it('rejects reserved names', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/rendition-profiles`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    name: 'poster',
+                    width: 800,
+                    height: 800,
+                    format: 'jpeg',
+                    assetTypes: ['video'],
+                })
+                .expect(400);
+        });
+    });
+
+    describe('PATCH and DELETE /api/v1/organizations/:id/rendition-profiles/:profileId', () => {
+        it('deactivates a profile', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/rendition-profiles/${profileId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ active: false, quality: 70 })
+                .expect(200);
+
+            expect(res.body.data.profile).toMatchObject({ active: false, quality: 70 });
+        });
+
+        it('deletes a profile', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/rendition-profiles/${profileId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/rendition-profiles/${profileId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+            expect(res.body.code).toBe('RENDITION_PROFILE_NOT_FOUND');
+        });
+    });
+});
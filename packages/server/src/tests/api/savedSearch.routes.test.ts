@@ -0,0 +1,204 @@
+/**
+ * @fileoverview E2E API tests for Saved Search endpoints and smart collections
+ * Requires running server with env: API_BASE_URL, MONGO_URI, JWT_SECRET
+ */
+
+import request from 'supertest';
+import crypto from 'crypto';
+
+const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
+
+const generateChecksum = (seed: string): string =>
+    'sha256:' +
+    crypto.createHash('sha256').update(`${seed}-${Date.now()}-${Math.random()}`).digest('hex');
+
+describe('Saved Search API - E2E Tests', () => {
+    let authToken: string;
+    let orgId: string;
+    let projectId: string;
+    let savedSearchId: string;
+    const tag = `saved-${Date.now()}`;
+
+    const user = {
+        email: `saved.search.test+${Date.now()}@example.com`,
+        password: 'SecureP@ssw0rd123!',
+        profile: { firstName: 'Saved', lastName: 'Searcher' },
+    };
+
+    const upload = async (filename: string, tags: string[]) => {
+        const res = await request(baseUrl)
+            .post('/api/v1/assets/uploads')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({
+                originalFilename: filename,
+                mimeType: 'image/png',
+                fileSizeBytes: 1024,
+                checksum: generateChecksum(filename),
+                organizationId: orgId,
+                projectId,
+                tags,
+            })
+            .expect(201);
+        return res.body.data.assetId as string;
+    };
+
+    beforeAll(async () => {
+        await request(baseUrl).post('/api/v1/auth/register').send(user).expect(201);
+        const loginRes = await request(baseUrl)
+            .post('/api/v1/auth/login')
+            .send({ email: user.email, password: user.password })
+            .expect(200);
+        authToken = loginRes.body.data.token;
+
+        const orgRes = await request(baseUrl)
+            .post('/api/v1/organizations')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Saved Search Test Org' })
+            .expect(201);
+        orgId = orgRes.body.data.organization._id;
+
+        const projectRes = await request(baseUrl)
+            .post('/api/v1/projects')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ organizationId: orgId, name: 'Saved Searches', path: '/saved-searches' })
+            .expect(201);
+        projectId = projectRes.body.data.project._id;
+
+        await upload('first-match.png', [tag]);
+        await upload('not-a-match.png', ['other']);
+    });
+
+    describe('POST /api/v1/saved-searches', () => {
+        it('saves a named query', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/saved-searches')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    organizationId: orgId,
+                    name: 'Tagged images',
+                    scope: 'organization',
+                    filters: { q: `type:image tag:${tag}` },
+                })
+                .expect(201);
+
+            expect(res.body.data.savedSearch).toMatchObject({
+                name: 'Tagged images',
+                scope: 'organization',
+                access: 'owner',
+                filters: { q: `type:image tag:${tag}`, sortBy: 'updatedAt', sortOrder: 'desc' },
+            });
+            savedSearchId = res.body.data.savedSearch.id;
+        });
+
+        it('rejects an invalid query expression', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/saved-searches')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId: orgId, name: 'Broken', filters: { q: 'width>wide' } })
+                .expect(400);
+
+            expect(res.body.details[0]).toMatchObject({ field: 'filters.q', token: 'wide' });
+        });
+    });
+
+    describe('GET /api/v1/saved-searches', () => {
+        it('lists saved searches', async () => {
+            const res = await request(baseUrl)
+                .get('/api/v1/saved-searches')
+                .query({ organizationId: orgId })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.savedSearches.map((s: any) => s.id)).toContain(savedSearchId);
+        });
+
+        it('runs a saved search', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/saved-searches/${savedSearchId}/assets`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.assets).toHaveLength(1);
+            expect(res.body.data.assets[0].originalFilename).toBe('first-match.png');
+            expect(res.body.data.pagination.total).toBe(1);
+        });
+
+        it('summarizes matches and picks up new assets', async () => {
+            await upload('second-match.png', [tag]);
+
+            const res = await request(baseUrl)
+                .get(`/api/v1/saved-searches/${savedSearchId}/summary`)
+                .query({ newest: 1 })
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.count).toBe(2);
+            expect(res.body.data.newest).toHaveLength(1);
+            expect(res.body.data.newest[0].originalFilename).toBe('second-match.png');
+        });
+
+        it('returns 404 for unknown saved searches', async () => {
+            await request(baseUrl)
+                .get('/api/v1/saved-searches/64b0c7f4a2c8a2b3c4d5e6f7')
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+    });
+
+    describe('Smart collections', () => {
+        let collectionId: string;
+
+        it('creates a smart collection from a saved search', async () => {
+            const res = await request(baseUrl)
+                .post('/api/v1/collections')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ organizationId: orgId, name: 'Live picks', savedSearchId })
+                .expect(201);
+
+            expect(res.body.data.collection).toMatchObject({ smart: true, savedSearchId });
+            collectionId = res.body.data.collection.id;
+        });
+
+        it('follows the saved search as assets change', async () => {
+            await upload('third-match.png', [tag]);
+
+            const res = await request(baseUrl)
+                .get(`/api/v1/collections/${collectionId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.collection.itemCount).toBe(3);
+            expect(res.body.data.items.map((item: any) => item.asset.originalFilename)).toContain(
+                'third-match.png',
+            );
+        });
+
+        it('does not accept manual items', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/collections/${collectionId}/items`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ assetIds: ['64b0c7f4a2c8a2b3c4d5e6f7'] })
+                .expect(409);
+
+            expect(res.body.code).toBe('SMART_COLLECTION_READ_ONLY');
+        });
+
+        it('keeps the saved search while collections use it', async () => {
+            const res = await request(baseUrl)
+                .delete(`/api/v1/saved-searches/${savedSearchId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(409);
+
+            expect(res.body.code).toBe('SAVED_SEARCH_IN_USE');
+
+            await request(baseUrl)
+                .delete(`/api/v1/collections/${collectionId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+            await request(baseUrl)
+                .delete(`/api/v1/saved-searches/${savedSearchId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+        });
+    });
+});
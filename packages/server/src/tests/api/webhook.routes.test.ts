@@ -0,0 +1,221 @@
+/**
+ * @fileoverview E2E API tests for organization webhooks
+ * Requires running server with env: API_BASE_URL, MONGO_URI, JWT_SECRET
+ */
+
+import request from 'supertest';
+import crypto from 'crypto';
+
+const baseUrl = process.env.API_BASE_URL || 'http://localhost:4000';
+
+// TEST-NET-3 address: public, so accepted, and never answers
+const receiverUrl = 'https://203.0.113.10/hooks/dam';
+
+describe('Webhook API - E2E Tests', () => {
+    let authToken: string;
+    let outsiderToken: string;
+    let orgId: string;
+    let projectId: string;
+    let webhookId: string;
+    let secret: string;
+
+    const register = async (label: string) => {
+        const user = {
+            email: `webhook.${label}+${Date.now()}@example.com`,
+            password: 'SecureP@ssw0rd123!',
+            profile: { firstName: 'Webhook', lastName: label },
+        };
+        await request(baseUrl).post('/api/v1/auth/register').send(user).expect(201);
+        const res = await request(baseUrl)
+            .post('/api/v1/auth/login')
+            .send({ email: user.email, password: user.password })
+            .expect(200);
+        return res.body.data.token as string;
+    };
+
+    beforeAll(async () => {
+        authToken = await register('owner');
+        outsiderToken = await register('outsider');
+
+        const orgRes = await request(baseUrl)
+            .post('/api/v1/organizations')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ name: 'Webhook Test Org' })
+            .expect(201);
+        orgId = orgRes.body.data.organization._id;
+
+        const projectRes = await request(baseUrl)
+            .post('/api/v1/projects')
+            .set('Authorization', `Bearer ${authToken}`)
+            .send({ organizationId: orgId, name: 'Webhooks', path: '/webhooks' })
+            .expect(201);
+        projectId = projectRes.body.data.project._id;
+    });
+
+    describe('POST /api/v1/organizations/:id/webhooks', () => {
+        it('creates a webhook and returns its secret once', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/webhooks`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    url: receiverUrl,
+                    description: 'Lifecycle events',
+                    events: ['asset.created', 'asset.deleted'],
+                })
+                .expect(201);
+
+            expect(res.body.data.secret).toMatch(/^whsec_/);
+            expect(res.body.data.webhook).toMatchObject({
+                url: receiverUrl,
+                events: ['asset.created', 'asset.deleted'],
+                active: true,
+            });
+            expect(res.body.data.webhook).not.toHaveProperty('secret');
+            webhookId = res.body.data.webhook.id;
+            secret = res.body.data.secret;
+        });
+
+        it('rejects receivers on private networks', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/webhooks`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ url: 'http://127.0.0.1:8080/hook', events: ['asset.created'] })
+                .expect(400);
+
+            expect(res.body.code).toBe('INVALID_WEBHOOK_URL');
+        });
+
+        it('rejects unknown events', async () => {
+            await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/webhooks`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ url: receiverUrl, events: ['asset.viewed'] })
+                .expect(400);
+        });
+
+        it('denies users outside the organization', async () => {
+            const res = await request(baseUrl)
+                .post(`/api/v1/organizations/${orgId}/webhooks`)
+                .set('Authorization', `Bearer ${outsiderToken}`)
+                .send({ url: receiverUrl, events: ['asset.created'] })
+                .expect(403);
+
+            expect(res.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+        });
+    });
+
+    describe('GET and PATCH /api/v1/organizations/:id/webhooks/:webhookId', () => {
+        it('lists webhooks without secrets', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/webhooks`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            expect(res.body.data.webhooks.map((w: any) => w.id)).toContain(webhookId);
+            expect(JSON.stringify(res.body)).not.toContain(secret);
+        });
+
+        it('rotates the secret', async () => {
+            const res = await request(baseUrl)
+                .patch(`/api/v1/organizations/${orgId}/webhooks/${webhookId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ rotateSecret: true })
+                .expect(200);
+
+            expect(res.body.data.secret).toMatch(/^whsec_/);
+            expect(res.body.data.secret).not.toBe(secret);
+        });
+
+        it('returns 404 for a webhook of another organization', async () => {
+            const otherOrg = await request(baseUrl)
+                .post('/api/v1/organizations')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({ name: 'Other Webhook Org' })
+                .expect(201);
+
+            const res = await request(baseUrl)
+                .get(
+                    `/api/v1/organizations/${otherOrg.body.data.organization._id}/webhooks/${webhookId}`,
+                )
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+
+            expect(res.body.code).toBe('WEBHOOK_NOT_FOUND');
+        });
+    });
+
+    describe('Deliveries', () => {
+        let deliveryId: string;
+
+        beforeAll(async () => {
+            await request(baseUrl)
+                .post('/api/v1/assets/uploads')
+                .set('Authorization', `Bearer ${authToken}`)
+                .send({
+                    originalFilename: 'webhook.png',
+                    mimeType: 'image/png',
+                    fileSizeBytes: 1024,
+                    checksum:
+                        'sha256:' +
+                        crypto.createHash('sha256').update(`webhook-${Date.now()}`).digest('hex'),
+                    organizationId: orgId,
+                    projectId,
+                })
+                .expect(201);
+        });
+
+        it('logs a delivery for subscribed events', async () => {
+            const res = await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/webhooks/${webhookId}/deliveries`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(200);
+
+            const [delivery] = res.body.data.deliveries;
+            expect(delivery).toMatchObject({
+                webhookId,
+                event: 'asset.created',
+                payload: { type: 'asset.created', organizationId: orgId },
+            });
+            expect(delivery.eventId).toBe(delivery.payload.id);
+            deliveryId = delivery.id;
+        });
+
+        it('redelivers an event as a new delivery', async () => {
+            const res = await request(baseUrl)
+                .post(
+                    `/api/v1/organizations/${orgId}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`,
+                )
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(202);
+
+            expect(res.body.data.delivery).toMatchObject({
+                status: 'pending',
+                redeliveryOf: deliveryId,
+            });
+            expect(res.body.data.delivery.id).not.toBe(deliveryId);
+        });
+
+        it('returns 404 when redelivering an unknown delivery', async () => {
+            await request(baseUrl)
+                .post(
+                    `/api/v1/organizations/${orgId}/webhooks/${webhookId}/deliveries/507f1f77bcf86cd799439011/redeliver`,
+                )
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+    });
+
+    describe('DELETE /api/v1/organizations/:id/webhooks/:webhookId', () => {
+        it('deletes the webhook', async () => {
+            await request(baseUrl)
+                .delete(`/api/v1/organizations/${orgId}/webhooks/${webhookId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(204);
+
+            await request(baseUrl)
+                .get(`/api/v1/organizations/${orgId}/webhooks/${webhookId}`)
+                .set('Authorization', `Bearer ${authToken}`)
+                .expect(404);
+        });
+    });
+});
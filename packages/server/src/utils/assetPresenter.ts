@@ -1,7 +1,8 @@
 /**
  * presentAsset - Convert a Mongoose Asset document into a plain JSON object
  * @param asset - Mongoose document or plain asset object
- * @returns Plain object with public asset fields and flattened metadata
+ * @returns Plain object with public asset fields, flattened metadata and, for videos
+ * with sprites, the `thumbnailTrack` used for timeline scrubbing
  */
 export function presentAsset(asset: any): Record<string, any> {
     const plain = typeof asset.toObject === 'function' ? asset.toObject() : asset;
@@ -9,6 +10,19 @@ export function presentAsset(asset: any): Record<string, any> {
     const customMetadataObj = plain.customMetadata instanceof Map
         ? Object.fromEntries(plain.customMetadata)
         : (plain.customMetadata || {});
+    // Scrubbing sprites are served through the API so their sheets get presigned URLs
+    const sprites = plain.renditions?.sprites;
+    const thumbnailTrack = sprites && plain.renditions?.thumbnails_vtt
+        ? {
+            url: `/api/v1/assets/${plain._id}/thumbnails.vtt`,
+            intervalSeconds: sprites.intervalSeconds,
+            tileWidth: sprites.tileWidth,
+            tileHeight: sprites.tileHeight,
+            columns: sprites.columns,
+            rows: sprites.rows,
+            sheetCount: sprites.sheetCount
+        }
+        : undefined;
     return {
         ...plain,
         assetType: plain.assetType?.toLowerCase() || plain.assetType,
@@ -16,7 +30,9 @@ export function presentAsset(asset: any): Record<string, any> {
         organizationId: plain.organizationId?._id || plain.organizationId,
         projectId: plain.projectId?._id || plain.projectId,
         uploadedBy: plain.uploadedBy?._id || plain.uploadedBy,
-        description: customMetadataObj.description,
-        customMetadata: customMetadataObj
+        // Older assets kept their description in custom metadata
+        description: plain.description ?? customMetadataObj.description,
+        customMetadata: customMetadataObj,
+        ...(thumbnailTrack && { thumbnailTrack })
     };
 }
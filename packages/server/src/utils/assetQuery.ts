@@ -0,0 +1,515 @@
+/**
+ * Asset query language
+ *
+ * Parses expressions such as `type:video duration>60 -status:failed project:/marketing/**`
+ * into a validated AST, then compiles that AST into a Mongo filter over asset fields.
+ * Parse errors carry the offset and text of the offending token.
+ */
+import { AssetType, AssetStatus, AccessLevel } from '../models/Asset.model';
+
+export const ASSET_QUERY_MAX_LENGTH = 1000;
+export const ASSET_QUERY_MAX_CLAUSES = 30;
+
+export type AssetQueryOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+export type AssetQueryValue = string | number | AssetQueryDate;
+
+/** A date-only value (`2026-01-31`) covers the whole UTC day */
+export interface AssetQueryDate {
+    date: Date;
+    wholeDay: boolean;
+}
+
+/** `field<op>value` — several comma-separated values with `:` match any of them */
+export interface AssetQueryFieldClause {
+    kind: 'field';
+    field: string;
+    type: AssetQueryFieldType;
+    operator: AssetQueryOperator;
+    values: AssetQueryValue[];
+    negated: boolean;
+    position: number;
+}
+
+/** A bare word or quoted phrase, matched inside the filename */
+export interface AssetQueryTextClause {
+    kind: 'text';
+    value: string;
+    negated: boolean;
+    position: number;
+}
+
+export type AssetQueryClause = AssetQueryFieldClause | AssetQueryTextClause;
+
+export interface AssetQuery {
+    source: string;
+    clauses: AssetQueryClause[];
+}
+
+export interface AssetQueryContext {
+    userId: string;
+    // Project IDs in the organization whose path matches the pattern
+    resolveProjects: (pathPattern: RegExp) => Promise<string[]>;
+}
+
+type AssetQueryFieldType = 'enum' | 'string' | 'number' | 'bytes' | 'date' | 'user' | 'project';
+
+interface FieldDefinition {
+    path: string;
+    type: AssetQueryFieldType;
+    values?: string[];
+}
+
+const ENUM_FIELDS: Record<string, FieldDefinition> = {
+    assetType: { path: 'assetType', type: 'enum', values: Object.values(AssetType) },
+    status: { path: 'status', type: 'enum', values: Object.values(AssetStatus) },
+    access: { path: 'access', type: 'enum', values: Object.values(AccessLevel) },
+};
+
+const METADATA_FIELDS: Record<string, FieldDefinition> = {
+    width: { path: 'metadata.width', type: 'number' },
+    height: { path: 'metadata.height', type: 'number' },
+    duration: { path: 'metadata.duration', type: 'number' },
+    bitrate: { path: 'metadata.bitrate', type: 'number' },
+    pageCount: { path: 'metadata.pageCount', type: 'number' },
+    codec: { path: 'metadata.codec', type: 'string' },
+};
+
+const ANALYTICS_FIELDS: Record<string, FieldDefinition> = {
+    viewCount: { path: 'analytics.viewCount', type: 'number' },
+    downloadCount: { path: 'analytics.downloadCount', type: 'number' },
+};
+
+// Field names and their aliases; `metadata.*`, `analytics.*` and `customMetadata.*` are resolved separately
+const FIELDS: Record<string, FieldDefinition> = {
+    ...ENUM_FIELDS,
+    type: ENUM_FIELDS.assetType,
+    tag: { path: 'tags', type: 'string' },
+    tags: { path: 'tags', type: 'string' },
+    project: { path: 'projectId', type: 'project' },
+    name: { path: 'originalFilename', type: 'string' },
+    filename: { path: 'originalFilename', type: 'string' },
+    originalFilename: { path: 'originalFilename', type: 'string' },
+    mime: { path: 'mimeType', type: 'string' },
+    mimeType: { path: 'mimeType', type: 'string' },
+    size: { path: 'fileSizeBytes', type: 'bytes' },
+    fileSizeBytes: { path: 'fileSizeBytes', type: 'bytes' },
+    version: { path: 'latestVersion', type: 'number' },
+    latestVersion: { path: 'latestVersion', type: 'number' },
+    uploader: { path: 'uploadedBy', type: 'user' },
+    uploadedBy: { path: 'uploadedBy', type: 'user' },
+    created: { path: 'createdAt', type: 'date' },
+    createdAt: { path: 'createdAt', type: 'date' },
+    updated: { path: 'updatedAt', type: 'date' },
+    updatedAt: { path: 'updatedAt', type: 'date' },
+    views: ANALYTICS_FIELDS.viewCount,
+    downloads: ANALYTICS_FIELDS.downloadCount,
+    ...METADATA_FIELDS,
+};
+
+const COMPARABLE_TYPES: AssetQueryFieldType[] = ['number', 'bytes', 'date'];
+
+const OPERATORS: [string, AssetQueryOperator][] = [
+    ['>=', 'gte'],
+    ['<=', 'lte'],
+    ['>', 'gt'],
+    ['<', 'lt'],
+    [':', 'eq'],
+    ['=', 'eq'],
+];
+
+const BYTE_UNITS: Record<string, number> = {
+    '': 1,
+    b: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+    tb: 1024 ** 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Grammar reference, published in the OpenAPI description
+ */
+export const ASSET_QUERY_SYNTAX = `
+Clauses are separated by spaces and must all match. Prefix a clause with \`-\` to negate it.
+
+| Form | Meaning |
+| --- | --- |
+| \`field:value\` | equals (\`=\` is a synonym); \`field:a,b\` matches any of the values |
+| \`field>n\` \`field>=n\` \`field<n\` \`field<=n\` | numeric or date comparison |
+| \`word\` or \`"a phrase"\` | case-insensitive match inside the filename |
+
+Text values may contain \`*\` (any characters) and \`?\` (one character) and may be double-quoted.
+Project paths use \`*\` for one path segment and \`**\` for any depth: \`project:/marketing/**\` matches
+\`/marketing\` and everything below it.
+
+| Field | Aliases | Values |
+| --- | --- | --- |
+| \`assetType\` | \`type\` | ${Object.values(AssetType).join(', ').toLowerCase()} |
+| \`status\` | | ${Object.values(AssetStatus).join(', ')} |
+| \`access\` | | ${Object.values(AccessLevel).join(', ')} |
+| \`tags\` | \`tag\` | text |
+| \`project\` | | project path or ID |
+| \`originalFilename\` | \`name\`, \`filename\` | text |
+| \`mimeType\` | \`mime\` | text, e.g. \`image/*\` |
+| \`fileSizeBytes\` | \`size\` | bytes, with optional KB, MB, GB or TB suffix |
+| \`latestVersion\` | \`version\` | number |
+| \`uploadedBy\` | \`uploader\` | user ID or \`me\` |
+| \`createdAt\`, \`updatedAt\` | \`created\`, \`updated\` | ISO date or date-time; a date covers the whole UTC day |
+| \`metadata.<key>\` | \`width\`, \`height\`, \`duration\`, \`bitrate\`, \`pageCount\`, \`codec\` | number (\`codec\`: text) |
+| \`analytics.<key>\` | \`views\`, \`downloads\` | \`viewCount\`, \`downloadCount\`: number |
+| \`customMetadata.<key>\` | | text |
+
+Example: \`type:video duration>60 tag:campaign-2026 -status:failed width>=1920 project:/marketing/**\`
+`.trim();
+
+function queryError(message: string, position: number, token: string): any {
+    const err: any = new Error(`${message} at position ${position}: "${token}"`);
+    err.status = 400;
+    err.code = 'INVALID_ASSET_QUERY';
+    err.position = position;
+    err.token = token;
+    return err;
+}
+
+function escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a `*` / `?` text pattern into an anchored, case-insensitive regex
+ */
+function textPattern(value: string): RegExp {
+    const source = value
+        .split(/([*?])/)
+        .map((part) => (part === '*' ? '.*' : part === '?' ? '.' : escapeRegex(part)))
+        .join('');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Convert a project path glob into a regex over `Project.path`
+ * @param glob - Path such as `/marketing/**` or `/brand/*\/hero`
+ */
+function projectPathPattern(glob: string): RegExp {
+    const normalized = (glob.startsWith('/') ? glob : `/${glob}`).replace(/\/+$/, '') || '/';
+    const source = normalized
+        .split(/(\/\*\*|\*\*|\*|\?)/)
+        .map((part) => {
+            if (part === '/**') return '(?:/.*)?';
+            if (part === '**') return '.*';
+            if (part === '*') return '[^/]*';
+            if (part === '?') return '[^/]';
+            return escapeRegex(part);
+        })
+        .join('');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolve a field name, including the `metadata.*`, `analytics.*` and `customMetadata.*` namespaces
+ */
+function resolveField(name: string, position: number): FieldDefinition {
+    const [namespace, key, ...rest] = name.split('.');
+    if (key !== undefined) {
+        const nested: Record<string, Record<string, FieldDefinition>> = {
+            metadata: METADATA_FIELDS,
+            analytics: ANALYTICS_FIELDS,
+        };
+        if (namespace === 'customMetadata' && key && rest.length === 0) {
+            return { path: `customMetadata.${key}`, type: 'string' };
+        }
+        const definition = rest.length === 0 ? nested[namespace]?.[key] : undefined;
+        if (definition) return definition;
+        if (nested[namespace]) {
+            throw queryError(
+                `Unknown ${namespace} field; expected one of ${Object.keys(nested[namespace]).join(', ')}`,
+                position,
+                name,
+            );
+        }
+        throw queryError('Unknown field', position, name);
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(FIELDS, name)) {
+        throw queryError('Unknown field', position, name);
+    }
+    return FIELDS[name];
+}
+
+/**
+ * Validate and convert one value for a field
+ */
+function parseValue(definition: FieldDefinition, raw: string, position: number): AssetQueryValue {
+    switch (definition.type) {
+        case 'enum': {
+            const value = definition.values!.find((v) => v.toLowerCase() === raw.toLowerCase());
+            if (!value) {
+                const allowed = definition.values!.map((v) => v.toLowerCase()).join(', ');
+                throw queryError(`Invalid value; expected one of ${allowed}`, position, raw);
+            }
+            return value;
+        }
+        case 'number': {
+            if (!/^\d+(\.\d+)?$/.test(raw)) throw queryError('Expected a number', position, raw);
+            return Number(raw);
+        }
+        case 'bytes': {
+            const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i.exec(raw);
+            if (!match) throw queryError('Expected a size such as 500KB or 2GB', position, raw);
+            return Math.round(Number(match[1]) * BYTE_UNITS[(match[2] || '').toLowerCase()]);
+        }
+        case 'date': {
+            const date = new Date(raw);
+            if (!/^\d{4}-\d{2}-\d{2}/.test(raw) || Number.isNaN(date.getTime())) {
+                throw queryError('Expected an ISO date such as 2026-01-31', position, raw);
+            }
+            return { date, wholeDay: raw.length === 10 };
+        }
+        case 'user': {
+            if (raw !== 'me' && !/^[0-9a-fA-F]{24}$/.test(raw)) {
+                throw queryError('Expected a user ID or "me"', position, raw);
+            }
+            return raw;
+        }
+        default:
+            if (!raw) throw queryError('Expected a value', position, raw);
+            return raw;
+    }
+}
+
+/**
+ * Read a double-quoted string with `\"` escapes
+ * @returns The unquoted text and the offset just past the closing quote
+ */
+function readQuoted(input: string, start: number): { text: string; end: number } {
+    let text = '';
+    let i = start + 1;
+    while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        text += input[i++];
+    }
+    if (i >= input.length) {
+        throw queryError('Unterminated quoted string', start, input.slice(start));
+    }
+    return { text, end: i + 1 };
+}
+
+/**
+ * Read a bare search term: a quoted phrase or a run of non-space characters
+ */
+function readTerm(input: string, start: number): { text: string; end: number } {
+    if (input[start] === '"') return readQuoted(input, start);
+    let end = start;
+    while (end < input.length && !/\s/.test(input[end])) end++;
+    return { text: input.slice(start, end), end };
+}
+
+/**
+ * Read a field value, or a comma-separated list of them: `a,"b c",d`
+ */
+function readValues(
+    input: string,
+    start: number,
+): { items: { text: string; position: number }[]; end: number } {
+    const items: { text: string; position: number }[] = [];
+    let i = start;
+
+    for (;;) {
+        const position = i;
+        let text: string;
+        if (input[i] === '"') {
+            ({ text, end: i } = readQuoted(input, i));
+        } else {
+            while (i < input.length && !/\s/.test(input[i]) && input[i] !== ',') i++;
+            text = input.slice(position, i);
+            if (!text) throw queryError('Expected a value', position, input.slice(start, i + 1));
+        }
+        items.push({ text, position });
+
+        if (input[i] === ',') {
+            i++;
+            continue;
+        }
+        if (i < input.length && !/\s/.test(input[i])) {
+            throw queryError('Expected "," or a space after a value', i, input[i]);
+        }
+        return { items, end: i };
+    }
+}
+
+/**
+ * Parse a query string into a validated AST
+ * @param input - Query such as `type:video duration>60 -status:failed`
+ * @returns Parsed clauses
+ * @throws 400 INVALID_ASSET_QUERY with `position` and `token` of the offending token
+ */
+export function parseAssetQuery(input: string): AssetQuery {
+    if (input.length > ASSET_QUERY_MAX_LENGTH) {
+        throw queryError(
+            `Query cannot exceed ${ASSET_QUERY_MAX_LENGTH} characters`,
+            ASSET_QUERY_MAX_LENGTH,
+            input.slice(ASSET_QUERY_MAX_LENGTH, ASSET_QUERY_MAX_LENGTH + 20),
+        );
+    }
+
+    const clauses: AssetQueryClause[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) {
+            i++;
+            continue;
+        }
+
+        const position = i;
+        const negated = input[i] === '-';
+        if (negated) i++;
+
+        if (clauses.length === ASSET_QUERY_MAX_CLAUSES) {
+            throw queryError(
+                `Query cannot have more than ${ASSET_QUERY_MAX_CLAUSES} clauses`,
+                position,
+                readTerm(input, position).text,
+            );
+        }
+
+        const fieldMatch = /^[A-Za-z][\w]*(?:\.[\w-]+)*/.exec(input.slice(i));
+        const afterField = fieldMatch ? i + fieldMatch[0].length : i;
+        const operator = fieldMatch
+            ? OPERATORS.find(([symbol]) => input.startsWith(symbol, afterField))
+            : undefined;
+
+        if (!fieldMatch || !operator) {
+            // Bare word or quoted phrase
+            const { text, end } = readTerm(input, i);
+            if (!text)
+                throw queryError('Expected a search term', position, input.slice(position, end));
+            clauses.push({ kind: 'text', value: text, negated, position });
+            i = end;
+            continue;
+        }
+
+        const name = fieldMatch[0];
+        const definition = resolveField(name, i);
+        const [symbol, op] = operator;
+        const valueStart = afterField + symbol.length;
+
+        if (op !== 'eq' && !COMPARABLE_TYPES.includes(definition.type)) {
+            throw queryError(`Field "${name}" only supports ":"`, afterField, symbol);
+        }
+
+        const { items, end } = readValues(input, valueStart);
+        if (items.length > 1 && op !== 'eq') {
+            throw queryError(
+                'Value lists are only allowed with ":"',
+                valueStart,
+                input.slice(valueStart, end),
+            );
+        }
+
+        clauses.push({
+            kind: 'field',
+            field: definition.path,
+            type: definition.type,
+            operator: op,
+            values: items.map((item) => parseValue(definition, item.text, item.position)),
+            negated,
+            position,
+        });
+        i = end;
+    }
+
+    return { source: input, clauses };
+}
+
+const MONGO_OPERATORS: Record<Exclude<AssetQueryOperator, 'eq'>, string> = {
+    gt: '$gt',
+    gte: '$gte',
+    lt: '$lt',
+    lte: '$lte',
+};
+
+/**
+ * Date-only values cover the whole UTC day: `created:2026-01-31` is that day,
+ * `created>2026-01-31` starts the day after
+ */
+function compileDate({ date, wholeDay }: AssetQueryDate, operator: AssetQueryOperator): any {
+    if (!wholeDay) {
+        return operator === 'eq' ? date : { [MONGO_OPERATORS[operator]]: date };
+    }
+    const nextDay = new Date(date.getTime() + DAY_MS);
+    switch (operator) {
+        case 'eq':
+            return { $gte: date, $lt: nextDay };
+        case 'gt':
+            return { $gte: nextDay };
+        case 'lte':
+            return { $lt: nextDay };
+        default:
+            return { [MONGO_OPERATORS[operator]]: date };
+    }
+}
+
+async function compileFieldClause(
+    clause: AssetQueryFieldClause,
+    context: AssetQueryContext,
+): Promise<Record<string, any>> {
+    const { field, type, operator, values } = clause;
+
+    if (type === 'project') {
+        const ids = new Set<string>();
+        for (const value of values as string[]) {
+            if (/^[0-9a-fA-F]{24}$/.test(value)) {
+                ids.add(value);
+            } else {
+                (await context.resolveProjects(projectPathPattern(value))).forEach((id) =>
+                    ids.add(id),
+                );
+            }
+        }
+        return { [field]: { $in: Array.from(ids) } };
+    }
+
+    if (type === 'date') {
+        const conditions = (values as AssetQueryDate[]).map((value) => ({
+            [field]: compileDate(value, operator),
+        }));
+        return conditions.length === 1 ? conditions[0] : { $or: conditions };
+    }
+
+    if (operator !== 'eq') {
+        return { [field]: { [MONGO_OPERATORS[operator]]: values[0] } };
+    }
+
+    const matchers = values.map((value) => {
+        if (type === 'user' && value === 'me') return context.userId;
+        if (type === 'string' && /[*?]/.test(value as string)) return textPattern(value as string);
+        return value;
+    });
+    return { [field]: matchers.length === 1 ? matchers[0] : { $in: matchers } };
+}
+
+/**
+ * Compile a parsed query into a Mongo filter
+ * @param query - Parsed query
+ * @param context - Caller and project path resolution
+ * @returns Filter to combine with the other list conditions
+ */
+export async function compileAssetQuery(
+    query: AssetQuery,
+    context: AssetQueryContext,
+): Promise<Record<string, any>> {
+    const conditions: Record<string, any>[] = [];
+
+    for (const clause of query.clauses) {
+        const condition =
+            clause.kind === 'text'
+                ? { originalFilename: { $regex: escapeRegex(clause.value), $options: 'i' } }
+                : await compileFieldClause(clause, context);
+        conditions.push(clause.negated ? { $nor: [condition] } : condition);
+    }
+
+    return conditions.length > 0 ? { $and: conditions } : {};
+}
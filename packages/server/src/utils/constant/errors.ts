@@ -55,6 +55,59 @@ const ERROR_CLASSIFICATIONS: Record<
         category: 'business',
         severity: 'medium',
     },
+    MEMBERSHIP_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    MEMBERSHIP_EXISTS: { status: 409, category: 'business', severity: 'low' },
+    ORG_OWNER_PROTECTED: { status: 409, category: 'business', severity: 'medium' },
+    INVALID_ROLE: { status: 400, category: 'validation', severity: 'low' },
+    INVITATION_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    INVITATION_NOT_PENDING: { status: 409, category: 'business', severity: 'low' },
+    INVITATION_EXPIRED: { status: 410, category: 'business', severity: 'low' },
+    INVITATION_REVOKED: { status: 410, category: 'business', severity: 'low' },
+    INVITATION_EMAIL_MISMATCH: { status: 403, category: 'business', severity: 'medium' },
+    INVALID_INVITATION_TOKEN: { status: 400, category: 'validation', severity: 'low' },
+    SHARE_LINK_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    SHARE_LINK_REVOKED: { status: 410, category: 'business', severity: 'low' },
+    SHARE_LINK_EXPIRED: { status: 410, category: 'business', severity: 'low' },
+    SHARE_LINK_EXHAUSTED: { status: 410, category: 'business', severity: 'low' },
+    SHARE_PASSWORD_REQUIRED: { status: 401, category: 'auth', severity: 'low' },
+    INVALID_SHARE_PASSWORD: { status: 401, category: 'auth', severity: 'medium' },
+    SHARE_PASSWORD_LOCKED: { status: 429, category: 'auth', severity: 'medium' },
+    PUBLIC_SHARING_DISABLED: { status: 403, category: 'business', severity: 'low' },
+    RENDITION_NOT_SHARED: { status: 403, category: 'business', severity: 'low' },
+    RENDITION_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    INVALID_RENDITION: { status: 400, category: 'validation', severity: 'low' },
+    COLLECTION_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    COLLECTION_ITEM_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    COLLECTION_CONFLICT: { status: 409, category: 'business', severity: 'low' },
+    COLLECTION_FULL: { status: 400, category: 'validation', severity: 'low' },
+    INVALID_COLLECTION_ASSET: { status: 400, category: 'validation', severity: 'low' },
+    INVALID_COLLECTION_MEMBER: { status: 400, category: 'validation', severity: 'low' },
+    INVALID_SAVED_SEARCH: { status: 400, category: 'validation', severity: 'low' },
+    SMART_COLLECTION_READ_ONLY: { status: 409, category: 'business', severity: 'low' },
+    SAVED_SEARCH_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    SAVED_SEARCH_IN_USE: { status: 409, category: 'business', severity: 'low' },
+    INVALID_ASSET_QUERY: { status: 400, category: 'validation', severity: 'low' },
+    INVALID_CURSOR: { status: 400, category: 'validation', severity: 'low' },
+    INVALID_TARGET_PROJECT: { status: 400, category: 'validation', severity: 'low' },
+    ASSET_BUSY: { status: 409, category: 'business', severity: 'low' },
+    BULK_JOB_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    WEBHOOK_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    WEBHOOK_DELIVERY_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    WEBHOOK_LIMIT_REACHED: { status: 409, category: 'business', severity: 'low' },
+    INVALID_WEBHOOK_URL: { status: 400, category: 'validation', severity: 'low' },
+    RENDITION_PROFILE_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    RENDITION_PROFILE_EXISTS: { status: 409, category: 'business', severity: 'low' },
+    RENDITION_PROFILE_LIMIT_REACHED: { status: 409, category: 'business', severity: 'low' },
+    INVALID_RENDITION_PROFILE: { status: 400, category: 'validation', severity: 'low' },
+    TRANSFORM_NOT_SUPPORTED: { status: 400, category: 'business', severity: 'low' },
+    TRANSFORM_SOURCE_TOO_LARGE: { status: 400, category: 'business', severity: 'low' },
+    TRANSFORM_VARIANT_LIMIT_REACHED: { status: 400, category: 'business', severity: 'low' },
+    STREAM_NOT_AVAILABLE: { status: 404, category: 'business', severity: 'low' },
+    POSTER_NOT_SUPPORTED: { status: 400, category: 'business', severity: 'low' },
+    INVALID_POSTER_SOURCE: { status: 400, category: 'validation', severity: 'low' },
+    PREVIOUS_POSTER_NOT_FOUND: { status: 404, category: 'business', severity: 'low' },
+    INVALID_UPLOAD: { status: 400, category: 'validation', severity: 'low' },
+    UPLOAD_TOO_LARGE: { status: 413, category: 'validation', severity: 'low' },
     RATE_LIMIT_EXCEEDED: { status: 429, category: 'system', severity: 'medium' },
     SERVICE_UNAVAILABLE: { status: 503, category: 'system', severity: 'high' },
     TIMEOUT_ERROR: { status: 408, category: 'system', severity: 'medium' },
@@ -0,0 +1,54 @@
+/**
+ * Permission catalogue
+ *
+ * Every permission a role can grant. `Role.permissions` may only contain values
+ * from this list; `org:admin` implicitly grants every other permission.
+ */
+const PERMISSIONS = {
+    ASSET_READ: 'asset:read',
+    ASSET_WRITE: 'asset:write',
+    ASSET_DELETE: 'asset:delete',
+    ASSET_SHARE: 'asset:share',
+    PROJECT_READ: 'project:read',
+    PROJECT_MANAGE: 'project:manage',
+    ROLE_MANAGE: 'role:manage',
+    MEMBER_MANAGE: 'member:manage',
+    ANALYTICS_READ: 'analytics:read',
+    ORG_READ: 'org:read',
+    ORG_ADMIN: 'org:admin',
+} as const;
+
+type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+/**
+ * Built-in role templates, usable by name in `Membership.roles`. `owner` is
+ * implicit for the organization owner; `viewer` is given to new members when the
+ * organization defines no default role.
+ */
+const ROLE_TEMPLATES: Record<'owner' | 'admin' | 'editor' | 'viewer', Permission[]> = {
+    owner: ALL_PERMISSIONS,
+    admin: ALL_PERMISSIONS,
+    editor: [
+        PERMISSIONS.ASSET_READ,
+        PERMISSIONS.ASSET_WRITE,
+        PERMISSIONS.ASSET_DELETE,
+        PERMISSIONS.ASSET_SHARE,
+        PERMISSIONS.PROJECT_READ,
+        PERMISSIONS.PROJECT_MANAGE,
+        PERMISSIONS.ANALYTICS_READ,
+        PERMISSIONS.ORG_READ,
+    ],
+    viewer: [PERMISSIONS.ASSET_READ, PERMISSIONS.PROJECT_READ, PERMISSIONS.ORG_READ],
+};
+
+/**
+ * Check a granted permission set against a required permission
+ */
+function hasPermission(granted: readonly string[], required: Permission): boolean {
+    return granted.includes(PERMISSIONS.ORG_ADMIN) || granted.includes(required);
+}
+
+export { PERMISSIONS, ALL_PERMISSIONS, ROLE_TEMPLATES, hasPermission };
+export type { Permission };
@@ -0,0 +1,137 @@
+/**
+ * Keyset pagination cursors
+ *
+ * A cursor is an opaque, URL-safe token holding the sort key values and `_id` of
+ * the last item of a page. The next page starts strictly after that item, so it is
+ * read straight from the sort index instead of skipping rows, and it neither
+ * repeats nor drops items when assets are added or removed in between.
+ */
+import { Types } from 'mongoose';
+
+export type CursorSortOrder = 'asc' | 'desc';
+export type CursorValue = string | number | boolean | Date | null;
+
+export interface CursorKey {
+    field: string;
+    order: CursorSortOrder;
+}
+
+export interface PageCursor {
+    // Sort keys in order; `_id` breaks ties in the direction of the last key
+    keys: CursorKey[];
+    values: CursorValue[];
+    id: string;
+}
+
+export const CURSOR_MAX_LENGTH = 512;
+
+const FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+function encodeValue(value: unknown): unknown {
+    if (value instanceof Date) return { d: value.toISOString() };
+    if (value === undefined) return null;
+    return value;
+}
+
+function decodeValue(value: unknown): CursorValue | undefined {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        return value as CursorValue;
+    }
+    if (value && typeof value === 'object' && typeof (value as any).d === 'string') {
+        const date = new Date((value as any).d);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+    return undefined;
+}
+
+/**
+ * Build the cursor pointing after `item`
+ * @param keys - Sort keys of the page
+ * @param item - Last item of the page (document or plain object)
+ */
+export function encodeCursor(keys: CursorKey[], item: any): string {
+    const payload = {
+        k: keys.map((key) => [key.field, key.order === 'desc' ? -1 : 1]),
+        v: keys.map((key) => encodeValue(item[key.field])),
+        id: String(item._id),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Read a cursor produced by `encodeCursor`
+ * @returns The cursor, or null when the token is malformed
+ */
+export function decodeCursor(token: string): PageCursor | null {
+    try {
+        const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        const { k, v, id } = payload || {};
+        if (!Array.isArray(k) || !Array.isArray(v) || k.length === 0 || k.length !== v.length) {
+            return null;
+        }
+        if (typeof id !== 'string' || !OBJECT_ID_PATTERN.test(id)) return null;
+
+        const keys: CursorKey[] = [];
+        const values: CursorValue[] = [];
+        for (let i = 0; i < k.length; i++) {
+            const [field, direction] = Array.isArray(k[i]) ? k[i] : [];
+            const value = decodeValue(v[i]);
+            if (typeof field !== 'string' || !FIELD_PATTERN.test(field)) return null;
+            if (direction !== 1 && direction !== -1) return null;
+            if (value === undefined) return null;
+            keys.push({ field, order: direction === -1 ? 'desc' : 'asc' });
+            values.push(value);
+        }
+        return { keys, values, id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a cursor was produced for the given sort
+ */
+export function matchesSort(cursor: PageCursor, keys: CursorKey[]): boolean {
+    return (
+        cursor.keys.length === keys.length &&
+        cursor.keys.every((key, i) => key.field === keys[i].field && key.order === keys[i].order)
+    );
+}
+
+/**
+ * Mongo sort for the keys, with `_id` as the final tie-breaker
+ */
+export function cursorSort(keys: CursorKey[]): Record<string, 1 | -1> {
+    const sort: Record<string, 1 | -1> = {};
+    for (const key of keys) {
+        sort[key.field] = key.order === 'desc' ? -1 : 1;
+    }
+    sort._id = keys[keys.length - 1].order === 'desc' ? -1 : 1;
+    return sort;
+}
+
+/**
+ * Conditions selecting the items after the cursor, to be combined with `$and`.
+ * The first key is also bounded on its own (`<=` / `>=`) so the query planner can
+ * turn it into an index range rather than evaluating the `$or` on every item.
+ */
+export function cursorConditions(cursor: PageCursor): Record<string, any>[] {
+    const { keys, values } = cursor;
+    const id = new Types.ObjectId(cursor.id);
+    const after = (order: CursorSortOrder) => (order === 'desc' ? '$lt' : '$gt');
+
+    const branches: Record<string, any>[] = [];
+    const equal: Record<string, any> = {};
+    keys.forEach((key, i) => {
+        branches.push({ ...equal, [key.field]: { [after(key.order)]: values[i] } });
+        equal[key.field] = values[i];
+    });
+    branches.push({ ...equal, _id: { [after(keys[keys.length - 1].order)]: id } });
+
+    const first = keys[0];
+    return [
+        { [first.field]: { [first.order === 'desc' ? '$lte' : '$gte']: values[0] } },
+        { $or: branches },
+    ];
+}
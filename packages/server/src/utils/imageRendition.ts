@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Image rendition rendering shared by the processing workers and
+ * on-demand transforms. Resizes and encodes a source image (the image itself, a
+ * video poster frame or a rendered PDF page) according to a rendition spec.
+ */
+import sharp from 'sharp';
+import type { RenditionProfileSpec } from '../models/RenditionProfile.model';
+
+// Either dimension may be left out to scale by the other (on-demand transforms)
+export type ImageRenditionSpec = Pick<RenditionProfileSpec, 'fit' | 'format' | 'quality'> & {
+    width?: number;
+    height?: number;
+};
+
+export interface RenderedImage {
+    buffer: Buffer;
+    width: number;
+    height: number;
+}
+
+/**
+ * Render an image rendition
+ * @param input - Source image
+ * @param spec - Target box, fit mode, format and quality
+ * @param options - `flatten` composites transparency onto white first (PDF pages)
+ * @returns Encoded image and its final dimensions
+ */
+export async function renderImageRendition(
+    input: Buffer,
+    spec: ImageRenditionSpec,
+    options: { flatten?: boolean } = {}
+): Promise<RenderedImage> {
+    const { width, height, fit, format, quality } = spec;
+    // JPEG has no alpha channel, so letterboxing and flattening use white
+    const opaque = format === 'jpeg' || options.flatten;
+
+    let pipeline = sharp(input);
+    if (options.flatten) {
+        pipeline = pipeline.flatten({ background: '#ffffff' });
+    }
+    pipeline = pipeline.resize(width, height, {
+        fit,
+        withoutEnlargement: true,
+        background: opaque ? '#ffffff' : { r: 0, g: 0, b: 0, alpha: 0 }
+    });
+
+    switch (format) {
+        case 'jpeg':
+            pipeline = pipeline.jpeg({ quality, progressive: true });
+            break;
+        case 'png':
+            // Lossless; quality does not apply
+            pipeline = pipeline.png({ compressionLevel: 9, progressive: true });
+            break;
+        case 'webp':
+            pipeline = pipeline.webp({ quality });
+            break;
+        case 'avif':
+            pipeline = pipeline.avif({ quality });
+            break;
+        default:
+            throw new Error(`Unsupported image rendition format: ${format}`);
+    }
+
+    const result = await pipeline.toBuffer({ resolveWithObject: true });
+    return {
+        buffer: result.data,
+        width: result.info.width,
+        height: result.info.height
+    };
+}
@@ -0,0 +1,825 @@
+/**
+ * @fileoverview Asset Processing Worker - Generic Asset Pipeline
+ * Finishes processing for assets that are neither images nor videos
+ * (documents, audio, archives and everything else) and produces type-appropriate
+ * renditions: waveform images for audio, file listings for zip/tar archives
+ * and first-page thumbnails for PDFs.
+ */
+import { Worker, Job, KeepJobs } from 'bullmq';
+import { spawn } from 'child_process';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream';
+import zlib from 'zlib';
+import { getRedisClient } from '../config/redis';
+import { getStorageService } from '../config/storage';
+import assetDao from '../dao/asset.dao';
+import webhookService from '../services/webhook.service';
+import renditionProfileService from '../services/renditionProfile.service';
+import { RENDITION_CONTENT_TYPES, RENDITION_FILE_EXTENSIONS } from '../models/RenditionProfile.model';
+import { renderImageRendition } from '../utils/imageRendition';
+import { AssetType, AssetStatus, IRendition } from '../models/Asset.model';
+import { QUEUE_NAMES, JOB_TYPES, ProcessAssetJobData } from '../queues';
+
+/**
+ * Asset processing configuration
+ */
+const ASSET_CONFIG = {
+    waveform: {
+        width: 1200,
+        height: 240,
+        color: '#4f46e5'
+    },
+    pdfPage: {
+        // Pages render at twice the largest thumbnail, within this bound
+        maxRenderSize: 4096
+    },
+    archive: {
+        maxBytes: 1024 * 1024 * 1024, // Archives larger than 1GB are not listed
+        maxEntries: 10000,
+        // Tar streams stop here, so a compression bomb only costs read time
+        maxUncompressedBytes: 10 * 1024 * 1024 * 1024,
+        maxExtendedHeaderBytes: 1024 * 1024, // GNU long names and PAX headers
+        maxCentralDirectoryBytes: 64 * 1024 * 1024
+    },
+    ffmpeg: {
+        path: process.env.FFMPEG_PATH || '/usr/bin/ffmpeg'
+    },
+    pdftoppm: {
+        path: process.env.PDFTOPPM_PATH || '/usr/bin/pdftoppm'
+    },
+    tempDir: '/tmp/dam-processing'
+};
+
+/**
+ * Single entry of an archive file listing
+ */
+interface ArchiveEntry {
+    path: string;
+    size: number;
+    isDirectory: boolean;
+    modifiedAt?: string;
+}
+
+/**
+ * Entries read from an archive; `entries` is capped while the totals keep counting
+ */
+interface ArchiveScan {
+    format: 'zip' | 'tar';
+    entries: ArchiveEntry[];
+    totalEntries: number;
+    totalUncompressedBytes: number;
+    truncated: boolean;
+}
+
+/**
+ * Generic asset processing worker class
+ */
+export class AssetWorker {
+    private worker: Worker;
+    private storage = getStorageService();
+
+    constructor() {
+        this.worker = new Worker(
+            QUEUE_NAMES.ASSET_PROCESSING,
+            this.processJob.bind(this),
+            {
+                connection: getRedisClient(),
+                concurrency: parseInt(process.env.WORKER_CONCURRENCY || '3', 10),
+                removeOnComplete: 50 as KeepJobs,
+                removeOnFail: 20 as KeepJobs
+            }
+        );
+
+        this.setupEventHandlers();
+        this.ensureTempDirectory();
+    }
+
+    /**
+     * Setup worker event handlers for monitoring
+     */
+    private setupEventHandlers(): void {
+        this.worker.on('ready', () => {
+            console.log('📦 Asset processing worker ready');
+        });
+
+        this.worker.on('active', (job: Job) => {
+            console.log(`🔄 Processing asset job ${job.id}: ${job.name}`);
+        });
+
+        this.worker.on('completed', (job: Job, result: any) => {
+            console.log(`✅ Asset job ${job.id} completed:`, result);
+        });
+
+        this.worker.on('failed', (job: Job | undefined, error: Error) => {
+            console.error(`❌ Asset job ${job?.id} failed:`, error.message);
+        });
+
+        this.worker.on('error', (error: Error) => {
+            console.error('🚨 Asset worker error:', error);
+        });
+    }
+
+    /**
+     * Ensure temp directory exists for asset processing
+     */
+    private async ensureTempDirectory(): Promise<void> {
+        try {
+            await fs.mkdir(ASSET_CONFIG.tempDir, { recursive: true });
+        } catch (error) {
+            console.error('Failed to create temp directory:', error);
+        }
+    }
+
+    /**
+     * Main job processing method
+     * @param job - BullMQ job instance
+     * @returns Processing result
+     */
+    private async processJob(job: Job): Promise<any> {
+        const { name, data } = job;
+
+        try {
+            switch (name) {
+                case JOB_TYPES.PROCESS_ASSET:
+                    return await this.processAsset(data as ProcessAssetJobData, job);
+
+                default:
+                    throw new Error(`Unknown asset job type: ${name}`);
+            }
+        } catch (error: any) {
+            console.error(`Asset processing error for job ${job.id}:`, error);
+
+            // Update asset with processing error
+            if (data.assetId) {
+                const failedAsset = await assetDao.updateById(data.assetId, {
+                    status: 'failed' as any,
+                    processingError: `Asset processing failed: ${error.message}`
+                });
+
+                // Subscribers hear about the failure once retries are exhausted
+                const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                if (failedAsset && finalAttempt) {
+                    await webhookService.emitAssetEvent('asset.processing.failed', failedAsset);
+                }
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Process a document, audio, archive or other asset
+     * @param data - Job data containing asset information
+     * @param job - BullMQ job for progress tracking
+     * @returns Processing result with generated renditions
+     */
+    private async processAsset(
+        data: ProcessAssetJobData,
+        job: Job
+    ): Promise<{ assetId: string; assetType?: string; renditions: any; skipped?: boolean }> {
+        const { assetId, organizationId, storageKey, mimeType, originalFilename } = data;
+
+        const asset = await assetDao.findById(assetId);
+        if (!asset || asset.deletedAt) {
+            await job.log(`Asset ${assetId} no longer exists, skipping`);
+            return { assetId, renditions: {}, skipped: true };
+        }
+
+        await job.updateProgress(10);
+
+        const jobTempDir = path.join(ASSET_CONFIG.tempDir, `asset_${job.id}`);
+        await fs.mkdir(jobTempDir, { recursive: true });
+
+        try {
+            const renditions: any = {};
+            const lowerName = originalFilename.toLowerCase();
+
+            switch (asset.assetType) {
+                case AssetType.AUDIO: {
+                    const inputPath = path.join(jobTempDir, 'input');
+                    await this.downloadFileFromStorage(storageKey, inputPath);
+                    await job.updateProgress(40);
+
+                    renditions.waveform = await this.generateWaveform(
+                        inputPath, jobTempDir, organizationId, assetId
+                    );
+                    break;
+                }
+
+                case AssetType.DOCUMENT: {
+                    if (mimeType === 'application/pdf' || lowerName.endsWith('.pdf')) {
+                        const inputPath = path.join(jobTempDir, 'input.pdf');
+                        await this.downloadFileFromStorage(storageKey, inputPath);
+                        await job.updateProgress(40);
+
+                        Object.assign(
+                            renditions,
+                            await this.generatePdfThumbnails(inputPath, jobTempDir, organizationId, assetId)
+                        );
+                    }
+                    break;
+                }
+
+                case AssetType.ARCHIVE: {
+                    if (asset.fileSizeBytes > ASSET_CONFIG.archive.maxBytes) {
+                        await job.log(`Archive exceeds ${ASSET_CONFIG.archive.maxBytes} bytes, listing skipped`);
+                        break;
+                    }
+
+                    const inputPath = path.join(jobTempDir, 'input');
+                    await this.downloadFileFromStorage(storageKey, inputPath);
+                    await job.updateProgress(40);
+
+                    const listing = await this.generateFileListing(
+                        inputPath, mimeType, lowerName, organizationId, assetId
+                    );
+                    if (listing) {
+                        renditions.file_listing = listing;
+                    } else {
+                        await job.log(`No listing support for ${mimeType}, listing skipped`);
+                    }
+                    break;
+                }
+
+                default:
+                    // Nothing to derive; the asset is usable as uploaded
+                    break;
+            }
+
+            await job.updateProgress(80);
+
+            const completedAsset = await assetDao.updateById(assetId, {
+                status: AssetStatus.COMPLETED,
+                ...(Object.keys(renditions).length > 0 ? { renditions } : {})
+            });
+            if (completedAsset) {
+                await webhookService.emitAssetEvent('asset.processing.completed', completedAsset);
+            }
+
+            await job.updateProgress(100);
+
+            return { assetId, assetType: asset.assetType, renditions };
+        } finally {
+            await this.cleanupTempDirectory(jobTempDir);
+        }
+    }
+
+    /**
+     * Render a waveform PNG for an audio file using FFmpeg
+     * @param inputPath - Local audio file path
+     * @param workDir - Job temp directory
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @returns Waveform rendition
+     */
+    private async generateWaveform(
+        inputPath: string,
+        workDir: string,
+        organizationId: string,
+        assetId: string
+    ): Promise<{ storageKey: string; width: number; height: number }> {
+        const { width, height, color } = ASSET_CONFIG.waveform;
+        const outputPath = path.join(workDir, 'waveform.png');
+
+        await this.runCommand(ASSET_CONFIG.ffmpeg.path, [
+            '-i', inputPath,
+            '-filter_complex', `aformat=channel_layouts=mono,showwavespic=s=${width}x${height}:colors=${color}`,
+            '-frames:v', '1',
+            '-y',
+            outputPath
+        ], 'Waveform generation');
+
+        const storageKey = this.generateRenditionKey(organizationId, assetId, 'waveform', 'png');
+        await this.uploadRendition(await fs.readFile(outputPath), storageKey, 'image/png');
+
+        return { storageKey, width, height };
+    }
+
+    /**
+     * Render the first page of a PDF and derive the document rendition profiles
+     * @param inputPath - Local PDF path
+     * @param workDir - Job temp directory
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @returns Renditions keyed by profile name
+     */
+    private async generatePdfThumbnails(
+        inputPath: string,
+        workDir: string,
+        organizationId: string,
+        assetId: string
+    ): Promise<Record<string, IRendition>> {
+        const renditions: Record<string, IRendition> = {};
+        const profiles = await renditionProfileService.resolveProfiles(organizationId, 'document');
+        if (profiles.length === 0) {
+            return renditions;
+        }
+
+        const outputPrefix = path.join(workDir, 'page');
+        const renderSize = Math.min(
+            Math.max(...profiles.map((profile) => Math.max(profile.width, profile.height))) * 2,
+            ASSET_CONFIG.pdfPage.maxRenderSize
+        );
+
+        // pdftoppm appends the extension itself when -singlefile is used
+        await this.runCommand(ASSET_CONFIG.pdftoppm.path, [
+            '-png',
+            '-f', '1',
+            '-l', '1',
+            '-singlefile',
+            '-scale-to', String(renderSize),
+            inputPath,
+            outputPrefix
+        ], 'PDF page rendering');
+
+        const pageBuffer = await fs.readFile(`${outputPrefix}.png`);
+
+        for (const profile of profiles) {
+            const result = await renderImageRendition(pageBuffer, profile, { flatten: true });
+
+            const storageKey = this.generateRenditionKey(
+                organizationId, assetId, profile.name, RENDITION_FILE_EXTENSIONS[profile.format]
+            );
+            await this.uploadRendition(result.buffer, storageKey, RENDITION_CONTENT_TYPES[profile.format]);
+
+            renditions[profile.name] = {
+                storageKey,
+                width: result.width,
+                height: result.height,
+                format: profile.format,
+                fileSizeBytes: result.buffer.length
+            };
+        }
+
+        return renditions;
+    }
+
+    /**
+     * Build and upload a JSON file listing for zip/tar archives
+     * Zip archives are listed from their central directory and tar archives are
+     * streamed (through gunzip when compressed), so the archive is never held in memory.
+     * @param inputPath - Local archive path
+     * @param mimeType - Archive MIME type
+     * @param lowerName - Lower-cased original filename
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @returns File listing rendition or null when the format is not supported
+     */
+    private async generateFileListing(
+        inputPath: string,
+        mimeType: string,
+        lowerName: string,
+        organizationId: string,
+        assetId: string
+    ): Promise<{ storageKey: string; fileSizeBytes: number; entryCount: number } | null> {
+        const head = await this.readFileRange(inputPath, 0, 512);
+        const isGzip = head.length > 2 && head[0] === 0x1f && head[1] === 0x8b;
+
+        let scan: ArchiveScan | null = null;
+        if (isGzip || this.isTarBuffer(head)) {
+            scan = await this.scanTarEntries(inputPath, isGzip);
+        } else if (
+            (head.length >= 4 && head.readUInt32LE(0) === 0x04034b50) ||
+            (mimeType.includes('zip') && !mimeType.includes('gzip')) ||
+            lowerName.endsWith('.zip')
+        ) {
+            // Zip files may carry a prefix (self-extracting); the central directory is authoritative
+            scan = await this.scanZipEntries(inputPath);
+        }
+
+        if (!scan) {
+            return null;
+        }
+
+        const listing = {
+            format: scan.format,
+            totalEntries: scan.totalEntries,
+            totalUncompressedBytes: scan.totalUncompressedBytes,
+            truncated: scan.truncated,
+            entries: scan.entries
+        };
+
+        const body = Buffer.from(JSON.stringify(listing));
+        const storageKey = this.generateRenditionKey(organizationId, assetId, 'file_listing', 'json');
+        await this.uploadRendition(body, storageKey, 'application/json');
+
+        return { storageKey, fileSizeBytes: body.length, entryCount: scan.totalEntries };
+    }
+
+    /**
+     * Read a byte range of a local file
+     * @param filePath - Local file path
+     * @param position - Offset of the first byte
+     * @param length - Number of bytes to read
+     * @returns The bytes read (shorter at the end of the file)
+     */
+    private async readFileRange(filePath: string, position: number, length: number): Promise<Buffer> {
+        const handle = await fs.open(filePath, 'r');
+        try {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, position);
+            return buffer.subarray(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Read zip entries from the central directory, reading only the end of the file
+     * and the directory itself
+     * @param inputPath - Local zip file path
+     * @returns Archive entries
+     */
+    private async scanZipEntries(inputPath: string): Promise<ArchiveScan> {
+        const { size: fileSize } = await fs.stat(inputPath);
+
+        // End of central directory record is in the last 64KB + 22 bytes
+        const tailStart = Math.max(0, fileSize - 65557);
+        const tail = await this.readFileRange(inputPath, tailStart, fileSize - tailStart);
+        let eocd = -1;
+        for (let i = tail.length - 22; i >= 0; i--) {
+            if (tail.readUInt32LE(i) === 0x06054b50) {
+                eocd = i;
+                break;
+            }
+        }
+        if (eocd < 0) {
+            throw new Error('Invalid zip archive: end of central directory not found');
+        }
+
+        let entryCount: number = tail.readUInt16LE(eocd + 10);
+        let directorySize: number = tail.readUInt32LE(eocd + 12);
+        let offset: number = tail.readUInt32LE(eocd + 16);
+
+        // ZIP64 archives keep the real values in a separate record
+        if (offset === 0xffffffff || entryCount === 0xffff) {
+            const locator = eocd - 20;
+            if (locator < 0 || tail.readUInt32LE(locator) !== 0x07064b50) {
+                throw new Error('Invalid zip64 archive: locator not found');
+            }
+            const zip64Eocd = await this.readFileRange(inputPath, Number(tail.readBigUInt64LE(locator + 8)), 56);
+            if (zip64Eocd.length < 56 || zip64Eocd.readUInt32LE(0) !== 0x06064b50) {
+                throw new Error('Invalid zip64 archive: end of central directory not found');
+            }
+            entryCount = Number(zip64Eocd.readBigUInt64LE(32));
+            directorySize = Number(zip64Eocd.readBigUInt64LE(40));
+            offset = Number(zip64Eocd.readBigUInt64LE(48));
+        }
+
+        if (directorySize > ASSET_CONFIG.archive.maxCentralDirectoryBytes) {
+            throw new Error(`Zip central directory exceeds ${ASSET_CONFIG.archive.maxCentralDirectoryBytes} bytes`);
+        }
+        const buffer = await this.readFileRange(inputPath, offset, directorySize);
+
+        const scan: ArchiveScan = {
+            format: 'zip',
+            entries: [],
+            totalEntries: entryCount,
+            totalUncompressedBytes: 0,
+            truncated: entryCount > ASSET_CONFIG.archive.maxEntries
+        };
+
+        let position = 0;
+        for (let i = 0; i < entryCount; i++) {
+            if (position + 46 > buffer.length || buffer.readUInt32LE(position) !== 0x02014b50) {
+                throw new Error('Invalid zip archive: corrupt central directory');
+            }
+
+            const flags = buffer.readUInt16LE(position + 8);
+            const dosTime = buffer.readUInt16LE(position + 12);
+            const dosDate = buffer.readUInt16LE(position + 14);
+            let size: number = buffer.readUInt32LE(position + 24);
+            const nameLength = buffer.readUInt16LE(position + 28);
+            const extraLength = buffer.readUInt16LE(position + 30);
+            const commentLength = buffer.readUInt16LE(position + 32);
+            const nameStart = position + 46;
+            const name = buffer
+                .subarray(nameStart, nameStart + nameLength)
+                .toString(flags & 0x800 ? 'utf8' : 'latin1');
+
+            if (size === 0xffffffff) {
+                // ZIP64 extended information extra field carries the real size
+                const extraEnd = Math.min(nameStart + nameLength + extraLength, buffer.length);
+                for (let p = nameStart + nameLength; p + 4 <= extraEnd;) {
+                    const headerId = buffer.readUInt16LE(p);
+                    const dataSize = buffer.readUInt16LE(p + 2);
+                    if (headerId === 0x0001 && p + 12 <= extraEnd) {
+                        size = Number(buffer.readBigUInt64LE(p + 4));
+                        break;
+                    }
+                    p += 4 + dataSize;
+                }
+            }
+
+            const modified = new Date(
+                1980 + (dosDate >> 9), ((dosDate >> 5) & 0x0f) - 1, dosDate & 0x1f,
+                dosTime >> 11, (dosTime >> 5) & 0x3f, (dosTime & 0x1f) * 2
+            );
+
+            scan.totalUncompressedBytes += size;
+            if (scan.entries.length < ASSET_CONFIG.archive.maxEntries) {
+                scan.entries.push({
+                    path: name,
+                    size,
+                    isDirectory: name.endsWith('/'),
+                    modifiedAt: isNaN(modified.getTime()) ? undefined : modified.toISOString()
+                });
+            }
+
+            position = nameStart + nameLength + extraLength + commentLength;
+        }
+
+        return scan;
+    }
+
+    /**
+     * Check whether a buffer holds a (ustar or GNU) tar archive
+     * @param buffer - File contents
+     */
+    private isTarBuffer(buffer: Buffer): boolean {
+        return buffer.length >= 512 && buffer.subarray(257, 262).toString('latin1') === 'ustar';
+    }
+
+    /**
+     * Read tar entries by streaming the archive and walking the 512-byte headers.
+     * Entry data is skipped without being buffered; reading stops after
+     * `maxUncompressedBytes`, in which case the listing is marked truncated.
+     * @param inputPath - Local archive path
+     * @param gzipped - Whether the archive is gzip-compressed
+     * @returns Archive entries, or null when the (decompressed) file is not a tar archive
+     */
+    private async scanTarEntries(inputPath: string, gzipped: boolean): Promise<ArchiveScan | null> {
+        const { maxEntries, maxUncompressedBytes, maxExtendedHeaderBytes } = ASSET_CONFIG.archive;
+        const source = createReadStream(inputPath);
+        const stream = gzipped ? pipeline(source, zlib.createGunzip(), () => undefined) : source;
+
+        const scan: ArchiveScan = {
+            format: 'tar',
+            entries: [],
+            totalEntries: 0,
+            totalUncompressedBytes: 0,
+            truncated: false
+        };
+
+        let pending: Buffer = Buffer.alloc(0);
+        let readBytes = 0;
+        let skipBytes = 0;
+        let extended: { type: string; size: number } | null = null;
+        let longName: string | null = null;
+        let first = true;
+
+        try {
+            reading: for await (const chunk of stream as AsyncIterable<Buffer>) {
+                readBytes += chunk.length;
+                if (readBytes > maxUncompressedBytes) {
+                    scan.truncated = true;
+                    break;
+                }
+
+                const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+                let offset = 0;
+
+                while (offset < data.length) {
+                    if (skipBytes > 0) {
+                        const skipped = Math.min(skipBytes, data.length - offset);
+                        offset += skipped;
+                        skipBytes -= skipped;
+                        continue;
+                    }
+
+                    if (extended) {
+                        const padded = Math.ceil(extended.size / 512) * 512;
+                        if (data.length - offset < padded) break;
+
+                        const text = data.subarray(offset, offset + extended.size).toString('utf8');
+                        if (extended.type === 'L') {
+                            // GNU long name: the next header belongs to this name
+                            longName = text.replace(/\0.*$/s, '');
+                        } else {
+                            // PAX extended header; only the path override matters here
+                            const match = text.match(/\d+ path=([^\n]*)\n/);
+                            longName = match ? match[1] : null;
+                        }
+                        offset += padded;
+                        extended = null;
+                        continue;
+                    }
+
+                    if (data.length - offset < 512) break;
+                    const header = data.subarray(offset, offset + 512);
+                    offset += 512;
+
+                    if (first) {
+                        if (!this.isTarBuffer(header)) return null;
+                        first = false;
+                    }
+
+                    // Two zero blocks mark the end of the archive
+                    if (header.every(b => b === 0)) {
+                        break reading;
+                    }
+
+                    const { name, size, mtime, type } = this.parseTarHeader(header);
+
+                    if (type === 'L' || type === 'x') {
+                        if (size > maxExtendedHeaderBytes) {
+                            throw new Error('Invalid tar archive: oversized extended header');
+                        }
+                        extended = { type, size };
+                        continue;
+                    }
+
+                    if (type !== 'g') {
+                        const entryPath = longName || name;
+                        const entrySize = type === '5' ? 0 : size;
+                        scan.totalEntries++;
+                        scan.totalUncompressedBytes += entrySize;
+                        if (scan.entries.length < maxEntries) {
+                            scan.entries.push({
+                                path: entryPath,
+                                size: entrySize,
+                                isDirectory: type === '5' || entryPath.endsWith('/'),
+                                modifiedAt: mtime ? new Date(mtime * 1000).toISOString() : undefined
+                            });
+                        } else {
+                            scan.truncated = true;
+                        }
+                        longName = null;
+                    }
+
+                    skipBytes = Math.ceil(size / 512) * 512;
+                }
+
+                // Keep only the unread tail (a partial header or extended header)
+                pending = Buffer.from(data.subarray(offset));
+            }
+        } finally {
+            stream.destroy();
+            source.destroy();
+        }
+
+        return first ? null : scan;
+    }
+
+    /**
+     * Decode the fields of a 512-byte tar header that the listing needs
+     * @param header - Header block
+     * @returns Entry name, data size, modification time and type flag
+     */
+    private parseTarHeader(header: Buffer): { name: string; size: number; mtime: number; type: string } {
+        const readString = (start: number, length: number) =>
+            header.subarray(start, start + length).toString('utf8').replace(/\0.*$/s, '');
+        const readOctal = (start: number, length: number) =>
+            parseInt(readString(start, length).trim() || '0', 8);
+
+        const size = readOctal(124, 12);
+        if (isNaN(size)) {
+            throw new Error('Invalid tar archive: corrupt header');
+        }
+
+        const prefix = readString(345, 155);
+        const name = readString(0, 100);
+
+        return {
+            name: prefix ? `${prefix}/${name}` : name,
+            size,
+            mtime: readOctal(136, 12) || 0,
+            type: String.fromCharCode(header[156] || 0x30)
+        };
+    }
+
+    /**
+     * Run an external command and reject on a non-zero exit code
+     * @param command - Executable path
+     * @param args - Command arguments
+     * @param label - Label used in error messages
+     */
+    private async runCommand(command: string, args: string[], label: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(command, args);
+
+            let stderr = '';
+
+            child.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            child.on('close', (code) => {
+                if (code !== 0) {
+                    reject(new Error(`${label} failed: ${stderr}`));
+                    return;
+                }
+                resolve();
+            });
+
+            child.on('error', (error) => {
+                reject(new Error(`${label} spawn error: ${error.message}`));
+            });
+        });
+    }
+
+    /**
+     * Download file from storage to local path
+     * @param storageKey - Storage key
+     * @param localPath - Local file path
+     */
+    private async downloadFileFromStorage(storageKey: string, localPath: string): Promise<void> {
+        try {
+            const { url } = await this.storage.getPresignedDownloadUrl(storageKey, {
+                expiresIn: 1800
+            });
+
+            const response = await fetch(url);
+            if (!response.ok) {
+                throw new Error(`Failed to download file: ${response.statusText}`);
+            }
+
+            const buffer = Buffer.from(await response.arrayBuffer());
+            await fs.writeFile(localPath, buffer);
+        } catch (error: any) {
+            console.error(`Failed to download file: ${storageKey}`, error);
+            throw new Error(`File download failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Upload rendition to storage
+     * @param buffer - Rendition buffer
+     * @param storageKey - Storage key for the rendition
+     * @param contentType - MIME type
+     */
+    private async uploadRendition(
+        buffer: Buffer,
+        storageKey: string,
+        contentType: string
+    ): Promise<void> {
+        try {
+            const { url } = await this.storage.getPresignedUploadUrl(storageKey, {
+                contentType,
+                contentLength: buffer.length,
+                expiresIn: 300
+            });
+
+            const response = await fetch(url, {
+                method: 'PUT',
+                body: new Uint8Array(buffer),
+                headers: {
+                    'Content-Type': contentType,
+                    'Content-Length': buffer.length.toString()
+                }
+            });
+
+            if (!response.ok) {
+                throw new Error(`Upload failed: ${response.statusText}`);
+            }
+
+            console.log(`📤 Uploaded rendition: ${storageKey} (${buffer.length} bytes)`);
+        } catch (error: any) {
+            console.error(`Failed to upload rendition: ${storageKey}`, error);
+            throw new Error(`Rendition upload failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Generate storage key for rendition
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @param renditionType - Type of rendition
+     * @param extension - File extension
+     * @returns Storage key
+     */
+    private generateRenditionKey(
+        organizationId: string,
+        assetId: string,
+        renditionType: string,
+        extension: string
+    ): string {
+        const timestamp = Date.now();
+        const filename = `${renditionType}_${timestamp}.${extension}`;
+        return `org/${organizationId}/assets/${assetId}/renditions/${filename}`;
+    }
+
+    /**
+     * Clean up temporary directory
+     * @param dirPath - Directory path to clean up
+     */
+    private async cleanupTempDirectory(dirPath: string): Promise<void> {
+        try {
+            await fs.rm(dirPath, { recursive: true, force: true });
+        } catch (error) {
+            console.error(`Failed to cleanup temp directory: ${dirPath}`, error);
+        }
+    }
+
+    /**
+     * Gracefully close the worker
+     */
+    async close(): Promise<void> {
+        console.log('🛑 Shutting down asset processing worker...');
+        await this.worker.close();
+        console.log('✅ Asset processing worker closed');
+    }
+}
+
+export default AssetWorker;
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Bulk Worker - Batched Asset Operations
+ * Consumes the bulk-operations queue: applies one operation to every asset of a
+ * large batch, publishing running counts as job progress and the per-asset
+ * results as the job result.
+ */
+import { Worker, Job } from 'bullmq';
+import { getRedisClient } from '../config/redis';
+import bulkAssetService from '../services/bulkAsset.service';
+import { QUEUE_NAMES, JOB_TYPES, BulkAssetOperationJobData } from '../queues';
+
+type BulkJobResult = Awaited<ReturnType<typeof bulkAssetService.runBulkJob>>;
+
+/**
+ * Bulk worker class
+ */
+export class BulkWorker {
+    private worker: Worker;
+
+    constructor() {
+        this.worker = new Worker(
+            QUEUE_NAMES.BULK_OPERATIONS,
+            this.processJob.bind(this),
+            {
+                connection: getRedisClient(),
+                concurrency: parseInt(process.env.BULK_WORKER_CONCURRENCY || '1', 10)
+            }
+        );
+
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Setup worker event handlers for monitoring
+     */
+    private setupEventHandlers(): void {
+        this.worker.on('ready', () => {
+            console.log('📚 Bulk worker ready');
+        });
+
+        this.worker.on('active', (job: Job) => {
+            console.log(`🔄 Processing bulk job ${job.id}: ${job.data?.operation?.type}`);
+        });
+
+        this.worker.on('completed', (job: Job, result: BulkJobResult) => {
+            console.log(
+                `✅ Bulk job ${job.id} completed: ${result.summary.succeeded} succeeded, ${result.summary.failed} failed`
+            );
+        });
+
+        this.worker.on('failed', (job: Job | undefined, error: Error) => {
+            console.error(`❌ Bulk job ${job?.id} failed:`, error.message);
+        });
+
+        this.worker.on('error', (error: Error) => {
+            console.error('🚨 Bulk worker error:', error);
+        });
+    }
+
+    /**
+     * Main job processing method
+     * @param job - BullMQ job instance
+     * @returns Per-asset results and summary
+     */
+    private async processJob(job: Job): Promise<BulkJobResult> {
+        switch (job.name) {
+            case JOB_TYPES.BULK_ASSET_OPERATION: {
+                const data = job.data as BulkAssetOperationJobData;
+                await job.log(`Applying ${data.operation.type} to ${data.assetIds.length} asset(s)`);
+
+                const result = await bulkAssetService.runBulkJob(data, async (progress) => {
+                    await job.updateProgress(progress);
+                });
+
+                await job.log(`${result.summary.succeeded} succeeded, ${result.summary.failed} failed`);
+                return result;
+            }
+
+            default:
+                throw new Error(`Unknown bulk job type: ${job.name}`);
+        }
+    }
+
+    /**
+     * Gracefully close the worker
+     */
+    async close(): Promise<void> {
+        console.log('🛑 Shutting down bulk worker...');
+        await this.worker.close();
+        console.log('✅ Bulk worker closed');
+    }
+}
+
+export default BulkWorker;
@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Cleanup Worker - Storage Garbage Collection
+ * Consumes the cleanup queue: purges the storage objects of soft-deleted assets
+ * (original, every version and every rendition), sweeps temporary files left
+ * behind by the processing workers, reaps uploads that were never finalized and
+ * recovers assets stuck in processing after a worker crash.
+ */
+import { Worker, Job, KeepJobs } from 'bullmq';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getRedisClient } from '../config/redis';
+import { getStorageService, StorageUtils } from '../config/storage';
+import assetDao from '../dao/asset.dao';
+import assetService from '../services/asset.service';
+import { QUEUE_NAMES, JOB_TYPES, CleanupJobData, ReapExpiredUploadsJobData, RecoverStuckAssetsJobData } from '../queues';
+
+/**
+ * Cleanup configuration
+ */
+const CLEANUP_CONFIG = {
+    // Scratch directories used by the video and metadata workers
+    tempDirs: ['/tmp/dam-processing', '/tmp/dam-metadata'],
+    // Measured from the newest file inside a job directory; long transcodes keep writing
+    tempMaxAgeMs: 6 * 60 * 60 * 1000 // 6 hours
+};
+
+/**
+ * Result of a storage purge, returned as the job result
+ */
+export interface CleanupResult {
+    assetId?: string;
+    deletedKeys: string[];
+    failedKeys: Array<{ key: string; error: string }>;
+    assetPurged: boolean;
+    tempEntriesRemoved?: number;
+}
+
+/**
+ * Outcome counts of an expired-upload sweep, returned as the job result
+ */
+export interface ReapResult {
+    scanned: number;
+    finalized: number;
+    deleted: number;
+    skipped: number;
+    failed: number;
+}
+
+/**
+ * Outcome counts of a stuck-processing sweep, returned as the job result
+ */
+export interface RecoveryResult {
+    scanned: number;
+    live: number;
+    requeued: number;
+    failed: number;
+    skipped: number;
+    errors: number;
+}
+
+type CleanupJobResult = CleanupResult | ReapResult | RecoveryResult;
+
+/**
+ * Cleanup worker class
+ */
+export class CleanupWorker {
+    private worker: Worker;
+    private storage = getStorageService();
+
+    constructor() {
+        this.worker = new Worker(
+            QUEUE_NAMES.CLEANUP,
+            this.processJob.bind(this),
+            {
+                connection: getRedisClient(),
+                concurrency: parseInt(process.env.CLEANUP_WORKER_CONCURRENCY || '2', 10),
+                removeOnComplete: 100 as KeepJobs,
+                removeOnFail: 50 as KeepJobs
+            }
+        );
+
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Setup worker event handlers for monitoring
+     */
+    private setupEventHandlers(): void {
+        this.worker.on('ready', () => {
+            console.log('🧹 Cleanup worker ready');
+        });
+
+        this.worker.on('active', (job: Job) => {
+            console.log(`🔄 Processing cleanup job ${job.id}: ${job.name}`);
+        });
+
+        this.worker.on('completed', (job: Job, result: CleanupJobResult) => {
+            console.log(`✅ Cleanup job ${job.id} completed: ${this.describeResult(job.name, result)}`);
+        });
+
+        this.worker.on('failed', (job: Job | undefined, error: Error) => {
+            console.error(`❌ Cleanup job ${job?.id} failed:`, error.message);
+        });
+
+        this.worker.on('error', (error: Error) => {
+            console.error('🚨 Cleanup worker error:', error);
+        });
+    }
+
+    /**
+     * One-line summary of a job result for the completion log
+     * @param name - Job name
+     * @param result - Job result
+     */
+    private describeResult(name: string, result: CleanupJobResult): string {
+        switch (name) {
+            case JOB_TYPES.REAP_EXPIRED_UPLOADS: {
+                const reaped = result as ReapResult;
+                return `${reaped.scanned} expired upload(s), ${reaped.finalized} finalized, ${reaped.deleted} deleted`;
+            }
+
+            case JOB_TYPES.RECOVER_STUCK_ASSETS: {
+                const recovered = result as RecoveryResult;
+                return `${recovered.scanned} stuck asset(s), ${recovered.requeued} requeued, ${recovered.failed} failed`;
+            }
+
+            default:
+                return `${(result as CleanupResult).deletedKeys.length} key(s) deleted`;
+        }
+    }
+
+    /**
+     * Main job processing method
+     * @param job - BullMQ job instance
+     * @returns Cleanup result
+     */
+    private async processJob(job: Job): Promise<CleanupJobResult> {
+        const { name, data } = job;
+
+        switch (name) {
+            case JOB_TYPES.DELETE_STORAGE:
+                return await this.deleteStorage(data as CleanupJobData, job);
+
+            case JOB_TYPES.CLEANUP_TEMP:
+                return await this.cleanupTemp(data as CleanupJobData, job);
+
+            case JOB_TYPES.REAP_EXPIRED_UPLOADS:
+                return await this.reapExpiredUploads(data as ReapExpiredUploadsJobData, job);
+
+            case JOB_TYPES.RECOVER_STUCK_ASSETS:
+                return await this.recoverStuckAssets(data as RecoverStuckAssetsJobData, job);
+
+            default:
+                throw new Error(`Unknown cleanup job type: ${name}`);
+        }
+    }
+
+    /**
+     * Purge every storage object belonging to a deleted asset, then remove the
+     * asset document. If any key fails, the soft-deleted document is kept as a
+     * tombstone and the job throws so BullMQ retries the remaining keys.
+     * Keys left behind by a move or by a replaced file are purged on their own;
+     * the asset keeps its document and any key it references again is spared.
+     * @param data - Job data
+     * @param job - BullMQ job
+     * @returns Cleanup result
+     */
+    private async deleteStorage(data: CleanupJobData, job: Job): Promise<CleanupResult> {
+        const { assetId } = data;
+        const keys = new Set<string>(data.storageKeys || []);
+
+        for (const prefix of data.storagePrefixes || []) {
+            for (const key of await this.storage.listObjectKeys(prefix)) {
+                keys.add(key);
+            }
+        }
+
+        await job.updateProgress(10);
+
+        const superseded = data.reason === 'asset-moved' || data.reason === 'version-replaced';
+
+        if (assetId && superseded) {
+            const asset = await assetDao.findById(assetId);
+            if (asset) {
+                // The asset may have moved back or restored since; never purge a key it uses
+                for (const key of await StorageUtils.collectAssetKeys(asset, this.storage)) {
+                    keys.delete(key);
+                }
+            }
+        } else if (assetId) {
+            const asset = await assetDao.findById(assetId);
+
+            if (asset && !asset.deletedAt && data.reason === 'asset-deleted') {
+                // Asset is live again; never purge storage out from under it
+                await job.log(`Asset ${assetId} is no longer deleted, skipping purge`);
+                return { assetId, deletedKeys: [], failedKeys: [], assetPurged: false };
+            }
+
+            if (asset) {
+                for (const key of await StorageUtils.collectAssetKeys(asset, this.storage)) {
+                    keys.add(key);
+                }
+                for (const key of await assetDao.findDerivedStorageKeys(assetId)) {
+                    keys.add(key);
+                }
+
+                // Parts of an unfinished multipart upload are not objects yet
+                if (asset.multipartUpload) {
+                    await this.storage.abortMultipartUpload(asset.storageKey, asset.multipartUpload.uploadId);
+                    await job.log(`Aborted multipart upload ${asset.multipartUpload.uploadId}`);
+                }
+            }
+        }
+
+        await job.updateProgress(30);
+
+        const { deletedKeys, failedKeys } = await this.deleteKeys(Array.from(keys), job);
+
+        await job.updateProgress(80);
+
+        if (failedKeys.length > 0) {
+            // Record the outstanding keys on the job and retry only those
+            await job.updateData({
+                ...data,
+                storageKeys: failedKeys.map(f => f.key),
+                failedKeys
+            });
+            throw new Error(
+                `Failed to delete ${failedKeys.length} of ${keys.size} storage key(s): ` +
+                failedKeys.map(f => f.key).join(', ')
+            );
+        }
+
+        let assetPurged = false;
+        if (assetId && !superseded) {
+            assetPurged = await assetDao.hardDeleteById(assetId);
+            await job.log(
+                assetPurged
+                    ? `Asset ${assetId} document removed`
+                    : `Asset ${assetId} document not removed (missing or not soft-deleted)`
+            );
+        }
+
+        await job.updateProgress(100);
+
+        return { assetId, deletedKeys, failedKeys, assetPurged };
+    }
+
+    /**
+     * Delete temporary storage objects and sweep stale local scratch directories
+     * @param data - Job data
+     * @param job - BullMQ job
+     * @returns Cleanup result
+     */
+    private async cleanupTemp(data: CleanupJobData, job: Job): Promise<CleanupResult> {
+        const keys = Array.from(new Set(data.storageKeys || []));
+
+        const { deletedKeys, failedKeys } = await this.deleteKeys(keys, job);
+        await job.updateProgress(50);
+
+        let tempEntriesRemoved = 0;
+        for (const dir of CLEANUP_CONFIG.tempDirs) {
+            tempEntriesRemoved += await this.sweepTempDirectory(dir, CLEANUP_CONFIG.tempMaxAgeMs);
+        }
+
+        if (failedKeys.length > 0) {
+            await job.updateData({
+                ...data,
+                storageKeys: failedKeys.map(f => f.key),
+                failedKeys
+            });
+            throw new Error(
+                `Failed to delete ${failedKeys.length} temporary storage key(s): ` +
+                failedKeys.map(f => f.key).join(', ')
+            );
+        }
+
+        await job.updateProgress(100);
+
+        return {
+            assetId: data.assetId,
+            deletedKeys,
+            failedKeys,
+            assetPurged: false,
+            tempEntriesRemoved
+        };
+    }
+
+    /**
+     * Finalize or delete uploads that expired without being finalized
+     * @param data - Job data
+     * @param job - BullMQ job
+     * @returns Outcome counts
+     */
+    private async reapExpiredUploads(data: ReapExpiredUploadsJobData, job: Job): Promise<ReapResult> {
+        const result = await assetService.reapExpiredUploads(data.limit);
+        if (result.scanned > 0) {
+            await job.log(
+                `Expired uploads: ${result.finalized} finalized, ${result.deleted} deleted, ` +
+                `${result.skipped} skipped, ${result.failed} failed`
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Re-queue or fail assets left in processing by a crashed worker
+     * @param data - Job data
+     * @param job - BullMQ job
+     * @returns Outcome counts
+     */
+    private async recoverStuckAssets(data: RecoverStuckAssetsJobData, job: Job): Promise<RecoveryResult> {
+        const result = await assetService.recoverStuckAssets(data.limit);
+        if (result.scanned > 0) {
+            await job.log(
+                `Stuck assets: ${result.live} with live jobs, ${result.requeued} requeued, ` +
+                `${result.failed} marked failed, ${result.skipped} skipped, ${result.errors} errors`
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Delete storage keys one by one, collecting per-key failures
+     * @param keys - Storage keys to delete
+     * @param job - BullMQ job used for logging
+     * @returns Deleted and failed keys
+     */
+    private async deleteKeys(
+        keys: string[],
+        job: Job
+    ): Promise<Pick<CleanupResult, 'deletedKeys' | 'failedKeys'>> {
+        const deletedKeys: string[] = [];
+        const failedKeys: CleanupResult['failedKeys'] = [];
+
+        for (const key of keys) {
+            try {
+                await this.storage.deleteObject(key);
+                deletedKeys.push(key);
+            } catch (error: any) {
+                const message = error?.message || String(error);
+                failedKeys.push({ key, error: message });
+                await job.log(`Failed to delete ${key}: ${message}`);
+                console.error(`Failed to delete storage key: ${key}`, message);
+            }
+        }
+
+        return { deletedKeys, failedKeys };
+    }
+
+    /**
+     * Latest modification time of an entry and, for directories, of anything below it.
+     * A job directory's own mtime stays put while files inside it are rewritten.
+     * @param entryPath - File or directory
+     * @returns Modification time in milliseconds
+     */
+    private async latestModification(entryPath: string): Promise<number> {
+        const stats = await fs.stat(entryPath);
+        let latest = stats.mtimeMs;
+
+        if (stats.isDirectory()) {
+            for (const child of await fs.readdir(entryPath)) {
+                try {
+                    latest = Math.max(latest, await this.latestModification(path.join(entryPath, child)));
+                } catch (error: any) {
+                    // Files come and go while a job is running
+                    if (error.code !== 'ENOENT') throw error;
+                }
+            }
+        }
+
+        return latest;
+    }
+
+    /**
+     * Remove entries in a scratch directory that have not been written for the given age
+     * @param dirPath - Directory to sweep
+     * @param maxAgeMs - Maximum age in milliseconds since the last write inside an entry
+     * @returns Number of entries removed
+     */
+    private async sweepTempDirectory(dirPath: string, maxAgeMs: number): Promise<number> {
+        let removed = 0;
+
+        try {
+            const entries = await fs.readdir(dirPath);
+            const cutoff = Date.now() - maxAgeMs;
+
+            for (const entry of entries) {
+                const entryPath = path.join(dirPath, entry);
+                try {
+                    if (await this.latestModification(entryPath) < cutoff) {
+                        await fs.rm(entryPath, { recursive: true, force: true });
+                        removed++;
+                    }
+                } catch (error) {
+                    console.warn(`Failed to sweep temp entry: ${entryPath}`, error);
+                }
+            }
+
+            if (removed > 0) {
+                console.log(`🧹 Removed ${removed} stale temp entries from ${dirPath}`);
+            }
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`Failed to read temp directory: ${dirPath}`, error);
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * Gracefully close the worker
+     */
+    async close(): Promise<void> {
+        console.log('🛑 Shutting down cleanup worker...');
+        await this.worker.close();
+        console.log('✅ Cleanup worker closed');
+    }
+}
+
+export default CleanupWorker;
@@ -8,16 +8,17 @@ import sharp from 'sharp';
 import { getRedisClient } from '../config/redis';
 import { getStorageService } from '../config/storage';
 import assetDao from '../dao/asset.dao';
+import webhookService from '../services/webhook.service';
+import renditionProfileService from '../services/renditionProfile.service';
+import { RENDITION_CONTENT_TYPES, RENDITION_FILE_EXTENSIONS } from '../models/RenditionProfile.model';
+import { renderImageRendition, ImageRenditionSpec } from '../utils/imageRendition';
 import { QUEUE_NAMES, JOB_TYPES, GenerateThumbnailsJobData } from '../queues';
 
 /**
  * Image processing configuration
+ * Rendition sizes come from the organization's rendition profiles.
  */
 const IMAGE_CONFIG = {
-    thumbnails: {
-        small: { width: 256, height: 256, quality: 85 },
-        large: { width: 640, height: 640, quality: 90 }
-    },
     optimization: {
         jpeg: { quality: 85, progressive: true },
         png: { compressionLevel: 6, progressive: true },
@@ -97,10 +98,16 @@ export class ImageWorker {
             
             // Update asset with processing error
             if (data.assetId) {
-                await assetDao.updateById(data.assetId, {
+                const failedAsset = await assetDao.updateById(data.assetId, {
                     status: 'failed' as any,
                     processingError: `Image processing failed: ${error.message}`
                 });
+
+                // Subscribers hear about the failure once retries are exhausted
+                const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                if (failedAsset && finalAttempt) {
+                    await webhookService.emitAssetEvent('asset.processing.failed', failedAsset);
+                }
             }
             
             throw error;
@@ -139,51 +146,42 @@ export class ImageWorker {
         console.log(`📐 Image metadata for ${assetId}:`, metadata);
         await job.updateProgress(40);
 
-        // Generate thumbnails
+        // Render every active rendition profile of the organization that applies to images
+        const profiles = await renditionProfileService.resolveProfiles(organizationId, 'image');
         const renditions: any = {};
-        
-        // Small thumbnail
-        const smallThumbnail = await this.createThumbnail(
-            originalBuffer, 
-            IMAGE_CONFIG.thumbnails.small,
-            'small'
-        );
-        
-        const smallKey = this.generateRenditionKey(organizationId, assetId, 'thumbnail_small');
-        await this.uploadRendition(smallThumbnail.buffer, smallKey, 'image/jpeg');
-        
-        renditions.thumbnail_small = {
-            storageKey: smallKey,
-            width: smallThumbnail.width,
-            height: smallThumbnail.height
-        };
-        
-        await job.updateProgress(60);
+        const progressPerProfile = 40 / Math.max(profiles.length, 1);
+
+        for (const [index, profile] of profiles.entries()) {
+            const rendition = await this.createThumbnail(originalBuffer, profile, profile.name);
+
+            const renditionKey = this.generateRenditionKey(
+                organizationId,
+                assetId,
+                profile.name,
+                RENDITION_FILE_EXTENSIONS[profile.format]
+            );
+            await this.uploadRendition(rendition.buffer, renditionKey, RENDITION_CONTENT_TYPES[profile.format]);
+
+            renditions[profile.name] = {
+                storageKey: renditionKey,
+                width: rendition.width,
+                height: rendition.height,
+                format: profile.format,
+                fileSizeBytes: rendition.buffer.length
+            };
 
-        // Large thumbnail
-        const largeThumbnail = await this.createThumbnail(
-            originalBuffer, 
-            IMAGE_CONFIG.thumbnails.large,
-            'large'
-        );
-        
-        const largeKey = this.generateRenditionKey(organizationId, assetId, 'thumbnail_large');
-        await this.uploadRendition(largeThumbnail.buffer, largeKey, 'image/jpeg');
-        
-        renditions.thumbnail_large = {
-            storageKey: largeKey,
-            width: largeThumbnail.width,
-            height: largeThumbnail.height
-        };
-        
-        await job.updateProgress(80);
+            await job.updateProgress(Math.round(40 + progressPerProfile * (index + 1)));
+        }
 
         // Update asset with renditions and metadata
-        await assetDao.updateById(assetId, {
+        const completedAsset = await assetDao.updateById(assetId, {
             status: 'completed' as any,
             metadata,
             renditions
         });
+        if (completedAsset) {
+            await webhookService.emitAssetEvent('asset.processing.completed', completedAsset);
+        }
 
         await job.updateProgress(100);
 
@@ -252,34 +250,22 @@ export class ImageWorker {
     }
 
     /**
-     * Create thumbnail with specified dimensions
+     * Create thumbnail for a rendition profile
      * @param buffer - Original image buffer
-     * @param config - Thumbnail configuration
-     * @param size - Size identifier
+     * @param spec - Target box, fit mode, format and quality
+     * @param name - Rendition name, for logging
      * @returns Thumbnail buffer and dimensions
      */
     private async createThumbnail(
         buffer: Buffer, 
-        config: { width: number; height: number; quality: number },
-        size: string
+        spec: ImageRenditionSpec,
+        name: string
     ): Promise<{ buffer: Buffer; width: number; height: number }> {
-        const { width, height, quality } = config;
+        const { width, height, fit, format, quality } = spec;
         
-        console.log(`🖼️ Creating ${size} thumbnail: ${width}x${height} @ ${quality}% quality`);
+        console.log(`🖼️ Creating ${name} thumbnail: ${width}x${height} ${fit} ${format} @ ${quality}% quality`);
         
-        const result = await sharp(buffer)
-            .resize(width, height, {
-                fit: 'inside',
-                withoutEnlargement: true
-            })
-            .jpeg({ quality, progressive: true })
-            .toBuffer({ resolveWithObject: true });
-
-        return {
-            buffer: result.data,
-            width: result.info.width,
-            height: result.info.height
-        };
+        return renderImageRendition(buffer, spec);
     }
 
     /**
@@ -352,15 +338,17 @@ export class ImageWorker {
      * @param organizationId - Organization ID
      * @param assetId - Asset ID
      * @param renditionType - Type of rendition
+     * @param extension - File extension of the rendition format
      * @returns Storage key
      */
     private generateRenditionKey(
         organizationId: string, 
         assetId: string, 
-        renditionType: string
+        renditionType: string,
+        extension = 'jpg'
     ): string {
         const timestamp = Date.now();
-        const filename = `${renditionType}_${timestamp}.jpg`;
+        const filename = `${renditionType}_${timestamp}.${extension}`;
         return `org/${organizationId}/assets/${assetId}/renditions/${filename}`;
     }
 
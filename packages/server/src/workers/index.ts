@@ -8,6 +8,21 @@ import { getRedisService } from '../config/redis';
 import ImageWorker from './image.worker';
 import VideoWorker from './video.worker';
 import MetadataWorker from './metadata.worker';
+import AssetWorker from './asset.worker';
+import CleanupWorker from './cleanup.worker';
+import BulkWorker from './bulk.worker';
+import WebhookWorker from './webhook.worker';
+import { JobUtils } from '../queues';
+
+/**
+ * Maintenance schedule
+ */
+const MAINTENANCE_CONFIG = {
+    uploadReaperIntervalMs: parseInt(process.env.UPLOAD_REAPER_INTERVAL_MS || String(15 * 60 * 1000), 10),
+    uploadReaperBatchSize: parseInt(process.env.UPLOAD_REAPER_BATCH_SIZE || '50', 10),
+    stuckAssetRecoveryIntervalMs: parseInt(process.env.STUCK_ASSET_RECOVERY_INTERVAL_MS || String(10 * 60 * 1000), 10),
+    stuckAssetRecoveryBatchSize: parseInt(process.env.STUCK_ASSET_RECOVERY_BATCH_SIZE || '50', 10)
+};
 
 /**
  * Worker manager class for orchestrating background processing
@@ -16,6 +31,10 @@ class WorkerManager {
     private imageWorker?: ImageWorker;
     private videoWorker?: VideoWorker;
     private metadataWorker?: MetadataWorker;
+    private assetWorker?: AssetWorker;
+    private cleanupWorker?: CleanupWorker;
+    private bulkWorker?: BulkWorker;
+    private webhookWorker?: WebhookWorker;
     private isShuttingDown = false;
 
     /**
@@ -30,6 +49,9 @@ class WorkerManager {
             
             // Initialize workers
             await this.initializeWorkers();
+
+            // Register repeating maintenance jobs
+            await this.scheduleMaintenanceJobs();
             
             // Setup graceful shutdown
             this.setupGracefulShutdown();
@@ -39,6 +61,10 @@ class WorkerManager {
             console.log('   🎨 Image Processing: Active');
             console.log('   🎬 Video Processing: Active');
             console.log('   🔍 Metadata Extraction: Active');
+            console.log('   📦 Asset Processing: Active');
+            console.log('   🧹 Storage Cleanup: Active');
+            console.log('   📚 Bulk Operations: Active');
+            console.log('   🪝 Webhook Delivery: Active');
             
         } catch (error) {
             console.error('❌ Failed to start workers:', error);
@@ -108,10 +134,67 @@ class WorkerManager {
             throw error;
         }
 
+        // Initialize Asset Processing Worker
+        try {
+            this.assetWorker = new AssetWorker();
+            console.log('✅ Asset worker initialized');
+        } catch (error) {
+            console.error('❌ Asset worker initialization failed:', error);
+            throw error;
+        }
+
+        // Initialize Cleanup Worker
+        try {
+            this.cleanupWorker = new CleanupWorker();
+            console.log('✅ Cleanup worker initialized');
+        } catch (error) {
+            console.error('❌ Cleanup worker initialization failed:', error);
+            throw error;
+        }
+
+        // Initialize Bulk Operations Worker
+        try {
+            this.bulkWorker = new BulkWorker();
+            console.log('✅ Bulk worker initialized');
+        } catch (error) {
+            console.error('❌ Bulk worker initialization failed:', error);
+            throw error;
+        }
+
+        // Initialize Webhook Delivery Worker
+        try {
+            this.webhookWorker = new WebhookWorker();
+            console.log('✅ Webhook worker initialized');
+        } catch (error) {
+            console.error('❌ Webhook worker initialization failed:', error);
+            throw error;
+        }
+
         // Wait a moment for workers to fully initialize
         await new Promise(resolve => setTimeout(resolve, 2000));
     }
 
+    /**
+     * Register repeating maintenance jobs; schedulers are upserted, so every
+     * worker process can do this without creating duplicates
+     */
+    private async scheduleMaintenanceJobs(): Promise<void> {
+        try {
+            await JobUtils.scheduleExpiredUploadReaper(MAINTENANCE_CONFIG.uploadReaperIntervalMs, {
+                limit: MAINTENANCE_CONFIG.uploadReaperBatchSize
+            });
+            console.log(`✅ Expired upload reaper scheduled every ${MAINTENANCE_CONFIG.uploadReaperIntervalMs}ms`);
+
+            await JobUtils.scheduleStuckAssetRecovery(MAINTENANCE_CONFIG.stuckAssetRecoveryIntervalMs, {
+                limit: MAINTENANCE_CONFIG.stuckAssetRecoveryBatchSize
+            });
+            console.log(`✅ Stuck asset recovery scheduled every ${MAINTENANCE_CONFIG.stuckAssetRecoveryIntervalMs}ms`);
+        } catch (error) {
+            console.error('❌ Maintenance job scheduling failed:', error);
+            throw error;
+        }
+    }
+
     /**
      * Setup graceful shutdown handlers
      */
@@ -183,6 +266,42 @@ class WorkerManager {
             );
         }
 
+        // Shutdown Asset Worker
+        if (this.assetWorker) {
+            shutdownPromises.push(
+                this.assetWorker.close().catch(error => {
+                    console.error('❌ Asset worker shutdown error:', error);
+                })
+            );
+        }
+
+        // Shutdown Cleanup Worker
+        if (this.cleanupWorker) {
+            shutdownPromises.push(
+                this.cleanupWorker.close().catch(error => {
+                    console.error('❌ Cleanup worker shutdown error:', error);
+                })
+            );
+        }
+
+        // Shutdown Bulk Worker
+        if (this.bulkWorker) {
+            shutdownPromises.push(
+                this.bulkWorker.close().catch(error => {
+                    console.error('❌ Bulk worker shutdown error:', error);
+                })
+            );
+        }
+
+        // Shutdown Webhook Worker
+        if (this.webhookWorker) {
+            shutdownPromises.push(
+                this.webhookWorker.close().catch(error => {
+                    console.error('❌ Webhook worker shutdown error:', error);
+                })
+            );
+        }
+
         // Wait for all workers to shutdown or timeout after 30 seconds
         try {
             await Promise.race([
@@ -214,6 +333,10 @@ class WorkerManager {
             imageWorker: this.imageWorker ? 'active' : 'inactive',
             videoWorker: this.videoWorker ? 'active' : 'inactive',
             metadataWorker: this.metadataWorker ? 'active' : 'inactive',
+            assetWorker: this.assetWorker ? 'active' : 'inactive',
+            cleanupWorker: this.cleanupWorker ? 'active' : 'inactive',
+            bulkWorker: this.bulkWorker ? 'active' : 'inactive',
+            webhookWorker: this.webhookWorker ? 'active' : 'inactive',
             status: this.isShuttingDown ? 'shutting-down' : 'running'
         };
     }
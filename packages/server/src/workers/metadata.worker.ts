@@ -11,6 +11,8 @@ import sharp from 'sharp';
 import { getRedisClient } from '../config/redis';
 import { getStorageService } from '../config/storage';
 import assetDao from '../dao/asset.dao';
+import webhookService from '../services/webhook.service';
+import { MAX_EXTRACTED_TEXT_LENGTH } from '../models/Asset.model';
 import { QUEUE_NAMES, JOB_TYPES, ExtractMetadataJobData } from '../queues';
 
 /**
@@ -25,7 +27,7 @@ const METADATA_CONFIG = {
         image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/tiff'],
         video: ['video/mp4', 'video/mpeg', 'video/quicktime', 'video/x-msvideo', 'video/webm'],
         audio: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/aac', 'audio/flac'],
-        document: ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+        document: ['application/pdf', 'text/plain', 'text/markdown', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
     }
 };
 
@@ -113,10 +115,16 @@ export class MetadataWorker {
             
             // Update asset with processing error
             if (data.assetId) {
-                await assetDao.updateById(data.assetId, {
+                const failedAsset = await assetDao.updateById(data.assetId, {
                     status: 'failed' as any,
                     processingError: `Metadata extraction failed: ${error.message}`
                 });
+
+                // Subscribers hear about the failure once retries are exhausted
+                const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                if (failedAsset && finalAttempt) {
+                    await webhookService.emitAssetEvent('asset.processing.failed', failedAsset);
+                }
             }
             
             throw error;
@@ -148,6 +156,7 @@ export class MetadataWorker {
             await job.updateProgress(30);
 
             // Extract metadata based on file type
+            let extractedText: string | undefined;
             let metadata: any = {
                 originalFilename,
                 mimeType,
@@ -174,7 +183,9 @@ export class MetadataWorker {
                 metadata = { ...metadata, ...audioMetadata };
                 await job.updateProgress(70);
             } else if (this.isDocumentType(mimeType)) {
-                const documentMetadata = await this.extractDocumentMetadata(tempFilePath);
+                // The text goes to the search index, not into the job result
+                const { text, ...documentMetadata } = await this.extractDocumentMetadata(tempFilePath);
+                extractedText = text;
                 metadata = { ...metadata, ...documentMetadata };
                 await job.updateProgress(70);
             }
@@ -195,7 +206,8 @@ export class MetadataWorker {
                     pageCount: metadata.pageCount
                 },
                 // Add suggested tags to existing tags
-                tags: contentTags.slice(0, 5) // Limit to 5 auto-generated tags
+                tags: contentTags.slice(0, 5), // Limit to 5 auto-generated tags
+                extractedText
             });
 
             await job.updateProgress(100);
@@ -411,6 +423,8 @@ export class MetadataWorker {
                 metadata.characterCount = content.length;
                 metadata.wordCount = content.split(/\s+/).length;
                 metadata.lineCount = content.split('\n').length;
+                // Searchable text for the full-text index
+                metadata.text = content.slice(0, MAX_EXTRACTED_TEXT_LENGTH);
             }
 
             return metadata;
@@ -1,6 +1,7 @@
 /**
  * @fileoverview Video Processing Worker - FFmpeg Integration
- * Handles video transcoding, poster frame extraction, and format conversion
+ * Handles video transcoding, HLS packaging, poster frame extraction, scrubbing sprites
+ * and format conversion
  * for uploaded video assets using FFmpeg for professional video processing.
  */
 import { Worker, Job, KeepJobs } from 'bullmq';
@@ -10,25 +11,60 @@ import path from 'path';
 import { getRedisClient } from '../config/redis';
 import { getStorageService } from '../config/storage';
 import assetDao from '../dao/asset.dao';
-import { QUEUE_NAMES, JOB_TYPES, TranscodeVideoJobData } from '../queues';
+import webhookService from '../services/webhook.service';
+import renditionProfileService from '../services/renditionProfile.service';
+import {
+    RENDITION_CONTENT_TYPES,
+    RENDITION_FILE_EXTENSIONS,
+    RenditionProfileSpec,
+    isVideoFormat
+} from '../models/RenditionProfile.model';
+import { renderImageRendition } from '../utils/imageRendition';
+import {
+    QUEUE_NAMES,
+    JOB_TYPES,
+    JobUtils,
+    TranscodeVideoJobData,
+    ExtractPosterJobData,
+    GenerateSpritesJobData
+} from '../queues';
 
 /**
  * Video processing configuration
+ * Output sizes come from the organization's rendition profiles.
  */
 const VIDEO_CONFIG = {
-    resolutions: {
-        '720p': { width: 1280, height: 720, bitrate: '2500k', audioBitrate: '128k' },
-        '1080p': { width: 1920, height: 1080, bitrate: '5000k', audioBitrate: '192k' }
-    },
     formats: {
-        mp4: { codec: 'libx264', audioCodec: 'aac' },
-        webm: { codec: 'libvpx-vp9', audioCodec: 'libopus' }
+        // maxCrf is the constant rate factor used for profile quality 0
+        mp4: { codec: 'libx264', audioCodec: 'aac', minCrf: 18, maxCrf: 51 },
+        webm: { codec: 'libvpx-vp9', audioCodec: 'libopus', minCrf: 15, maxCrf: 63 }
     },
     poster: {
         format: 'jpg',
         quality: 85,
         timeOffset: '00:00:02' // Extract poster at 2 seconds
     },
+    // HLS ladder; the height applies to the short side so portrait videos get the same rungs
+    hls: {
+        enabled: process.env.VIDEO_HLS_ENABLED !== 'false',
+        segmentSeconds: Number(process.env.VIDEO_HLS_SEGMENT_SECONDS) || 6,
+        ladder: [
+            { name: '360p', height: 360, videoKbps: 800, audioKbps: 96 },
+            { name: '540p', height: 540, videoKbps: 1400, audioKbps: 128 },
+            { name: '720p', height: 720, videoKbps: 2800, audioKbps: 128 },
+            { name: '1080p', height: 1080, videoKbps: 5000, audioKbps: 192 }
+        ]
+    },
+    // Scrubbing sprites: one tile every intervalSeconds, stretched for long videos to stay under maxFrames
+    sprites: {
+        enabled: process.env.VIDEO_SPRITES_ENABLED !== 'false',
+        intervalSeconds: Number(process.env.VIDEO_SPRITE_INTERVAL_SECONDS) || 5,
+        maxFrames: 1000,
+        tileWidth: 160,
+        columns: 10,
+        rows: 10,
+        quality: 5 // ffmpeg JPEG qscale, 2 (best) to 31
+    },
     ffmpeg: {
         path: process.env.FFMPEG_PATH || '/usr/bin/ffmpeg',
         probePath: process.env.FFPROBE_PATH || '/usr/bin/ffprobe'
@@ -36,6 +72,16 @@ const VIDEO_CONFIG = {
     tempDir: '/tmp/dam-processing'
 };
 
+type HlsRung = typeof VIDEO_CONFIG.hls.ladder[number];
+
+interface HlsVariant {
+    name: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+    playlist: string;
+}
+
 /**
  * Video processing worker class
  */
@@ -110,10 +156,13 @@ export class VideoWorker {
                     return await this.transcodeVideo(data as TranscodeVideoJobData, job);
                 
                 case JOB_TYPES.EXTRACT_POSTER:
-                    return await this.extractPosterFrame(data, job);
+                    return await this.extractPosterFrame(data as ExtractPosterJobData, job);
                 
                 case JOB_TYPES.GENERATE_PREVIEWS:
                     return await this.generatePreviews(data, job);
+
+                case JOB_TYPES.GENERATE_SPRITES:
+                    return await this.generateSprites(data as GenerateSpritesJobData, job);
                 
                 default:
                     throw new Error(`Unknown video job type: ${name}`);
@@ -121,12 +170,20 @@ export class VideoWorker {
         } catch (error: any) {
             console.error(`Video processing error for job ${job.id}:`, error);
             
-            // Update asset with processing error
-            if (data.assetId) {
-                await assetDao.updateById(data.assetId, {
+            // Update asset with processing error; poster and sprite jobs refine a
+            // processed asset and never fail it
+            const refinesAsset = name === JOB_TYPES.EXTRACT_POSTER || name === JOB_TYPES.GENERATE_SPRITES;
+            if (data.assetId && !refinesAsset) {
+                const failedAsset = await assetDao.updateById(data.assetId, {
                     status: 'failed' as any,
                     processingError: `Video processing failed: ${error.message}`
                 });
+
+                // Subscribers hear about the failure once retries are exhausted
+                const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                if (failedAsset && finalAttempt) {
+                    await webhookService.emitAssetEvent('asset.processing.failed', failedAsset);
+                }
             }
             
             throw error;
@@ -143,7 +200,7 @@ export class VideoWorker {
         data: TranscodeVideoJobData, 
         job: Job
     ): Promise<{ renditions: any; metadata: any }> {
-        const { assetId, organizationId, storageKey, targetResolutions, extractPoster } = data;
+        const { assetId, organizationId, storageKey, extractPoster } = data;
         
         await job.updateProgress(5);
 
@@ -163,8 +220,11 @@ export class VideoWorker {
             await job.updateProgress(25);
 
             const renditions: any = {};
+            const profiles = await renditionProfileService.resolveProfiles(organizationId, 'video');
+            const videoProfiles = profiles.filter((profile) => isVideoFormat(profile.format));
+            const imageProfiles = profiles.filter((profile) => !isVideoFormat(profile.format));
 
-            // Extract poster frame if requested
+            // Extract poster frame if requested; image profiles are rendered from it
             if (extractPoster) {
                 const posterPath = path.join(jobTempDir, 'poster.jpg');
                 await this.extractPoster(originalPath, posterPath);
@@ -176,43 +236,54 @@ export class VideoWorker {
                     storageKey: posterKey,
                     format: 'jpg'
                 };
+
+                const posterBuffer = await fs.readFile(posterPath);
+                Object.assign(
+                    renditions,
+                    await this.renderPosterProfiles(posterBuffer, imageProfiles, organizationId, assetId)
+                );
                 
                 await job.updateProgress(35);
             }
 
-            // Transcode to target resolutions
+            // Transcode one rendition per video profile
             let progressStep = 35;
-            const progressPerResolution = (90 - progressStep) / targetResolutions.length;
+            const profilesDone = VIDEO_CONFIG.hls.enabled ? 70 : 90;
+            const progressPerProfile = (profilesDone - progressStep) / Math.max(videoProfiles.length, 1);
 
-            for (const resolution of targetResolutions) {
-                const config = VIDEO_CONFIG.resolutions[resolution];
-                if (!config) {
-                    console.warn(`Unknown resolution: ${resolution}`);
-                    continue;
-                }
-
-                const outputPath = path.join(jobTempDir, `${resolution}.mp4`);
-                await this.transcodeToResolution(originalPath, outputPath, config, job);
+            for (const profile of videoProfiles) {
+                const extension = RENDITION_FILE_EXTENSIONS[profile.format];
+                const outputPath = path.join(jobTempDir, `${profile.name}.${extension}`);
+                await this.transcodeToProfile(originalPath, outputPath, profile, job);
                 
-                const renditionKey = this.generateRenditionKey(organizationId, assetId, `preview_${resolution}`);
-                await this.uploadRendition(outputPath, renditionKey, 'video/mp4');
+                const renditionKey = this.generateRenditionKey(organizationId, assetId, profile.name, extension);
+                await this.uploadRendition(outputPath, renditionKey, RENDITION_CONTENT_TYPES[profile.format]);
                 
-                // Get file size
+                // Fit modes that keep the aspect ratio decide the final size
                 const stats = await fs.stat(outputPath);
-                renditions[`preview_${resolution}`] = {
+                const output = await this.getVideoMetadata(outputPath);
+                renditions[profile.name] = {
                     storageKey: renditionKey,
                     fileSizeBytes: stats.size,
-                    resolution,
-                    width: config.width,
-                    height: config.height
+                    width: output.width ?? profile.width,
+                    height: output.height ?? profile.height,
+                    format: profile.format
                 };
                 
-                progressStep += progressPerResolution;
+                progressStep += progressPerProfile;
                 await job.updateProgress(Math.round(progressStep));
             }
 
+            if (VIDEO_CONFIG.hls.enabled) {
+                const hls = await this.packageHls(originalPath, jobTempDir, metadata, organizationId, assetId);
+                if (hls) {
+                    renditions.hls = hls;
+                }
+                await job.updateProgress(90);
+            }
+
             // Update asset with renditions and metadata
-            await assetDao.updateById(assetId, {
+            const completedAsset = await assetDao.updateById(assetId, {
                 status: 'completed' as any,
                 metadata: {
                     width: metadata.width,
@@ -223,6 +294,14 @@ export class VideoWorker {
                 },
                 renditions
             });
+            if (completedAsset) {
+                await webhookService.emitAssetEvent('asset.processing.completed', completedAsset);
+            }
+
+            // Sprites merge into the renditions written above, so they run afterwards
+            if (completedAsset && VIDEO_CONFIG.sprites.enabled) {
+                await JobUtils.addGenerateSpritesJob({ assetId, organizationId, storageKey });
+            }
 
             await job.updateProgress(100);
 
@@ -235,12 +314,16 @@ export class VideoWorker {
     }
 
     /**
-     * Extract poster frame from video
+     * Replace the poster of a processed video and the thumbnails rendered from it
+     * The poster is a frame taken at `timeOffset`, or an existing JPEG given as
+     * `posterKey` (an uploaded image, or the previous poster when reverting).
+     * The replaced poster is kept as `poster_previous`; the one it displaces and
+     * the replaced thumbnails are deleted.
      * @param data - Job data
      * @param job - BullMQ job
      * @returns Poster extraction result
      */
-    private async extractPosterFrame(data: any, job: Job): Promise<any> {
+    private async extractPosterFrame(data: ExtractPosterJobData, job: Job): Promise<any> {
         const { assetId, organizationId, storageKey, timeOffset } = data;
         
         const jobTempDir = path.join(VIDEO_CONFIG.tempDir, `poster_${job.id}`);
@@ -249,31 +332,141 @@ export class VideoWorker {
         try {
             await job.updateProgress(10);
 
-            // Download original video
-            const originalPath = path.join(jobTempDir, 'original.mp4');
-            await this.downloadVideoFromStorage(storageKey, originalPath);
-            await job.updateProgress(40);
+            const asset = await assetDao.findById(assetId);
+            const current: Record<string, any> = (asset?.renditions as any) || {};
+            if (!asset || asset.deletedAt || asset.storageKey !== storageKey) {
+                // An uploaded poster is referenced by nothing else
+                if (data.posterKey && current.poster_previous?.storageKey !== data.posterKey) {
+                    await this.storage.deleteObject(data.posterKey);
+                }
+                await job.log(`Asset ${assetId} changed, skipping poster`);
+                return { skipped: true };
+            }
 
-            // Extract poster frame
-            const posterPath = path.join(jobTempDir, 'poster.jpg');
-            await this.extractPoster(originalPath, posterPath, timeOffset);
-            await job.updateProgress(70);
+            let posterKey: string;
+            let posterBuffer: Buffer;
+            // Objects written by this job, removed again if the asset changes meanwhile
+            const written: string[] = [];
+
+            if (data.posterKey) {
+                posterKey = data.posterKey;
+                posterBuffer = await this.storage.getObject(posterKey);
+                await job.updateProgress(40);
+            } else {
+                // Download original video
+                const originalPath = path.join(jobTempDir, 'original.mp4');
+                await this.downloadVideoFromStorage(storageKey, originalPath);
+                await job.updateProgress(40);
+
+                // Extract poster frame
+                const posterPath = path.join(jobTempDir, 'poster.jpg');
+                await this.extractPoster(originalPath, posterPath, timeOffset);
 
-            // Upload poster
-            const posterKey = this.generateRenditionKey(organizationId, assetId, 'poster');
-            await this.uploadRendition(posterPath, posterKey, 'image/jpeg');
+                // Upload poster
+                posterKey = this.generateRenditionKey(organizationId, assetId, 'poster');
+                await this.uploadRendition(posterPath, posterKey, 'image/jpeg');
+                written.push(posterKey);
+                posterBuffer = await fs.readFile(posterPath);
+            }
+            await job.updateProgress(60);
+
+            const profiles = await renditionProfileService.resolveProfiles(organizationId, 'video');
+            const thumbnails = await this.renderPosterProfiles(
+                posterBuffer,
+                profiles.filter((profile) => !isVideoFormat(profile.format)),
+                organizationId,
+                assetId
+            );
+            written.push(...Object.values(thumbnails).map((rendition: any) => rendition.storageKey));
+            await job.updateProgress(80);
+
+            // Reverting brings back the previous entry as it was
+            const restored = current.poster_previous?.storageKey === posterKey ? current.poster_previous : undefined;
+            const previous = current.poster?.storageKey === posterKey ? current.poster_previous : current.poster;
+            const renditions: Record<string, any> = {
+                ...thumbnails,
+                poster: restored || {
+                    storageKey: posterKey,
+                    format: 'jpg',
+                    ...(data.posterKey ? {} : { timeOffset: timeOffset || VIDEO_CONFIG.poster.timeOffset })
+                }
+            };
+            if (previous) {
+                renditions.poster_previous = previous;
+            }
+
+            const updated = await assetDao.setRenditions(assetId, storageKey, renditions, {
+                poster: current.poster?.storageKey ?? null
+            });
+            if (!updated) {
+                for (const key of written) {
+                    await this.storage.deleteObject(key);
+                }
+                // Another poster change won the race; retry on top of it
+                const latest = await assetDao.findById(assetId);
+                if (latest && !latest.deletedAt && latest.storageKey === storageKey) {
+                    throw new Error('Poster changed concurrently');
+                }
+                // An uploaded poster is referenced by nothing else
+                if (data.posterKey && !restored) {
+                    await this.storage.deleteObject(data.posterKey);
+                }
+                await job.log(`Asset ${assetId} changed, discarding poster`);
+                return { skipped: true };
+            }
+
+            // Objects nothing references any more
+            const kept = new Set([posterKey, previous?.storageKey]);
+            const dropped = [
+                current.poster_previous?.storageKey,
+                current.poster?.storageKey,
+                ...Object.keys(thumbnails).map((name) => current[name]?.storageKey)
+            ].filter((key): key is string => Boolean(key) && !kept.has(key));
+            for (const key of new Set(dropped)) {
+                try {
+                    await this.storage.deleteObject(key);
+                } catch (error: any) {
+                    await job.log(`Failed to delete replaced rendition ${key}: ${error.message}`);
+                }
+            }
             await job.updateProgress(100);
 
             return {
                 posterKey,
-                timeOffset: timeOffset || VIDEO_CONFIG.poster.timeOffset
+                timeOffset: data.posterKey ? undefined : timeOffset || VIDEO_CONFIG.poster.timeOffset
             };
 
+        } catch (error) {
+            const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+            if (data.posterKey && finalAttempt) {
+                await this.deleteUnreferencedPoster(assetId, data.posterKey, job);
+            }
+            throw error;
         } finally {
             await this.cleanupTempDirectory(jobTempDir);
         }
     }
 
+    /**
+     * Delete a poster given to a failed job unless the asset still references it
+     * Reverts pass the asset's own previous poster, which has to stay.
+     * @param assetId - Asset ID
+     * @param posterKey - Storage key of the poster
+     * @param job - BullMQ job
+     */
+    private async deleteUnreferencedPoster(assetId: string, posterKey: string, job: Job): Promise<void> {
+        try {
+            const asset = await assetDao.findById(assetId);
+            const renditions: Record<string, any> = (asset?.renditions as any) || {};
+            if (Object.values(renditions).some((rendition: any) => rendition?.storageKey === posterKey)) {
+                return;
+            }
+            await this.storage.deleteObject(posterKey);
+        } catch (error: any) {
+            await job.log(`Failed to delete poster ${posterKey}: ${error.message}`);
+        }
+    }
+
     /**
      * Generate video previews (short clips)
      * @param data - Job data
@@ -316,6 +509,169 @@ export class VideoWorker {
         }
     }
 
+    /**
+     * Generate scrubbing sprite sheets and their WebVTT thumbnails track
+     * Frames are taken at a fixed interval and tiled into JPEG sheets; the track
+     * maps each interval to its tile with a `#xywh=` media fragment. Sheet
+     * names in the track are relative and resolved when the track is served.
+     * @param data - Job data
+     * @param job - BullMQ job
+     * @returns Sprite generation result
+     */
+    private async generateSprites(data: GenerateSpritesJobData, job: Job): Promise<any> {
+        const { assetId, organizationId, storageKey } = data;
+        const config = VIDEO_CONFIG.sprites;
+
+        const jobTempDir = path.join(VIDEO_CONFIG.tempDir, `sprites_${job.id}`);
+        await fs.mkdir(jobTempDir, { recursive: true });
+
+        try {
+            await job.updateProgress(10);
+
+            // Download original video
+            const originalPath = path.join(jobTempDir, 'original.mp4');
+            await this.downloadVideoFromStorage(storageKey, originalPath);
+            await job.updateProgress(30);
+
+            const metadata = await this.getVideoMetadata(originalPath);
+            if (!metadata.duration || !metadata.width || !metadata.height) {
+                await job.log('Skipping sprites: duration or dimensions unknown');
+                return { skipped: true };
+            }
+
+            const intervalSeconds = Math.max(
+                data.intervalSeconds || config.intervalSeconds,
+                Math.ceil(metadata.duration / config.maxFrames)
+            );
+            const tileWidth = config.tileWidth;
+            const tileHeight = Math.max(2, Math.round((tileWidth * metadata.height) / metadata.width / 2) * 2);
+            const tilesPerSheet = config.columns * config.rows;
+
+            const spritesDir = path.join(jobTempDir, 'sprites');
+            await fs.mkdir(spritesDir, { recursive: true });
+            await this.extractSpriteSheets(originalPath, spritesDir, intervalSeconds, tileWidth, tileHeight);
+            await job.updateProgress(70);
+
+            // ffmpeg may round the last frame either way; the sheets it wrote are authoritative
+            const sheetCount = (await fs.readdir(spritesDir)).filter((file) => file.startsWith('sheet_')).length;
+            if (sheetCount === 0) {
+                await job.log('Skipping sprites: no frames extracted');
+                return { skipped: true };
+            }
+            const frameCount = Math.min(
+                Math.max(1, Math.ceil(metadata.duration / intervalSeconds)),
+                sheetCount * tilesPerSheet
+            );
+
+            // Sheets are numbered from zero, in frame order
+            const cues = ['WEBVTT', ''];
+            for (let frame = 0; frame < frameCount; frame++) {
+                const sheet = Math.floor(frame / tilesPerSheet);
+                const tile = frame % tilesPerSheet;
+                const x = (tile % config.columns) * tileWidth;
+                const y = Math.floor(tile / config.columns) * tileHeight;
+                const start = frame * intervalSeconds;
+                const end = Math.min((frame + 1) * intervalSeconds, metadata.duration);
+                cues.push(
+                    `${this.vttTimestamp(start)} --> ${this.vttTimestamp(end)}`,
+                    `${this.spriteSheetName(sheet)}#xywh=${x},${y},${tileWidth},${tileHeight}`,
+                    ''
+                );
+            }
+            const trackPath = path.join(spritesDir, 'thumbnails.vtt');
+            await fs.writeFile(trackPath, cues.join('\n'));
+
+            const prefix = this.generateRenditionPrefix(organizationId, assetId, 'sprites');
+            let sheetBytes = 0;
+            for (let sheet = 0; sheet < sheetCount; sheet++) {
+                const name = this.spriteSheetName(sheet);
+                await this.uploadRendition(path.join(spritesDir, name), `${prefix}${name}`, 'image/jpeg');
+                sheetBytes += (await fs.stat(path.join(spritesDir, name))).size;
+            }
+            const trackKey = `${prefix}thumbnails.vtt`;
+            await this.uploadRendition(trackPath, trackKey, 'text/vtt');
+            await job.updateProgress(90);
+
+            const renditions = {
+                sprites: {
+                    storageKey: `${prefix}${this.spriteSheetName(0)}`,
+                    storagePrefix: prefix,
+                    format: 'jpeg',
+                    width: tileWidth * config.columns,
+                    height: tileHeight * config.rows,
+                    fileSizeBytes: sheetBytes,
+                    tileWidth,
+                    tileHeight,
+                    columns: config.columns,
+                    rows: config.rows,
+                    sheetCount,
+                    frameCount,
+                    intervalSeconds
+                },
+                thumbnails_vtt: {
+                    storageKey: trackKey,
+                    format: 'vtt',
+                    fileSizeBytes: (await fs.stat(trackPath)).size
+                }
+            };
+
+            const updated = await assetDao.setRenditions(assetId, storageKey, renditions);
+            if (!updated) {
+                // The asset was deleted or got a new file meanwhile; nothing references these
+                await job.log(`Asset ${assetId} changed, discarding sprites`);
+                for (const key of await this.storage.listObjectKeys(prefix)) {
+                    await this.storage.deleteObject(key);
+                }
+                return { skipped: true };
+            }
+            await job.updateProgress(100);
+
+            return { prefix, sheetCount, frameCount, intervalSeconds };
+
+        } finally {
+            await this.cleanupTempDirectory(jobTempDir);
+        }
+    }
+
+    /**
+     * Render and upload the image rendition profiles of a video from its poster
+     * @param posterBuffer - Poster image
+     * @param profiles - Rendition profiles with an image format
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @returns Renditions by profile name
+     */
+    private async renderPosterProfiles(
+        posterBuffer: Buffer,
+        profiles: RenditionProfileSpec[],
+        organizationId: string,
+        assetId: string
+    ): Promise<Record<string, any>> {
+        const renditions: Record<string, any> = {};
+        for (const profile of profiles) {
+            const rendition = await renderImageRendition(posterBuffer, profile);
+            const renditionKey = this.generateRenditionKey(
+                organizationId,
+                assetId,
+                profile.name,
+                RENDITION_FILE_EXTENSIONS[profile.format]
+            );
+            await this.uploadRendition(
+                rendition.buffer,
+                renditionKey,
+                RENDITION_CONTENT_TYPES[profile.format]
+            );
+            renditions[profile.name] = {
+                storageKey: renditionKey,
+                width: rendition.width,
+                height: rendition.height,
+                format: profile.format,
+                fileSizeBytes: rendition.buffer.length
+            };
+        }
+        return renditions;
+    }
+
     /**
      * Get video metadata using ffprobe
      * @param videoPath - Path to video file
@@ -372,33 +728,43 @@ export class VideoWorker {
     }
 
     /**
-     * Transcode video to specific resolution
+     * Transcode video for a rendition profile
      * @param inputPath - Input video path
      * @param outputPath - Output video path
-     * @param config - Resolution configuration
+     * @param profile - Rendition profile with a video format
      * @param job - Job for progress tracking
      */
-    private async transcodeToResolution(
+    private async transcodeToProfile(
         inputPath: string,
         outputPath: string,
-        config: any,
+        profile: RenditionProfileSpec,
         job: Job
     ): Promise<void> {
         return new Promise((resolve, reject) => {
+            const format = VIDEO_CONFIG.formats[profile.format as 'mp4' | 'webm'];
+            const rateArgs = profile.bitrateKbps
+                ? ['-b:v', `${profile.bitrateKbps}k`]
+                : [
+                    '-crf', String(Math.round(format.maxCrf - (profile.quality / 100) * (format.maxCrf - format.minCrf))),
+                    // VP9 only runs in constant quality mode without a target bitrate
+                    ...(profile.format === 'webm' ? ['-b:v', '0'] : [])
+                ];
+
             const args = [
                 '-i', inputPath,
-                '-c:v', VIDEO_CONFIG.formats.mp4.codec,
-                '-c:a', VIDEO_CONFIG.formats.mp4.audioCodec,
-                '-vf', `scale=${config.width}:${config.height}:force_original_aspect_ratio=decrease,pad=${config.width}:${config.height}:(ow-iw)/2:(oh-ih)/2`,
-                '-b:v', config.bitrate,
-                '-b:a', config.audioBitrate,
-                '-preset', process.env.VIDEO_PROCESSING_PRESET || 'fast',
-                '-movflags', '+faststart', // Optimize for streaming
+                '-c:v', format.codec,
+                '-c:a', format.audioCodec,
+                '-vf', this.scaleFilter(profile),
+                ...rateArgs,
+                '-b:a', profile.height >= 1080 ? '192k' : '128k',
+                ...(profile.format === 'mp4'
+                    ? ['-preset', process.env.VIDEO_PROCESSING_PRESET || 'fast', '-movflags', '+faststart'] // Optimize for streaming
+                    : []),
                 '-y', // Overwrite output file
                 outputPath
             ];
 
-            console.log(`🎬 Transcoding to ${config.width}x${config.height}: ${outputPath}`);
+            console.log(`🎬 Transcoding ${profile.name} to ${profile.width}x${profile.height} ${profile.fit}: ${outputPath}`);
             
             const ffmpeg = spawn(VIDEO_CONFIG.ffmpeg.path, args);
             
@@ -438,6 +804,188 @@ export class VideoWorker {
         });
     }
 
+    /**
+     * Package the video as HLS: one segmented stream per ladder rung and a master playlist
+     * Rungs above the source resolution are skipped, except the smallest one.
+     * Everything is uploaded under one prefix; the master playlist sits at its top
+     * and refers to the rung playlists by relative path.
+     * @param inputPath - Input video path
+     * @param jobTempDir - Scratch directory of the job
+     * @param metadata - Source metadata from ffprobe
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @returns HLS rendition, or null when the source has no known dimensions
+     */
+    private async packageHls(
+        inputPath: string,
+        jobTempDir: string,
+        metadata: any,
+        organizationId: string,
+        assetId: string
+    ): Promise<any | null> {
+        if (!metadata.width || !metadata.height) {
+            console.warn(`Skipping HLS for ${assetId}: source dimensions unknown`);
+            return null;
+        }
+
+        const shortSide = Math.min(metadata.width, metadata.height);
+        const [smallest, ...rest] = VIDEO_CONFIG.hls.ladder;
+        const rungs = [smallest, ...rest.filter((rung) => rung.height <= shortSide)];
+        const hasAudio = Boolean(metadata.audioCodec);
+
+        const hlsDir = path.join(jobTempDir, 'hls');
+        const variants: HlsVariant[] = [];
+        for (const rung of rungs) {
+            const { width, height } = this.hlsDimensions(metadata.width, metadata.height, rung);
+            await fs.mkdir(path.join(hlsDir, rung.name), { recursive: true });
+            await this.transcodeHlsRung(inputPath, path.join(hlsDir, rung.name), rung, width, height, hasAudio);
+
+            // Peak rate: the encoder may reach maxrate on complex scenes
+            const peakKbps = Math.round(rung.videoKbps * 1.1) + (hasAudio ? rung.audioKbps : 0);
+            variants.push({
+                name: rung.name,
+                width,
+                height,
+                bandwidth: peakKbps * 1000,
+                playlist: `${rung.name}/index.m3u8`
+            });
+        }
+
+        const master = [
+            '#EXTM3U',
+            '#EXT-X-VERSION:3',
+            ...variants.flatMap((variant) => [
+                `#EXT-X-STREAM-INF:BANDWIDTH=${variant.bandwidth},RESOLUTION=${variant.width}x${variant.height}`,
+                variant.playlist
+            ])
+        ].join('\n') + '\n';
+        await fs.writeFile(path.join(hlsDir, 'master.m3u8'), master);
+
+        const prefix = this.generateRenditionPrefix(organizationId, assetId, 'hls');
+        let fileSizeBytes = 0;
+        for (const file of await this.listFiles(hlsDir)) {
+            const relative = path.relative(hlsDir, file).split(path.sep).join('/');
+            const contentType = file.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+            await this.uploadRendition(file, `${prefix}${relative}`, contentType);
+            fileSizeBytes += (await fs.stat(file)).size;
+        }
+
+        const top = variants[variants.length - 1];
+        return {
+            storageKey: `${prefix}master.m3u8`,
+            storagePrefix: prefix,
+            format: 'hls',
+            width: top.width,
+            height: top.height,
+            fileSizeBytes,
+            segmentSeconds: VIDEO_CONFIG.hls.segmentSeconds,
+            variants
+        };
+    }
+
+    /**
+     * Output size of a ladder rung, keeping the source aspect ratio
+     * The rung height applies to the short side; both sizes stay even.
+     */
+    private hlsDimensions(sourceWidth: number, sourceHeight: number, rung: HlsRung): { width: number; height: number } {
+        const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+        if (sourceWidth >= sourceHeight) {
+            return { width: even((sourceWidth * rung.height) / sourceHeight), height: rung.height };
+        }
+        return { width: rung.height, height: even((sourceHeight * rung.height) / sourceWidth) };
+    }
+
+    /**
+     * Encode one ladder rung as an HLS media playlist with its segments
+     * Keyframes are forced on segment boundaries so every rung switches cleanly.
+     * @param inputPath - Input video path
+     * @param outputDir - Directory for the playlist and segments
+     * @param rung - Ladder rung
+     * @param width - Output width
+     * @param height - Output height
+     * @param hasAudio - Whether the source has an audio stream
+     */
+    private async transcodeHlsRung(
+        inputPath: string,
+        outputDir: string,
+        rung: HlsRung,
+        width: number,
+        height: number,
+        hasAudio: boolean
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const segmentSeconds = VIDEO_CONFIG.hls.segmentSeconds;
+            const args = [
+                '-i', inputPath,
+                '-map', '0:v:0',
+                ...(hasAudio ? ['-map', '0:a:0', '-c:a', 'aac', '-b:a', `${rung.audioKbps}k`, '-ac', '2'] : []),
+                '-c:v', 'libx264',
+                '-preset', process.env.VIDEO_PROCESSING_PRESET || 'fast',
+                '-profile:v', 'main',
+                '-pix_fmt', 'yuv420p',
+                '-vf', `scale=${width}:${height}`,
+                '-b:v', `${rung.videoKbps}k`,
+                '-maxrate', `${Math.round(rung.videoKbps * 1.1)}k`,
+                '-bufsize', `${rung.videoKbps * 2}k`,
+                '-force_key_frames', `expr:gte(t,n_forced*${segmentSeconds})`,
+                '-sc_threshold', '0',
+                '-f', 'hls',
+                '-hls_time', String(segmentSeconds),
+                '-hls_playlist_type', 'vod',
+                '-hls_segment_filename', path.join(outputDir, 'segment_%04d.ts'),
+                '-y',
+                path.join(outputDir, 'index.m3u8')
+            ];
+
+            console.log(`📺 Packaging HLS ${rung.name} at ${width}x${height}: ${outputDir}`);
+
+            const ffmpeg = spawn(VIDEO_CONFIG.ffmpeg.path, args);
+
+            let stderr = '';
+
+            ffmpeg.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            ffmpeg.on('close', (code) => {
+                if (code !== 0) {
+                    reject(new Error(`HLS packaging failed: ${stderr}`));
+                    return;
+                }
+
+                console.log(`✅ HLS ${rung.name} packaged: ${outputDir}`);
+                resolve();
+            });
+
+            ffmpeg.on('error', (error) => {
+                reject(new Error(`FFmpeg HLS packaging error: ${error.message}`));
+            });
+        });
+    }
+
+    /**
+     * FFmpeg scale filter for the fit mode of a profile
+     * Mirrors sharp's fit modes; sizes stay even as the encoders require.
+     * @param profile - Rendition profile
+     * @returns Video filter expression
+     */
+    private scaleFilter(profile: RenditionProfileSpec): string {
+        const { width, height } = profile;
+        switch (profile.fit) {
+            case 'cover':
+                return `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+            case 'contain':
+                return `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`;
+            case 'fill':
+                return `scale=${width}:${height}`;
+            case 'outside':
+                return `scale=${width}:${height}:force_original_aspect_ratio=increase:force_divisible_by=2`;
+            case 'inside':
+            default:
+                return `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+        }
+    }
+
     /**
      * Extract poster frame from video
      * @param inputPath - Input video path
@@ -485,6 +1033,82 @@ export class VideoWorker {
         });
     }
 
+    /**
+     * Extract frames at a fixed interval and tile them into sprite sheets
+     * The last sheet is padded with blank tiles when the frames run out.
+     * @param inputPath - Input video path
+     * @param outputDir - Directory for the sheets
+     * @param intervalSeconds - Seconds between frames
+     * @param tileWidth - Tile width
+     * @param tileHeight - Tile height
+     */
+    private async extractSpriteSheets(
+        inputPath: string,
+        outputDir: string,
+        intervalSeconds: number,
+        tileWidth: number,
+        tileHeight: number
+    ): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const { columns, rows, quality } = VIDEO_CONFIG.sprites;
+            const args = [
+                '-i', inputPath,
+                '-an',
+                '-vf', `fps=1/${intervalSeconds},scale=${tileWidth}:${tileHeight},tile=${columns}x${rows}`,
+                '-q:v', String(quality),
+                '-start_number', '0',
+                '-y',
+                path.join(outputDir, 'sheet_%04d.jpg')
+            ];
+
+            console.log(`🧩 Extracting sprite sheets every ${intervalSeconds}s: ${outputDir}`);
+
+            const ffmpeg = spawn(VIDEO_CONFIG.ffmpeg.path, args);
+
+            let stderr = '';
+
+            ffmpeg.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            ffmpeg.on('close', (code) => {
+                if (code !== 0) {
+                    reject(new Error(`Sprite extraction failed: ${stderr}`));
+                    return;
+                }
+
+                console.log(`✅ Sprite sheets extracted: ${outputDir}`);
+                resolve();
+            });
+
+            ffmpeg.on('error', (error) => {
+                reject(new Error(`FFmpeg sprite extraction error: ${error.message}`));
+            });
+        });
+    }
+
+    /**
+     * File name of a sprite sheet, matching the ffmpeg output pattern
+     * @param index - Zero-based sheet index
+     */
+    private spriteSheetName(index: number): string {
+        return `sheet_${String(index).padStart(4, '0')}.jpg`;
+    }
+
+    /**
+     * Format seconds as a WebVTT timestamp (hh:mm:ss.mmm)
+     * @param seconds - Time in seconds
+     */
+    private vttTimestamp(seconds: number): string {
+        const totalMs = Math.round(seconds * 1000);
+        const hours = Math.floor(totalMs / 3600000);
+        const minutes = Math.floor((totalMs % 3600000) / 60000);
+        const secs = Math.floor((totalMs % 60000) / 1000);
+        const ms = totalMs % 1000;
+        const pad = (value: number, size = 2) => String(value).padStart(size, '0');
+        return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+    }
+
     /**
      * Generate preview clip from video
      * @param inputPath - Input video path
@@ -559,17 +1183,17 @@ export class VideoWorker {
 
     /**
      * Upload rendition file to storage
-     * @param filePath - Local file path
+     * @param source - Local file path, or the rendition itself
      * @param storageKey - Storage key
      * @param contentType - MIME type
      */
     private async uploadRendition(
-        filePath: string,
+        source: string | Buffer,
         storageKey: string,
         contentType: string
     ): Promise<void> {
         try {
-            const buffer = await fs.readFile(filePath);
+            const buffer = Buffer.isBuffer(source) ? source : await fs.readFile(source);
             
             const { url } = await this.storage.getPresignedUploadUrl(storageKey, {
                 contentType,
@@ -602,19 +1226,50 @@ export class VideoWorker {
      * @param organizationId - Organization ID
      * @param assetId - Asset ID
      * @param renditionType - Type of rendition
+     * @param extension - File extension; posters are jpg and clips mp4 unless given
      * @returns Storage key
      */
     private generateRenditionKey(
         organizationId: string,
         assetId: string,
-        renditionType: string
+        renditionType: string,
+        extension = renditionType.includes('poster') ? 'jpg' : 'mp4'
     ): string {
         const timestamp = Date.now();
-        const extension = renditionType.includes('poster') ? 'jpg' : 'mp4';
         const filename = `${renditionType}_${timestamp}.${extension}`;
         return `org/${organizationId}/assets/${assetId}/renditions/${filename}`;
     }
 
+    /**
+     * Generate storage prefix for a rendition made of many objects
+     * @param organizationId - Organization ID
+     * @param assetId - Asset ID
+     * @param renditionType - Type of rendition
+     * @returns Storage prefix ending in a slash
+     */
+    private generateRenditionPrefix(organizationId: string, assetId: string, renditionType: string): string {
+        return `org/${organizationId}/assets/${assetId}/renditions/${renditionType}_${Date.now()}/`;
+    }
+
+    /**
+     * List the files below a directory, recursively
+     * @param dirPath - Directory to list
+     * @returns File paths
+     */
+    private async listFiles(dirPath: string): Promise<string[]> {
+        const entries = await fs.readdir(dirPath, { withFileTypes: true });
+        const files: string[] = [];
+        for (const entry of entries) {
+            const entryPath = path.join(dirPath, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...await this.listFiles(entryPath));
+            } else {
+                files.push(entryPath);
+            }
+        }
+        return files;
+    }
+
     /**
      * Clean up temporary directory
      * @param dirPath - Directory path to clean up
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Webhook Worker - Outbound Event Delivery
+ * Consumes the webhook-deliveries queue: POSTs one delivery per job. Failed
+ * attempts throw so BullMQ retries them with backoff; the last attempt records
+ * the delivery as failed instead.
+ */
+import { Worker, Job } from 'bullmq';
+import { getRedisClient } from '../config/redis';
+import webhookService from '../services/webhook.service';
+import { QUEUE_NAMES, JOB_TYPES, WebhookDeliveryJobData } from '../queues';
+
+/**
+ * Webhook worker class
+ */
+export class WebhookWorker {
+    private worker: Worker;
+
+    constructor() {
+        this.worker = new Worker(
+            QUEUE_NAMES.WEBHOOKS,
+            this.processJob.bind(this),
+            {
+                connection: getRedisClient(),
+                concurrency: parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '10', 10)
+            }
+        );
+
+        this.setupEventHandlers();
+    }
+
+    /**
+     * Setup worker event handlers for monitoring
+     */
+    private setupEventHandlers(): void {
+        this.worker.on('ready', () => {
+            console.log('🪝 Webhook worker ready');
+        });
+
+        this.worker.on('completed', (job: Job, result: string) => {
+            console.log(`✅ Webhook delivery ${job.data?.deliveryId}: ${result}`);
+        });
+
+        this.worker.on('failed', (job: Job | undefined, error: Error) => {
+            console.warn(
+                `⚠️ Webhook delivery ${job?.data?.deliveryId} attempt ${job?.attemptsMade} failed:`,
+                error.message
+            );
+        });
+
+        this.worker.on('error', (error: Error) => {
+            console.error('🚨 Webhook worker error:', error);
+        });
+    }
+
+    /**
+     * Main job processing method
+     * @param job - BullMQ job instance
+     * @returns Delivery outcome
+     */
+    private async processJob(job: Job): Promise<string> {
+        switch (job.name) {
+            case JOB_TYPES.DELIVER_WEBHOOK: {
+                const data = job.data as WebhookDeliveryJobData;
+                // attemptsMade counts the attempts that already failed
+                const final = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+                return webhookService.attemptDelivery(data.deliveryId, { final });
+            }
+
+            default:
+                throw new Error(`Unknown webhook job type: ${job.name}`);
+        }
+    }
+
+    /**
+     * Gracefully close the worker
+     */
+    async close(): Promise<void> {
+        console.log('🛑 Shutting down webhook worker...');
+        await this.worker.close();
+        console.log('✅ Webhook worker closed');
+    }
+}
+
+export default WebhookWorker;